@@ -0,0 +1,93 @@
+// app/api/compare/preference/route.ts
+// Record which answer won a side-by-side comparison
+
+import { NextRequest, NextResponse } from 'next/server';
+import { strategyManager } from '@/app/lib/strategy/manager';
+import { qualityPredictor } from '@/app/lib/learning/qualityPredictor';
+
+export const runtime = 'nodejs';
+
+// Quality scores fed to the predictor - the winner reads like a thumbs-up, losers sit below a neutral vote
+const PREFERRED_QUALITY = 0.9;
+const NOT_PREFERRED_QUALITY = 0.5;
+
+interface ComparedResult {
+  model: string;
+  latencyMs?: number;
+  tokens?: { total?: number };
+}
+
+/**
+ * POST /api/compare/preference
+ * Log the preferred model as winning against each other model in the comparison.
+ * Pairs go to StrategyAnalytics (per-model win rates), and every answer is
+ * recorded with qualityPredictor under the comparison's theme and complexity.
+ *
+ * Body: { comparisonId, winner, results: { model, latencyMs?, tokens? }[], theme?, complexity?, temperature?, maxTokens? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { comparisonId, winner, results, theme, complexity, temperature, maxTokens } = await req.json();
+
+    if (typeof comparisonId !== 'string' || typeof winner !== 'string') {
+      return NextResponse.json({ error: 'comparisonId and winner are required' }, { status: 400 });
+    }
+    if (!Array.isArray(results) || !results.every(result => typeof result?.model === 'string')) {
+      return NextResponse.json({ error: 'results must be an array of { model }' }, { status: 400 });
+    }
+
+    const compared = results as ComparedResult[];
+    const winning = compared.find(result => result.model === winner);
+    const losing = compared.filter(result => result.model !== winner);
+    if (!winning || losing.length === 0) {
+      return NextResponse.json({ error: 'winner must be one of at least two compared models' }, { status: 400 });
+    }
+
+    for (const loser of losing) {
+      await strategyManager.logModelComparison({
+        comparisonId,
+        winnerModel: winning.model,
+        loserModel: loser.model,
+        theme,
+        complexityScore: complexity,
+        winnerResponseTime: winning.latencyMs,
+        loserResponseTime: loser.latencyMs,
+        winnerTokens: winning.tokens?.total,
+        loserTokens: loser.tokens?.total,
+      });
+    }
+
+    const hasLearningContext = typeof theme === 'string' && complexity !== undefined && temperature !== undefined;
+    if (hasLearningContext) {
+      for (const result of compared) {
+        const preferred = result === winning;
+        await qualityPredictor.recordOutcome(
+          theme,
+          complexity,
+          result.model,
+          temperature,
+          maxTokens || 8000,
+          false,
+          preferred ? PREFERRED_QUALITY : NOT_PREFERRED_QUALITY,
+          preferred ? 'preferred' : 'not_preferred',
+          result.latencyMs,
+          result.tokens?.total
+        );
+      }
+    }
+
+    console.log(`[Compare] ${winning.model} preferred over ${losing.map(result => result.model).join(', ')} (theme: ${theme})`);
+
+    return NextResponse.json({
+      success: true,
+      pairsRecorded: losing.length,
+      qualityPrediction: hasLearningContext,
+    });
+  } catch (error) {
+    console.error('[API /compare/preference POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record preference' },
+      { status: 500 }
+    );
+  }
+}
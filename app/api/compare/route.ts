@@ -0,0 +1,146 @@
+// app/api/compare/route.ts
+// Run one prompt against several models side by side
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+import { buildContextForLLMCall, RESPONSE_FORMAT_GUIDELINES } from '@/app/lib/domain/contextBuilder';
+import { assemblePrompt, type HistorySummary } from '@/app/lib/domain/promptAssembler';
+import { buildStrategyContext } from '@/app/lib/strategy/context';
+import { patternRecognizer } from '@/app/lib/learning/patternRecognition';
+import { getLLMProvider } from '@/app/lib/providers';
+import { getModelRegistry, resolveUsage } from '@/app/lib/models';
+
+export const runtime = 'nodejs';
+export const maxDuration = 600;
+
+const MIN_MODELS = 2;
+const MAX_MODELS = 4;
+
+/**
+ * POST /api/compare
+ * Answer the last user message with every requested model, using the same
+ * system prompt, memory context and sampling settings for each.
+ * Nothing is saved to the conversation - the chosen answer is reported via /api/compare/preference.
+ *
+ * Body: { messages: {role, content}[], models: string[], conversationId?: string, manualModeOverride?: string }
+ * Returns: { comparisonId, theme, complexity, temperature, maxTokens,
+ *            results: { model, content?, error?, latencyMs, tokens?: { prompt, completion, total, estimated } }[] }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { messages, models, conversationId, manualModeOverride } = await req.json();
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json({ error: 'messages must be a non-empty array' }, { status: 400 });
+    }
+    const lastUserMessage = messages[messages.length - 1];
+    if (lastUserMessage?.role !== 'user' || typeof lastUserMessage.content !== 'string') {
+      return NextResponse.json({ error: 'The last message must be a user message' }, { status: 400 });
+    }
+    if (!Array.isArray(models) || !models.every(model => typeof model === 'string')) {
+      return NextResponse.json({ error: 'models must be an array of model names' }, { status: 400 });
+    }
+
+    // Stale picks map onto installed models, so de-duplicate after resolving
+    const registry = getModelRegistry();
+    await registry.getModels();
+    const resolvedModels = Array.from(new Set((models as string[]).map(model => registry.resolveModel(model))));
+    if (resolvedModels.length < MIN_MODELS || resolvedModels.length > MAX_MODELS) {
+      return NextResponse.json(
+        { error: `Pick between ${MIN_MODELS} and ${MAX_MODELS} different installed models` },
+        { status: 400 }
+      );
+    }
+
+    const llmContext = await buildContextForLLMCall(lastUserMessage.content, undefined, manualModeOverride);
+    const systemPrompt = llmContext.systemPrompt + RESPONSE_FORMAT_GUIDELINES;
+
+    // Same memory context for every model
+    let memoryBlock = '';
+    let summary: HistorySummary | undefined;
+    if (typeof conversationId === 'string') {
+      try {
+        const memory = getMemoryManager();
+        await memory.initialize();
+        const augmented = await memory.augmentWithMemory(lastUserMessage.content, 5, conversationId);
+        if (augmented.retrieved_context.length > 0) {
+          memoryBlock = memory.buildMemoryContextBlock(augmented);
+        }
+        const activeSummary = memory.getActiveSummary(conversationId);
+        if (activeSummary) {
+          summary = { text: activeSummary.summary, coveredMessages: activeSummary.covered_messages };
+        }
+      } catch (error) {
+        console.warn('[Compare] Error augmenting prompt:', error);
+      }
+    }
+
+    // Learning context the preference is recorded against
+    const [strategyContext, themeDetection] = await Promise.all([
+      buildStrategyContext({
+        userMessage: lastUserMessage.content,
+        conversationHistory: messages.slice(-10),
+        manualModeOverride,
+      }),
+      patternRecognizer.detectTheme(lastUserMessage.content),
+    ]);
+
+    // Requests go out together - a backend that runs one model at a time queues them,
+    // which shows up in latency
+    const provider = getLLMProvider();
+    const results = await Promise.all(
+      resolvedModels.map(async model => {
+        const started = Date.now();
+        try {
+          // Context windows differ, so each model gets its own fit of the same parts
+          const assembled = assemblePrompt({
+            model,
+            systemPrompt,
+            memoryBlock,
+            history: messages,
+            maxTokens: llmContext.maxTokens,
+            summary,
+          });
+          const completion = await provider.chat({
+            model,
+            messages: assembled.messages,
+            temperature: llmContext.temperature,
+            maxTokens: assembled.maxTokens,
+            options: { numCtx: assembled.numCtx },
+          });
+          const content = completion.choices[0]?.message?.content || '';
+          const usage = resolveUsage(completion.usage, assembled.messages, content, model);
+          return {
+            model,
+            content,
+            latencyMs: Date.now() - started,
+            tokens: {
+              prompt: usage.promptTokens,
+              completion: usage.completionTokens,
+              total: usage.totalTokens,
+              estimated: usage.source === 'estimate',
+            },
+          };
+        } catch (error) {
+          console.warn(`[Compare] ${model} failed:`, error);
+          return { model, error: (error as Error).message || 'Generation failed', latencyMs: Date.now() - started };
+        }
+      })
+    );
+
+    return NextResponse.json({
+      comparisonId: `comparison_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      theme: themeDetection.primaryTheme,
+      complexity: strategyContext.complexityScore,
+      temperature: llmContext.temperature,
+      maxTokens: llmContext.maxTokens,
+      results,
+    });
+  } catch (error) {
+    console.error('[API /compare POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run comparison' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/conversations/[id]/branch/route.ts
+// API endpoint for paging between edited prompts and regenerated replies
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/conversations/[id]/branch
+ * Make the branch through a message active
+ *
+ * Body: { messageId: string } - typically a sibling of a message on the current branch
+ * Returns the new active branch; the RAG index follows it in the background.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { messageId } = await req.json();
+
+    if (typeof messageId !== 'string' || !messageId) {
+      return NextResponse.json({ error: 'messageId is required' }, { status: 400 });
+    }
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const branch = memory.switchBranch(id, messageId);
+    if (!branch) {
+      return NextResponse.json({ error: 'Message not found in this conversation' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      messages: branch.filter(message => message.role !== 'system'),
+    });
+  } catch (error) {
+    console.error('[API /conversations/[id]/branch POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch branch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/conversations/[id]/export/route.ts
+// API endpoint for downloading a conversation as Markdown, JSON or fine-tune JSONL
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+import { CONVERSATION_EXPORT_FORMATS, ConversationExportFormat } from '@/app/lib/memory/transfer';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/conversations/[id]/export
+ * Download a conversation
+ *
+ * Query: ?format=markdown|json|jsonl (default: markdown)
+ * json is full fidelity and can be re-imported via POST /api/conversations/import.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const format = (req.nextUrl.searchParams.get('format') || 'markdown') as ConversationExportFormat;
+
+    if (!CONVERSATION_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${CONVERSATION_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const exported = memory.exportConversation(id, format);
+    if (!exported) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return new NextResponse(exported.content, {
+      headers: {
+        'Content-Type': exported.mimeType,
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API /conversations/[id]/export GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+// app/api/conversations/[id]/route.ts
+// API endpoints for resuming, renaming, tagging and deleting a conversation
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+
+export const runtime = 'nodejs';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAGS = 20;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/conversations/[id]
+ * Fetch a conversation with the messages on its active branch (for resuming it in the chat)
+ * Each message carries sibling_ids - the alternatives the user can page between.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const conversation = memory.getConversation(id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const messages = memory
+      .getBranchMessages(id)
+      .filter(message => message.role !== 'system');
+
+    return NextResponse.json({ conversation, messages });
+  } catch (error) {
+    console.error('[API /conversations/[id] GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/conversations/[id]
+ * Rename and/or retag a conversation
+ *
+ * Body: { title?: string, tags?: string[] }
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { title, tags } = await req.json();
+
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      return NextResponse.json({ error: 'title must be a non-empty string' }, { status: 400 });
+    }
+    if (tags !== undefined && !(Array.isArray(tags) && tags.every(tag => typeof tag === 'string'))) {
+      return NextResponse.json({ error: 'tags must be an array of strings' }, { status: 400 });
+    }
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    if (!memory.getConversation(id)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const updates: { title?: string; tags?: string[] } = {};
+    if (title !== undefined) updates.title = title.trim().slice(0, MAX_TITLE_LENGTH);
+    if (tags !== undefined) {
+      // Trimmed, de-duplicated, case preserved
+      updates.tags = Array.from(new Set((tags as string[]).map(tag => tag.trim()).filter(Boolean))).slice(0, MAX_TAGS);
+    }
+
+    memory.updateConversation(id, updates);
+    return NextResponse.json({ conversation: memory.getConversation(id) });
+  } catch (error) {
+    console.error('[API /conversations/[id] PATCH] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id]
+ * Delete a conversation, its messages and its memory embeddings
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    if (!memory.getConversation(id)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    await memory.deleteConversation(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API /conversations/[id] DELETE] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/conversations/import/route.ts
+// API endpoint for restoring a JSON conversation export
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+import { ConversationImportError, parseConversationExport } from '@/app/lib/memory/transfer';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/conversations/import
+ * Create a new conversation from a JSON export
+ *
+ * Body: the JSON produced by GET /api/conversations/[id]/export?format=json
+ * Messages are queued for RAG embedding in the background.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => {
+      throw new ConversationImportError('Request body must be valid JSON');
+    });
+    const data = parseConversationExport(body);
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const conversation = memory.importConversation(data);
+    return NextResponse.json(
+      { conversation, messageCount: data.messages.length },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ConversationImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('[API /conversations/import POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// app/api/conversations/route.ts
+// API endpoints for listing, searching and creating conversations
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+
+export const runtime = 'nodejs';
+
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * GET /api/conversations
+ * List conversations, most recently updated first
+ *
+ * Query: ?search=text&tag=name&limit=50&offset=0
+ * search matches title, summary, tags and message content.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const params = req.nextUrl.searchParams;
+    const search = params.get('search') || '';
+    const tag = params.get('tag') || undefined;
+    const limit = Math.min(Math.max(Number(params.get('limit')) || 50, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(Number(params.get('offset')) || 0, 0);
+
+    const conversations = search || tag
+      ? memory.searchConversations(search, { tag, limit, offset })
+      : memory.getAllConversations(limit, offset);
+
+    return NextResponse.json({ conversations, limit, offset });
+  } catch (error) {
+    console.error('[API /conversations GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/conversations
+ * Start an empty conversation
+ *
+ * Body: { title?: string, model?: string }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { title, model } = await req.json().catch(() => ({}));
+
+    if (title !== undefined && typeof title !== 'string') {
+      return NextResponse.json({ error: 'title must be a string' }, { status: 400 });
+    }
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const conversation = memory.createConversation(
+      title?.trim() || `Chat - ${new Date().toLocaleString()}`,
+      typeof model === 'string' ? model : undefined
+    );
+
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error('[API /conversations POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create conversation' },
+      { status: 500 }
+    );
+  }
+}
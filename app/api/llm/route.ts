@@ -1,18 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMemoryManager } from '../../lib/memory';
-import { getTools, executeTools } from '../../lib/tools';
-import { buildContextForLLMCall } from '../../lib/domain/contextBuilder';
+import type { RetrievalTrace } from '../../lib/memory/schemas';
+import {
+  getTools,
+  executeTools,
+  createApproval,
+  cancelApprovals,
+  isToolAlwaysAllowed,
+  getLastReadFile,
+  ToolExecutionError,
+  type ToolConfirmHandler
+} from '../../lib/tools';
+import { buildContextForLLMCall, RESPONSE_FORMAT_GUIDELINES } from '../../lib/domain/contextBuilder';
+import { assemblePrompt, formatPromptBudget } from '../../lib/domain/promptAssembler';
 import { strategyManager } from '@/app/lib/strategy/manager';
 import type { StrategyDecision, StrategyType } from '@/app/lib/strategy/types';
-import OpenAI from 'openai';
+import { getLLMProvider, readChatStream, type GenerationOptions } from '@/app/lib/providers';
+import { addUsage, getModelRegistry, resolveUsage, type TokenUsage } from '@/app/lib/models';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat';
-
-const openai = new OpenAI({
-  baseURL: 'http://localhost:11434/v1',
-  apiKey: 'ollama',
-  timeout: 3600000, // 1 hour timeout (milliseconds) - let it cook as long as needed
-  maxRetries: 0 // Don't retry, let it cook
-});
+import type { CompletionUsage } from 'openai/resources/completions';
+
+const provider = getLLMProvider();
+
+// Runtime tuning passed through to the backend (ignored by providers that don't support it)
+const OLLAMA_RUNTIME_OPTIONS: GenerationOptions = {
+  numThread: 12,
+  numGpu: 99,
+  repeatPenalty: 1.2,
+  numBatch: 512,
+};
+
+// Tool round-trips per request when no strategy decision sets its own limit
+const DEFAULT_MAX_TOOL_LOOPS = 5;
+
+const CONVERSATION_TITLE_LENGTH = 60;
+
+/**
+ * Sidebar title for a new conversation: the opening question, cut at a word boundary
+ */
+function conversationTitleFrom(content: unknown): string {
+  const text = typeof content === 'string' ? content.replace(/\s+/g, ' ').trim() : '';
+  if (!text) return `Chat - ${new Date().toLocaleString()}`;
+  if (text.length <= CONVERSATION_TITLE_LENGTH) return text;
+
+  const cut = text.slice(0, CONVERSATION_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > CONVERSATION_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
 
 export const runtime = 'nodejs'; // Required for SQLite/Chroma
 export const maxDuration = 3600; // 60 minutes max for complex queries (local dev - Vercel limit is 300s, but we need more time for chain workflows)
@@ -25,7 +59,7 @@ export async function POST(req: NextRequest) {
 
   try {
     const {
-      model: requestedModel = 'qwen2.5-coder:7b-instruct-q5_K_M',
+      model: requestedModel = provider.config.defaultModel,
       messages,
       stream: requestedStream = true,
       enableTools: requestedEnableTools = false,
@@ -36,13 +70,17 @@ export async function POST(req: NextRequest) {
       strategyEnabled: requestStrategyEnabled = false, // NEW: Strategy system toggle
       selectedStrategy = 'balanced', // NEW: Which strategy to use
       workflowMode = 'auto', // NEW: Workflow mode ('auto' | 'chain' | 'ensemble')
+      parentMessageId, // Optional: stored message this turn follows; null starts a new root. Forks if it isn't the active leaf
+      regenerate = false, // Optional: answer the user message at parentMessageId again instead of saving a new one
     } = await req.json();
 
     // Update outer scope variables
     strategyEnabled = requestStrategyEnabled;
 
     // Initialize with requested values (may be overridden by strategy)
-    let model = requestedModel;
+    // Manual picks are mapped onto an installed model so a stale UI can't request a missing one
+    await getModelRegistry().getModels();
+    let model = getModelRegistry().resolveModel(requestedModel);
     let stream = requestedStream;
     let enableTools = requestedEnableTools;
 
@@ -51,40 +89,45 @@ export async function POST(req: NextRequest) {
     // Initialize memory system if not already initialized
     await memory.initialize();
 
-    // Create conversation if needed
+    // Create conversation if needed (or if the client's one was deleted meanwhile)
     let currentConversationId = conversationId;
-    if (!currentConversationId) {
+    if (!currentConversationId || !memory.getConversation(currentConversationId)) {
+      const firstUserMessage = messages.find((m: { role: string }) => m.role === 'user');
       const conversation = memory.createConversation(
-        `Chat - ${new Date().toLocaleString()}`,
+        conversationTitleFrom(firstUserMessage?.content),
         model
       );
       currentConversationId = conversation.id;
     }
 
+    // Branching: ids from another (or a since-deleted) conversation fall back to appending
+    const parentMessage = typeof parentMessageId === 'string' ? memory.getMessage(parentMessageId) : null;
+    const validParent = parentMessage?.conversation_id === currentConversationId ? parentMessage : null;
+    const isRegenerate = regenerate === true && validParent?.role === 'user';
+    const branchParentId: string | null | undefined = validParent
+      ? validParent.id
+      : parentMessageId === null ? null : undefined;
+    let userMessageId: string | undefined = isRegenerate ? validParent.id : undefined;
+
     // ============================================================
     // CONTEXT BUILDING: Build domain-aware system prompt
     // ============================================================
     const lastUserMessage = messages[messages.length - 1];
 
     // Build context with domain detection
+    // Without an explicit file, the last file the model read in this conversation drives detection
     const llmContext = await buildContextForLLMCall(
       lastUserMessage?.content || '',
-      filePath,
+      filePath || getLastReadFile(currentConversationId),
       manualModeOverride
     );
 
-    // Get base system prompt from domain context
-    let systemPrompt = llmContext.systemPrompt + `
-
-Keep responses clear, concise, and helpful. Use markdown formatting where appropriate:
-- Use code blocks with \`\`\` for code examples
-- Use inline code with \` for short code snippets
-- Use **bold** for emphasis
-- Use lists for structured information
-- Keep responses 1-3 sentences per concept when possible`;
+    // Get base system prompt from domain context (memory and DL blocks are added by the prompt assembler)
+    const systemPrompt = llmContext.systemPrompt + RESPONSE_FORMAT_GUIDELINES;
 
     let temperature = llmContext.temperature;
     let maxTokens = llmContext.maxTokens;
+    let maxToolLoops = DEFAULT_MAX_TOOL_LOOPS;
 
     // ============================================================
     // STRATEGY EXECUTION: Auto-select model and parameters
@@ -121,6 +164,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
         maxTokens = strategyDecision.maxTokens;
         stream = strategyDecision.streaming;
         enableTools = strategyDecision.enableTools;
+        maxToolLoops = strategyDecision.maxToolLoops;
 
         const strategyTime = Date.now() - strategyStartTime;
         console.log(`[Strategy] Decision made in ${strategyTime}ms:`, {
@@ -139,6 +183,8 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     // MEMORY AUGMENTATION: Retrieve past context
     // ============================================================
     const useMemory = true;
+    let memoryBlock = '';
+    let retrievalTrace: RetrievalTrace | undefined; // Sent to the client for the retrieval inspector
     // Augment prompt with memory if enabled and this is a user message
     if (useMemory && lastUserMessage?.role === 'user') {
       try {
@@ -147,11 +193,11 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
           5,
           currentConversationId || undefined
         );
+        retrievalTrace = augmented.trace;
 
         // Only include context if we found relevant memories
         if (augmented.retrieved_context.length > 0) {
-          // Append memory context to the domain-aware system prompt
-          systemPrompt += memory.buildMemoryContextBlock(augmented);
+          memoryBlock = memory.buildMemoryContextBlock(augmented);
 
           // Log what was retrieved (for debugging)
           console.log('[Memory] Retrieved context:');
@@ -167,6 +213,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     // DL CODE GENERATION: Get neural network predictions
     // ============================================================
     let dlSuggestion: string | null = null;
+    let dlBlock = '';
     const enableDL = process.env.ENABLE_DL_PREDICTIONS !== 'false'; // Enabled by default
 
     if (enableDL && lastUserMessage?.role === 'user') {
@@ -192,8 +239,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
             console.log('[DL] Neural network suggestion:', dlSuggestion,
                        `(confidence: ${(dlResult.prediction.confidence * 100).toFixed(1)}%)`);
 
-            // Inject DL suggestion into system prompt
-            systemPrompt += `\n\n[Neural Network Code Suggestion: "${dlSuggestion}" - Consider this if relevant to the user's request]`;
+            dlBlock = `\n\n[Neural Network Code Suggestion: "${dlSuggestion}" - Consider this if relevant to the user's request]`;
           }
         }
       } catch (error) {
@@ -203,26 +249,47 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     }
 
     // ============================================================
-    // PREPARE MESSAGES FOR LLM
+    // PREPARE MESSAGES FOR LLM: fit everything into the model's context window
     // ============================================================
-    const enhancedMessages: ChatCompletionMessageParam[] = [
-      {
-        role: 'system' as const,
-        content: systemPrompt,
-      },
-      ...messages.slice(-10), // Keep last 10 messages for context window
-    ];
+    // Offer only the tools allowed for the resolved mode and active strategy
+    const toolFilter = {
+      mode: llmContext.mode,
+      strategy: strategyEnabled ? (selectedStrategy as StrategyType) : undefined
+    };
+    const tools = enableTools ? getTools(toolFilter) : undefined;
+    // The executor refuses calls to anything not offered here
+    const allowedTools = (tools || []).flatMap(tool => (tool.type === 'function' ? [tool.function.name] : []));
+
+    // Rolling summary of the conversation so far goes on top of the history
+    const activeSummary = memory.getActiveSummary(currentConversationId);
+    const assembled = assemblePrompt({
+      model,
+      systemPrompt,
+      memoryBlock,
+      systemSuffix: dlBlock,
+      history: messages,
+      maxTokens,
+      tools,
+      summary: activeSummary ? { text: activeSummary.summary, coveredMessages: activeSummary.covered_messages } : undefined,
+    });
+    const enhancedMessages = assembled.messages;
+    maxTokens = assembled.maxTokens;
+    const runtimeOptions: GenerationOptions = { ...OLLAMA_RUNTIME_OPTIONS, numCtx: assembled.numCtx };
+    console.log(`[Prompt] ${model} ${formatPromptBudget(assembled.budget)}`);
 
     // ============================================================
     // SAVE USER MESSAGE TO MEMORY
     // ============================================================
-    if (lastUserMessage?.role === 'user') {
+    // A regenerated reply reuses the stored user message
+    if (lastUserMessage?.role === 'user' && !isRegenerate) {
       try {
-        await memory.saveMessage(
+        const saved = await memory.saveMessage(
           currentConversationId,
           'user',
-          lastUserMessage.content
+          lastUserMessage.content,
+          { parent_id: branchParentId }
         );
+        userMessageId = saved.id;
       } catch (error) {
         console.warn('[Memory] Error saving user message:', error);
       }
@@ -236,42 +303,113 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
         console.log('[Workflow] Executing multi-model workflow');
 
         const { MultiModelOrchestrator } = await import('@/app/lib/strategy/orchestrator');
+        const decision = strategyDecision;
+        const workflowMetadata = {
+          detectedTheme: decision.metadata?.detectedTheme,
+          complexityScore: decision.complexityScore,
+          temperature: temperature,
+          maxTokens: maxTokens
+        };
+
+        // Log outcome + store the assistant message (user message was saved above)
+        const finishWorkflow = async (result: { response: string; tokensUsed: number }) => {
+          if (decision.id) {
+            await strategyManager.logOutcome(decision.id, {
+              decisionId: decision.id,
+              responseQuality: 0.9, // Workflows generally produce high quality
+              responseTime: Date.now() - strategyStartTime,
+              tokensUsed: result.tokensUsed,
+              errorOccurred: false,
+              retryCount: 0,
+              userFeedback: undefined
+            });
+          }
+          const saved = await memory.saveMessage(currentConversationId, 'assistant', result.response, {
+            model_used: model,
+            tokens_used: result.tokensUsed,
+            parent_id: userMessageId
+          });
+          return saved.id;
+        };
+
+        // ============================================================
+        // STREAMING WORKFLOW: forward step/vote events as they happen
+        // ============================================================
+        if (stream) {
+          const encoder = new TextEncoder();
+
+          return new Response(
+            new ReadableStream({
+              async start(controller) {
+                const send = (payload: object) => {
+                  controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+                };
+
+                try {
+                  send({
+                    type: 'metadata',
+                    decisionId: decision.id,
+                    theme: workflowMetadata.detectedTheme,
+                    complexity: workflowMetadata.complexityScore,
+                    temperature: temperature,
+                    maxTokens: maxTokens,
+                    modelUsed: decision.selectedModel,
+                    strategy: decision.strategyName,
+                    conversationId: currentConversationId,
+                    userMessageId,
+                    retrievalTrace
+                  });
+
+                  const workflowResult = await MultiModelOrchestrator.executeWorkflow(
+                    decision,
+                    enhancedMessages,
+                    lastUserMessage?.content || '',
+                    event => send({ type: 'workflow', event })
+                  );
+
+                  // Final merged answer goes out as a regular content delta
+                  send({ choices: [{ delta: { content: workflowResult.response } }] });
+                  send({ type: 'workflow_result', workflowMetadata: workflowResult.workflowMetadata });
+
+                  const messageId = await finishWorkflow(workflowResult);
+                  send({ type: 'saved', messageId });
+                  controller.close();
+                } catch (error) {
+                  console.error('[Workflow] Error executing streaming workflow:', error);
+                  send({
+                    type: 'error',
+                    error: error instanceof Error ? error.message : 'Workflow failed'
+                  });
+                  controller.close();
+                }
+              },
+            }),
+            {
+              headers: { 'Content-Type': 'text/event-stream' },
+            }
+          );
+        }
+
         const workflowResult = await MultiModelOrchestrator.executeWorkflow(
-          strategyDecision,
+          decision,
           enhancedMessages,
           lastUserMessage?.content || ''
         );
 
-        // Log workflow outcome
-        if (strategyDecision.id) {
-          await strategyManager.logOutcome(strategyDecision.id, {
-            decisionId: strategyDecision.id,
-            responseQuality: 0.9, // Workflows generally produce high quality
-            responseTime: Date.now() - strategyStartTime,
-            tokensUsed: workflowResult.tokensUsed,
-            errorOccurred: false,
-            retryCount: 0,
-            userFeedback: undefined
-          });
-        }
-
-        // Store message and return response
-        await memory.saveMessage(currentConversationId, 'user', lastUserMessage.content);
-        await memory.saveMessage(currentConversationId, 'assistant', workflowResult.response, model);
+        const messageId = await finishWorkflow(workflowResult);
 
         return new NextResponse(
           JSON.stringify({
             content: workflowResult.response,
-            model: strategyDecision.selectedModel,
-            strategy: strategyDecision.strategyName,
+            model: decision.selectedModel,
+            strategy: decision.strategyName,
             workflowMetadata: workflowResult.workflowMetadata,
-            decisionId: strategyDecision.id,
-            metadata: {
-              detectedTheme: strategyDecision.metadata?.detectedTheme,
-              complexityScore: strategyDecision.complexityScore,
-              temperature: temperature,
-              maxTokens: maxTokens
-            }
+            decisionId: decision.id,
+            conversationId: currentConversationId,
+            userMessageId,
+            messageId,
+            metadata: workflowMetadata,
+            retrievalTrace
           }),
           { headers: { 'Content-Type': 'application/json' } }
         );
@@ -315,58 +453,53 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     }
 
     if (stream) {
-      const body: any = {
+      const conversation: ChatCompletionMessageParam[] = [...enhancedMessages];
+      const streamTurn = () => provider.chatStream({
         model,
-        messages: enhancedMessages,
-        max_tokens: maxTokens,
-        temperature: temperature,
-        top_p: 0.85,
-        stream: true,
-        options: {
-          num_thread: 12,
-          num_gpu: 99,
-          num_ctx: 8192, // Reduced from 16384 for faster processing
-          repeat_penalty: 1.2,
-          num_batch: 512,
-          num_predict: maxTokens,
-        },
-      };
-
-      if (enableTools) {
-        const tools = getTools();
-        body.tools = tools;
-        body.tool_choice = 'auto';
-      }
-
-      const url = 'http://localhost:11434/v1/chat/completions';
-
-      // Undici is configured globally in instrumentation.ts with no timeouts
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Connection': 'keep-alive'
-        },
-        body: JSON.stringify(body)
+        messages: conversation,
+        maxTokens,
+        temperature,
+        topP: 0.85,
+        tools,
+        options: runtimeOptions,
       });
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Ollama error: ${response.status} - ${error}`);
-      }
+      // Undici is configured globally in instrumentation.ts with no timeouts
+      // First turn is requested up front so connection errors surface as HTTP errors
+      const response = await streamTurn();
 
     // ============================================================
     // HANDLE STREAMING RESPONSE
     // ============================================================
       // For streaming, collect the response and save to memory after
       let fullContent = '';
+      let usage: TokenUsage | null = null; // Summed across tool-loop turns
 
       return new Response(
         new ReadableStream({
           async start(controller) {
             try {
-              const reader = response.body?.getReader();
-              if (!reader) throw new Error('No response body');
+              const send = (payload: object) => {
+                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(payload)}\n\n`));
+              };
+
+              // Pause on needs-confirmation tools until the user answers via /api/tools/approvals
+              const confirmTool: ToolConfirmHandler = async (call, args) => {
+                if (await isToolAlwaysAllowed(currentConversationId, call.function.name)) return true;
+
+                const { approvalId, decision } = createApproval(currentConversationId, call);
+                send({
+                  type: 'tool_approval_required',
+                  approvalId,
+                  id: call.id,
+                  name: call.function.name,
+                  arguments: args
+                });
+
+                const { approved, reason } = await decision;
+                send({ type: 'tool_approval_resolved', approvalId, id: call.id, approved, reason });
+                return approved;
+              };
 
               // Send metadata first for frontend feedback tracking
               // Either strategy decision or mode interaction
@@ -378,58 +511,135 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
                   complexity: strategyDecision.complexityScore,
                   temperature: temperature,
                   maxTokens: maxTokens,
-                  modelUsed: model
+                  modelUsed: model,
+                  conversationId: currentConversationId,
+                  userMessageId,
+                  retrievalTrace
                 };
-                controller.enqueue(
-                  new TextEncoder().encode(`data: ${JSON.stringify(metadataChunk)}\n\n`)
-                );
+                send(metadataChunk);
               } else if (modeInteractionId) {
                 // Send mode interaction ID for voting without strategy
                 const metadataChunk = {
                   type: 'metadata',
                   decisionId: modeInteractionId,
                   mode: manualModeOverride || 'auto',
-                  modelUsed: model
+                  modelUsed: model,
+                  conversationId: currentConversationId,
+                  userMessageId,
+                  retrievalTrace
                 };
-                controller.enqueue(
-                  new TextEncoder().encode(`data: ${JSON.stringify(metadataChunk)}\n\n`)
-                );
+                send(metadataChunk);
+              } else {
+                // Client still needs the conversation ID to continue the same conversation
+                send({ type: 'metadata', modelUsed: model, conversationId: currentConversationId, userMessageId, retrievalTrace });
               }
 
+              // ============================================================
+              // STREAM + TOOL LOOP: forward content, run tool calls, resume
+              // ============================================================
+              let turnResponse = response;
+              let toolLoops = 0;
+
               while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const text = new TextDecoder().decode(value);
-                const lines = text.split('\n');
-
-                for (const line of lines) {
-                  if (line.startsWith('data: ')) {
-                    try {
-                      const json = JSON.parse(line.slice(6));
-                      const content = json.choices[0]?.delta?.content || '';
-                      if (content) {
-                        fullContent += content;
-                        controller.enqueue(new TextEncoder().encode(line + '\n'));
-                      }
-                    } catch {
-                      // Invalid JSON, skip
-                    }
+                let turnContent = '';
+                let turnUsage: CompletionUsage | undefined;
+                const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+                for await (const chunk of readChatStream(turnResponse)) {
+                  // The final chunk carries usage (stream_options.include_usage) and no choices
+                  if (chunk.usage) turnUsage = chunk.usage;
+
+                  const delta = chunk.choices?.[0]?.delta;
+                  if (!delta) continue;
+
+                  if (delta.content) {
+                    turnContent += delta.content;
+                    fullContent += delta.content;
+                    send({ choices: [{ delta: { content: delta.content } }] });
+                  }
+
+                  // Tool calls arrive in fragments keyed by index (name first, then argument pieces)
+                  for (const toolDelta of delta.tool_calls || []) {
+                    const index = toolDelta.index ?? pendingCalls.size;
+                    const pending = pendingCalls.get(index) || { id: '', name: '', arguments: '' };
+                    if (toolDelta.id) pending.id = toolDelta.id;
+                    if (toolDelta.function?.name) pending.name += toolDelta.function.name;
+                    if (toolDelta.function?.arguments) pending.arguments += toolDelta.function.arguments;
+                    pendingCalls.set(index, pending);
                   }
                 }
+
+                const turnCompletion = turnContent + Array.from(pendingCalls.values()).map(call => call.name + call.arguments).join('');
+                usage = addUsage(usage, resolveUsage(turnUsage, conversation, turnCompletion, model));
+
+                if (pendingCalls.size === 0) break;
+
+                toolLoops++;
+                if (toolLoops > maxToolLoops) {
+                  console.warn(`[Tools] Max tool loop iterations reached (${maxToolLoops})`);
+                  send({ type: 'error', error: `Max tool loop iterations reached (${maxToolLoops})` });
+                  break;
+                }
+
+                const toolCalls = Array.from(pendingCalls.values()).map((call, i) => ({
+                  id: call.id || `call_${Date.now()}_${i}`,
+                  type: 'function' as const,
+                  function: { name: call.name, arguments: call.arguments || '{}' }
+                }));
+
+                for (const call of toolCalls) {
+                  send({ type: 'tool_call', id: call.id, name: call.function.name, arguments: call.function.arguments });
+                }
+
+                conversation.push({
+                  role: 'assistant',
+                  content: turnContent || null,
+                  tool_calls: toolCalls
+                });
+
+                await executeTools(toolCalls, conversation, {
+                  conversationId: currentConversationId,
+                  allowedTools,
+                  confirm: confirmTool,
+                  onResult: (call, outcome) => send({
+                    type: 'tool_result',
+                    id: call.id,
+                    name: call.function.name,
+                    content: outcome.content,
+                    attachments: outcome.attachments
+                  })
+                });
+
+                // Separate pre-tool text from the continuation in the saved transcript
+                if (turnContent) {
+                  fullContent += '\n\n';
+                  send({ choices: [{ delta: { content: '\n\n' } }] });
+                }
+
+                turnResponse = await streamTurn();
               }
 
+              if (usage) send({ type: 'usage', usage });
+
               // ============================================================
               // SAVE ASSISTANT RESPONSE TO MEMORY (after streaming)
               // ============================================================
               if (fullContent) {
                 try {
-                  await memory.saveMessage(
+                  const saved = await memory.saveMessage(
                     currentConversationId,
                     'assistant',
                     fullContent,
-                    { model_used: model }
+                    {
+                      model_used: model,
+                      tokens_used: usage?.totalTokens,
+                      prompt_tokens: usage?.promptTokens,
+                      completion_tokens: usage?.completionTokens,
+                      parent_id: userMessageId
+                    }
                   );
+                  // Client needs the stored id to offer regenerate / branch paging
+                  send({ type: 'saved', messageId: saved.id });
                 } catch (error) {
                   console.warn('[Memory] Error saving assistant message:', error);
                 }
@@ -445,7 +655,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
                     decisionId: strategyDecision.id,
                     responseQuality: 0.8, // Default quality, can be improved with feedback
                     responseTime: responseTime,
-                    tokensUsed: fullContent.length / 4, // Rough estimate
+                    tokensUsed: usage?.totalTokens ?? 0,
                     errorOccurred: false,
                     retryCount: 0
                   });
@@ -462,7 +672,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
                 try {
                   const { modeAnalytics } = await import('@/app/lib/domain/modeAnalytics');
                   const responseTime = Date.now() - strategyStartTime;
-                  const tokensUsed = Math.floor(fullContent.length / 4); // Rough estimate
+                  const tokensUsed = usage?.totalTokens ?? 0;
 
                   // Update with actual metrics (quality will be updated by user feedback later)
                   await modeAnalytics.updateMetrics(modeInteractionId, responseTime, tokensUsed);
@@ -478,6 +688,10 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
               controller.error(error);
             }
           },
+          cancel() {
+            // Client went away - don't leave tool approvals waiting for an answer
+            cancelApprovals(currentConversationId);
+          },
         }),
         {
           headers: { 'Content-Type': 'text/event-stream' },
@@ -486,31 +700,34 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     }
 
     // ============================================================
-    // HANDLE NON-STREAMING RESPONSE (using OpenAI SDK)
+    // HANDLE NON-STREAMING RESPONSE
     // ============================================================
-    // Use OpenAI SDK for non-streaming with proper types
-    const completion = await openai.chat.completions.create({
+    const completion = await provider.chat({
       model,
       messages: enhancedMessages,
-      max_tokens: maxTokens,
-      temperature: temperature,
-      top_p: 0.85,
-      stream: false,
-      tools: enableTools ? getTools() : undefined,
-      tool_choice: enableTools ? 'auto' : undefined,
-      // @ts-ignore - Ollama-specific options
-      num_ctx: 8192, // Reduced from 16384 for faster processing
-      num_thread: 12,
-      num_gpu: 99,
-    } as any); // Cast to any for Ollama-specific options compatibility
+      maxTokens,
+      temperature,
+      topP: 0.85,
+      tools,
+      options: runtimeOptions,
+    });
 
     let currentCompletion = completion;
     let allMessages = enhancedMessages;
+    let usage = resolveUsage(completion.usage, enhancedMessages, completion.choices[0].message.content || '', model);
+
+    // No way to pause a JSON response - only tools the user already trusts may run
+    const confirmTool: ToolConfirmHandler = async call => {
+      if (await isToolAlwaysAllowed(currentConversationId, call.function.name)) return true;
+      throw new ToolExecutionError(
+        `Tool ${call.function.name} requires user approval, which is only available in streaming chat`,
+        'approval_required'
+      );
+    };
 
-    // Tool looping with OpenAI SDK
+    // Tool looping
     if (enableTools) {
       let loopCount = 0;
-      const maxLoops = 5;
 
       while (true) {
         const message = currentCompletion.choices[0].message;
@@ -518,20 +735,20 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
         // Check for proper tool_calls format
         if (message.tool_calls?.length) {
           loopCount++;
-          if (loopCount > maxLoops) {
+          if (loopCount > maxToolLoops) {
             throw new Error('Max tool loop iterations reached');
           }
 
           const toolCalls = message.tool_calls;
           allMessages.push(message as ChatCompletionMessageParam);
-          allMessages = await executeTools(toolCalls as any, allMessages);
+          allMessages = await executeTools(toolCalls as any, allMessages, { conversationId: currentConversationId, allowedTools, confirm: confirmTool });
 
           // Make another call with the updated messages
-          currentCompletion = await openai.chat.completions.create({
+          currentCompletion = await provider.chat({
             model,
             messages: allMessages,
-            stream: false,
-          } as any);
+          });
+          usage = addUsage(usage, resolveUsage(currentCompletion.usage, allMessages, currentCompletion.choices[0].message.content || '', model));
           continue;
         }
 
@@ -555,7 +772,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
 
               if (toolCall.name && toolCall.arguments) {
                 loopCount++;
-                if (loopCount > maxLoops) {
+                if (loopCount > maxToolLoops) {
                   throw new Error('Max tool loop iterations reached');
                 }
 
@@ -579,14 +796,14 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
                 } as any);
 
                 // Execute the tool
-                allMessages = await executeTools([syntheticToolCall] as any, allMessages);
+                allMessages = await executeTools([syntheticToolCall] as any, allMessages, { conversationId: currentConversationId, allowedTools, confirm: confirmTool });
 
                 // Make another call with the updated messages
-                currentCompletion = await openai.chat.completions.create({
+                currentCompletion = await provider.chat({
                   model,
                   messages: allMessages,
-                  stream: false,
-                } as any);
+                });
+                usage = addUsage(usage, resolveUsage(currentCompletion.usage, allMessages, currentCompletion.choices[0].message.content || '', model));
                 continue;
               }
             } catch (e) {
@@ -606,13 +823,21 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     // ============================================================
     // SAVE ASSISTANT RESPONSE TO MEMORY (non-streaming)
     // ============================================================
+    let assistantMessageId: string | undefined;
     try {
-      await memory.saveMessage(
+      const saved = await memory.saveMessage(
         currentConversationId,
         'assistant',
         assistantMessage,
-        { model_used: model }
+        {
+          model_used: model,
+          tokens_used: usage.totalTokens,
+          prompt_tokens: usage.promptTokens,
+          completion_tokens: usage.completionTokens,
+          parent_id: userMessageId
+        }
       );
+      assistantMessageId = saved.id;
     } catch (error) {
       console.warn('[Memory] Error saving assistant message:', error);
     }
@@ -623,7 +848,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     if (strategyEnabled && strategyDecision) {
       try {
         const responseTime = Date.now() - strategyStartTime;
-        const tokensUsed = currentCompletion.usage?.total_tokens || assistantMessage.length / 4;
+        const tokensUsed = usage.totalTokens;
 
         await strategyManager.logOutcome(strategyDecision.id, {
           decisionId: strategyDecision.id,
@@ -646,7 +871,7 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
       try {
         const { modeAnalytics } = await import('@/app/lib/domain/modeAnalytics');
         const responseTime = Date.now() - strategyStartTime;
-        const tokensUsed = currentCompletion.usage?.total_tokens || Math.floor(assistantMessage.length / 4);
+        const tokensUsed = usage.totalTokens;
 
         await modeAnalytics.updateMetrics(modeInteractionId, responseTime, tokensUsed);
         console.log(`[Mode] Metrics updated: ${modeInteractionId} (${responseTime}ms, ${tokensUsed} tokens)`);
@@ -659,6 +884,10 @@ Keep responses clear, concise, and helpful. Use markdown formatting where approp
     return NextResponse.json({
       ...currentCompletion.choices[0].message,
       conversationId: currentConversationId,
+      userMessageId,
+      messageId: assistantMessageId,
+      usage,
+      retrievalTrace,
       autoSelectedModel: strategyEnabled ? model : undefined,
       // Return either strategy decisionId or mode interactionId for voting
       decisionId: strategyEnabled && strategyDecision ? strategyDecision.id : modeInteractionId,
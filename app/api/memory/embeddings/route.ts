@@ -0,0 +1,64 @@
+// app/api/memory/embeddings/route.ts
+// API endpoint for the background embedding queue
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/memory/embeddings
+ * Queue depth (pending / due / in flight), failures and limits
+ */
+export async function GET() {
+  try {
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    return NextResponse.json({ queue: memory.getEmbeddingQueueStatus() });
+  } catch (error) {
+    console.error('[API /memory/embeddings GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read embedding queue' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/memory/embeddings
+ * Admin actions
+ *
+ * Body: { action: 'retry_failed' } - give failed embeddings a fresh set of attempts
+ *       { action: 'reembed_all' }  - re-embed every message, summary and the profile
+ *                                    (after changing the embedding model or provider)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { action } = await req.json();
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    if (action === 'retry_failed') {
+      const requeued = memory.retryFailedEmbeddings();
+      return NextResponse.json({ requeued, queue: memory.getEmbeddingQueueStatus() });
+    }
+
+    if (action === 'reembed_all') {
+      const scheduled = memory.reembedEverything();
+      return NextResponse.json({ scheduled, queue: memory.getEmbeddingQueueStatus() });
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid action. Supported actions: retry_failed, reembed_all' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('[API /memory/embeddings POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run embedding action' },
+      { status: 500 }
+    );
+  }
+}
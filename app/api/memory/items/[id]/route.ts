@@ -0,0 +1,84 @@
+// app/api/memory/items/[id]/route.ts
+// API endpoints for pinning, editing and forgetting one memory
+// id is a message id, summary_<conversation id> or profile_default
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/memory/items/[id]
+ * Pin/unpin a memory, and/or replace a conversation summary's text
+ *
+ * Body: { pinned?: boolean, summary?: string }
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { pinned, summary } = await req.json();
+
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return NextResponse.json({ error: 'pinned must be a boolean' }, { status: 400 });
+    }
+    if (summary !== undefined && (typeof summary !== 'string' || !summary.trim())) {
+      return NextResponse.json({ error: 'summary must be a non-empty string' }, { status: 400 });
+    }
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    let item = memory.getMemoryItem(id);
+    if (!item) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    if (summary !== undefined) {
+      if (item.type !== 'conversation_summary' || !item.conversation_id) {
+        return NextResponse.json({ error: 'Only conversation summaries can be edited' }, { status: 400 });
+      }
+      item = await memory.editConversationSummary(item.conversation_id, summary.trim()) ?? item;
+    }
+
+    if (pinned !== undefined) {
+      item = memory.pinMemoryItem(id, pinned) ?? item;
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error('[API /memory/items/[id] PATCH] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update memory' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/memory/items/[id]
+ * Forget a memory: a message is removed from keyword search and the vector store
+ * (it stays in its conversation), a summary or the profile is deleted
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    if (!(await memory.forgetMemoryItem(id))) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API /memory/items/[id] DELETE] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to forget memory' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+// app/api/memory/items/route.ts
+// API endpoints for the memory browser: list memories, forget a conversation's memories
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemoryManager } from '@/app/lib/memory';
+import type { MemoryItem } from '@/app/lib/memory/schemas';
+
+export const runtime = 'nodejs';
+
+const MAX_PAGE_SIZE = 200;
+const ITEM_TYPES: MemoryItem['type'][] = ['message', 'conversation_summary', 'user_profile'];
+
+/**
+ * GET /api/memory/items
+ * Embedded messages, conversation summaries and the profile with their retrieval hit counts
+ * Pinned first, then most retrieved
+ *
+ * Query: ?type=message|conversation_summary|user_profile&search=text&pinned=true&limit=50&offset=0
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const type = params.get('type') || undefined;
+    if (type && !ITEM_TYPES.includes(type as MemoryItem['type'])) {
+      return NextResponse.json(
+        { error: `type must be one of: ${ITEM_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const pinned = params.get('pinned');
+    const limit = Math.min(Math.max(Number(params.get('limit')) || 50, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(Number(params.get('offset')) || 0, 0);
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const { items, total } = memory.listMemoryItems({
+      type: type as MemoryItem['type'] | undefined,
+      query: params.get('search') || undefined,
+      pinned: pinned === null ? undefined : pinned === 'true',
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ items, total, limit, offset });
+  } catch (error) {
+    console.error('[API /memory/items GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list memories' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/memory/items?conversation_id=...
+ * Forget everything remembered from a conversation (its messages and summary)
+ * The conversation itself is kept.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const conversationId = req.nextUrl.searchParams.get('conversation_id');
+    if (!conversationId) {
+      return NextResponse.json({ error: 'conversation_id is required' }, { status: 400 });
+    }
+
+    const memory = getMemoryManager();
+    await memory.initialize();
+
+    const forgotten = await memory.forgetConversationMemory(conversationId);
+    if (forgotten === null) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ forgotten });
+  } catch (error) {
+    console.error('[API /memory/items DELETE] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to forget conversation memories' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+// app/api/models/route.ts
+// API endpoint for the model registry (installed models + user annotations)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getModelRegistry, type ModelAnnotation, type ModelTier } from '@/app/lib/models';
+
+export const runtime = 'nodejs';
+
+const VALID_TIERS: ModelTier[] = ['fast', 'balanced', 'quality', 'expert'];
+
+/**
+ * GET /api/models
+ * Returns installed models with parsed metadata
+ *
+ * Query params:
+ * - refresh: 'true' to force a sync with the provider
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const refresh = searchParams.get('refresh') === 'true';
+
+    const registry = getModelRegistry();
+    const models = await registry.getModels(refresh);
+
+    return NextResponse.json({
+      models,
+      ...registry.getStatus()
+    });
+  } catch (error) {
+    console.error('[API /models] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load models' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/models
+ * Annotate a model (display name, tier, strengths, weaknesses)
+ *
+ * Body: { name: string, displayName?, type?, strengths?: string[], weaknesses?: string[] }
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const { name, displayName, type, strengths, weaknesses } = await req.json();
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    if (type !== undefined && !VALID_TIERS.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${VALID_TIERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const isStringList = (value: unknown) =>
+      Array.isArray(value) && value.every(v => typeof v === 'string');
+
+    if ((strengths !== undefined && !isStringList(strengths)) ||
+        (weaknesses !== undefined && !isStringList(weaknesses))) {
+      return NextResponse.json(
+        { error: 'strengths and weaknesses must be string arrays' },
+        { status: 400 }
+      );
+    }
+
+    const annotation: ModelAnnotation = {};
+    if (typeof displayName === 'string' && displayName.trim()) annotation.displayName = displayName.trim();
+    if (type) annotation.type = type;
+    if (strengths) annotation.strengths = strengths;
+    if (weaknesses) annotation.weaknesses = weaknesses;
+
+    const model = await getModelRegistry().annotate(name, annotation);
+
+    return NextResponse.json({ model });
+  } catch (error) {
+    console.error('[API /models] Error saving annotation:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save annotation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/models?name=<model>
+ * Remove user annotations for a model
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const name = new URL(req.url).searchParams.get('name');
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    await getModelRegistry().clearAnnotation(name);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API /models] Error clearing annotation:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to clear annotation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// app/api/providers/route.ts
+// API endpoint for LLM provider health and model discovery
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLLMProvider } from '@/app/lib/providers';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/providers
+ * Returns the active provider, its health and (optionally) installed models
+ *
+ * Query params:
+ * - models: 'false' to skip model listing (default: 'true')
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const includeModels = searchParams.get('models') !== 'false';
+
+    const provider = getLLMProvider();
+    const health = await provider.healthCheck();
+
+    let models = undefined;
+    let modelsError: string | undefined;
+    if (includeModels && health.healthy) {
+      try {
+        models = await provider.listModels();
+      } catch (error) {
+        modelsError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return NextResponse.json({
+      provider: provider.type,
+      baseURL: provider.config.baseURL,
+      defaultModel: provider.config.defaultModel,
+      health,
+      models,
+      modelsError
+    }, { status: health.healthy ? 200 : 503 });
+  } catch (error) {
+    console.error('[API /providers] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to query provider' },
+      { status: 500 }
+    );
+  }
+}
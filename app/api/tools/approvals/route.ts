@@ -0,0 +1,94 @@
+// app/api/tools/approvals/route.ts
+// API endpoint for answering pending tool approvals and managing "always allow"
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAlwaysAllowedTools,
+  resolveApproval,
+  setToolAlwaysAllowed
+} from '@/app/lib/tools';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/tools/approvals
+ * Approve or deny a tool call the chat stream is waiting on
+ *
+ * Body: { approvalId: string, decision: 'approve' | 'deny', alwaysAllow?: boolean }
+ * alwaysAllow (with approve) skips the prompt for this tool for the rest of the conversation.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { approvalId, decision, alwaysAllow = false } = await req.json();
+
+    if (!approvalId || typeof approvalId !== 'string') {
+      return NextResponse.json({ error: 'approvalId is required' }, { status: 400 });
+    }
+
+    if (decision !== 'approve' && decision !== 'deny') {
+      return NextResponse.json({ error: "decision must be 'approve' or 'deny'" }, { status: 400 });
+    }
+
+    const resolved = await resolveApproval(approvalId, decision === 'approve', alwaysAllow === true);
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'Approval not found or already answered' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...resolved, decision });
+  } catch (error) {
+    console.error('[API /tools/approvals] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve approval' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/tools/approvals?conversationId=<id>
+ * Tools the user has always-allowed for a conversation
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const conversationId = new URL(req.url).searchParams.get('conversationId');
+    if (!conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ conversationId, tools: await getAlwaysAllowedTools(conversationId) });
+  } catch (error) {
+    console.error('[API /tools/approvals] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load approvals' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tools/approvals?conversationId=<id>&tool=<name>
+ * Revoke "always allow" so the tool asks again
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const conversationId = searchParams.get('conversationId');
+    const tool = searchParams.get('tool');
+
+    if (!conversationId || !tool) {
+      return NextResponse.json({ error: 'conversationId and tool are required' }, { status: 400 });
+    }
+
+    await setToolAlwaysAllowed(conversationId, tool, false);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API /tools/approvals] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke approval' },
+      { status: 500 }
+    );
+  }
+}
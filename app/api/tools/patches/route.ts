@@ -0,0 +1,59 @@
+// app/api/tools/patches/route.ts
+// API endpoint for writing accepted propose_patch hunks to the workspace
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ToolExecutionError, getProposedPatch, writePatch } from '@/app/lib/tools';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/tools/patches
+ * Apply accepted hunks of one file from a propose_patch proposal to disk
+ *
+ * Body: { proposalId: string, path: string, hunks?: number[] }
+ * Only hunks the propose_patch tool validated and stored can be written; hunks defaults to all.
+ * The hunks are re-checked against the current file, so stale or already-applied hunks return 409.
+ * JSON only, so a cross-site form or text/plain POST can't reach the workspace.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!req.headers.get('content-type')?.toLowerCase().startsWith('application/json')) {
+      return NextResponse.json({ error: 'Content-Type must be application/json' }, { status: 415 });
+    }
+
+    const { proposalId, path, hunks } = await req.json();
+
+    if (!proposalId || typeof proposalId !== 'string' || !path || typeof path !== 'string') {
+      return NextResponse.json({ error: 'proposalId and path are required' }, { status: 400 });
+    }
+
+    const patch = getProposedPatch(proposalId, path);
+    if (!patch) {
+      return NextResponse.json(
+        { error: 'Unknown or expired proposal - ask for the patch again' },
+        { status: 404 }
+      );
+    }
+
+    if (
+      hunks !== undefined &&
+      !(Array.isArray(hunks) && hunks.every(h => Number.isInteger(h) && h >= 0 && h < patch.hunks.length))
+    ) {
+      return NextResponse.json({ error: 'hunks must be an array of hunk indexes' }, { status: 400 });
+    }
+
+    const result = await writePatch(patch, hunks);
+    return NextResponse.json({ success: true, ...result, hunks: hunks ?? patch.hunks.map((_, i) => i) });
+  } catch (error) {
+    if (error instanceof ToolExecutionError) {
+      const status = error.code === 'access_denied' ? 403 : error.code === 'not_found' ? 404 : 409;
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status });
+    }
+
+    console.error('[API /tools/patches] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to apply patch' },
+      { status: 500 }
+    );
+  }
+}
@@ -145,6 +145,18 @@ Reasoning: ${detection.reasoning}`;
   }
 }
 
+/**
+ * Output-format guidance appended to every chat system prompt
+ */
+export const RESPONSE_FORMAT_GUIDELINES = `
+
+Keep responses clear, concise, and helpful. Use markdown formatting where appropriate:
+- Use code blocks with \`\`\` for code examples
+- Use inline code with \` for short code snippets
+- Use **bold** for emphasis
+- Use lists for structured information
+- Keep responses 1-3 sentences per concept when possible`;
+
 /**
  * Convenience function for building context in API routes
  */
@@ -154,6 +166,7 @@ export async function buildContextForLLMCall(
   manualModeOverride?: InteractionMode
 ): Promise<{
   systemPrompt: string;
+  mode: InteractionMode;
   temperature: number;
   maxTokens: number;
 }> {
@@ -179,6 +192,7 @@ export async function buildContextForLLMCall(
 
   return {
     systemPrompt: context.systemPrompt,
+    mode: context.mode,
     temperature: context.temperature,
     maxTokens: context.maxTokens,
   };
@@ -96,6 +96,7 @@ IMPORTANT:
 - Explain WHY something is better (not just that it is)
 - Acknowledge when existing code is good
 - Be concrete: "line 15 could be..." not "this is unclear"
+- When the propose_patch tool is available and the code lives in the workspace, put concrete changes in a propose_patch call (read the file first so the diff context matches) and keep the prose for the reasoning
 
 Keep feedback actionable and specific. If suggesting changes, show the improved version.`,
 
@@ -0,0 +1,224 @@
+// app/lib/domain/promptAssembler.ts
+/**
+ * Prompt Assembler
+ * Fits the system prompt, memory context, conversation history and the reply
+ * into the selected model's context window. The rolling conversation summary
+ * sits at the top of the history, then the newest turns that fit - older ones
+ * are dropped first.
+ */
+
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat';
+import { countMessageTokens, countTokens, getModelRegistry, messageTokens, truncateToTokens } from '../models';
+import { getMemoryConfig } from '../memory/config';
+
+// Used when the registry has no entry for the model
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// KV cache grows with num_ctx, so very long windows are capped (LLM_MAX_CONTEXT)
+const DEFAULT_MAX_CONTEXT = 32768;
+
+// The reply gets what was asked for, up to a quarter of the window (never less than this)
+const RESPONSE_WINDOW_SHARE = 0.25;
+const MIN_RESPONSE_TOKENS = 512;
+
+// Memory may take at most this share of what is left after the fixed parts
+const MEMORY_SHARE = 0.5;
+// The conversation summary may take at most this share of what is left after memory
+const SUMMARY_SHARE = 0.25;
+// A summary squeezed below this is not worth including
+const MIN_SUMMARY_TOKENS = 64;
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface PromptParts {
+  model: string;
+  systemPrompt: string;              // Domain + mode prompt and format guidelines
+  memoryBlock?: string;              // From buildMemoryContextBlock - trimmed to the memory budget
+  systemSuffix?: string;             // Small extras kept verbatim (e.g. the DL suggestion)
+  history: ConversationTurn[];       // Oldest first, ending with the message being answered
+  maxTokens: number;                 // Requested reply length
+  tools?: ChatCompletionTool[];      // Tool definitions count against the window too
+  summary?: HistorySummary;          // Rolling summary of the start of the conversation
+}
+
+export interface HistorySummary {
+  text: string;
+  coveredMessages: number;           // Leading history turns it summarizes
+}
+
+/**
+ * Where the window went - logged per request
+ */
+export interface PromptBudget {
+  contextWindow: number;
+  system: number;
+  memory: number;
+  summary: number;
+  history: number;
+  tools: number;
+  response: number;
+  keptMessages: number;
+  droppedMessages: number;
+  memoryTruncated: boolean;
+}
+
+export interface AssembledPrompt {
+  messages: ChatCompletionMessageParam[];
+  numCtx: number;     // Pass to the backend so it allocates the whole window
+  maxTokens: number;  // Requested length, clamped to what is left after the prompt
+  budget: PromptBudget;
+}
+
+/**
+ * Context window to run the model with: its registry entry, capped by LLM_MAX_CONTEXT
+ */
+export function getContextWindow(model: string): number {
+  const maxContext = parseInt(process.env.LLM_MAX_CONTEXT || String(DEFAULT_MAX_CONTEXT), 10);
+  const window = getModelRegistry().findModel(model)?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  return Math.min(window, maxContext > 0 ? maxContext : DEFAULT_MAX_CONTEXT);
+}
+
+/**
+ * Build the message list for one LLM call within the model's context window
+ *
+ * Always kept: system prompt, the latest message and the reply reservation.
+ * Memory gets up to ragTokenBudget (and at most half of what remains), the
+ * conversation summary a share of the rest, history the remainder, newest first.
+ */
+export function assemblePrompt(parts: PromptParts): AssembledPrompt {
+  const { model, history } = parts;
+  const contextWindow = getContextWindow(model);
+  const systemBase = parts.systemPrompt + (parts.systemSuffix || '');
+
+  const response = Math.min(
+    parts.maxTokens,
+    Math.max(MIN_RESPONSE_TOKENS, Math.floor(contextWindow * RESPONSE_WINDOW_SHARE))
+  );
+  const tools = parts.tools?.length ? countTokens(JSON.stringify(parts.tools), model) : 0;
+  const system = messageTokens({ role: 'system', content: systemBase }, model);
+
+  const latest = history[history.length - 1];
+  const latestTokens = latest ? messageTokens(latest, model) : 0;
+
+  // Overhead of the assistant priming is part of countMessageTokens([])
+  const fixed = countMessageTokens([], model) + system + tools + latestTokens + response;
+  let available = Math.max(0, contextWindow - fixed);
+
+  // ------------------------------------------------------------
+  // Memory: capped by ragTokenBudget and by half of what is left
+  // ------------------------------------------------------------
+  let memoryBlock = parts.memoryBlock || '';
+  let memoryTruncated = false;
+  if (memoryBlock) {
+    const memoryCap = Math.min(getMemoryConfig().ragTokenBudget, Math.floor(available * MEMORY_SHARE));
+    if (countTokens(memoryBlock, model) > memoryCap) {
+      memoryBlock = truncateToTokens(memoryBlock, memoryCap, model);
+      memoryTruncated = true;
+    }
+  }
+  const memory = countTokens(memoryBlock, model);
+  available -= memory;
+
+  // ------------------------------------------------------------
+  // Summary: always on top of the history when it only covers earlier turns
+  // (not when answering again from a point inside what it summarizes)
+  // ------------------------------------------------------------
+  const earlier = history.slice(0, -1);
+  const coveredMessages = parts.summary?.coveredMessages ?? 0;
+  let summaryText = '';
+  if (parts.summary?.text && coveredMessages > 0 && coveredMessages <= earlier.length) {
+    const header = summaryHeader(coveredMessages, earlier.length);
+    const room = Math.floor(available * SUMMARY_SHARE) - countTokens(header, model);
+    if (room >= MIN_SUMMARY_TOKENS) {
+      summaryText = truncateToTokens(parts.summary.text, room, model);
+      available -= countTokens(header + summaryText, model);
+    }
+  }
+
+  // ------------------------------------------------------------
+  // History: newest first, stop at the first turn that doesn't fit
+  // ------------------------------------------------------------
+  const kept: ConversationTurn[] = [];
+  let historyTokens = 0;
+  for (let i = earlier.length - 1; i >= 0; i--) {
+    const tokens = messageTokens(earlier[i], model);
+    if (historyTokens + tokens > available) break;
+    kept.unshift(earlier[i]);
+    historyTokens += tokens;
+  }
+  // Chat templates expect a user turn first after the system prompt
+  while (kept.length > 0 && kept[0].role !== 'user') {
+    historyTokens -= messageTokens(kept.shift()!, model);
+  }
+
+  const droppedMessages = earlier.length - kept.length;
+  const summaryBlock = summaryText ? summaryHeader(coveredMessages, droppedMessages) + summaryText : '';
+  const summary = countTokens(summaryBlock, model);
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: 'system', content: systemBase + summaryBlock + memoryBlock },
+    ...[...kept, ...(latest ? [latest] : [])].map(turn => ({ role: turn.role, content: turn.content }) as ChatCompletionMessageParam),
+  ];
+
+  const promptTokens = countMessageTokens(messages, model) + tools;
+  const remaining = contextWindow - promptTokens;
+  if (remaining < MIN_RESPONSE_TOKENS) {
+    console.warn(`[PromptAssembler] Prompt (${promptTokens} tokens) leaves only ${remaining} of ${contextWindow} for the reply`);
+  }
+
+  return {
+    messages,
+    numCtx: contextWindow,
+    maxTokens: Math.max(MIN_RESPONSE_TOKENS, Math.min(parts.maxTokens, remaining)),
+    budget: {
+      contextWindow,
+      system,
+      memory,
+      summary,
+      history: historyTokens + latestTokens,
+      tools,
+      response,
+      keptMessages: kept.length + (latest ? 1 : 0),
+      droppedMessages,
+      memoryTruncated,
+    },
+  };
+}
+
+/**
+ * Split an assembled message list back into its system prompt and turns
+ * Workflows re-fit the main model's prompt to each step's model with assemblePrompt.
+ */
+export function splitPromptMessages(messages: ChatCompletionMessageParam[]): { systemPrompt: string; history: ConversationTurn[] } {
+  const text = (content: ChatCompletionMessageParam['content']): string =>
+    typeof content === 'string'
+      ? content
+      : (content || []).map(part => ('text' in part ? part.text : '')).join('');
+
+  const system: string[] = [];
+  const history: ConversationTurn[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') {
+      system.push(text(message.content));
+    } else if (message.role === 'user' || message.role === 'assistant') {
+      history.push({ role: message.role, content: text(message.content) });
+    }
+  }
+  return { systemPrompt: system.join('\n\n'), history };
+}
+
+function summaryHeader(coveredMessages: number, droppedMessages: number): string {
+  const notShown = droppedMessages > 0 ? ` ${droppedMessages} older messages are not shown below.` : '';
+  return `\n\n[Conversation so far]\nSummary of the first ${coveredMessages} messages.${notShown}\n`;
+}
+
+/**
+ * One-line budget summary for request logs
+ */
+export function formatPromptBudget(budget: PromptBudget): string {
+  return `window ${budget.contextWindow}: system ${budget.system}, memory ${budget.memory}` +
+    `${budget.memoryTruncated ? ' (trimmed)' : ''}, summary ${budget.summary}, history ${budget.history}` +
+    ` (${budget.keptMessages} kept, ${budget.droppedMessages} dropped), tools ${budget.tools}, reply ${budget.response}`;
+}
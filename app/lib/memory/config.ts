@@ -6,6 +6,17 @@
  * All flags are OFF by default for Phase 1 baseline collection
  */
 export interface MemoryConfig {
+  // Vector backend: Chroma server or the embedded index in the SQLite database
+  vectorStore: 'chroma' | 'sqlite';
+
+  // Embedding provider: Ollama, local hashed n-grams, or Ollama with the local fallback
+  embeddingProvider: 'ollama' | 'hashed' | 'auto';
+
+  // Background embedding queue
+  embedQueueConcurrency: number; // Batches embedded at once
+  embedQueueBatchSize: number;   // Messages per embedBatch call
+  embedQueueMaxAttempts: number; // Attempts before a job is marked failed
+
   // Phase 3: Hybrid Retrieval
   ragHybrid: boolean;
 
@@ -33,6 +44,11 @@ export interface MemoryConfig {
  */
 export function getMemoryConfig(): MemoryConfig {
   return {
+    vectorStore: process.env.VECTOR_STORE === 'sqlite' ? 'sqlite' : 'chroma',
+    embeddingProvider: parseEmbeddingProvider(process.env.EMBEDDING_PROVIDER),
+    embedQueueConcurrency: parseInt(process.env.EMBED_QUEUE_CONCURRENCY || '2', 10),
+    embedQueueBatchSize: parseInt(process.env.EMBED_QUEUE_BATCH_SIZE || '16', 10),
+    embedQueueMaxAttempts: parseInt(process.env.EMBED_QUEUE_MAX_ATTEMPTS || '5', 10),
     ragHybrid: process.env.RAG_HYBRID === 'true',
     ragChunking: process.env.RAG_CHUNKING === 'true',
     backfillChunks: process.env.BACKFILL_CHUNKS === 'true',
@@ -45,12 +61,38 @@ export function getMemoryConfig(): MemoryConfig {
   };
 }
 
+function parseEmbeddingProvider(value?: string): MemoryConfig['embeddingProvider'] {
+  return value === 'hashed' || value === 'auto' ? value : 'ollama';
+}
+
 /**
  * Validate configuration values
  */
 export function validateMemoryConfig(config: MemoryConfig): string[] {
   const errors: string[] = [];
 
+  const vectorStore = process.env.VECTOR_STORE;
+  if (vectorStore && vectorStore !== 'chroma' && vectorStore !== 'sqlite') {
+    errors.push(`VECTOR_STORE must be 'chroma' or 'sqlite' (got '${vectorStore}', using chroma)`);
+  }
+
+  const embeddingProvider = process.env.EMBEDDING_PROVIDER;
+  if (embeddingProvider && parseEmbeddingProvider(embeddingProvider) !== embeddingProvider) {
+    errors.push(`EMBEDDING_PROVIDER must be 'ollama', 'hashed' or 'auto' (got '${embeddingProvider}', using ollama)`);
+  }
+
+  if (config.embedQueueConcurrency < 1 || config.embedQueueConcurrency > 8) {
+    errors.push('EMBED_QUEUE_CONCURRENCY must be between 1 and 8');
+  }
+
+  if (config.embedQueueBatchSize < 1 || config.embedQueueBatchSize > 128) {
+    errors.push('EMBED_QUEUE_BATCH_SIZE must be between 1 and 128');
+  }
+
+  if (config.embedQueueMaxAttempts < 1 || config.embedQueueMaxAttempts > 20) {
+    errors.push('EMBED_QUEUE_MAX_ATTEMPTS must be between 1 and 20');
+  }
+
   if (config.ragTokenBudget < 100 || config.ragTokenBudget > 5000) {
     errors.push('RAG_TOKEN_BUDGET must be between 100 and 5000');
   }
@@ -3,9 +3,30 @@
 
 import { SQLiteStorage } from './storage/sqlite';
 import { RAGManager } from './rag';
-import { Conversation, Message, AugmentedPrompt, ConversationSummary, UserProfile } from './schemas';
+import type { EmbeddingQueueStatus } from './rag/embeddingQueue';
+import {
+  Conversation,
+  Message,
+  BranchMessage,
+  AugmentedPrompt,
+  ConversationSummary,
+  ConversationSummaryVersion,
+  SummaryCoverage,
+  UserProfile,
+  MemoryItem,
+} from './schemas';
 import { getMemoryConfig } from './config';
 import { createHash } from 'crypto';
+import { getLLMProvider } from '../providers';
+import { countTokens } from '../models/tokens';
+import { SUMMARY_MAX_TOKENS, batchMessagesForFold, buildCondensePrompt, buildFoldPrompt } from './summarizer';
+import {
+  ConversationExport,
+  ConversationExportFormat,
+  RenderedExport,
+  buildConversationExport,
+  renderConversationExport,
+} from './transfer';
 
 let storageInstance: SQLiteStorage | null = null;
 
@@ -47,6 +68,7 @@ export class MemoryManager {
   private storage: SQLiteStorage;
   private rag: RAGManager;
   private initialized: boolean = false;
+  private summarizing = new Set<string>(); // Conversations with a summary fold in flight
 
   constructor() {
     this.storage = getStorage();
@@ -62,9 +84,22 @@ export class MemoryManager {
 
     try {
       await this.storage.initialize();
-      await this.rag.initialize();
+      const indexRebuilt = await this.rag.initialize();
       this.initialized = true;
       console.log('[MemoryManager] Memory system initialized');
+
+      // The index was emptied for another embedding provider or model; the embedding
+      // statuses still say 'success', so refill it explicitly (chunked as configured now)
+      const config = getMemoryConfig();
+      if (indexRebuilt) {
+        const scheduled = this.reembedEverything();
+        console.log(`[MemoryManager] Vector index rebuilt; re-embedding ${scheduled.messages} messages`);
+      } else if (config.ragChunking && config.backfillChunks) {
+        // Phase 4: re-chunk messages embedded whole before chunking was turned on
+        this.rag.backfillChunks().catch(error => {
+          console.warn('[MemoryManager] Chunk backfill failed:', error);
+        });
+      }
     } catch (error) {
       console.error('[MemoryManager] Error initializing:', error);
       // Don't throw - allow graceful degradation
@@ -86,6 +121,8 @@ export class MemoryManager {
 
   /**
    * Save a message to storage and process for RAG
+   * Pass parent_id to fork: an edited prompt hangs off the message before the
+   * original, a regenerated reply off its user message.
    */
   async saveMessage(
     conversationId: string,
@@ -94,23 +131,33 @@ export class MemoryManager {
     metadata?: {
       model_used?: string;
       tokens_used?: number;
+      prompt_tokens?: number;
+      completion_tokens?: number;
       temperature?: number;
+      parent_id?: string | null;
     }
   ): Promise<Message> {
+    const previousLeafId = this.storage.getActiveLeafId(conversationId);
     const message = this.storage.saveMessage({
       id: this.generateId('msg'),
       conversation_id: conversationId,
       role,
       content,
       tokens_used: metadata?.tokens_used,
+      prompt_tokens: metadata?.prompt_tokens,
+      completion_tokens: metadata?.completion_tokens,
       model_used: metadata?.model_used,
       temperature: metadata?.temperature,
+      parent_id: metadata?.parent_id,
     });
 
-    // Process message for RAG (async, don't await)
-    this.rag.processMessageForRAG(message).catch(error => {
-      console.warn('[MemoryManager] Error processing message for RAG:', error);
-    });
+    if (message.parent_id === previousLeafId) {
+      // Embedded in the background by the embedding queue
+      this.rag.queueMessagesForEmbedding([message]);
+    } else {
+      // Forked - the old branch's tail has to leave the index
+      this.syncBranchEmbeddings(conversationId);
+    }
 
     // Phase 2: Auto-generate conversation summary after N assistant messages
     if (role === 'assistant') {
@@ -154,16 +201,20 @@ export class MemoryManager {
   }
 
   /**
-   * Save or update a conversation summary and embed it for retrieval
+   * Store a new version of a conversation summary and embed it for retrieval
    */
-  async saveConversationSummary(conversationId: string, summary: string): Promise<void> {
+  async saveConversationSummary(conversationId: string, summary: string, coverage?: SummaryCoverage): Promise<void> {
     const contentHash = this.hashContent(summary);
     const existing = this.storage.getConversationSummary(conversationId);
-    if (existing && existing.content_hash === contentHash) {
+    const sameText = existing?.content_hash === contentHash;
+    if (sameText && existing?.covered_until === coverage?.covered_until) {
       return;
     }
 
-    this.storage.saveConversationSummary(conversationId, summary, contentHash);
+    this.storage.saveConversationSummary(conversationId, summary, contentHash, coverage);
+    if (sameText && existing?.embedding_status === 'success') {
+      return;
+    }
 
     try {
       await this.rag.upsertConversationSummaryEmbedding(conversationId, summary);
@@ -178,77 +229,98 @@ export class MemoryManager {
   }
 
   /**
-   * Generate a conversation summary using recent messages
-   * Phase 2: Called automatically every N messages
+   * Roll the conversation summary forward
+   * Messages after the last summarized one are folded into the previous version in
+   * batches (condensing when it grows too long), so early decisions survive however
+   * long the conversation gets. Phase 2: called automatically every N messages
    */
   async generateConversationSummary(conversationId: string): Promise<void> {
+    if (this.summarizing.has(conversationId)) {
+      console.log(`[MemoryManager] Summary already being generated for conversation ${conversationId}`);
+      return;
+    }
+    this.summarizing.add(conversationId);
     console.log(`[MemoryManager] Starting summary generation for conversation ${conversationId}`);
 
     try {
-      // Fetch last 10 messages from the conversation
-      const allMessages = this.storage.getConversationMessages(conversationId);
-      const recentMessages = allMessages.slice(-10);
-
-      console.log(`[MemoryManager] Found ${recentMessages.length} messages to summarize`);
-
-      if (recentMessages.length === 0) {
+      const messages = this.storage.getConversationMessages(conversationId);
+      if (messages.length === 0) {
         console.warn('[MemoryManager] No messages to summarize');
         return;
       }
 
-      // Format messages for summarization
-      const messageText = recentMessages
-        .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
-        .join('\n\n');
-
-      // Build summarization prompt
-      const summaryPrompt = `Please provide a concise summary of this conversation focusing on:
-1. Key topics discussed
-2. Main technical decisions or solutions
-3. Important context for future reference
-
-Conversation:
-${messageText}
-
-Summary (2-3 sentences):`;
-
-      // Call Ollama API to generate summary
-      const ollamaHost = process.env.OLLAMA_HOST || 'http://localhost:11434';
-      console.log(`[MemoryManager] Calling Ollama at ${ollamaHost}`);
-
-      const response = await fetch(`${ollamaHost}/api/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'qwen2.5-coder:7b-instruct-q5_K_M',
-          prompt: summaryPrompt,
-          stream: false,
-        }),
-      });
-
-      console.log(`[MemoryManager] Ollama response status: ${response.status}`);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Ollama API failed: ${response.status} ${response.statusText} - ${errorText}`);
+      // Continue from the newest version that covers part of the active branch
+      const base = this.getActiveSummary(conversationId, messages);
+      const newMessages = messages.slice(base?.covered_messages ?? 0);
+      if (newMessages.length === 0) {
+        console.log('[MemoryManager] Summary is already up to date');
+        return;
       }
 
-      const data = await response.json();
-      const summary = data.response?.trim();
+      console.log(
+        `[MemoryManager] Folding ${newMessages.length} messages into ` +
+        (base ? `summary v${base.version}` : 'a new summary')
+      );
+
+      let summary = base?.summary ?? null;
+      for (const batch of batchMessagesForFold(newMessages)) {
+        const folded = await this.completeSummaryPrompt(buildFoldPrompt(summary, batch));
+        if (!folded) {
+          console.warn('[MemoryManager] Summary was empty or undefined');
+          return;
+        }
+        summary = folded;
 
-      console.log(`[MemoryManager] Generated summary length: ${summary?.length || 0} chars`);
+        if (countTokens(summary) > SUMMARY_MAX_TOKENS) {
+          summary = (await this.completeSummaryPrompt(buildCondensePrompt(summary))) || summary;
+        }
+      }
 
       if (summary) {
         // Save the summary and create embeddings
-        await this.saveConversationSummary(conversationId, summary);
-        console.log(`[MemoryManager] ✓ Summary saved for conversation ${conversationId}`);
-      } else {
-        console.warn('[MemoryManager] Summary was empty or undefined');
+        const last = messages[messages.length - 1];
+        await this.saveConversationSummary(conversationId, summary, {
+          covered_until: last.id,
+          covered_messages: messages.length,
+        });
+        console.log(`[MemoryManager] ✓ Summary saved for conversation ${conversationId} (${messages.length} messages covered)`);
       }
     } catch (error) {
       console.error('[MemoryManager] ✗ Error generating summary:', error);
       throw error;
+    } finally {
+      this.summarizing.delete(conversationId);
+    }
+  }
+
+  /**
+   * Run one summarization prompt on the default model
+   */
+  private async completeSummaryPrompt(prompt: string): Promise<string | undefined> {
+    const provider = getLLMProvider();
+    const completion = await provider.chat({
+      model: provider.config.defaultModel,
+      messages: [{ role: 'user', content: prompt }],
+    });
+    return completion.choices[0]?.message?.content?.trim() || undefined;
+  }
+
+  /**
+   * Newest summary version that only covers messages on the active branch
+   * (after a branch switch the latest version may describe the other branch).
+   * covered_messages is its position on the branch. Null if none applies.
+   */
+  getActiveSummary(conversationId: string, activeMessages?: Message[]): ConversationSummaryVersion | null {
+    const messages = activeMessages ?? this.storage.getConversationMessages(conversationId);
+    const positions = new Map(messages.map((message, index) => [message.id, index + 1]));
+
+    for (const version of this.storage.getConversationSummaryVersions(conversationId)) {
+      const position = version.covered_until ? positions.get(version.covered_until) : undefined;
+      if (position !== undefined) {
+        return { ...version, covered_messages: position };
+      }
     }
+    return null;
   }
 
   /**
@@ -329,12 +401,39 @@ Summary (2-3 sentences):`;
   }
 
   /**
-   * Get all messages in a conversation
+   * Get a message by ID
+   */
+  getMessage(messageId: string): Message | null {
+    return this.storage.getMessage(messageId);
+  }
+
+  /**
+   * Get the messages on a conversation's active branch
    */
   getConversationMessages(conversationId: string): Message[] {
     return this.storage.getConversationMessages(conversationId);
   }
 
+  /**
+   * Get the active branch with sibling alternatives (for paging between edits/regenerations)
+   */
+  getBranchMessages(conversationId: string): BranchMessage[] {
+    return this.storage.getBranchMessages(conversationId);
+  }
+
+  /**
+   * Switch to the branch containing messageId, continuing where that branch left off
+   * Returns the new active branch, or null if the message isn't in this conversation.
+   */
+  switchBranch(conversationId: string, messageId: string): BranchMessage[] | null {
+    const message = this.storage.getMessage(messageId);
+    if (!message || message.conversation_id !== conversationId) return null;
+
+    this.storage.setActiveLeaf(conversationId, this.storage.getLatestLeafId(messageId));
+    this.syncBranchEmbeddings(conversationId);
+    return this.storage.getBranchMessages(conversationId);
+  }
+
   /**
    * Get count of messages in a conversation
    * Used for summary generation frequency (Phase 2)
@@ -350,6 +449,16 @@ Summary (2-3 sentences):`;
     return this.storage.getAllConversations(limit, offset);
   }
 
+  /**
+   * Search conversations by title, summary, tags or message content
+   */
+  searchConversations(
+    query: string,
+    options?: { tag?: string; limit?: number; offset?: number }
+  ): Conversation[] {
+    return this.storage.searchConversations(query, options);
+  }
+
   /**
    * Update a conversation
    */
@@ -358,10 +467,96 @@ Summary (2-3 sentences):`;
   }
 
   /**
-   * Delete a conversation
+   * Delete a conversation, its messages and its embeddings
+   * Vector cleanup is best-effort - SQLite is the source of truth for what exists.
    */
-  deleteConversation(conversationId: string): void {
+  async deleteConversation(conversationId: string): Promise<void> {
     this.storage.deleteConversation(conversationId);
+
+    try {
+      await this.rag.deleteConversationEmbeddings(conversationId);
+    } catch (error) {
+      console.warn('[MemoryManager] Error deleting conversation embeddings:', error);
+    }
+  }
+
+  /**
+   * Export a conversation as Markdown, full-fidelity JSON or fine-tune JSONL
+   * Returns null if the conversation doesn't exist
+   */
+  exportConversation(conversationId: string, format: ConversationExportFormat): RenderedExport | null {
+    const conversation = this.storage.getConversation(conversationId);
+    if (!conversation) return null;
+
+    const messages = this.storage.getConversationMessages(conversationId);
+    const summary = this.getActiveSummary(conversationId, messages)?.summary;
+    return renderConversationExport(buildConversationExport(conversation, messages, summary), format);
+  }
+
+  /**
+   * Restore a JSON export as a new conversation
+   * Embedding runs in the background, one message at a time, so large imports
+   * don't block the request or flood the embedding model.
+   */
+  importConversation(data: ConversationExport): Conversation {
+    const conversation = this.storage.saveConversation({
+      id: this.generateId('conv'),
+      title: data.conversation.title,
+      created_at: data.conversation.created_at || undefined,
+      model_used: data.conversation.model_used,
+      total_tokens: 0, // Rolled up as messages are saved
+      tags: data.conversation.tags,
+    });
+
+    const messages: Message[] = [];
+    try {
+      // Keep the original timestamps when they are usable; otherwise space messages 1ms apart
+      // so ORDER BY created_at reproduces the exported order
+      let previous = Date.parse(conversation.created_at) - data.messages.length - 1;
+      for (const exported of data.messages) {
+        const original = exported.created_at ? Date.parse(exported.created_at) : NaN;
+        const timestamp = original > previous ? original : previous + 1;
+        previous = timestamp;
+
+        messages.push(this.storage.saveMessage({
+          id: this.generateId('msg'),
+          conversation_id: conversation.id,
+          role: exported.role,
+          content: exported.content,
+          created_at: new Date(timestamp).toISOString(),
+          tokens_used: exported.tokens_used,
+          prompt_tokens: exported.prompt_tokens,
+          completion_tokens: exported.completion_tokens,
+          tool_calls: exported.tool_calls,
+          tool_results: exported.tool_results,
+          model_used: exported.model_used,
+          temperature: exported.temperature,
+        }));
+      }
+
+      // Exports from before per-message counts only carry the conversation total
+      const rolledUp = messages.reduce((sum, message) => sum + (message.tokens_used || 0), 0);
+      if (data.conversation.total_tokens > rolledUp) {
+        this.storage.updateConversation(conversation.id, { total_tokens: data.conversation.total_tokens });
+      }
+    } catch (error) {
+      // Don't leave a half-imported conversation behind
+      this.storage.deleteConversation(conversation.id);
+      throw error;
+    }
+
+    // The summary row is written before the first await, so it is visible immediately
+    if (data.conversation.summary && messages.length > 0) {
+      const coverage = { covered_until: messages[messages.length - 1].id, covered_messages: messages.length };
+      this.saveConversationSummary(conversation.id, data.conversation.summary, coverage).catch(error => {
+        console.warn('[MemoryManager] Error embedding imported summary:', error);
+      });
+    }
+
+    this.rag.queueMessagesForEmbedding(messages);
+
+    console.log(`[MemoryManager] Imported conversation ${conversation.id} (${messages.length} messages)`);
+    return this.storage.getConversation(conversation.id) || conversation;
   }
 
   /**
@@ -376,6 +571,165 @@ Summary (2-3 sentences):`;
     };
   }
 
+  /**
+   * Embedding queue depth, failures and limits
+   */
+  getEmbeddingQueueStatus(): EmbeddingQueueStatus {
+    return this.rag.getEmbeddingQueueStatus();
+  }
+
+  /**
+   * Re-queue embeddings that ran out of attempts
+   */
+  retryFailedEmbeddings(): number {
+    return this.rag.retryFailedEmbeddings();
+  }
+
+  /**
+   * Re-embed everything, e.g. after the embedding model changed
+   * Messages go through the embedding queue, summaries and the profile are
+   * re-embedded in the background. Returns what was scheduled
+   */
+  reembedEverything(): { messages: number; summaries: number; profile: boolean } {
+    const messages = this.rag.reembedAllMessages();
+
+    const summaries: ConversationSummary[] = [];
+    const pageSize = 50;
+    for (let offset = 0; ; offset += pageSize) {
+      const page = this.storage.getAllConversations(pageSize, offset);
+      if (page.length === 0) break;
+      for (const conversation of page) {
+        const summary = this.storage.getConversationSummary(conversation.id);
+        if (summary) summaries.push(summary);
+      }
+    }
+    const profile = this.isProfileConsentGranted() ? this.storage.getUserProfile() : null;
+
+    const reembedDocuments = async () => {
+      for (const summary of summaries) {
+        try {
+          await this.rag.upsertConversationSummaryEmbedding(summary.conversation_id, summary.summary);
+          this.storage.updateConversationSummaryEmbeddingStatus(summary.conversation_id, 'success');
+        } catch (error) {
+          this.storage.updateConversationSummaryEmbeddingStatus(
+            summary.conversation_id,
+            'failed',
+            (error as Error).message
+          );
+        }
+      }
+
+      if (profile) {
+        try {
+          await this.rag.upsertUserProfileEmbedding(profile.profile);
+          this.storage.updateUserProfileEmbeddingStatus('success');
+        } catch (error) {
+          this.storage.updateUserProfileEmbeddingStatus('failed', (error as Error).message);
+        }
+      }
+    };
+    reembedDocuments().catch(error => {
+      console.warn('[MemoryManager] Error re-embedding summaries and profile:', error);
+    });
+
+    return { messages, summaries: summaries.length, profile: profile !== null };
+  }
+
+  /**
+   * Memory browser: embedded messages, summaries and the profile with their hit counts
+   */
+  listMemoryItems(options?: {
+    type?: MemoryItem['type'];
+    query?: string;
+    pinned?: boolean;
+    limit?: number;
+    offset?: number;
+  }): { items: MemoryItem[]; total: number } {
+    return this.storage.listMemoryItems(options);
+  }
+
+  /**
+   * Get one memory item (message id, summary_<conversation id> or profile_default)
+   */
+  getMemoryItem(itemId: string): MemoryItem | null {
+    return this.storage.getMemoryItem(itemId);
+  }
+
+  /**
+   * Pin a memory so every retrieval includes it, or unpin it
+   * Returns the updated item, or null if it doesn't exist
+   */
+  pinMemoryItem(itemId: string, pinned: boolean): MemoryItem | null {
+    const item = this.storage.getMemoryItem(itemId);
+    if (!item) return null;
+
+    this.storage.setMemoryItemPinned(item.id, item.type, pinned);
+    return this.storage.getMemoryItem(itemId);
+  }
+
+  /**
+   * Replace a conversation summary with edited text (stored as a new version
+   * covering the same messages, and re-embedded). Returns null if there is no summary
+   */
+  async editConversationSummary(conversationId: string, summary: string): Promise<MemoryItem | null> {
+    const existing = this.storage.getConversationSummary(conversationId);
+    if (!existing) return null;
+
+    const coverage = existing.covered_until
+      ? { covered_until: existing.covered_until, covered_messages: existing.covered_messages }
+      : undefined;
+    await this.saveConversationSummary(conversationId, summary, coverage);
+    return this.storage.getMemoryItem(`summary_${conversationId}`);
+  }
+
+  /**
+   * Forget a memory: a message is dropped from the FTS index and the vector store and
+   * never embedded again (it stays in its conversation), a summary or the profile is deleted.
+   * Returns false if the item doesn't exist
+   */
+  async forgetMemoryItem(itemId: string): Promise<boolean> {
+    const item = this.storage.getMemoryItem(itemId);
+    if (!item) return false;
+
+    if (item.type === 'user_profile') {
+      await this.clearUserProfile();
+      return true;
+    }
+
+    try {
+      if (item.type === 'message') {
+        this.storage.forgetMessages([item.id]);
+        await this.rag.deleteMessageEmbedding(item.id);
+      } else if (item.conversation_id) {
+        this.storage.deleteConversationSummary(item.conversation_id);
+        await this.rag.deleteConversationSummaryEmbedding(item.conversation_id);
+      }
+    } catch (error) {
+      console.warn('[MemoryManager] Error deleting forgotten embedding:', error);
+    }
+    return true;
+  }
+
+  /**
+   * Forget everything remembered from a conversation (every message and the summary)
+   * The conversation itself is kept. Returns how many messages were forgotten, or null
+   * if the conversation doesn't exist
+   */
+  async forgetConversationMemory(conversationId: string): Promise<number | null> {
+    if (!this.storage.getConversation(conversationId)) return null;
+
+    const messageIds = this.storage.getConversationMessageIds(conversationId);
+    this.storage.forgetMessages(messageIds);
+    this.storage.deleteConversationSummary(conversationId);
+
+    try {
+      await this.rag.deleteConversationEmbeddings(conversationId);
+    } catch (error) {
+      console.warn('[MemoryManager] Error deleting conversation embeddings:', error);
+    }
+    return messageIds.length;
+  }
+
   /**
    * Format retrieved context for logging
    */
@@ -384,10 +738,21 @@ Summary (2-3 sentences):`;
   }
 
   /**
-   * Build a memory context block to append to system prompts
+   * Build a memory context block to append to system prompts (within RAG_TOKEN_BUDGET)
    */
   buildMemoryContextBlock(augmented: AugmentedPrompt): string {
-    return this.rag.buildMemoryContextBlock(augmented.retrieved_context);
+    return augmented.memory_block ??
+      this.rag.buildMemoryContextBlock(augmented.retrieved_context, augmented.original_query);
+  }
+
+  /**
+   * Re-point the RAG index at the active branch (runs in the background)
+   */
+  private syncBranchEmbeddings(conversationId: string): void {
+    const activeMessages = this.storage.getConversationMessages(conversationId);
+    this.rag.syncConversationBranch(conversationId, activeMessages).catch(error => {
+      console.warn('[MemoryManager] Error syncing branch embeddings:', error);
+    });
   }
 
   /**
@@ -26,6 +26,12 @@ export interface RetrievalMetrics {
     rerankMs?: number;
   };
   topSimilarities: number[];      // Top 3 scores
+  context?: {                     // Memory block built from the results (when one was)
+    tokensUsed: number;           // Actual tokens, within flags.tokenBudget
+    packed: number;
+    snippeted: number;
+    dropped: number;
+  };
   flags: {
     hybrid: boolean;
     chunking: boolean;
@@ -47,8 +53,9 @@ export async function logRetrievalMetrics(metrics: RetrievalMetrics): Promise<vo
         source_conversation_dense, source_global_dense, source_summaries, source_profile, source_fts_lexical,
         latency_total_ms, latency_dense_ms, latency_fts_ms, latency_rerank_ms,
         top_similarity_1, top_similarity_2, top_similarity_3,
-        flag_hybrid, flag_chunking, flag_token_budget
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        flag_hybrid, flag_chunking, flag_token_budget,
+        context_tokens_used, context_results_packed, context_results_snippeted, context_results_dropped
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -70,7 +77,11 @@ export async function logRetrievalMetrics(metrics: RetrievalMetrics): Promise<vo
       metrics.topSimilarities[2] || null,
       metrics.flags.hybrid ? 1 : 0,
       metrics.flags.chunking ? 1 : 0,
-      metrics.flags.tokenBudget
+      metrics.flags.tokenBudget,
+      metrics.context?.tokensUsed ?? null,
+      metrics.context?.packed ?? null,
+      metrics.context?.snippeted ?? null,
+      metrics.context?.dropped ?? null
     );
 
     console.log(`[Metrics] Logged retrieval: ${metrics.latency.totalMs}ms, ${getTotalResults(metrics)} results`);
@@ -109,6 +120,73 @@ export async function cleanupOldMetrics(): Promise<number> {
   }
 }
 
+/**
+ * One scored configuration from an offline evaluation run (scripts/eval-retrieval.ts)
+ */
+export interface RetrievalEvalRow {
+  mode: 'dense' | 'fts' | 'hybrid';
+  rerank?: { alpha: number; beta: number; gamma: number };  // Hybrid only
+  recall: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface RetrievalEvalRun {
+  runId: string;
+  querySet: string;               // Path of the labeled query set
+  queryCount: number;
+  k: number;
+  vectorStore: string;
+  embeddingModel: string;
+}
+
+/**
+ * Log the results of an offline evaluation run to database
+ */
+export async function logRetrievalEvalResults(
+  run: RetrievalEvalRun,
+  rows: RetrievalEvalRow[]
+): Promise<number> {
+  try {
+    const storage = getStorage();
+
+    const stmt = storage['db'].prepare(`
+      INSERT INTO retrieval_eval_results (
+        id, run_id, query_set, query_count, mode, k,
+        rerank_alpha, rerank_beta, rerank_gamma,
+        recall_at_k, mrr, ndcg_at_k, vector_store, embedding_model
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertAll = storage['db'].transaction((evalRows: RetrievalEvalRow[]) => {
+      evalRows.forEach((row, index) => {
+        stmt.run(
+          `${run.runId}-${index}`,
+          run.runId,
+          run.querySet,
+          run.queryCount,
+          row.mode,
+          run.k,
+          row.rerank?.alpha ?? null,
+          row.rerank?.beta ?? null,
+          row.rerank?.gamma ?? null,
+          row.recall,
+          row.mrr,
+          row.ndcg,
+          run.vectorStore,
+          run.embeddingModel
+        );
+      });
+    });
+    insertAll(rows);
+
+    return rows.length;
+  } catch (error) {
+    console.warn('[Metrics] Failed to log retrieval eval results:', error);
+    return 0;
+  }
+}
+
 /**
  * Get retrieval metrics summary for a date range
  */
@@ -119,6 +197,8 @@ export interface MetricsSummary {
   avgTopSimilarity: number;
   hybridEnabledCount: number;
   chunkingEnabledCount: number;
+  avgContextTokens: number;       // Memory block size, over queries that built one
+  maxContextTokens: number;
   sourceDistribution: {
     conversationDense: number;
     globalDense: number;
@@ -144,6 +224,8 @@ export async function getMetricsSummary(
       AVG(top_similarity_1) as avg_top_similarity,
       SUM(flag_hybrid) as hybrid_enabled_count,
       SUM(flag_chunking) as chunking_enabled_count,
+      AVG(context_tokens_used) as avg_context_tokens,
+      MAX(context_tokens_used) as max_context_tokens,
       SUM(source_conversation_dense) as total_conversation_dense,
       SUM(source_global_dense) as total_global_dense,
       SUM(source_summaries) as total_summaries,
@@ -162,6 +244,8 @@ export async function getMetricsSummary(
     avgTopSimilarity: row.avg_top_similarity || 0,
     hybridEnabledCount: row.hybrid_enabled_count || 0,
     chunkingEnabledCount: row.chunking_enabled_count || 0,
+    avgContextTokens: row.avg_context_tokens || 0,
+    maxContextTokens: row.max_context_tokens || 0,
     sourceDistribution: {
       conversationDense: row.total_conversation_dense || 0,
       globalDense: row.total_global_dense || 0,
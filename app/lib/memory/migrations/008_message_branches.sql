@@ -0,0 +1,33 @@
+-- Message branching: editing a past user turn or regenerating a reply forks the
+-- message tree instead of appending. Each message points at its parent, and the
+-- conversation remembers which leaf is active. The active branch is the path
+-- from that leaf back to the root.
+
+ALTER TABLE messages ADD COLUMN parent_id TEXT REFERENCES messages(id) ON DELETE CASCADE;
+
+ALTER TABLE conversations ADD COLUMN active_leaf_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_id);
+
+-- Backfill: existing conversations are linear, so each message's parent is the one before it.
+-- Limited to conversations without an active leaf so re-running never re-parents real branch roots.
+UPDATE messages
+SET parent_id = (
+  SELECT prev.id FROM messages prev
+  WHERE prev.conversation_id = messages.conversation_id
+    AND (prev.created_at < messages.created_at
+      OR (prev.created_at = messages.created_at AND prev.rowid < messages.rowid))
+  ORDER BY prev.created_at DESC, prev.rowid DESC
+  LIMIT 1
+)
+WHERE parent_id IS NULL
+  AND conversation_id IN (SELECT id FROM conversations WHERE active_leaf_id IS NULL);
+
+UPDATE conversations
+SET active_leaf_id = (
+  SELECT id FROM messages
+  WHERE conversation_id = conversations.id
+  ORDER BY created_at DESC, rowid DESC
+  LIMIT 1
+)
+WHERE active_leaf_id IS NULL;
@@ -0,0 +1,15 @@
+-- Token accounting: assistant messages keep the prompt and completion counts of the
+-- call(s) that produced them, and tokens_used holds their sum. conversations.total_tokens
+-- is the running total of tokens_used across every branch.
+
+ALTER TABLE messages ADD COLUMN prompt_tokens INTEGER;
+
+ALTER TABLE messages ADD COLUMN completion_tokens INTEGER;
+
+-- Backfill totals for conversations that never had any rolled up (imports carry per-message counts)
+UPDATE conversations
+SET total_tokens = (
+  SELECT COALESCE(SUM(tokens_used), 0) FROM messages
+  WHERE conversation_id = conversations.id
+)
+WHERE COALESCE(total_tokens, 0) = 0;
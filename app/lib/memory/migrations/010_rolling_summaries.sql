@@ -0,0 +1,25 @@
+-- Rolling conversation summaries: each regeneration folds the messages after covered_until
+-- into the previous summary and is stored as a new version. conversation_summaries keeps the
+-- latest one, conversation_summary_versions all of them (a branch switch falls back to the
+-- newest version that only covers messages still on the active branch)
+
+ALTER TABLE conversation_summaries ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE conversation_summaries ADD COLUMN covered_until TEXT;
+
+ALTER TABLE conversation_summaries ADD COLUMN covered_messages INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS conversation_summary_versions (
+  conversation_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  summary TEXT NOT NULL,
+  covered_until TEXT,
+  covered_messages INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (conversation_id, version),
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+
+-- Summaries written before versioning become version 1
+INSERT OR IGNORE INTO conversation_summary_versions (conversation_id, version, summary, covered_until, covered_messages, created_at)
+SELECT conversation_id, version, summary, covered_until, covered_messages, updated_at FROM conversation_summaries;
@@ -0,0 +1,11 @@
+-- Memory block accounting: how many tokens of RAG_TOKEN_BUDGET the packed results took
+-- and how many results were included, cut to a snippet or left out.
+-- NULL when the retrieval didn't build a memory block.
+
+ALTER TABLE retrieval_metrics ADD COLUMN context_tokens_used INTEGER;
+
+ALTER TABLE retrieval_metrics ADD COLUMN context_results_packed INTEGER;
+
+ALTER TABLE retrieval_metrics ADD COLUMN context_results_snippeted INTEGER;
+
+ALTER TABLE retrieval_metrics ADD COLUMN context_results_dropped INTEGER;
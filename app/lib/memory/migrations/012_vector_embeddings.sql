@@ -0,0 +1,23 @@
+-- Embedded vector store (VECTOR_STORE=sqlite): the same entries the Chroma collection holds,
+-- kept in the app database so memory works without a Chroma server.
+-- embedding is the vector as little-endian float32. metadata is the full JSON metadata,
+-- the filterable fields are copied into their own columns.
+
+CREATE TABLE IF NOT EXISTS vector_embeddings (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  embedding BLOB NOT NULL,
+  dimension INTEGER NOT NULL,
+  document TEXT NOT NULL,
+  metadata TEXT NOT NULL DEFAULT '{}',
+  conversation_id TEXT,
+  content_type TEXT NOT NULL DEFAULT 'message',
+  role TEXT,
+  parent_message_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (collection, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_embeddings_conversation ON vector_embeddings(collection, conversation_id);
+
+CREATE INDEX IF NOT EXISTS idx_vector_embeddings_parent ON vector_embeddings(collection, parent_message_id);
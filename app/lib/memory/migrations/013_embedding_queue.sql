@@ -0,0 +1,11 @@
+-- Embedding job queue: embedding_metadata rows are the jobs, one per message (id emb_<message id>).
+-- pending = waiting for its next attempt (next_attempt_at), failed = gave up after the max attempts.
+-- Rows survive restarts, so queued messages are embedded on the next start.
+
+ALTER TABLE embedding_metadata ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE embedding_metadata ADD COLUMN next_attempt_at TEXT;
+
+ALTER TABLE embedding_metadata ADD COLUMN updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_embedding_metadata_due ON embedding_metadata(embedding_status, next_attempt_at);
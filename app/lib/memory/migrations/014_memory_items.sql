@@ -0,0 +1,16 @@
+-- Memory browser: per-item state for everything retrieval can return.
+-- item_id is a message id, summary_<conversation id> or profile_default (the vector ids).
+-- hit_count counts how often the item was retrieved, pinned items are always included in
+-- the memory context, and a forgotten message is never embedded or searched again.
+
+CREATE TABLE IF NOT EXISTS memory_items (
+  item_id TEXT PRIMARY KEY,
+  item_type TEXT NOT NULL CHECK(item_type IN ('message', 'conversation_summary', 'user_profile')),
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TEXT,
+  pinned INTEGER NOT NULL DEFAULT 0,
+  pinned_at TEXT,
+  forgotten_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_items_pinned ON memory_items(pinned)
@@ -0,0 +1,24 @@
+-- Offline retrieval evaluation (scripts/eval-retrieval.ts): one row per retrieval mode and
+-- rerank coefficients tried in a run, scored against a labeled query set.
+-- rerank_* are NULL for dense-only and FTS-only rows.
+
+CREATE TABLE IF NOT EXISTS retrieval_eval_results (
+  id TEXT PRIMARY KEY,
+  run_id TEXT NOT NULL,
+  query_set TEXT NOT NULL,
+  query_count INTEGER NOT NULL,
+  mode TEXT NOT NULL CHECK(mode IN ('dense', 'fts', 'hybrid')),
+  k INTEGER NOT NULL,
+  rerank_alpha REAL,
+  rerank_beta REAL,
+  rerank_gamma REAL,
+  recall_at_k REAL NOT NULL,
+  mrr REAL NOT NULL,
+  ndcg_at_k REAL NOT NULL,
+  vector_store TEXT,
+  embedding_model TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_retrieval_eval_results_run ON retrieval_eval_results(run_id);
+CREATE INDEX IF NOT EXISTS idx_retrieval_eval_results_created_at ON retrieval_eval_results(created_at)
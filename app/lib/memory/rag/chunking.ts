@@ -0,0 +1,245 @@
+// app/lib/memory/rag/chunking.ts
+// Phase 4: Code-aware message chunking
+// Long answers are embedded as several chunks so one vector isn't diluted by
+// everything else in the message. Splits follow fenced code blocks, headings and
+// paragraphs, with a little overlap so a chunk keeps the lead-in to its content.
+
+import { countTokens } from '../../models/tokens';
+import { RetrievalResult } from '../schemas';
+
+// Bump when the splitting rules change, so the backfill re-chunks stored messages
+export const CHUNKER_VERSION = 1;
+
+// Messages up to this size are embedded whole
+export const MIN_CHUNKING_TOKENS = 500;
+// Chunks are packed up to about this size
+export const CHUNK_TARGET_TOKENS = 350;
+// Tail of the previous chunk repeated at the start of the next one
+export const CHUNK_OVERLAP_TOKENS = 50;
+// A chunk hit on a message up to this size is expanded to the whole message
+export const EXPAND_PARENT_TOKENS = 700;
+
+export interface MessageChunk {
+  index: number;
+  content: string;
+}
+
+interface Block {
+  kind: 'text' | 'code' | 'heading';
+  content: string;
+  fence?: string;  // Opening fence line of a code block (```ts), used to re-wrap split pieces
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^#{1,6}\s/;
+
+/**
+ * Embedding id for one chunk of a message
+ */
+export function chunkEmbeddingId(messageId: string, index: number): string {
+  return `${messageId}#${index}`;
+}
+
+/**
+ * Split a message into chunks for embedding
+ * Returns a single chunk (the whole content) for short messages
+ */
+export function chunkMessage(content: string): MessageChunk[] {
+  if (countTokens(content) <= MIN_CHUNKING_TOKENS) {
+    return [{ index: 0, content }];
+  }
+
+  const blocks = splitBlocks(content).flatMap(splitOversizedBlock);
+  const chunks: string[] = [];
+  let current: Block[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.some(block => block.kind !== 'heading')) {
+      chunks.push(current.map(block => block.content).join('\n\n'));
+    }
+  };
+
+  for (const block of blocks) {
+    const tokens = countTokens(block.content);
+    const full = current.length > 0 && currentTokens + tokens > CHUNK_TARGET_TOKENS;
+
+    // A heading starts a new section; otherwise a new chunk starts only when this one is full
+    if ((block.kind === 'heading' && currentTokens > 0) || full) {
+      const last = current[current.length - 1];
+      flush();
+      const overlap = block.kind === 'heading' || !last ? null : overlapFrom(last);
+      current = overlap ? [overlap] : [];
+      currentTokens = overlap ? countTokens(overlap.content) : 0;
+    }
+
+    current.push(block);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return chunks.map((chunk, index) => ({ index, content: chunk }));
+}
+
+/**
+ * Headings, fenced code blocks and paragraphs, in order
+ */
+function splitBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = content.split('\n');
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) blocks.push({ kind: 'text', content: text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      endParagraph();
+      const marker = line.trim().slice(0, 3);
+      const code = [line];
+      // An unclosed fence runs to the end of the message
+      while (++i < lines.length) {
+        code.push(lines[i]);
+        if (lines[i].trim().startsWith(marker)) break;
+      }
+      blocks.push({ kind: 'code', content: code.join('\n'), fence: line.trim() });
+    } else if (HEADING.test(line)) {
+      endParagraph();
+      blocks.push({ kind: 'heading', content: line.trim() });
+    } else if (line.trim() === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  endParagraph();
+
+  return blocks;
+}
+
+/**
+ * Break a block bigger than a chunk: code on blank lines (between functions),
+ * then on lines, text on sentences. Code pieces are re-fenced so each stays valid Markdown.
+ */
+function splitOversizedBlock(block: Block): Block[] {
+  if (block.kind === 'heading' || countTokens(block.content) <= CHUNK_TARGET_TOKENS) {
+    return [block];
+  }
+
+  if (block.kind === 'code') {
+    const lines = block.content.split('\n');
+    const closed = lines.length > 1 && FENCE.test(lines[lines.length - 1]);
+    const body = lines.slice(1, closed ? -1 : undefined);
+    const pieces = packPieces(splitCodeLines(body), '\n');
+    return pieces.map(piece => ({ kind: 'code', content: `${block.fence}\n${piece}\n${block.fence!.slice(0, 3)}`, fence: block.fence }));
+  }
+
+  const sentences = block.content.match(/[^.!?]+(?:[.!?]+\s*|$)/g) || [block.content];
+  return packPieces(sentences.map(sentence => sentence.trim()).filter(Boolean), ' ')
+    .map(piece => ({ kind: 'text', content: piece }));
+}
+
+/**
+ * Group code lines into runs separated by blank lines (roughly one definition each)
+ */
+function splitCodeLines(lines: string[]): string[] {
+  const runs: string[] = [];
+  let run: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === '' && run.length > 0) {
+      runs.push(run.join('\n'));
+      run = [];
+    } else if (line.trim() !== '') {
+      run.push(line);
+    }
+  }
+  if (run.length > 0) runs.push(run.join('\n'));
+
+  // A single run still over the target is cut on line boundaries
+  return runs.flatMap(r => (countTokens(r) > CHUNK_TARGET_TOKENS ? r.split('\n') : [r]));
+}
+
+/**
+ * Join consecutive pieces while they fit in a chunk
+ */
+function packPieces(pieces: string[], separator: string): string[] {
+  const packed: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (current && countTokens(candidate) > CHUNK_TARGET_TOKENS) {
+      packed.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) packed.push(current);
+  return packed;
+}
+
+/**
+ * The end of a block, up to CHUNK_OVERLAP_TOKENS, to lead into the next chunk
+ */
+function overlapFrom(block: Block): Block | null {
+  if (block.kind === 'heading') return block;
+
+  if (block.kind === 'code') {
+    const lines = block.content.split('\n').slice(1, -1);
+    const tail: string[] = [];
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (countTokens([lines[i], ...tail].join('\n')) > CHUNK_OVERLAP_TOKENS) break;
+      tail.unshift(lines[i]);
+    }
+    return tail.length > 0
+      ? { kind: 'code', content: `${block.fence}\n${tail.join('\n')}\n${block.fence!.slice(0, 3)}`, fence: block.fence }
+      : null;
+  }
+
+  const sentences = block.content.match(/[^.!?]+(?:[.!?]+\s*|$)/g) || [block.content];
+  const tail: string[] = [];
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    if (countTokens([sentences[i], ...tail].join('')) > CHUNK_OVERLAP_TOKENS) break;
+    tail.unshift(sentences[i]);
+  }
+  return tail.length > 0 ? { kind: 'text', content: `…${tail.join('').trim()}` } : null;
+}
+
+/**
+ * Collapse chunk hits onto their parent message: one result per message, with
+ * the best-scoring chunk kept - or dropped (whole message used) when the message
+ * is small or several of its chunks matched
+ */
+export function expandChunkResults(results: RetrievalResult[]): RetrievalResult[] {
+  const byMessage = new Map<string, { best: RetrievalResult; hits: number }>();
+
+  for (const result of results) {
+    const entry = byMessage.get(result.message.id);
+    if (!entry) {
+      byMessage.set(result.message.id, { best: result, hits: 1 });
+    } else {
+      entry.hits += 1;
+      if (result.similarity_score > entry.best.similarity_score) entry.best = result;
+    }
+  }
+
+  return Array.from(byMessage.values()).map(({ best, hits }) => {
+    if (!best.chunk) return best;
+    if (hits > 1 || countTokens(best.message.content) <= EXPAND_PARENT_TOKENS) {
+      return { ...best, chunk: undefined };
+    }
+    return best;
+  });
+}
+
+/**
+ * Text to show for a retrieval result: the matched chunk, or the whole message
+ */
+export function resultContent(result: RetrievalResult): string {
+  return result.chunk?.content ?? result.message.content;
+}
@@ -0,0 +1,190 @@
+// app/lib/memory/rag/contextBlock.ts
+// Packs retrieved memories into the system prompt block within RAG_TOKEN_BUDGET
+
+import { countTokens, truncateToTokens } from '../../models/tokens';
+import { RetrievalResult } from '../schemas';
+import { resultContent } from './chunking';
+import { extractCodeIdentifiers } from './rerank';
+
+// A single memory may take at most this share of the budget, so one long answer
+// can't crowd out everything else
+const MAX_ENTRY_SHARE = 0.5;
+// Below this much room a memory isn't worth including
+const MIN_ENTRY_TOKENS = 40;
+
+const BLOCK_HEADER = `\n\n[Memory Context]\n` +
+  `You have access to relevant memories from past conversations that may help answer the current question.\n\n`;
+const BLOCK_FOOTER = `\n\nUse these memories only if they are directly relevant.`;
+
+/**
+ * Where a memory came from, shown in its label
+ */
+export interface MemorySource {
+  title?: string;  // Conversation title
+  date?: string;   // When it was said (or summarized)
+}
+
+export interface PackedMemoryContext {
+  block: string;        // '' when nothing fit
+  tokensUsed: number;   // Tokens of the whole block, header included
+  packed: number;       // Memories included
+  snippeted: number;    // ...of which cut down to the part around the match
+  dropped: number;      // Memories left out for lack of room
+  included: Map<string, 'full' | 'snippet'>; // How each packed memory (by message id) went in
+}
+
+/**
+ * Order memories are packed in: pinned first, then highest reranked score
+ */
+export function orderForPacking(results: RetrievalResult[]): RetrievalResult[] {
+  return [...results].sort(
+    (a, b) => Number(b.pinned ?? false) - Number(a.pinned ?? false) ||
+      (b.rank_score ?? b.similarity_score) - (a.rank_score ?? a.similarity_score)
+  );
+}
+
+/**
+ * Build the memory block: pinned memories first, then highest reranked score, each memory labelled
+ * with its source, long ones cut to a snippet around what matched the query,
+ * stopping when the budget is spent
+ */
+export function packMemoryContext(
+  results: RetrievalResult[],
+  query: string,
+  tokenBudget: number,
+  describeSource: (result: RetrievalResult) => MemorySource
+): PackedMemoryContext {
+  const empty = { block: '', tokensUsed: 0, packed: 0, snippeted: 0, dropped: results.length, included: new Map() };
+  const fixed = countTokens(BLOCK_HEADER + BLOCK_FOOTER);
+  if (results.length === 0 || tokenBudget - fixed < MIN_ENTRY_TOKENS) return empty;
+
+  const ordered = orderForPacking(results);
+  const entryCap = Math.max(MIN_ENTRY_TOKENS, Math.floor(tokenBudget * MAX_ENTRY_SHARE));
+
+  const entries: string[] = [];
+  const included = new Map<string, 'full' | 'snippet'>();
+  let used = fixed;
+  let snippeted = 0;
+  let memoryIndex = 1;
+
+  for (const result of ordered) {
+    let label: string;
+    if (result.content_type === 'conversation_summary') {
+      label = 'Conversation Summary';
+    } else if (result.content_type === 'user_profile') {
+      label = 'User Profile';
+    } else {
+      label = `Memory ${memoryIndex}`;
+    }
+
+    const header = `[${label}]${formatSource(describeSource(result))} ` +
+      `(${formatMatch(result)})\n${result.message.role.toUpperCase()}: `;
+    const separator = entries.length > 0 ? 2 : 0; // '\n\n' between entries
+    const room = Math.min(entryCap, tokenBudget - used - separator) - countTokens(header);
+    if (room < MIN_ENTRY_TOKENS) continue;
+
+    let content = resultContent(result);
+    let inclusion: 'full' | 'snippet' = 'full';
+    if (countTokens(content) > room) {
+      content = snippetAround(content, query, room);
+      snippeted += 1;
+      inclusion = 'snippet';
+    }
+
+    const entry = header + content;
+    entries.push(entry);
+    included.set(result.message.id, inclusion);
+    used += countTokens(entry) + separator;
+    if (label.startsWith('Memory')) memoryIndex += 1;
+  }
+
+  if (entries.length === 0) return empty;
+
+  const block = BLOCK_HEADER + entries.join('\n\n') + BLOCK_FOOTER;
+  return {
+    block,
+    tokensUsed: countTokens(block),
+    packed: entries.length,
+    snippeted,
+    dropped: results.length - entries.length,
+    included,
+  };
+}
+
+/**
+ * "Similarity: 83%", "Pinned" for a pinned memory that didn't match the query,
+ * "Pinned · Similarity: 83%" for one that did
+ */
+export function formatMatch(result: RetrievalResult): string {
+  const similarity = `Similarity: ${(result.similarity_score * 100).toFixed(0)}%`;
+  if (!result.pinned) return similarity;
+  return result.similarity_score > 0 ? `Pinned · ${similarity}` : 'Pinned';
+}
+
+function formatSource(source: MemorySource): string {
+  const parts = [source.title ? `"${source.title}"` : null, source.date].filter(Boolean);
+  return parts.length > 0 ? ` ${parts.join(' · ')}` : '';
+}
+
+/**
+ * Cut content to maxTokens around the lines that best match the query
+ * Falls back to the start of the content when nothing matches. Keeps code
+ * fences balanced so a snippet from inside a code block still renders as code.
+ */
+export function snippetAround(content: string, query: string, maxTokens: number): string {
+  const terms = new Set([
+    ...query.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(term => term.length > 2),
+    ...extractCodeIdentifiers(query),
+  ]);
+  const lines = content.split('\n');
+
+  // Line with the most query terms is the centre of the snippet
+  let best = -1;
+  let bestHits = 0;
+  lines.forEach((line, i) => {
+    const lower = line.toLowerCase();
+    let hits = 0;
+    for (const term of terms) {
+      if (lower.includes(term)) hits += 1;
+    }
+    if (hits > bestHits) {
+      best = i;
+      bestHits = hits;
+    }
+  });
+
+  if (best === -1) return truncateToTokens(content, maxTokens);
+
+  // Grow the window a line at a time, alternating after and before the match
+  const budget = maxTokens - 6; // Ellipses and re-opened code fences
+  let start = best;
+  let end = best + 1;
+  let tokens = countTokens(lines[best]);
+  if (tokens > budget) return `…${truncateToTokens(lines[best], budget)}`;
+
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const index of [end, start - 1]) {
+      if (index < 0 || index >= lines.length) continue;
+      const lineTokens = countTokens(lines[index]) + 1;
+      if (tokens + lineTokens > budget) continue;
+      tokens += lineTokens;
+      if (index === end) end += 1;
+      else start -= 1;
+      grew = true;
+    }
+  }
+
+  let snippet = lines.slice(start, end).join('\n');
+
+  // Re-open a code block the window starts inside of, close one it ends inside of
+  const isFence = (line: string) => /^\s*(```|~~~)/.test(line);
+  const fencesBefore = lines.slice(0, start).filter(isFence);
+  const insideAtStart = fencesBefore.length % 2 === 1;
+  if (insideAtStart) snippet = `${fencesBefore[fencesBefore.length - 1].trim()}\n${snippet}`;
+  const fencesInside = lines.slice(start, end).filter(isFence).length;
+  if ((fencesInside + (insideAtStart ? 1 : 0)) % 2 === 1) snippet = `${snippet}\n\`\`\``;
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < lines.length ? '\n…' : ''}`;
+}
@@ -0,0 +1,234 @@
+// app/lib/memory/rag/embeddingQueue.ts
+// Background embedding queue
+// Messages are embedded in batches off the request path. A failed batch is split so one
+// bad message can't hold back the rest, and failed messages are retried with exponential
+// backoff. Jobs are embedding_metadata rows, so whatever is still queued when the app
+// stops is picked up on the next start.
+
+import { EmbeddingMetadata, EmbeddingQueueStats, Message } from '../schemas';
+import { getStorage } from '../storage';
+import { getMemoryConfig } from '../config';
+import { VectorStore } from './vectorStore';
+
+// Retry delays double from the base up to the cap: 5s, 10s, 20s, 40s, ...
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 10 * 60_000;
+// How often due retries (and jobs queued by another process) are looked for
+const POLL_INTERVAL_MS = 5_000;
+
+export interface EmbeddingQueueStatus extends EmbeddingQueueStats {
+  running: boolean;
+  in_flight: number;
+  concurrency: number;
+  batch_size: number;
+  max_attempts: number;
+  recent_failures: EmbeddingMetadata[];
+}
+
+interface EmbeddingJob {
+  job: EmbeddingMetadata;
+  message: Message;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Embedding Queue
+ * Runs up to EMBED_QUEUE_CONCURRENCY batches of EMBED_QUEUE_BATCH_SIZE messages at a time
+ */
+export class EmbeddingQueue {
+  private retrieval: VectorStore;
+  private inFlight = new Set<string>(); // Job ids being embedded
+  private workers = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(retrieval: VectorStore) {
+    this.retrieval = retrieval;
+  }
+
+  /**
+   * Start processing (call once the vector store is ready)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.timer.unref?.(); // Don't keep scripts alive
+    this.drain();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Queue messages for embedding
+   * Already embedded messages are embedded again (replacing their vectors)
+   */
+  enqueue(messages: Message[]): void {
+    if (messages.length === 0) return;
+
+    getStorage().enqueueEmbeddings(messages);
+    if (this.timer) this.drain();
+  }
+
+  getStatus(): EmbeddingQueueStatus {
+    const storage = getStorage();
+    const { concurrency, batchSize, maxAttempts } = this.limits();
+
+    return {
+      ...storage.getEmbeddingQueueStats(),
+      running: this.timer !== null,
+      in_flight: this.inFlight.size,
+      concurrency,
+      batch_size: batchSize,
+      max_attempts: maxAttempts,
+      recent_failures: storage.getFailedEmbeddings(),
+    };
+  }
+
+  /**
+   * Give every failed job a fresh set of attempts
+   */
+  retryFailed(): number {
+    const requeued = getStorage().requeueFailedEmbeddings();
+    if (this.timer) this.drain();
+    return requeued;
+  }
+
+  private limits(): { concurrency: number; batchSize: number; maxAttempts: number } {
+    const config = getMemoryConfig();
+    return {
+      concurrency: Math.max(1, config.embedQueueConcurrency),
+      batchSize: Math.max(1, config.embedQueueBatchSize),
+      maxAttempts: Math.max(1, config.embedQueueMaxAttempts),
+    };
+  }
+
+  /**
+   * Start workers on due jobs, up to the concurrency limit
+   */
+  private drain(): void {
+    if (!this.timer) return;
+    const { concurrency, batchSize } = this.limits();
+
+    while (this.workers < concurrency) {
+      let batch: EmbeddingMetadata[];
+      try {
+        batch = getStorage()
+          .getDueEmbeddings(batchSize + this.inFlight.size)
+          .filter(job => !this.inFlight.has(job.id))
+          .slice(0, batchSize);
+      } catch (error) {
+        console.error('[EmbeddingQueue] Error reading queue:', error);
+        return;
+      }
+      if (batch.length === 0) return;
+
+      batch.forEach(job => this.inFlight.add(job.id));
+      this.workers += 1;
+
+      this.runBatch(batch)
+        .then(
+          () => true,
+          error => {
+            console.error('[EmbeddingQueue] Error processing batch:', error);
+            return false;
+          }
+        )
+        .then(ok => {
+          batch.forEach(job => this.inFlight.delete(job.id));
+          this.workers -= 1;
+          // After an unexpected error (e.g. the database), leave it to the next poll
+          if (ok) this.drain();
+        });
+    }
+  }
+
+  private async runBatch(batch: EmbeddingMetadata[]): Promise<void> {
+    const storage = getStorage();
+    const activeBranches = new Map<string, Set<string>>();
+    const jobs: EmbeddingJob[] = [];
+
+    // Messages deleted, forgotten or moved off the active branch since they were queued aren't embedded
+    const forgotten = storage.getForgottenMessageIds(batch.map(job => job.message_id));
+    for (const job of batch) {
+      if (forgotten.has(job.message_id)) {
+        storage.deleteEmbeddingMetadata(job.id);
+        continue;
+      }
+
+      let branchIds = activeBranches.get(job.conversation_id);
+      if (!branchIds) {
+        branchIds = new Set(storage.getConversationMessages(job.conversation_id).map(m => m.id));
+        activeBranches.set(job.conversation_id, branchIds);
+      }
+
+      const message = branchIds.has(job.message_id) ? storage.getMessage(job.message_id) : null;
+      if (!message) {
+        storage.deleteEmbeddingMetadata(job.id);
+        continue;
+      }
+      jobs.push({ job, message });
+    }
+
+    await this.embed(jobs);
+  }
+
+  /**
+   * Embed jobs in one embedBatch call; if that fails, try each job on its own
+   */
+  private async embed(jobs: EmbeddingJob[]): Promise<void> {
+    if (jobs.length === 0) return;
+    const storage = getStorage();
+
+    try {
+      const messages = jobs.map(({ message }) => message);
+      // Replace, so retries and re-embeds never leave duplicate vectors
+      await this.retrieval.deleteMessages(messages.map(message => message.id));
+      await this.retrieval.addMessageEmbeddingsBatch(messages);
+
+      for (const { job, message } of jobs) {
+        storage.updateEmbeddingStatus(job.id, 'success', message.id);
+      }
+    } catch (error) {
+      if (jobs.length > 1) {
+        for (const job of jobs) {
+          await this.embed([job]);
+        }
+        return;
+      }
+
+      this.recordFailure(jobs[0].job, error as Error);
+    }
+  }
+
+  private recordFailure(job: EmbeddingMetadata, error: Error): void {
+    const attempts = (job.attempts || 0) + 1;
+    const { maxAttempts } = this.limits();
+
+    if (attempts >= maxAttempts) {
+      console.warn(`[EmbeddingQueue] Giving up on message ${job.message_id} after ${attempts} attempts:`, error.message);
+      getStorage().recordEmbeddingFailure(job.id, attempts, error.message);
+      return;
+    }
+
+    const delay = retryDelayMs(attempts);
+    console.warn(
+      `[EmbeddingQueue] Embedding message ${job.message_id} failed (attempt ${attempts}), retrying in ${delay / 1000}s:`,
+      error.message
+    );
+    getStorage().recordEmbeddingFailure(
+      job.id,
+      attempts,
+      error.message,
+      new Date(Date.now() + delay).toISOString()
+    );
+  }
+}
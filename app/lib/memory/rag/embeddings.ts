@@ -3,6 +3,31 @@
 
 import { EmbeddingRequest, EmbeddingResponse } from '../schemas';
 import { createHash } from 'crypto';
+import { getMemoryConfig } from '../config';
+import { HashedEmbeddings } from './hashedEmbeddings';
+
+/**
+ * Which provider and model produced a vector - stored with the vector store's metadata,
+ * since vectors from different providers can't be compared
+ */
+export interface EmbeddingProviderInfo {
+  provider: string;   // 'ollama' | 'hashed'
+  model: string;
+  dimension: number;
+}
+
+/**
+ * Anything that turns text into unit-length vectors for the vector store
+ */
+export interface EmbeddingProvider {
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+  checkModelAvailability(): Promise<boolean>;
+  getEmbeddingModel(): string;
+  getEmbeddingDimension(): Promise<number>;
+  getProviderInfo(): Promise<EmbeddingProviderInfo>;
+  clearCache(): void;
+}
 
 /**
  * Ollama Embeddings Manager
@@ -11,7 +36,7 @@ import { createHash } from 'crypto';
  * Normalization note: Ollama embeddings are typically already normalized (L2),
  * but we normalize again to ensure consistent similarity calculations
  */
-export class OllamaEmbeddings {
+export class OllamaEmbeddings implements EmbeddingProvider {
   private ollamaHost: string;
   private embeddingModel: string;
   private cache: Map<string, number[]> = new Map();
@@ -147,6 +172,14 @@ export class OllamaEmbeddings {
     return this.embeddingModel;
   }
 
+  async getProviderInfo(): Promise<EmbeddingProviderInfo> {
+    return {
+      provider: 'ollama',
+      model: this.embeddingModel,
+      dimension: await this.getEmbeddingDimension(),
+    };
+  }
+
   /**
    * Calculate cosine similarity between two normalized vectors
    * Result is between -1 and 1, where 1 is identical
@@ -248,26 +281,91 @@ export class OllamaEmbeddings {
 }
 
 /**
- * Global shared OllamaEmbeddings instance
+ * Auto Embeddings (EMBEDDING_PROVIDER=auto)
+ * Uses Ollama when the embedding model is available, the local hashed embeddings
+ * otherwise. Decided once, on first use, so a process never mixes the two.
+ */
+export class AutoEmbeddings implements EmbeddingProvider {
+  private ollama: OllamaEmbeddings;
+  private active: EmbeddingProvider | null = null;
+  private resolving: Promise<EmbeddingProvider> | null = null;
+
+  constructor(ollama: OllamaEmbeddings) {
+    this.ollama = ollama;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return (await this.resolve()).embed(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return (await this.resolve()).embedBatch(texts);
+  }
+
+  async checkModelAvailability(): Promise<boolean> {
+    return (await this.resolve()).checkModelAvailability();
+  }
+
+  /**
+   * Model in use (the Ollama model until the provider has been decided)
+   */
+  getEmbeddingModel(): string {
+    return (this.active || this.ollama).getEmbeddingModel();
+  }
+
+  async getEmbeddingDimension(): Promise<number> {
+    return (await this.resolve()).getEmbeddingDimension();
+  }
+
+  async getProviderInfo(): Promise<EmbeddingProviderInfo> {
+    return (await this.resolve()).getProviderInfo();
+  }
+
+  clearCache(): void {
+    this.ollama.clearCache();
+  }
+
+  private resolve(): Promise<EmbeddingProvider> {
+    if (this.active) return Promise.resolve(this.active);
+
+    if (!this.resolving) {
+      this.resolving = this.ollama.checkModelAvailability().then(available => {
+        if (!available) {
+          console.warn(
+            `[AutoEmbeddings] Ollama model '${this.ollama.getEmbeddingModel()}' unavailable; using local hashed embeddings`
+          );
+        }
+        this.active = available ? this.ollama : new HashedEmbeddings();
+        return this.active;
+      });
+    }
+    return this.resolving;
+  }
+}
+
+/**
+ * Global shared embeddings instance
  * Shared between DL-CodeGen and Memory systems to avoid duplicate embedding calls
  */
-let sharedEmbeddingsInstance: OllamaEmbeddings | null = null;
+let sharedEmbeddingsInstance: EmbeddingProvider | null = null;
 
 /**
- * Get or create the shared OllamaEmbeddings instance
+ * Get or create the shared embeddings instance for EMBEDDING_PROVIDER
  * This ensures both DL and Memory systems use the same cache
  */
 export function getSharedEmbeddings(
   ollamaHost?: string,
   embeddingModel?: string,
   maxCacheSize?: number
-): OllamaEmbeddings {
+): EmbeddingProvider {
   if (!sharedEmbeddingsInstance) {
-    sharedEmbeddingsInstance = new OllamaEmbeddings(
-      ollamaHost,
-      embeddingModel,
-      maxCacheSize
-    );
+    const provider = getMemoryConfig().embeddingProvider;
+    if (provider === 'hashed') {
+      sharedEmbeddingsInstance = new HashedEmbeddings();
+    } else {
+      const ollama = new OllamaEmbeddings(ollamaHost, embeddingModel, maxCacheSize);
+      sharedEmbeddingsInstance = provider === 'auto' ? new AutoEmbeddings(ollama) : ollama;
+    }
   }
   return sharedEmbeddingsInstance;
 }
@@ -0,0 +1,201 @@
+// app/lib/memory/rag/evaluation.ts
+// Offline retrieval evaluation against labeled queries
+// Scores dense-only, FTS-only and hybrid retrieval with recall@k, MRR and nDCG@k, and
+// grid-searches the rerank coefficients. Dense and FTS candidates are fetched once per
+// query, so trying another set of coefficients only re-runs the rerank.
+
+import { RetrievalResult } from '../schemas';
+import { VectorStore } from './vectorStore';
+import { expandChunkResults } from './chunking';
+import { RerankWeights, deduplicateAndRerank } from './rerank';
+
+/**
+ * One labeled query (a line of the query set JSONL)
+ */
+export interface EvalQuery {
+  query: string;
+  relevant_ids: string[];     // Message ids a good retrieval returns
+  conversation_id?: string;   // Search within this conversation only (as the chat does)
+}
+
+export type EvalMode = 'dense' | 'fts' | 'hybrid';
+
+export interface EvalScores {
+  recall: number;             // recall@k
+  mrr: number;                // Mean reciprocal rank of the first relevant result within k
+  ndcg: number;               // nDCG@k (binary relevance)
+}
+
+export interface EvalResult extends EvalScores {
+  mode: EvalMode;
+  weights?: RerankWeights;    // Hybrid only
+}
+
+/**
+ * Search results for one query, shared by every mode and set of coefficients
+ */
+export interface EvalCandidates {
+  query: EvalQuery;
+  dense: RetrievalResult[];
+  fts: RetrievalResult[];
+}
+
+/**
+ * Parse a query set: one JSON object per line, blank lines and // comments skipped
+ */
+export function parseEvalQueries(jsonl: string): EvalQuery[] {
+  const queries: EvalQuery[] = [];
+
+  jsonl.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('//')) return;
+
+    let parsed: Partial<EvalQuery>;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`Line ${index + 1}: not valid JSON`);
+    }
+
+    if (typeof parsed.query !== 'string' || !parsed.query.trim()) {
+      throw new Error(`Line ${index + 1}: "query" must be a non-empty string`);
+    }
+    if (
+      !Array.isArray(parsed.relevant_ids) ||
+      parsed.relevant_ids.length === 0 ||
+      !parsed.relevant_ids.every(id => typeof id === 'string')
+    ) {
+      throw new Error(`Line ${index + 1}: "relevant_ids" must be a non-empty array of message ids`);
+    }
+
+    queries.push({
+      query: parsed.query,
+      relevant_ids: parsed.relevant_ids,
+      conversation_id: typeof parsed.conversation_id === 'string' ? parsed.conversation_id : undefined,
+    });
+  });
+
+  return queries;
+}
+
+/**
+ * Run the dense and FTS searches for every query
+ * candidatesPerSearch should be well above k, so the rerank has something to reorder
+ */
+export async function collectCandidates(
+  store: VectorStore,
+  queries: EvalQuery[],
+  candidatesPerSearch: number
+): Promise<EvalCandidates[]> {
+  const candidates: EvalCandidates[] = [];
+
+  for (const query of queries) {
+    const [dense, fts] = await Promise.all([
+      store.searchWithFilters(
+        query.query,
+        query.conversation_id
+          ? { conversation_id: query.conversation_id, content_type: 'message' }
+          : { content_type: 'message' },
+        candidatesPerSearch
+      ),
+      store.ftsSearch(query.query, query.conversation_id, candidatesPerSearch),
+    ]);
+
+    // Several chunks of one message count as that message
+    candidates.push({ query, dense: expandChunkResults(dense), fts });
+  }
+
+  return candidates;
+}
+
+/**
+ * Score one retrieval mode over every query (averaged)
+ */
+export function evaluateMode(
+  candidates: EvalCandidates[],
+  mode: EvalMode,
+  k: number,
+  weights?: RerankWeights
+): EvalResult {
+  const totals = { recall: 0, mrr: 0, ndcg: 0 };
+
+  for (const { query, dense, fts } of candidates) {
+    let ranked: RetrievalResult[];
+    if (mode === 'dense') {
+      ranked = dense;
+    } else if (mode === 'fts') {
+      ranked = fts;
+    } else {
+      ranked = deduplicateAndRerank(dense, fts, query.query, weights);
+    }
+
+    const scores = scoreRanking(ranked.map(result => result.message.id), query.relevant_ids, k);
+    totals.recall += scores.recall;
+    totals.mrr += scores.mrr;
+    totals.ndcg += scores.ndcg;
+  }
+
+  const count = Math.max(1, candidates.length);
+  return {
+    mode,
+    weights: mode === 'hybrid' ? weights : undefined,
+    recall: totals.recall / count,
+    mrr: totals.mrr / count,
+    ndcg: totals.ndcg / count,
+  };
+}
+
+/**
+ * recall@k, reciprocal rank and nDCG@k of one ranking
+ */
+export function scoreRanking(rankedIds: string[], relevantIds: string[], k: number): EvalScores {
+  const relevant = new Set(relevantIds);
+  const topK = Array.from(new Set(rankedIds)).slice(0, k);
+
+  let hits = 0;
+  let firstHit = -1;
+  let dcg = 0;
+  topK.forEach((id, index) => {
+    if (!relevant.has(id)) return;
+    hits += 1;
+    if (firstHit === -1) firstHit = index;
+    dcg += 1 / Math.log2(index + 2);
+  });
+
+  let idealDcg = 0;
+  for (let index = 0; index < Math.min(relevant.size, k); index++) {
+    idealDcg += 1 / Math.log2(index + 2);
+  }
+
+  return {
+    recall: relevant.size > 0 ? hits / relevant.size : 0,
+    mrr: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+  };
+}
+
+/**
+ * Every (alpha, beta, gamma) on a grid of the given step that sums to 1
+ */
+export function rerankWeightGrid(step: number): RerankWeights[] {
+  const steps = Math.round(1 / step);
+  const grid: RerankWeights[] = [];
+
+  // Integer steps walk the grid; gamma takes the remainder so the weights sum to exactly 1
+  // (a/steps + b/steps + c/steps can be off by a rounding error)
+  for (let a = 0; a <= steps; a++) {
+    for (let b = 0; a + b <= steps; b++) {
+      const alpha = a / steps;
+      const beta = b / steps;
+      grid.push({ alpha, beta, gamma: 1 - (alpha + beta) });
+    }
+  }
+  return grid;
+}
+
+/**
+ * Best result first: highest nDCG, then MRR, then recall
+ */
+export function compareEvalResults(a: EvalResult, b: EvalResult): number {
+  return b.ndcg - a.ndcg || b.mrr - a.mrr || b.recall - a.recall;
+}
@@ -0,0 +1,121 @@
+// app/lib/memory/rag/hashedEmbeddings.ts
+// Local embeddings without a model: hashed word and character n-grams
+// Deterministic and dependency-free, so tests and offline machines still get
+// lexical-ish similarity (shared words, identifiers and word pieces) from the vector store.
+
+import type { EmbeddingProvider, EmbeddingProviderInfo } from './embeddings';
+
+// Same size as nomic-embed-text, so code slicing fixed-size prefixes (dl-codegen) keeps working
+export const HASHED_EMBEDDING_DIMENSION = 768;
+// Bump when the features or weights change: stored vectors are then rebuilt
+const HASHED_EMBEDDING_MODEL = 'hashed-ngram-v1';
+
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * Hashed N-gram Embeddings
+ * Feature hashing of word unigrams, word bigrams and character trigrams into a
+ * fixed-size vector (sublinear term frequency, signed buckets, unit length)
+ */
+export class HashedEmbeddings implements EmbeddingProvider {
+  private dimension: number;
+
+  constructor(dimension: number = HASHED_EMBEDDING_DIMENSION) {
+    this.dimension = dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectorize(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  /**
+   * Always available - nothing to download
+   */
+  async checkModelAvailability(): Promise<boolean> {
+    return true;
+  }
+
+  getEmbeddingModel(): string {
+    return HASHED_EMBEDDING_MODEL;
+  }
+
+  async getEmbeddingDimension(): Promise<number> {
+    return this.dimension;
+  }
+
+  async getProviderInfo(): Promise<EmbeddingProviderInfo> {
+    return { provider: 'hashed', model: HASHED_EMBEDDING_MODEL, dimension: this.dimension };
+  }
+
+  /**
+   * Nothing cached - vectors are cheap to recompute
+   */
+  clearCache(): void {}
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    const words = tokenize(text);
+    words.forEach((word, i) => {
+      add(`w:${word}`, WORD_WEIGHT);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimension] += sign * (1 + Math.log(count));
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+  }
+}
+
+/**
+ * Lowercased words, with code identifiers also split into their parts
+ * (getUserProfile -> getuserprofile, get, user, profile)
+ */
+function tokenize(text: string): string[] {
+  const words: string[] = [];
+  for (const raw of text.match(/[\p{L}\p{N}_]+/gu) || []) {
+    const word = raw.toLowerCase();
+    words.push(word);
+
+    const parts = raw
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[_\s]+/)
+      .filter(part => part.length > 1);
+    if (parts.length > 1) {
+      words.push(...parts.map(part => part.toLowerCase()));
+    }
+  }
+  return words;
+}
+
+/**
+ * 32-bit FNV-1a hash (unsigned)
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
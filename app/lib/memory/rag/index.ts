@@ -1,13 +1,38 @@
 // app/lib/memory/rag/index.ts
 // RAG (Retrieval-Augmented Generation) Orchestrator
 
-import { OllamaEmbeddings, getSharedEmbeddings } from './embeddings';
+import { EmbeddingProvider, getSharedEmbeddings } from './embeddings';
 import { ChromaRetrieval } from './retrieval';
-import { Message, AugmentedPrompt, RetrievalResult } from '../schemas';
+import { SQLiteVectorRetrieval } from './sqliteVectors';
+import { VectorStore } from './vectorStore';
+import { EmbeddingQueue, EmbeddingQueueStatus } from './embeddingQueue';
+import { Message, AugmentedPrompt, RetrievalResult, MemoryItem } from '../schemas';
 import { getStorage } from '../storage';
 import { logRetrievalMetrics, RetrievalMetrics } from '../metrics';
-import { getMemoryConfig } from '../config';
+import { MemoryConfig, getMemoryConfig } from '../config';
 import { deduplicateAndRerank } from './rerank';
+import { CHUNKER_VERSION, chunkMessage, expandChunkResults, resultContent } from './chunking';
+import { MemorySource, formatMatch, packMemoryContext } from './contextBlock';
+import { buildRetrievalTrace } from './trace';
+
+// Pinned memories added to every retrieval (the token budget still applies)
+const MAX_PINNED_MEMORIES = 20;
+
+/**
+ * Create a vector store for the given backend (VECTOR_STORE by default)
+ */
+export function createVectorStore(
+  embeddings: EmbeddingProvider,
+  collectionName?: string,
+  topK?: number,
+  similarityThreshold?: number,
+  backend: MemoryConfig['vectorStore'] = getMemoryConfig().vectorStore
+): VectorStore {
+  if (backend === 'sqlite') {
+    return new SQLiteVectorRetrieval(embeddings, collectionName, topK, similarityThreshold);
+  }
+  return new ChromaRetrieval(embeddings, collectionName, topK, similarityThreshold);
+}
 
 /**
  * RAG Manager
@@ -15,8 +40,9 @@ import { deduplicateAndRerank } from './rerank';
  * This is the main interface for RAG operations
  */
 export class RAGManager {
-  private embeddings: OllamaEmbeddings;
-  private retrieval: ChromaRetrieval;
+  private embeddings: EmbeddingProvider;
+  private retrieval: VectorStore;
+  private queue: EmbeddingQueue;
   private initialized: boolean = false;
 
   constructor(
@@ -28,20 +54,22 @@ export class RAGManager {
   ) {
     // Use shared embeddings instance to share cache with DL-CodeGen
     this.embeddings = getSharedEmbeddings(ollamaHost, embeddingModel);
-    this.retrieval = new ChromaRetrieval(
+    this.retrieval = createVectorStore(
       this.embeddings,
       collectionName,
       topK,
       similarityThreshold
     );
+    this.queue = new EmbeddingQueue(this.retrieval);
   }
 
   /**
    * Initialize RAG system
-   * Call once at app startup
+   * Call once at app startup. Returns true when the vector index was emptied because
+   * the embedding provider or model changed - the caller has to re-embed everything.
    */
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
+  async initialize(): Promise<boolean> {
+    if (this.initialized) return false;
 
     try {
       console.log('[RAGManager] Initializing RAG system...');
@@ -53,13 +81,18 @@ export class RAGManager {
           '[RAGManager] Embedding model not available in Ollama. Make sure to pull it:'
         );
         console.warn('  ollama pull nomic-embed-text');
+        console.warn('  (or set EMBEDDING_PROVIDER=auto to fall back to local hashed embeddings)');
       }
 
-      // Initialize Chroma collection
-      await this.retrieval.initialize();
+      // Initialize the vector store (Chroma collection or SQLite index)
+      const indexRebuilt = await this.retrieval.initialize();
+
+      // Embed whatever was queued, including jobs left over from the last run
+      this.queue.start();
 
       this.initialized = true;
       console.log('[RAGManager] RAG system initialized successfully');
+      return indexRebuilt;
     } catch (error) {
       console.error('[RAGManager] Error initializing RAG system:', error);
       throw error;
@@ -67,65 +100,122 @@ export class RAGManager {
   }
 
   /**
-   * Process and embed a new message
-   * This happens after LLM generates a response
+   * Queue messages for embedding
+   * They are embedded in the background (see EmbeddingQueue), with retries
    */
-  async processMessageForRAG(message: Message): Promise<void> {
-    try {
-      // Store in database first
-      const storage = getStorage();
-      const savedMessage = storage.getMessage(message.id) || message;
-
-      // Add to Chroma for semantic search
-      await this.retrieval.addMessageEmbedding(savedMessage);
+  queueMessagesForEmbedding(messages: Message[]): void {
+    this.queue.enqueue(messages);
+  }
 
-      // Update embedding metadata
-      storage.updateEmbeddingStatus(
-        `emb_${message.id}`,
-        'success',
-        message.id
-      );
+  /**
+   * Queue depth, failures and limits of the embedding queue
+   */
+  getEmbeddingQueueStatus(): EmbeddingQueueStatus {
+    return this.queue.getStatus();
+  }
 
-      console.log(`[RAGManager] Message ${message.id} processed for RAG`);
-    } catch (error) {
-      console.error('[RAGManager] Error processing message for RAG:', error);
+  /**
+   * Re-queue embeddings that ran out of attempts
+   */
+  retryFailedEmbeddings(): number {
+    return this.queue.retryFailed();
+  }
 
-      // Still update status so we know it failed
-      const storage = getStorage();
-      storage.updateEmbeddingStatus(
-        `emb_${message.id}`,
-        'failed',
-        undefined,
-        (error as Error).message
-      );
+  /**
+   * Queue every message on every conversation's active branch for re-embedding
+   * (after the embedding model changed). Returns how many were queued
+   */
+  reembedAllMessages(): number {
+    const storage = getStorage();
+    const pageSize = 50;
+    let queued = 0;
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = storage.getAllConversations(pageSize, offset);
+      if (page.length === 0) break;
+
+      for (const conversation of page) {
+        const messages = storage.getConversationMessages(conversation.id);
+        this.queue.enqueue(messages);
+        queued += messages.length;
+      }
     }
+
+    console.log(`[RAGManager] Queued ${queued} messages for re-embedding`);
+    return queued;
   }
 
   /**
-   * Batch process multiple messages
-   * More efficient than processing one at a time
+   * Make the index match a conversation's active branch: embeddings of messages
+   * that left the branch are removed, messages that (re)joined it are queued for embedding.
+   * Abandoned branches therefore never show up in retrieval.
    */
-  async processMessagesForRAG(messages: Message[]): Promise<void> {
-    try {
-      const storage = getStorage();
+  async syncConversationBranch(conversationId: string, activeMessages: Message[]): Promise<void> {
+    const activeIds = new Set(activeMessages.map(message => message.id));
+    const indexedIds = await this.retrieval.getConversationMessageIds(conversationId);
 
-      // Add to Chroma in batch
-      await this.retrieval.addMessageEmbeddingsBatch(messages);
+    const staleIds = indexedIds.filter(id => !activeIds.has(id));
+    await this.retrieval.deleteMessages(staleIds);
 
-      // Update embedding metadata for all
-      messages.forEach(msg => {
-        storage.updateEmbeddingStatus(
-          `emb_${msg.id}`,
-          'success',
-          msg.id
-        );
-      });
+    const indexed = new Set(indexedIds);
+    const missing = activeMessages.filter(message => !indexed.has(message.id));
+    this.queue.enqueue(missing);
 
-      console.log(`[RAGManager] Processed ${messages.length} messages for RAG`);
-    } catch (error) {
-      console.error('[RAGManager] Error batch processing messages:', error);
-      throw error;
+    console.log(
+      `[RAGManager] Branch synced for ${conversationId}: -${staleIds.length} +${missing.length}`
+    );
+  }
+
+  /**
+   * Phase 4: Re-chunk messages embedded before chunking was on (BACKFILL_CHUNKS)
+   * Walks every conversation's active branch and re-embeds the messages whose stored
+   * vectors don't match how they chunk now. Completion is recorded in preferences, so
+   * it runs once per CHUNKER_VERSION.
+   */
+  async backfillChunks(): Promise<void> {
+    const storage = getStorage();
+    const preference = storage.getPreference('rag_chunk_backfill');
+    const previous = preference?.data_type === 'json' ? JSON.parse(preference.value) : null;
+    if (previous?.version === CHUNKER_VERSION) {
+      console.log(`[RAGManager] Chunk backfill already done (${previous.completed_at})`);
+      return;
     }
+
+    // New splitting rules can yield the same number of chunks, so re-embed every chunked message
+    const rulesChanged = previous !== null;
+    let conversations = 0;
+    let rechunked = 0;
+    const pageSize = 50;
+
+    console.log('[RAGManager] Starting chunk backfill...');
+    for (let offset = 0; ; offset += pageSize) {
+      const page = storage.getAllConversations(pageSize, offset);
+      if (page.length === 0) break;
+
+      for (const conversation of page) {
+        const stored = await this.retrieval.getConversationChunkCounts(conversation.id);
+
+        for (const message of storage.getConversationMessages(conversation.id)) {
+          const storedCount = stored.get(message.id);
+          if (storedCount === undefined) continue; // Not indexed yet - embedded chunked when it is
+
+          const expected = chunkMessage(message.content).length;
+          if (storedCount === expected && !(rulesChanged && expected > 1)) continue;
+
+          await this.retrieval.replaceMessageEmbedding(message);
+          rechunked += 1;
+        }
+        conversations += 1;
+      }
+    }
+
+    storage.setPreference('rag_chunk_backfill', {
+      version: CHUNKER_VERSION,
+      completed_at: new Date().toISOString(),
+      conversations,
+      rechunked,
+    });
+    console.log(`[RAGManager] Chunk backfill done: ${rechunked} messages re-chunked across ${conversations} conversations`);
   }
 
   /**
@@ -138,6 +228,21 @@ export class RAGManager {
     conversationId?: string,
     includeProfile: boolean = false
   ): Promise<RetrievalResult[]> {
+    const { results, metrics } = await this.retrieve(query, topK, conversationId, includeProfile);
+    this.logMetrics(metrics);
+    return results;
+  }
+
+  /**
+   * Run retrieval and collect its metrics (logging is left to the caller, which
+   * may add how much of the token budget the results took)
+   */
+  private async retrieve(
+    query: string,
+    topK?: number,
+    conversationId?: string,
+    includeProfile: boolean = false
+  ): Promise<{ results: RetrievalResult[]; metrics: RetrievalMetrics }> {
     const startTime = Date.now();
     const config = getMemoryConfig();
 
@@ -212,7 +317,7 @@ export class RAGManager {
 
         // Global fallback if conversation results are insufficient
         if (results.length === 0) {
-          globalResults = await this.retrieval.search(query, topK);
+          globalResults = expandChunkResults(await this.retrieval.search(query, topK));
           results = globalResults;
         }
         denseMs = Date.now() - denseStartTime;
@@ -245,6 +350,9 @@ export class RAGManager {
         .slice(0, 3)
         .map(r => r.similarity_score);
 
+      this.recordHits(merged);
+      const withPinned = this.addPinnedMemories(merged, includeProfile);
+
       // Log retrieval metrics (Phase 1)
       const totalMs = Date.now() - startTime;
       const metrics: RetrievalMetrics = {
@@ -272,18 +380,13 @@ export class RAGManager {
         },
       };
 
-      // Log metrics asynchronously (don't block retrieval)
-      logRetrievalMetrics(metrics).catch(err => {
-        console.warn('[RAGManager] Failed to log metrics:', err);
-      });
-
-      return merged;
+      return { results: withPinned, metrics };
     } catch (error) {
       console.error('[RAGManager] Error retrieving similar messages:', error);
 
       // Log failed retrieval
       const totalMs = Date.now() - startTime;
-      logRetrievalMetrics({
+      const metrics: RetrievalMetrics = {
         query,
         timestamp: Date.now(),
         conversationId,
@@ -304,12 +407,82 @@ export class RAGManager {
           chunking: config.ragChunking,
           tokenBudget: config.ragTokenBudget,
         },
-      }).catch(() => {}); // Ignore metric logging errors
+      };
 
-      return [];
+      return { results: [], metrics };
+    }
+  }
+
+  /**
+   * Count a hit for every retrieved message, summary and profile (shown in the memory browser)
+   */
+  private recordHits(results: RetrievalResult[]): void {
+    try {
+      getStorage().recordMemoryHits(
+        results.map(result => ({ id: result.message.id, type: result.content_type || 'message' }))
+      );
+    } catch (error) {
+      console.warn('[RAGManager] Failed to record memory hits:', error);
     }
   }
 
+  /**
+   * Add the memories pinned in the memory browser: they are included whether or not
+   * they matched the query (the profile still only with consent)
+   */
+  private addPinnedMemories(results: RetrievalResult[], includeProfile: boolean): RetrievalResult[] {
+    const storage = getStorage();
+    let pinnedItems: MemoryItem[];
+    try {
+      pinnedItems = storage.listMemoryItems({ pinned: true, limit: MAX_PINNED_MEMORIES }).items;
+    } catch (error) {
+      console.warn('[RAGManager] Failed to load pinned memories:', error);
+      return results;
+    }
+    if (pinnedItems.length === 0) return results;
+
+    const pinnedIds = new Set(pinnedItems.map(item => item.id));
+    const withPinned = results.map(result =>
+      pinnedIds.has(result.message.id) ? { ...result, pinned: true } : result
+    );
+    const retrievedIds = new Set(results.map(result => result.message.id));
+
+    for (const item of pinnedItems) {
+      if (retrievedIds.has(item.id)) continue;
+      if (item.type === 'user_profile' && !includeProfile) continue;
+
+      const message: Message | null = item.type === 'message'
+        ? storage.getMessage(item.id)
+        : {
+            id: item.id,
+            conversation_id: item.conversation_id || 'profile',
+            role: 'system',
+            content: item.content,
+            created_at: item.created_at,
+          };
+      if (!message) continue;
+
+      withPinned.push({
+        message,
+        similarity_score: 0,
+        conversation_summary: item.conversation_id,
+        content_type: item.type,
+        pinned: true,
+      });
+    }
+
+    return withPinned;
+  }
+
+  /**
+   * Log metrics asynchronously (don't block retrieval)
+   */
+  private logMetrics(metrics: RetrievalMetrics): void {
+    logRetrievalMetrics(metrics).catch(err => {
+      console.warn('[RAGManager] Failed to log metrics:', err);
+    });
+  }
+
   /**
    * Retrieve messages with metadata filters
    */
@@ -329,7 +502,8 @@ export class RAGManager {
         topK
       );
 
-      return results;
+      // Phase 4: several chunks of one message come back as that message
+      return expandChunkResults(results);
     } catch (error) {
       console.error('[RAGManager] Error retrieving with filters:', error);
       return [];
@@ -348,24 +522,34 @@ export class RAGManager {
   ): Promise<AugmentedPrompt> {
     try {
       // Retrieve similar messages
-      const retrievedContext = await this.retrieveSimilarMessages(
+      const { results: retrievedContext, metrics } = await this.retrieve(
         userMessage,
         topK,
         conversationId,
         includeProfile
       );
 
+      // Pack them into the token budget, and record what that cost
+      const config = getMemoryConfig();
+      const describeSource = this.sourceDescriber();
+      const packed = packMemoryContext(retrievedContext, userMessage, config.ragTokenBudget, describeSource);
+      metrics.context = {
+        tokensUsed: packed.tokensUsed,
+        packed: packed.packed,
+        snippeted: packed.snippeted,
+        dropped: packed.dropped,
+      };
+      this.logMetrics(metrics);
+
       // Build context string
       let contextString = '';
       if (retrievedContext.length > 0) {
         contextString = 'Previous relevant context from your memory:\n\n';
         retrievedContext.forEach((result, idx) => {
-          contextString += `[Memory ${idx + 1}] (Similarity: ${(
-            result.similarity_score * 100
-          ).toFixed(0)}%)\n`;
+          contextString += `[Memory ${idx + 1}] (${formatMatch(result)})\n`;
+          const content = resultContent(result);
           contextString += `${result.message.role.toUpperCase()}: ${
-            result.message.content.substring(0, 200) +
-            (result.message.content.length > 200 ? '...' : '')
+            content.substring(0, 200) + (content.length > 200 ? '...' : '')
           }\n\n`;
         });
 
@@ -383,6 +567,15 @@ Continue to be helpful, direct, and concise. Reference past conversations if rel
         original_query: userMessage,
         retrieved_context: retrievedContext,
         enhanced_system_prompt: enhancedSystemPrompt,
+        memory_block: packed.block,
+        memory_block_tokens: packed.tokensUsed,
+        trace: buildRetrievalTrace(
+          retrievedContext,
+          packed,
+          userMessage,
+          { hybrid: config.ragHybrid, tokenBudget: config.ragTokenBudget },
+          describeSource
+        ),
       };
     } catch (error) {
       console.error('[RAGManager] Error augmenting prompt:', error);
@@ -403,6 +596,7 @@ Continue to be helpful, direct, and concise. Reference past conversations if rel
     chroma_stats: { count: number; name: string };
     sqlite_stats: any;
     embedding_model_available: boolean;
+    embedding_provider: string | null;
     embedding_dimension: number | null;
   }> {
     try {
@@ -411,10 +605,13 @@ Continue to be helpful, direct, and concise. Reference past conversations if rel
       const sqliteStats = storage.getStats();
       const modelAvailable = await this.embeddings.checkModelAvailability();
 
+      let embeddingProvider: string | null = null;
       let embeddingDim: number | null = null;
       if (modelAvailable) {
         try {
-          embeddingDim = await this.embeddings.getEmbeddingDimension();
+          const provider = await this.embeddings.getProviderInfo();
+          embeddingProvider = provider.provider;
+          embeddingDim = provider.dimension;
         } catch (error) {
           console.warn('[RAGManager] Could not get embedding dimension:', error);
         }
@@ -424,6 +621,7 @@ Continue to be helpful, direct, and concise. Reference past conversations if rel
         chroma_stats: chromaStats,
         sqlite_stats: sqliteStats,
         embedding_model_available: modelAvailable,
+        embedding_provider: embeddingProvider,
         embedding_dimension: embeddingDim,
       };
     } catch (error) {
@@ -464,8 +662,8 @@ Continue to be helpful, direct, and concise. Reference past conversations if rel
     return augmented.retrieved_context
       .map(
         (r, i) =>
-          `${i + 1}. [${r.message.role}] (${(r.similarity_score * 100).toFixed(0)}%) ${
-            r.message.content.substring(0, 100) + '...'
+          `${i + 1}. [${r.message.role}] (${formatMatch(r)}) ${
+            resultContent(r).substring(0, 100) + '...'
           }`
       )
       .join('\n');
@@ -473,35 +671,37 @@ Continue to be helpful, direct, and concise. Reference past conversations if rel
 
   /**
    * Build a memory context block to append to system prompts
+   * Packed by reranked score into RAG_TOKEN_BUDGET, long memories cut to the part
+   * around what matched the query
    */
-  buildMemoryContextBlock(retrievedContext: RetrievalResult[]): string {
-    if (retrievedContext.length === 0) {
-      return '';
-    }
+  buildMemoryContextBlock(retrievedContext: RetrievalResult[], query: string = ''): string {
+    return packMemoryContext(
+      retrievedContext,
+      query,
+      getMemoryConfig().ragTokenBudget,
+      this.sourceDescriber()
+    ).block;
+  }
 
-    let memoryIndex = 1;
-    const memoryContext = retrievedContext
-      .map((result, idx) => {
-        const snippet = result.message.content.substring(0, 200) +
-          (result.message.content.length > 200 ? '...' : '');
-        let label = `Memory ${memoryIndex}`;
-        if (result.content_type === 'conversation_summary') {
-          label = 'Conversation Summary';
-        } else if (result.content_type === 'user_profile') {
-          label = 'User Profile';
-        } else {
-          memoryIndex += 1;
-        }
+  /**
+   * Labels memories with their conversation title and date (titles looked up once)
+   */
+  private sourceDescriber(): (result: RetrievalResult) => MemorySource {
+    const storage = getStorage();
+    const titles = new Map<string, string | undefined>();
 
-        return `[${label}] (Similarity: ${(result.similarity_score * 100).toFixed(0)}%)\n` +
-          `${result.message.role.toUpperCase()}: ${snippet}`;
-      })
-      .join('\n\n');
+    return (result: RetrievalResult): MemorySource => {
+      if (result.content_type === 'user_profile') return {};
 
-    return `\n\n[Memory Context]\n` +
-      `You have access to relevant memories from past conversations that may help answer the current question.\n\n` +
-      `${memoryContext}\n\n` +
-      `Use these memories only if they are directly relevant.`;
+      const conversationId = result.message.conversation_id;
+      if (!titles.has(conversationId)) {
+        titles.set(conversationId, storage.getConversation(conversationId)?.title);
+      }
+      return {
+        title: titles.get(conversationId),
+        date: result.message.created_at?.slice(0, 10),
+      };
+    };
   }
 
   /**
@@ -529,6 +729,27 @@ Continue to be helpful, direct, and concise. Reference past conversations if rel
     });
   }
 
+  /**
+   * Delete message and summary embeddings for a conversation
+   */
+  async deleteConversationEmbeddings(conversationId: string): Promise<void> {
+    await this.retrieval.deleteConversationEmbeddings(conversationId);
+  }
+
+  /**
+   * Delete a message's embedding (all its chunks)
+   */
+  async deleteMessageEmbedding(messageId: string): Promise<void> {
+    await this.retrieval.deleteMessage(messageId);
+  }
+
+  /**
+   * Delete a conversation summary embedding
+   */
+  async deleteConversationSummaryEmbedding(conversationId: string): Promise<void> {
+    await this.retrieval.deleteDocumentEmbedding(`summary_${conversationId}`);
+  }
+
   /**
    * Delete single-user profile embedding
    */
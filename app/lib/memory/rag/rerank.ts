@@ -4,6 +4,16 @@
 
 import { RetrievalResult } from '../schemas';
 import { getMemoryConfig } from '../config';
+import { resultContent } from './chunking';
+
+/**
+ * Reranking coefficients: α·dense_sim + β·bm25_norm + γ·code_match
+ */
+export interface RerankWeights {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
 
 /**
  * Extract code identifiers from text
@@ -101,7 +111,7 @@ function calculateFinalScore(
   const bm25Norm = result.fts_score ? normalizeBM25(result.fts_score) : 0;
 
   // Code identifier match (0 or 1)
-  const codeMatch = calculateCodeMatch(queryIdentifiers, result.message.content);
+  const codeMatch = calculateCodeMatch(queryIdentifiers, resultContent(result));
 
   // Weighted combination
   const finalScore = alpha * denseSim + beta * bm25Norm + gamma * codeMatch;
@@ -116,29 +126,42 @@ function calculateFinalScore(
  * @param denseResults - Results from Chroma semantic search
  * @param ftsResults - Results from SQLite FTS5 lexical search
  * @param query - Original query text
+ * @param weights - Reranking coefficients (defaults to RAG_RERANK_ALPHA/BETA/GAMMA)
  * @returns Deduplicated and reranked results
  */
 export function deduplicateAndRerank(
   denseResults: RetrievalResult[],
   ftsResults: RetrievalResult[],
-  query: string
+  query: string,
+  weights?: RerankWeights
 ): RetrievalResult[] {
   const config = getMemoryConfig();
 
-  // Get reranking coefficients from config
-  const alpha = config.ragRerankAlpha;
-  const beta = config.ragRerankBeta;
-  const gamma = config.ragRerankGamma;
+  // Get reranking coefficients from config (the evaluation harness passes its own)
+  const alpha = weights?.alpha ?? config.ragRerankAlpha;
+  const beta = weights?.beta ?? config.ragRerankBeta;
+  const gamma = weights?.gamma ?? config.ragRerankGamma;
 
   // Extract code identifiers from query
   const queryIdentifiers = extractCodeIdentifiers(query);
 
   // Deduplicate by message ID
   const seen = new Map<string, RetrievalResult>();
+  const foundBy = new Map<string, Set<'dense' | 'fts'>>(); // Which searches found each message
+  const denseSimilarity = new Map<string, number>();
 
   // Process all results
-  for (const result of [...denseResults, ...ftsResults]) {
+  const tagged = [
+    ...denseResults.map(result => ({ result, source: 'dense' as const })),
+    ...ftsResults.map(result => ({ result, source: 'fts' as const })),
+  ];
+  for (const { result, source } of tagged) {
     const key = result.message.id;
+    if (!foundBy.has(key)) foundBy.set(key, new Set());
+    foundBy.get(key)!.add(source);
+    if (source === 'dense') {
+      denseSimilarity.set(key, Math.max(denseSimilarity.get(key) ?? 0, result.similarity_score));
+    }
 
     // Keep the result with higher similarity score if duplicate
     const existing = seen.get(key);
@@ -153,13 +176,16 @@ export function deduplicateAndRerank(
   const reranked = merged.map(result => ({
     ...result,
     final_score: calculateFinalScore(result, queryIdentifiers, alpha, beta, gamma),
+    code_match: calculateCodeMatch(queryIdentifiers, resultContent(result)) === 1,
+    matched_by: Array.from(foundBy.get(result.message.id) || []),
+    dense_similarity: denseSimilarity.get(result.message.id),
   }));
 
   // Sort by final score (descending)
   reranked.sort((a, b) => (b.final_score || 0) - (a.final_score || 0));
 
-  // Remove final_score from output (keep as internal calculation)
-  return reranked.map(({ final_score, ...result }) => result);
+  // Keep the final score so the memory block can pack by it (and the retrieval trace show it)
+  return reranked.map(({ final_score, ...result }) => ({ ...result, rank_score: final_score }));
 }
 
 /**
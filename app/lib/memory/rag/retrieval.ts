@@ -3,22 +3,41 @@
 
 import { ChromaClient } from 'chromadb';
 import { RetrievalResult, Message } from '../schemas';
-import { OllamaEmbeddings } from './embeddings';
+import { EmbeddingProvider } from './embeddings';
 import { getStorage } from '../storage';
+import {
+  VectorStore,
+  VectorDocument,
+  VectorFilters,
+  VectorMetadata,
+  VectorStoreInitOptions,
+  VectorStoreMeta,
+  StoredVector,
+  buildMessageDocuments,
+  describeVectorStoreMeta,
+  readVectorStoreMeta,
+  vectorStoreMetaMismatch,
+  parentMessageId,
+  toRetrievalResult,
+  lexicalSearch,
+} from './vectorStore';
+
+// Preference holding the collection's VectorStoreMeta
+const COLLECTION_META_KEY = 'rag_collection_meta';
 
 /**
  * Chroma Retrieval Engine
  * Manages vector storage and semantic search
  */
-export class ChromaRetrieval {
+export class ChromaRetrieval implements VectorStore {
   private client: ChromaClient;
   private collectionName: string;
-  private embeddings: OllamaEmbeddings;
+  private embeddings: EmbeddingProvider;
   private topK: number;
   private similarityThreshold: number;
 
   constructor(
-    embeddingModel: OllamaEmbeddings,
+    embeddingModel: EmbeddingProvider,
     collectionName: string = 'hackerreign_conversations',
     topK: number = 5,
     similarityThreshold: number = 0.3
@@ -40,28 +59,35 @@ export class ChromaRetrieval {
 
   /**
    * Initialize Chroma collection
-   * Recreates collection if it exists with incompatible embedding function
+   * Recreates the collection (and returns true, so the caller re-embeds) if it holds
+   * vectors from another embedding provider or model. With keepExisting it throws instead.
    */
-  async initialize(): Promise<void> {
+  async initialize(options: VectorStoreInitOptions = {}): Promise<boolean> {
     try {
       const storage = getStorage();
-      const storedPreference = storage.getPreference('rag_collection_meta');
-      const storedMeta = storedPreference?.data_type === 'json'
-        ? JSON.parse(storedPreference.value)
-        : null;
-
-      const embeddingModel = this.embeddings.getEmbeddingModel();
-      const embeddingDimension = await this.embeddings.getEmbeddingDimension();
-      const currentMeta = {
+      const storedMeta = this.getStoredMeta();
+
+      const provider = await this.embeddings.getProviderInfo();
+      const currentMeta: VectorStoreMeta = {
         collection_name: this.collectionName,
-        embedding_model: embeddingModel,
-        embedding_dimension: embeddingDimension,
+        embedding_provider: provider.provider,
+        embedding_model: provider.model,
+        embedding_dimension: provider.dimension,
       };
 
-      const needsRebuild = !storedMeta ||
-        storedMeta.collection_name !== currentMeta.collection_name ||
-        storedMeta.embedding_model !== currentMeta.embedding_model ||
-        storedMeta.embedding_dimension !== currentMeta.embedding_dimension;
+      const needsRebuild = vectorStoreMetaMismatch(storedMeta, currentMeta);
+
+      if (needsRebuild && options.keepExisting) {
+        const storedCount = await this.client.getCollection({ name: this.collectionName })
+          .then(collection => collection.count())
+          .catch(() => 0);
+        if (storedCount > 0) {
+          throw new Error(
+            `Collection holds ${storedCount} vectors from ${describeVectorStoreMeta(storedMeta)}, ` +
+            `but the current embedding provider is ${describeVectorStoreMeta(currentMeta)}`
+          );
+        }
+      }
 
       if (needsRebuild) {
         console.log('[ChromaRetrieval] Stored collection metadata:', storedMeta || 'none');
@@ -79,7 +105,7 @@ export class ChromaRetrieval {
         try {
           await this.client.getCollection({ name: this.collectionName });
           console.log('[ChromaRetrieval] Existing collection found, keeping it.');
-          return;
+          return false;
         } catch {
           console.log('[ChromaRetrieval] Existing collection not found, creating new...');
         }
@@ -93,50 +119,33 @@ export class ChromaRetrieval {
           hnsw_space: 'cosine', // Use cosine similarity
           description: 'Hacker Reign conversation embeddings',
           created_at: new Date().toISOString(),
-          embedding_provider: 'ollama',
+          embedding_provider: provider.provider,
         },
       });
 
-      storage.setPreference('rag_collection_meta', currentMeta);
+      storage.setPreference(COLLECTION_META_KEY, currentMeta);
       console.log(`[ChromaRetrieval] Collection '${this.collectionName}' ready`);
+      return needsRebuild;
     } catch (error) {
       console.error('[ChromaRetrieval] Error initializing collection:', error);
       throw error;
     }
   }
 
+  /**
+   * Embedding provider and model the collection's vectors were made with
+   */
+  getStoredMeta(): VectorStoreMeta | null {
+    return readVectorStoreMeta(COLLECTION_META_KEY);
+  }
+
   /**
    * Add message embedding to Chroma
-   * Stores both user and assistant messages
+   * Stores both user and assistant messages (long ones as chunks when RAG_CHUNKING is on)
    */
   async addMessageEmbedding(message: Message): Promise<void> {
     try {
-      // Generate embedding for the message content
-      const embedding = await this.embeddings.embed(message.content);
-
-      // Get collection
-      const collection = await this.client.getCollection({
-        name: this.collectionName,
-        embeddingFunction: undefined,
-      });
-
-      // Add to collection with metadata
-      await collection.add({
-        ids: [message.id],
-        embeddings: [embedding],
-        documents: [message.content],
-        metadatas: [
-          {
-            conversation_id: message.conversation_id,
-            role: message.role,
-            created_at: message.created_at,
-            model_used: message.model_used || 'unknown',
-            message_length: message.content.length,
-            content_type: 'message',
-          },
-        ],
-      });
-
+      await this.addEntries(buildMessageDocuments(message));
       console.log(`[ChromaRetrieval] Added message ${message.id} to Chroma`);
     } catch (error) {
       console.error('[ChromaRetrieval] Error adding message embedding:', error);
@@ -152,36 +161,7 @@ export class ChromaRetrieval {
     try {
       if (messages.length === 0) return;
 
-      // Generate embeddings for all messages
-      const contents = messages.map(m => m.content);
-      const embeddings = await this.embeddings.embedBatch(contents);
-
-      // Prepare data for Chroma
-      const ids = messages.map(m => m.id);
-      const documents = messages.map(m => m.content);
-      const metadatas = messages.map(m => ({
-        conversation_id: m.conversation_id,
-        role: m.role,
-        created_at: m.created_at,
-        model_used: m.model_used || 'unknown',
-        message_length: m.content.length,
-        content_type: 'message',
-      }));
-
-      // Get collection
-      const collection = await this.client.getCollection({
-        name: this.collectionName,
-        embeddingFunction: undefined,
-      });
-
-      // Add to collection
-      await collection.add({
-        ids,
-        embeddings,
-        documents,
-        metadatas,
-      });
-
+      await this.addEntries(messages.flatMap(buildMessageDocuments));
       console.log(`[ChromaRetrieval] Added ${messages.length} messages to Chroma`);
     } catch (error) {
       console.error('[ChromaRetrieval] Error adding batch embeddings:', error);
@@ -189,6 +169,61 @@ export class ChromaRetrieval {
     }
   }
 
+  /**
+   * Re-embed a message, replacing whatever is stored for it (whole or chunked)
+   */
+  async replaceMessageEmbedding(message: Message): Promise<void> {
+    await this.deleteMessages([message.id]);
+    await this.addMessageEmbedding(message);
+  }
+
+  /**
+   * Number of vectors stored per message of a conversation (1 = embedded whole)
+   */
+  async getConversationChunkCounts(conversationId: string): Promise<Map<string, number>> {
+    const collection = await this.client.getCollection({
+      name: this.collectionName,
+    });
+
+    const results = await collection.get({
+      where: {
+        $and: [
+          { conversation_id: { $eq: conversationId } },
+          { content_type: { $eq: 'message' } },
+        ],
+      },
+      include: ['metadatas'],
+    });
+
+    const counts = new Map<string, number>();
+    (results.ids || []).forEach((id, i) => {
+      const parentId = parentMessageId(id, results.metadatas?.[i]);
+      counts.set(parentId, (counts.get(parentId) || 0) + 1);
+    });
+    return counts;
+  }
+
+  private async addEntries(entries: VectorDocument[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    // Generate embeddings for all entries
+    const embeddings = await this.embeddings.embedBatch(entries.map(entry => entry.document));
+
+    // Get collection
+    const collection = await this.client.getCollection({
+      name: this.collectionName,
+      embeddingFunction: undefined,
+    });
+
+    // Add to collection with metadata
+    await collection.add({
+      ids: entries.map(entry => entry.id),
+      embeddings,
+      documents: entries.map(entry => entry.document),
+      metadatas: entries.map(entry => entry.metadata),
+    });
+  }
+
   /**
    * Search for semantically similar messages
    * Returns top-k messages with similarity scores
@@ -196,7 +231,7 @@ export class ChromaRetrieval {
   async search(
     query: string,
     topK?: number,
-    filters?: Record<string, any>
+    filters?: VectorFilters
   ): Promise<RetrievalResult[]> {
     try {
       const k = topK || this.topK;
@@ -215,7 +250,7 @@ export class ChromaRetrieval {
       const results = await collection.query({
         queryEmbeddings: [queryEmbedding],
         nResults: k,
-        where: filters, // Optional metadata filtering
+        where: this.toWhere(filters), // Optional metadata filtering
         include: ['embeddings', 'distances', 'documents', 'metadatas'],
       });
 
@@ -244,7 +279,6 @@ export class ChromaRetrieval {
         const distance = results.distances?.[0]?.[i] || 0;
         const document = results.documents?.[0]?.[i] || '';
         const metadata = results.metadatas?.[0]?.[i] as any || {};
-        const contentType = metadata.content_type || 'message';
 
         // Chroma uses distance (lower is better), convert to similarity (0-1)
         // For cosine: similarity = 1 - distance
@@ -255,36 +289,8 @@ export class ChromaRetrieval {
           continue;
         }
 
-        if (contentType !== 'message') {
-          const syntheticMessage: Message = {
-            id: messageId,
-            conversation_id: metadata.conversation_id || 'profile',
-            role: 'system',
-            content: document,
-            created_at: metadata.created_at || new Date().toISOString(),
-          };
-
-          retrievalResults.push({
-            message: syntheticMessage,
-            similarity_score: similarity,
-            conversation_summary: metadata.conversation_id,
-            content_type: contentType,
-          });
-          continue;
-        }
-
-        // Fetch full message from database
-        const storage = getStorage();
-        const fullMessage = storage.getMessage(messageId);
-
-        if (fullMessage) {
-          retrievalResults.push({
-            message: fullMessage,
-            similarity_score: similarity,
-            conversation_summary: metadata.conversation_id,
-            content_type: 'message',
-          });
-        }
+        const result = toRetrievalResult(messageId, document, metadata, similarity);
+        if (result) retrievalResults.push(result);
       }
 
       console.log(
@@ -304,32 +310,33 @@ export class ChromaRetrieval {
    */
   async searchWithFilters(
     query: string,
-    filters: {
-      conversation_id?: string;
-      role?: 'user' | 'assistant';
-      dateRange?: { from: Date; to: Date };
-      content_type?: 'message' | 'conversation_summary' | 'user_profile';
-    },
+    filters: VectorFilters,
     topK?: number
   ): Promise<RetrievalResult[]> {
-    const chromaFilters: Record<string, any> = {};
+    return this.search(query, topK, filters);
+  }
 
+  /**
+   * Chroma where clause for the metadata filters
+   * Note: Chroma doesn't have direct date range support in filters,
+   * callers filter on the client side after retrieval
+   */
+  private toWhere(filters?: VectorFilters): Record<string, any> | undefined {
+    if (!filters) return undefined;
+
+    const clauses: Record<string, any>[] = [];
     if (filters.conversation_id) {
-      chromaFilters.conversation_id = { $eq: filters.conversation_id };
+      clauses.push({ conversation_id: { $eq: filters.conversation_id } });
     }
-
     if (filters.role) {
-      chromaFilters.role = { $eq: filters.role };
+      clauses.push({ role: { $eq: filters.role } });
     }
-
     if (filters.content_type) {
-      chromaFilters.content_type = { $eq: filters.content_type };
+      clauses.push({ content_type: { $eq: filters.content_type } });
     }
 
-    // Note: Chroma doesn't have direct date range support in filters
-    // We'll filter on the client side after retrieval
-
-    return this.search(query, topK, chromaFilters);
+    if (clauses.length === 0) return undefined;
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
   }
 
   /**
@@ -338,7 +345,7 @@ export class ChromaRetrieval {
   async upsertDocumentEmbedding(
     id: string,
     content: string,
-    metadata: Record<string, any>
+    metadata: VectorMetadata
   ): Promise<void> {
     try {
       const embedding = await this.embeddings.embed(content);
@@ -392,6 +399,7 @@ export class ChromaRetrieval {
       });
 
       await collection.delete({ ids: [messageId] });
+      await collection.delete({ where: { parent_message_id: { $eq: messageId } } });
       console.log(`[ChromaRetrieval] Deleted message ${messageId}`);
     } catch (error) {
       console.error('[ChromaRetrieval] Error deleting message:', error);
@@ -399,6 +407,40 @@ export class ChromaRetrieval {
     }
   }
 
+  /**
+   * Delete several messages from Chroma, chunks included
+   */
+  async deleteMessages(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    try {
+      const collection = await this.client.getCollection({
+        name: this.collectionName,
+      });
+
+      await collection.delete({ ids: messageIds });
+      await collection.delete({ where: { parent_message_id: { $in: messageIds } } });
+      console.log(`[ChromaRetrieval] Deleted ${messageIds.length} messages`);
+    } catch (error) {
+      console.error('[ChromaRetrieval] Error deleting messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * IDs of the messages embedded for a conversation (summaries excluded, chunks
+   * reported once under their message id)
+   */
+  async getConversationMessageIds(conversationId: string): Promise<string[]> {
+    try {
+      const counts = await this.getConversationChunkCounts(conversationId);
+      return Array.from(counts.keys());
+    } catch (error) {
+      console.error('[ChromaRetrieval] Error listing conversation embeddings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete all embeddings for a conversation
    */
@@ -425,6 +467,46 @@ export class ChromaRetrieval {
     }
   }
 
+  /**
+   * Page through every stored vector (for copying to another backend)
+   */
+  async listVectors(offset: number, limit: number): Promise<StoredVector[]> {
+    const collection = await this.client.getCollection({
+      name: this.collectionName,
+    });
+
+    const results = await collection.get({
+      offset,
+      limit,
+      include: ['embeddings', 'documents', 'metadatas'],
+    });
+
+    return (results.ids || []).map((id, i) => ({
+      id,
+      embedding: Array.from(results.embeddings?.[i] || []),
+      document: results.documents?.[i] || '',
+      metadata: (results.metadatas?.[i] || {}) as VectorMetadata,
+    }));
+  }
+
+  /**
+   * Store vectors as-is, replacing any with the same id (no re-embedding)
+   */
+  async putVectors(vectors: StoredVector[]): Promise<void> {
+    if (vectors.length === 0) return;
+
+    const collection = await this.client.getCollection({
+      name: this.collectionName,
+    });
+
+    await collection.upsert({
+      ids: vectors.map(vector => vector.id),
+      embeddings: vectors.map(vector => vector.embedding),
+      documents: vectors.map(vector => vector.document),
+      metadatas: vectors.map(vector => vector.metadata),
+    });
+  }
+
   /**
    * Get collection statistics
    */
@@ -466,96 +548,12 @@ export class ChromaRetrieval {
   /**
    * FTS (Full-Text Search) lexical search
    * Phase 3: Hybrid Retrieval
-   * Uses SQLite FTS5 for keyword/code identifier matching
    */
   async ftsSearch(
     query: string,
     conversationId?: string,
     limit: number = 10
   ): Promise<RetrievalResult[]> {
-    try {
-      const storage = getStorage();
-      const db = storage.getDatabase();
-
-      // Build FTS query - escape special characters
-      const ftsQuery = query
-        .replace(/[^\w\s]/g, ' ')  // Remove special chars
-        .trim()
-        .split(/\s+/)               // Split on whitespace
-        .filter(term => term.length > 2)  // Filter short terms
-        .join(' OR ');              // Join with OR for broader matching
-
-      if (!ftsQuery) {
-        console.log('[ChromaRetrieval] FTS query too short, returning empty results');
-        return [];
-      }
-
-      // Build SQL query
-      let sql = `
-        SELECT
-          f.message_id,
-          f.conversation_id,
-          f.content,
-          f.role,
-          bm25(f) as bm25_score
-        FROM messages_fts f
-        WHERE f.content MATCH ?
-      `;
-
-      const params: any[] = [ftsQuery];
-
-      // Filter by conversation if provided
-      if (conversationId) {
-        sql += ` AND f.conversation_id = ?`;
-        params.push(conversationId);
-      }
-
-      sql += `
-        ORDER BY bm25_score DESC
-        LIMIT ?
-      `;
-      params.push(limit);
-
-      const stmt = db.prepare(sql);
-      const rows = stmt.all(...params) as Array<{
-        message_id: string;
-        conversation_id: string;
-        content: string;
-        role: string;
-        bm25_score: number;
-      }>;
-
-      // Transform to RetrievalResult format
-      const results: RetrievalResult[] = [];
-
-      for (const row of rows) {
-        // Fetch full message from database
-        const fullMessage = storage.getMessage(row.message_id);
-
-        if (fullMessage) {
-          // Normalize BM25 score to 0-1 range (BM25 is unbounded, use sigmoid-like normalization)
-          // Typical BM25 scores range from 0-20, with higher being better
-          const normalizedScore = Math.min(1, Math.max(0, row.bm25_score / 20));
-
-          results.push({
-            message: fullMessage,
-            similarity_score: normalizedScore,
-            conversation_summary: row.conversation_id,
-            content_type: 'message',
-            fts_score: row.bm25_score,  // Keep raw score for debugging
-          });
-        }
-      }
-
-      console.log(
-        `[ChromaRetrieval] FTS search found ${results.length} results for query: "${ftsQuery}"`
-      );
-
-      return results;
-    } catch (error) {
-      console.error('[ChromaRetrieval] FTS search error:', error);
-      // Graceful fallback - return empty results if FTS unavailable
-      return [];
-    }
+    return lexicalSearch(query, conversationId, limit);
   }
 }
@@ -0,0 +1,518 @@
+// app/lib/memory/rag/sqliteVectors.ts
+// Embedded vector store: vectors live in the SQLite database, search is a brute-force
+// cosine scan over an in-memory copy. Fine for a personal history (tens of thousands of
+// vectors) and needs no Chroma server.
+
+import { RetrievalResult, Message } from '../schemas';
+import { EmbeddingProvider } from './embeddings';
+import { getStorage } from '../storage';
+import {
+  VectorStore,
+  VectorDocument,
+  VectorFilters,
+  VectorMetadata,
+  VectorStoreInitOptions,
+  VectorStoreMeta,
+  StoredVector,
+  buildMessageDocuments,
+  describeVectorStoreMeta,
+  readVectorStoreMeta,
+  vectorStoreMetaMismatch,
+  parentMessageId,
+  toRetrievalResult,
+  lexicalSearch,
+} from './vectorStore';
+
+// SQLite caps bound parameters per statement, so id lists are deleted in slices
+const MAX_IDS_PER_STATEMENT = 400;
+
+// Preference holding the index's VectorStoreMeta
+const VECTOR_STORE_META_KEY = 'rag_vector_store_meta';
+
+/**
+ * What the in-memory index keeps per vector: enough to filter and score,
+ * documents and metadata are read from the table for the top hits only
+ */
+interface IndexedVector {
+  id: string;
+  vector: Float32Array; // Unit length, so cosine similarity is a dot product
+  conversation_id: string | null;
+  content_type: string;
+  role: string | null;
+}
+
+interface VectorRow {
+  id: string;
+  embedding: Buffer;
+  conversation_id: string | null;
+  content_type: string;
+  role: string | null;
+}
+
+/**
+ * SQLite Vector Retrieval
+ * Same behaviour as ChromaRetrieval (ids, metadata, similarity = 1 - cosine distance)
+ */
+export class SQLiteVectorRetrieval implements VectorStore {
+  private collectionName: string;
+  private embeddings: EmbeddingProvider;
+  private topK: number;
+  private similarityThreshold: number;
+  private index: Map<string, IndexedVector> | null = null;
+
+  constructor(
+    embeddingModel: EmbeddingProvider,
+    collectionName: string = 'hackerreign_conversations',
+    topK: number = 5,
+    similarityThreshold: number = 0.3
+  ) {
+    this.collectionName = collectionName;
+    this.embeddings = embeddingModel;
+    this.topK = topK;
+    this.similarityThreshold = similarityThreshold;
+  }
+
+  /**
+   * Check the stored vectors were made by the current embedding provider and model
+   * Drops them if the provider, model or dimension changed (they can't be compared with new
+   * queries) and returns true, so the caller re-embeds. With keepExisting it throws instead.
+   */
+  async initialize(options: VectorStoreInitOptions = {}): Promise<boolean> {
+    try {
+      const storage = getStorage();
+      const storedMeta = this.getStoredMeta();
+
+      const provider = await this.embeddings.getProviderInfo();
+      const currentMeta: VectorStoreMeta = {
+        collection_name: this.collectionName,
+        embedding_provider: provider.provider,
+        embedding_model: provider.model,
+        embedding_dimension: provider.dimension,
+      };
+
+      const needsRebuild = vectorStoreMetaMismatch(storedMeta, currentMeta);
+      const { count: storedCount } = await this.getStats();
+
+      if (needsRebuild && storedCount > 0 && options.keepExisting) {
+        throw new Error(
+          `Index holds ${storedCount} vectors from ${describeVectorStoreMeta(storedMeta)}, ` +
+          `but the current embedding provider is ${describeVectorStoreMeta(currentMeta)}`
+        );
+      }
+
+      if (needsRebuild) {
+        console.log('[SQLiteVectors] Stored index metadata:', storedMeta || 'none');
+        console.log('[SQLiteVectors] Current index metadata:', currentMeta);
+        console.log('[SQLiteVectors] Index metadata mismatch or missing; clearing stored vectors...');
+        this.deleteWhere('1 = 1', []);
+        storage.setPreference(VECTOR_STORE_META_KEY, currentMeta);
+      }
+
+      const count = this.loadIndex().size;
+      console.log(`[SQLiteVectors] Index '${this.collectionName}' ready (${count} vectors)`);
+      return needsRebuild;
+    } catch (error) {
+      console.error('[SQLiteVectors] Error initializing index:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Embedding provider and model the stored vectors were made with
+   */
+  getStoredMeta(): VectorStoreMeta | null {
+    return readVectorStoreMeta(VECTOR_STORE_META_KEY);
+  }
+
+  /**
+   * Add message embedding
+   * Stores both user and assistant messages (long ones as chunks when RAG_CHUNKING is on)
+   */
+  async addMessageEmbedding(message: Message): Promise<void> {
+    try {
+      await this.addEntries(buildMessageDocuments(message));
+      console.log(`[SQLiteVectors] Added message ${message.id}`);
+    } catch (error) {
+      console.error('[SQLiteVectors] Error adding message embedding:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add multiple message embeddings in batch
+   */
+  async addMessageEmbeddingsBatch(messages: Message[]): Promise<void> {
+    try {
+      if (messages.length === 0) return;
+
+      await this.addEntries(messages.flatMap(buildMessageDocuments));
+      console.log(`[SQLiteVectors] Added ${messages.length} messages`);
+    } catch (error) {
+      console.error('[SQLiteVectors] Error adding batch embeddings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-embed a message, replacing whatever is stored for it (whole or chunked)
+   */
+  async replaceMessageEmbedding(message: Message): Promise<void> {
+    await this.deleteMessages([message.id]);
+    await this.addMessageEmbedding(message);
+  }
+
+  /**
+   * Upsert a custom document embedding (summaries/profile)
+   */
+  async upsertDocumentEmbedding(id: string, content: string, metadata: VectorMetadata): Promise<void> {
+    try {
+      const embedding = await this.embeddings.embed(content);
+      this.writeVectors([{ id, embedding, document: content, metadata }]);
+    } catch (error) {
+      console.error('[SQLiteVectors] Error upserting document embedding:', error);
+      throw error;
+    }
+  }
+
+  private async addEntries(entries: VectorDocument[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const embeddings = await this.embeddings.embedBatch(entries.map(entry => entry.document));
+    this.writeVectors(entries.map((entry, i) => ({ ...entry, embedding: embeddings[i] })));
+  }
+
+  /**
+   * Search for semantically similar messages
+   * Returns top-k messages with similarity scores
+   */
+  async search(query: string, topK?: number, filters?: VectorFilters): Promise<RetrievalResult[]> {
+    try {
+      const k = topK || this.topK;
+      const startTime = Date.now();
+
+      const queryVector = normalize(await this.embeddings.embed(query));
+
+      // Score every vector that passes the filters, keep the k best
+      const hits: Array<{ id: string; similarity: number }> = [];
+      for (const entry of this.loadIndex().values()) {
+        if (filters?.conversation_id && entry.conversation_id !== filters.conversation_id) continue;
+        if (filters?.role && entry.role !== filters.role) continue;
+        if (filters?.content_type && entry.content_type !== filters.content_type) continue;
+        if (entry.vector.length !== queryVector.length) continue;
+
+        hits.push({ id: entry.id, similarity: dot(queryVector, entry.vector) });
+      }
+      hits.sort((a, b) => b.similarity - a.similarity);
+      const top = hits.slice(0, k);
+
+      const responseTime = Date.now() - startTime;
+
+      // Log search for analytics (as a distance, like Chroma reports it)
+      getStorage().logSearchQuery(
+        query,
+        top.length,
+        top.length > 0 ? 1 - top[0].similarity : 0,
+        responseTime
+      );
+
+      if (top.length === 0) {
+        console.log('[SQLiteVectors] No results found for query');
+        return [];
+      }
+
+      const rows = this.getDocuments(top.map(hit => hit.id));
+      const retrievalResults: RetrievalResult[] = [];
+
+      for (const hit of top) {
+        const similarity = Math.max(0, hit.similarity);
+        const row = rows.get(hit.id);
+        if (!row || similarity < this.similarityThreshold) continue;
+
+        const result = toRetrievalResult(hit.id, row.document, JSON.parse(row.metadata), similarity);
+        if (result) retrievalResults.push(result);
+      }
+
+      console.log(
+        `[SQLiteVectors] Found ${retrievalResults.length} results (${responseTime}ms, ${hits.length} scanned)`
+      );
+
+      return retrievalResults;
+    } catch (error) {
+      console.error('[SQLiteVectors] Error searching:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search with metadata filters
+   */
+  async searchWithFilters(query: string, filters: VectorFilters, topK?: number): Promise<RetrievalResult[]> {
+    return this.search(query, topK, filters);
+  }
+
+  /**
+   * FTS (Full-Text Search) lexical search
+   * Phase 3: Hybrid Retrieval
+   */
+  async ftsSearch(query: string, conversationId?: string, limit: number = 10): Promise<RetrievalResult[]> {
+    return lexicalSearch(query, conversationId, limit);
+  }
+
+  /**
+   * Number of vectors stored per message of a conversation (1 = embedded whole)
+   */
+  async getConversationChunkCounts(conversationId: string): Promise<Map<string, number>> {
+    const rows = this.db().prepare(`
+      SELECT id, parent_message_id FROM vector_embeddings
+      WHERE collection = ? AND conversation_id = ? AND content_type = 'message'
+    `).all(this.collectionName, conversationId) as Array<{ id: string; parent_message_id: string | null }>;
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const parentId = parentMessageId(row.id, row);
+      counts.set(parentId, (counts.get(parentId) || 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * IDs of the messages embedded for a conversation (summaries excluded, chunks
+   * reported once under their message id)
+   */
+  async getConversationMessageIds(conversationId: string): Promise<string[]> {
+    const counts = await this.getConversationChunkCounts(conversationId);
+    return Array.from(counts.keys());
+  }
+
+  /**
+   * Delete a custom document embedding (summaries/profile)
+   */
+  async deleteDocumentEmbedding(id: string): Promise<void> {
+    try {
+      this.deleteWhere('id = ?', [id]);
+    } catch (error) {
+      console.error('[SQLiteVectors] Error deleting document embedding:', error);
+    }
+  }
+
+  /**
+   * Delete a message, chunks included
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    await this.deleteMessages([messageId]);
+  }
+
+  /**
+   * Delete several messages, chunks included
+   */
+  async deleteMessages(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    try {
+      for (let i = 0; i < messageIds.length; i += MAX_IDS_PER_STATEMENT) {
+        const slice = messageIds.slice(i, i + MAX_IDS_PER_STATEMENT);
+        const placeholders = slice.map(() => '?').join(', ');
+        this.deleteWhere(
+          `(id IN (${placeholders}) OR parent_message_id IN (${placeholders}))`,
+          [...slice, ...slice]
+        );
+      }
+      console.log(`[SQLiteVectors] Deleted ${messageIds.length} messages`);
+    } catch (error) {
+      console.error('[SQLiteVectors] Error deleting messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all embeddings for a conversation
+   */
+  async deleteConversationEmbeddings(conversationId: string): Promise<void> {
+    try {
+      const deleted = this.deleteWhere('conversation_id = ?', [conversationId]);
+      if (deleted > 0) {
+        console.log(`[SQLiteVectors] Deleted ${deleted} embeddings for conversation ${conversationId}`);
+      }
+    } catch (error) {
+      console.error('[SQLiteVectors] Error deleting conversation embeddings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Page through every stored vector (for copying to another backend)
+   */
+  async listVectors(offset: number, limit: number): Promise<StoredVector[]> {
+    const rows = this.db().prepare(`
+      SELECT id, embedding, document, metadata FROM vector_embeddings
+      WHERE collection = ?
+      ORDER BY rowid
+      LIMIT ? OFFSET ?
+    `).all(this.collectionName, limit, offset) as Array<{
+      id: string;
+      embedding: Buffer;
+      document: string;
+      metadata: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      embedding: Array.from(decodeVector(row.embedding)),
+      document: row.document,
+      metadata: JSON.parse(row.metadata),
+    }));
+  }
+
+  /**
+   * Store vectors as-is, replacing any with the same id (no re-embedding)
+   */
+  async putVectors(vectors: StoredVector[]): Promise<void> {
+    this.writeVectors(vectors);
+  }
+
+  /**
+   * Get index statistics
+   */
+  async getStats(): Promise<{ count: number; name: string }> {
+    const row = this.db().prepare(
+      'SELECT COUNT(*) as count FROM vector_embeddings WHERE collection = ?'
+    ).get(this.collectionName) as { count: number };
+
+    return { count: row.count, name: this.collectionName };
+  }
+
+  /**
+   * Clear every vector in the collection
+   */
+  async clear(): Promise<void> {
+    this.deleteWhere('1 = 1', []);
+    console.log(`[SQLiteVectors] Index cleared`);
+  }
+
+  private db() {
+    return getStorage().getDatabase();
+  }
+
+  /**
+   * In-memory copy of the collection's vectors, read from the table on first use
+   * and kept in step by every write and delete after that
+   */
+  private loadIndex(): Map<string, IndexedVector> {
+    if (this.index) return this.index;
+
+    const rows = this.db().prepare(`
+      SELECT id, embedding, conversation_id, content_type, role FROM vector_embeddings
+      WHERE collection = ?
+    `).all(this.collectionName) as VectorRow[];
+
+    this.index = new Map(rows.map(row => [row.id, toIndexed(row)]));
+    return this.index;
+  }
+
+  private writeVectors(vectors: StoredVector[]): void {
+    if (vectors.length === 0) return;
+
+    const db = this.db();
+    const insert = db.prepare(`
+      INSERT OR REPLACE INTO vector_embeddings
+        (collection, id, embedding, dimension, document, metadata, conversation_id, content_type, role, parent_message_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const rows = vectors.map(vector => ({
+      id: vector.id,
+      embedding: encodeVector(vector.embedding),
+      conversation_id: metadataString(vector.metadata, 'conversation_id'),
+      content_type: metadataString(vector.metadata, 'content_type') || 'message',
+      role: metadataString(vector.metadata, 'role'),
+    }));
+
+    db.transaction(() => {
+      vectors.forEach((vector, i) => {
+        insert.run(
+          this.collectionName,
+          vector.id,
+          rows[i].embedding,
+          vector.embedding.length,
+          vector.document,
+          JSON.stringify(vector.metadata),
+          rows[i].conversation_id,
+          rows[i].content_type,
+          rows[i].role,
+          metadataString(vector.metadata, 'parent_message_id')
+        );
+      });
+    })();
+
+    if (this.index) {
+      for (const row of rows) this.index.set(row.id, toIndexed(row));
+    }
+  }
+
+  /**
+   * Delete the collection's vectors matching a condition, from the table and the index
+   * Returns how many were deleted
+   */
+  private deleteWhere(condition: string, params: unknown[]): number {
+    const db = this.db();
+    const where = `collection = ? AND ${condition}`;
+
+    const ids = db.prepare(`SELECT id FROM vector_embeddings WHERE ${where}`)
+      .all(this.collectionName, ...params) as Array<{ id: string }>;
+    db.prepare(`DELETE FROM vector_embeddings WHERE ${where}`).run(this.collectionName, ...params);
+
+    if (this.index) {
+      for (const { id } of ids) this.index.delete(id);
+    }
+    return ids.length;
+  }
+
+  private getDocuments(ids: string[]): Map<string, { document: string; metadata: string }> {
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = this.db().prepare(`
+      SELECT id, document, metadata FROM vector_embeddings
+      WHERE collection = ? AND id IN (${placeholders})
+    `).all(this.collectionName, ...ids) as Array<{ id: string; document: string; metadata: string }>;
+
+    return new Map(rows.map(row => [row.id, row]));
+  }
+}
+
+function toIndexed(row: VectorRow): IndexedVector {
+  return {
+    id: row.id,
+    vector: normalize(decodeVector(row.embedding)),
+    conversation_id: row.conversation_id,
+    content_type: row.content_type,
+    role: row.role,
+  };
+}
+
+function metadataString(metadata: VectorMetadata, key: string): string | null {
+  const value = metadata[key];
+  return value === undefined ? null : String(value);
+}
+
+function encodeVector(embedding: number[]): Buffer {
+  return Buffer.from(Float32Array.from(embedding).buffer);
+}
+
+function decodeVector(blob: Buffer): Float32Array {
+  // Copy out of the Buffer: its offset in the shared pool needn't be 4-byte aligned
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  const norm = Math.sqrt(dot(result, result));
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
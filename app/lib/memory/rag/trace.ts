@@ -0,0 +1,64 @@
+// app/lib/memory/rag/trace.ts
+// Retrieval trace: the scores behind each retrieved memory and whether it made it into
+// the memory block. Sent to the client with each reply so bad injections can be debugged.
+
+import { RetrievalResult, RetrievalTrace, RetrievalTraceEntry } from '../schemas';
+import { resultContent } from './chunking';
+import { MemorySource, PackedMemoryContext, orderForPacking } from './contextBlock';
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Build the trace for one retrieval, in the order the memory block was packed
+ */
+export function buildRetrievalTrace(
+  results: RetrievalResult[],
+  packed: PackedMemoryContext,
+  query: string,
+  options: { hybrid: boolean; tokenBudget: number },
+  describeSource: (result: RetrievalResult) => MemorySource
+): RetrievalTrace {
+  return {
+    query,
+    hybrid: options.hybrid,
+    token_budget: options.tokenBudget,
+    tokens_used: packed.tokensUsed,
+    entries: orderForPacking(results).map(result => traceEntry(result, packed, describeSource)),
+  };
+}
+
+function traceEntry(
+  result: RetrievalResult,
+  packed: PackedMemoryContext,
+  describeSource: (result: RetrievalResult) => MemorySource
+): RetrievalTraceEntry {
+  const content = resultContent(result);
+
+  // The hybrid rerank records which searches found a result; otherwise it came from one
+  // search (a pinned memory that didn't match came from none)
+  const matchedBy: RetrievalTraceEntry['matched_by'] = result.matched_by
+    ? [...result.matched_by]
+    : result.pinned && result.similarity_score === 0
+      ? []
+      : [result.fts_score !== undefined ? 'fts' : 'dense'];
+  if (result.pinned) matchedBy.push('pinned');
+
+  const denseSimilarity = result.dense_similarity ??
+    (matchedBy.includes('dense') && result.fts_score === undefined ? result.similarity_score : undefined);
+
+  return {
+    id: result.message.id,
+    source: result.content_type || 'message',
+    role: result.message.role,
+    conversation_id: result.content_type === 'user_profile' ? undefined : result.message.conversation_id,
+    conversation_title: describeSource(result).title,
+    preview: content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}…` : content,
+    matched_by: matchedBy,
+    dense_similarity: denseSimilarity,
+    fts_score: result.fts_score,
+    code_match: result.code_match,
+    rank_score: result.rank_score,
+    chunk: result.chunk ? { index: result.chunk.index, count: result.chunk.count } : undefined,
+    injected: packed.included.get(result.message.id) ?? 'dropped',
+  };
+}
@@ -0,0 +1,300 @@
+// app/lib/memory/rag/vectorStore.ts
+// Vector store interface shared by the Chroma and embedded SQLite backends
+
+import { Message, RetrievalResult } from '../schemas';
+import { getStorage } from '../storage';
+import { getMemoryConfig } from '../config';
+import { chunkEmbeddingId, chunkMessage } from './chunking';
+
+export type VectorStoreBackend = 'chroma' | 'sqlite';
+
+export type VectorMetadata = Record<string, string | number>;
+
+/**
+ * One document to store: a whole message, one of its chunks, a summary or the profile
+ */
+export interface VectorDocument {
+  id: string;
+  document: string;
+  metadata: VectorMetadata;
+}
+
+/**
+ * A stored document with its vector - the unit copied between backends
+ */
+export interface StoredVector extends VectorDocument {
+  embedding: number[];
+}
+
+export interface VectorFilters {
+  conversation_id?: string;
+  role?: 'user' | 'assistant';
+  dateRange?: { from: Date; to: Date };
+  content_type?: 'message' | 'conversation_summary' | 'user_profile';
+}
+
+/**
+ * Which collection and embedding model a backend's vectors belong to (kept in preferences)
+ */
+export interface VectorStoreMeta {
+  collection_name: string;
+  embedding_provider: string;
+  embedding_model: string;
+  embedding_dimension: number;
+}
+
+export interface VectorStoreInitOptions {
+  // Throw on a provider/model mismatch instead of dropping the stored vectors
+  // (offline scripts must not wipe the live index)
+  keepExisting?: boolean;
+}
+
+/**
+ * What RAGManager needs from a vector backend
+ */
+export interface VectorStore {
+  // True when the stored vectors were dropped for another embedding model - everything needs re-embedding
+  initialize(options?: VectorStoreInitOptions): Promise<boolean>;
+  getStoredMeta(): VectorStoreMeta | null;
+
+  addMessageEmbedding(message: Message): Promise<void>;
+  addMessageEmbeddingsBatch(messages: Message[]): Promise<void>;
+  replaceMessageEmbedding(message: Message): Promise<void>;
+  upsertDocumentEmbedding(id: string, content: string, metadata: VectorMetadata): Promise<void>;
+
+  search(query: string, topK?: number, filters?: VectorFilters): Promise<RetrievalResult[]>;
+  searchWithFilters(query: string, filters: VectorFilters, topK?: number): Promise<RetrievalResult[]>;
+  ftsSearch(query: string, conversationId?: string, limit?: number): Promise<RetrievalResult[]>;
+
+  getConversationMessageIds(conversationId: string): Promise<string[]>;
+  getConversationChunkCounts(conversationId: string): Promise<Map<string, number>>;
+
+  deleteDocumentEmbedding(id: string): Promise<void>;
+  deleteMessage(messageId: string): Promise<void>;
+  deleteMessages(messageIds: string[]): Promise<void>;
+  deleteConversationEmbeddings(conversationId: string): Promise<void>;
+
+  // Raw access for copying between backends
+  listVectors(offset: number, limit: number): Promise<StoredVector[]>;
+  putVectors(vectors: StoredVector[]): Promise<void>;
+
+  getStats(): Promise<{ count: number; name: string }>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Metadata a backend recorded under its preference key (null if it never initialized)
+ */
+export function readVectorStoreMeta(preferenceKey: string): VectorStoreMeta | null {
+  const preference = getStorage().getPreference(preferenceKey);
+  return preference?.data_type === 'json' ? JSON.parse(preference.value) : null;
+}
+
+/**
+ * Whether vectors stored under `stored` can't be compared with vectors made for `current`
+ * Metadata from before providers were tracked is from Ollama
+ */
+export function vectorStoreMetaMismatch(stored: VectorStoreMeta | null, current: VectorStoreMeta): boolean {
+  return !stored ||
+    stored.collection_name !== current.collection_name ||
+    (stored.embedding_provider ?? 'ollama') !== current.embedding_provider ||
+    stored.embedding_model !== current.embedding_model ||
+    stored.embedding_dimension !== current.embedding_dimension;
+}
+
+/**
+ * "provider/model (dimension)" for logs and errors
+ */
+export function describeVectorStoreMeta(meta: VectorStoreMeta | null): string {
+  return meta
+    ? `${meta.embedding_provider ?? 'ollama'}/${meta.embedding_model} (${meta.embedding_dimension}d)`
+    : 'an unknown embedding model';
+}
+
+/**
+ * Documents to store for a message: the whole content, or one per chunk
+ * (RAG_CHUNKING). Every entry records parent_message_id so chunks resolve to their message.
+ */
+export function buildMessageDocuments(message: Message): VectorDocument[] {
+  const metadata = {
+    conversation_id: message.conversation_id,
+    role: message.role,
+    created_at: message.created_at,
+    model_used: message.model_used || 'unknown',
+    message_length: message.content.length,
+    content_type: 'message',
+    parent_message_id: message.id,
+  };
+
+  const chunks = getMemoryConfig().ragChunking ? chunkMessage(message.content) : [];
+  if (chunks.length <= 1) {
+    return [{ id: message.id, document: message.content, metadata }];
+  }
+
+  return chunks.map(chunk => ({
+    id: chunkEmbeddingId(message.id, chunk.index),
+    document: chunk.content,
+    metadata: { ...metadata, chunk_index: chunk.index, chunk_count: chunks.length },
+  }));
+}
+
+/**
+ * Message a stored vector belongs to (entries from before chunking carry no parent_message_id)
+ */
+export function parentMessageId(id: string, metadata?: Record<string, unknown> | null): string {
+  const parentId = metadata?.parent_message_id;
+  return typeof parentId === 'string' ? parentId : id;
+}
+
+/**
+ * Turn a search hit into a RetrievalResult
+ * Messages (and chunks) resolve to the stored message; summaries and the profile
+ * become synthetic system messages. Null when the message no longer exists.
+ */
+export function toRetrievalResult(
+  id: string,
+  document: string,
+  metadata: Record<string, unknown>,
+  similarity: number
+): RetrievalResult | null {
+  const contentType = (metadata.content_type as RetrievalResult['content_type']) || 'message';
+  const conversationId = metadata.conversation_id as string | undefined;
+
+  if (contentType !== 'message') {
+    const syntheticMessage: Message = {
+      id,
+      conversation_id: conversationId || 'profile',
+      role: 'system',
+      content: document,
+      created_at: (metadata.created_at as string) || new Date().toISOString(),
+    };
+
+    return {
+      message: syntheticMessage,
+      similarity_score: similarity,
+      conversation_summary: conversationId,
+      content_type: contentType,
+    };
+  }
+
+  // Fetch full message from database (a chunk resolves to its parent message)
+  const fullMessage = getStorage().getMessage(parentMessageId(id, metadata));
+  if (!fullMessage) return null;
+
+  const chunkCount = Number(metadata.chunk_count) || 0;
+  return {
+    message: fullMessage,
+    similarity_score: similarity,
+    conversation_summary: conversationId,
+    content_type: 'message',
+    chunk: chunkCount > 1
+      ? { index: Number(metadata.chunk_index), count: chunkCount, content: document }
+      : undefined,
+  };
+}
+
+/**
+ * FTS (Full-Text Search) lexical search
+ * Phase 3: Hybrid Retrieval
+ * Uses SQLite FTS5 for keyword/code identifier matching - the same for every vector backend
+ */
+export async function lexicalSearch(
+  query: string,
+  conversationId?: string,
+  limit: number = 10
+): Promise<RetrievalResult[]> {
+  try {
+    const storage = getStorage();
+    const db = storage.getDatabase();
+
+    // Build FTS query - escape special characters
+    const ftsQuery = query
+      .replace(/[^\w\s]/g, ' ')  // Remove special chars
+      .trim()
+      .split(/\s+/)               // Split on whitespace
+      .filter(term => term.length > 2)  // Filter short terms
+      .join(' OR ');              // Join with OR for broader matching
+
+    if (!ftsQuery) {
+      console.log('[FTS] Query too short, returning empty results');
+      return [];
+    }
+
+    // Build SQL query
+    let sql = `
+      SELECT
+        f.message_id,
+        f.conversation_id,
+        f.content,
+        f.role,
+        bm25(f) as bm25_score
+      FROM messages_fts f
+      WHERE f.content MATCH ?
+        AND f.message_id NOT IN (SELECT item_id FROM memory_items WHERE forgotten_at IS NOT NULL)
+    `;
+
+    const params: (string | number)[] = [ftsQuery];
+
+    // Filter by conversation if provided
+    if (conversationId) {
+      sql += ` AND f.conversation_id = ?`;
+      params.push(conversationId);
+    }
+
+    sql += `
+      ORDER BY bm25_score DESC
+      LIMIT ?
+    `;
+    params.push(limit);
+
+    const stmt = db.prepare(sql);
+    const rows = stmt.all(...params) as Array<{
+      message_id: string;
+      conversation_id: string;
+      content: string;
+      role: string;
+      bm25_score: number;
+    }>;
+
+    // Transform to RetrievalResult format
+    const results: RetrievalResult[] = [];
+    const activeBranchIds = new Map<string, Set<string>>();
+
+    for (const row of rows) {
+      // The FTS index covers every branch; only the active one is retrievable
+      let branchIds = activeBranchIds.get(row.conversation_id);
+      if (!branchIds) {
+        branchIds = new Set(storage.getConversationMessages(row.conversation_id).map(m => m.id));
+        activeBranchIds.set(row.conversation_id, branchIds);
+      }
+      if (!branchIds.has(row.message_id)) continue;
+
+      // Fetch full message from database
+      const fullMessage = storage.getMessage(row.message_id);
+
+      if (fullMessage) {
+        // Normalize BM25 score to 0-1 range (BM25 is unbounded, use sigmoid-like normalization)
+        // Typical BM25 scores range from 0-20, with higher being better
+        const normalizedScore = Math.min(1, Math.max(0, row.bm25_score / 20));
+
+        results.push({
+          message: fullMessage,
+          similarity_score: normalizedScore,
+          conversation_summary: row.conversation_id,
+          content_type: 'message',
+          fts_score: row.bm25_score,  // Keep raw score for debugging
+        });
+      }
+    }
+
+    console.log(
+      `[FTS] Search found ${results.length} results for query: "${ftsQuery}"`
+    );
+
+    return results;
+  } catch (error) {
+    console.error('[FTS] Search error:', error);
+    // Graceful fallback - return empty results if FTS unavailable
+    return [];
+  }
+}
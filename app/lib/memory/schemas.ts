@@ -10,11 +10,22 @@ export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   created_at: string;
-  tokens_used?: number;
+  tokens_used?: number; // prompt_tokens + completion_tokens for generated replies
+  prompt_tokens?: number;
+  completion_tokens?: number;
   tool_calls?: ToolCall[];
   tool_results?: ToolResult[];
   model_used?: string;
   temperature?: number;
+  parent_id?: string | null; // Previous message on this branch (null for a root)
+}
+
+/**
+ * A message on the active branch, with the alternatives that share its parent
+ * (edited prompts or regenerated replies), in creation order
+ */
+export interface BranchMessage extends Message {
+  sibling_ids: string[];
 }
 
 /**
@@ -29,6 +40,7 @@ export interface Conversation {
   total_tokens: number;
   summary?: string;
   tags?: string[];
+  active_leaf_id?: string; // Last message of the branch the user is on
 }
 
 /**
@@ -41,6 +53,29 @@ export interface ConversationSummary {
   content_hash?: string;
   embedding_status: 'pending' | 'success' | 'failed';
   error_message?: string;
+  version: number;              // Increments each time the summary is rolled forward
+  covered_until?: string;       // Last message folded in (unset for summaries from before versioning)
+  covered_messages: number;     // Messages from the root up to and including covered_until
+}
+
+/**
+ * Which part of the conversation a summary version covers
+ */
+export interface SummaryCoverage {
+  covered_until: string;
+  covered_messages: number;
+}
+
+/**
+ * One stored version of a rolling conversation summary
+ */
+export interface ConversationSummaryVersion {
+  conversation_id: string;
+  version: number;
+  summary: string;
+  covered_until?: string;
+  covered_messages: number;
+  created_at: string;
 }
 
 /**
@@ -95,6 +130,38 @@ export interface EmbeddingMetadata {
   created_at: string;
   embedding_status: 'pending' | 'success' | 'failed';
   error_message?: string;
+  attempts?: number;          // Failed attempts so far (embedding queue)
+  next_attempt_at?: string;   // When a pending job is next tried
+  updated_at?: string;
+}
+
+/**
+ * Embedding queue counts
+ */
+export interface EmbeddingQueueStats {
+  pending: number;            // Waiting, due now or backing off
+  due: number;                // ...of which ready for an attempt
+  failed: number;             // Gave up after the max attempts
+  succeeded: number;
+  oldest_pending_at: string | null;
+}
+
+/**
+ * Something retrieval can return, as listed in the memory browser
+ * id is the vector id: the message id, summary_<conversation id> or profile_default
+ */
+export interface MemoryItem {
+  id: string;
+  type: 'message' | 'conversation_summary' | 'user_profile';
+  conversation_id?: string;
+  conversation_title?: string;
+  role?: Message['role'];
+  content: string;
+  created_at: string;           // Message time, or when the summary/profile last changed
+  embedding_status: 'pending' | 'success' | 'failed';
+  hit_count: number;            // Times retrieval returned it
+  last_hit_at?: string;
+  pinned: boolean;              // Always included in the memory context
 }
 
 /**
@@ -117,6 +184,52 @@ export interface RetrievalResult {
   conversation_summary?: string;
   content_type?: 'message' | 'conversation_summary' | 'user_profile';
   fts_score?: number;  // Phase 3: BM25 score from FTS search
+  rank_score?: number; // Phase 3: final hybrid rerank score (unset for dense-only results)
+  chunk?: RetrievedChunk;  // Phase 4: the part of message that matched (unset = whole message)
+  pinned?: boolean;        // Pinned in the memory browser - included whether or not it matched
+  matched_by?: Array<'dense' | 'fts'>; // Phase 3: searches that found it (set by the hybrid rerank)
+  dense_similarity?: number; // Phase 3: vector similarity when dense search found it (set by the hybrid rerank)
+  code_match?: boolean;    // Phase 3: shares a code identifier with the query (set by the hybrid rerank)
+}
+
+/**
+ * Why one memory was (or wasn't) injected into the prompt
+ */
+export interface RetrievalTraceEntry {
+  id: string;                   // Message id, summary_<conversation id> or profile_default
+  source: 'message' | 'conversation_summary' | 'user_profile';
+  role: Message['role'];
+  conversation_id?: string;
+  conversation_title?: string;
+  preview: string;              // Start of the matched content
+  matched_by: Array<'dense' | 'fts' | 'pinned'>;
+  dense_similarity?: number;    // Cosine similarity from the vector search
+  fts_score?: number;           // Raw BM25 score from the FTS search
+  code_match?: boolean;         // Hybrid only
+  rank_score?: number;          // Final reranked score (hybrid only)
+  chunk?: { index: number; count: number };
+  injected: 'full' | 'snippet' | 'dropped'; // How it went into the memory block
+}
+
+/**
+ * Retrieval trace attached to an assistant reply: what retrieval returned, the scores
+ * behind each result and what made it into the memory block
+ */
+export interface RetrievalTrace {
+  query: string;
+  hybrid: boolean;
+  token_budget: number;
+  tokens_used: number;
+  entries: RetrievalTraceEntry[]; // In the order the memory block was packed
+}
+
+/**
+ * Matching chunk of a long message (Phase 4: chunking)
+ */
+export interface RetrievedChunk {
+  index: number;
+  count: number;
+  content: string;
 }
 
 /**
@@ -164,6 +277,9 @@ export interface AugmentedPrompt {
   original_query: string;
   retrieved_context: RetrievalResult[];
   enhanced_system_prompt: string;
+  memory_block?: string;        // retrieved_context packed into RAG_TOKEN_BUDGET
+  memory_block_tokens?: number;
+  trace?: RetrievalTrace;       // Scores and packing of each retrieved memory
 }
 
 /**
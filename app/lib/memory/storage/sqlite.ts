@@ -9,11 +9,71 @@ import {
   Conversation,
   UserPreference,
   EmbeddingMetadata,
+  EmbeddingQueueStats,
   Session,
   ConversationSummary,
+  ConversationSummaryVersion,
+  SummaryCoverage,
   UserProfile,
+  BranchMessage,
+  MemoryItem,
 } from '../schemas';
 
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  model_used: string | null;
+  total_tokens: number;
+  summary: string | null;
+  tags: string | null;
+  active_leaf_id: string | null;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  role: Message['role'];
+  content: string;
+  created_at: string;
+  tokens_used: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  tool_calls: string | null;
+  tool_results: string | null;
+  model_used: string | null;
+  temperature: number | null;
+  parent_id: string | null;
+}
+
+interface EmbeddingMetadataRow {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  chroma_id: string | null;
+  created_at: string;
+  embedding_status: EmbeddingMetadata['embedding_status'];
+  error_message: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+  updated_at: string | null;
+}
+
+interface MemoryItemRow {
+  id: string;
+  type: MemoryItem['type'];
+  conversation_id: string | null;
+  conversation_title: string | null;
+  role: Message['role'];
+  content: string;
+  created_at: string;
+  embedding_status: MemoryItem['embedding_status'];
+  hit_count: number;
+  last_hit_at: string | null;
+  pinned: number;
+}
+
 /**
  * SQLite Storage Implementation
  * Handles all database operations with prepared statements
@@ -66,8 +126,11 @@ export class SQLiteStorage {
         try {
           this.db.exec(statement);
         } catch (error) {
-          // Ignore "already exists" errors
-          if (!(error instanceof Error) || !error.message.includes('already exists')) {
+          // Ignore "already exists" errors (and re-run ALTER TABLE ... ADD COLUMN)
+          if (
+            !(error instanceof Error) ||
+            !(error.message.includes('already exists') || error.message.includes('duplicate column name'))
+          ) {
             console.error(`[SQLite] Error in ${migrationFile}:`, error);
             throw error;
           }
@@ -84,9 +147,12 @@ export class SQLiteStorage {
   /**
    * CREATE: Save a new conversation
    */
-  saveConversation(conversation: Omit<Conversation, 'created_at' | 'updated_at'>): Conversation {
+  saveConversation(
+    conversation: Omit<Conversation, 'created_at' | 'updated_at'> & { created_at?: string }
+  ): Conversation {
     const id = conversation.id || this.generateId('conv');
     const now = new Date().toISOString();
+    const createdAt = conversation.created_at || now; // Imports keep their original creation time
 
     const stmt = this.db.prepare(`
       INSERT INTO conversations (id, title, created_at, updated_at, model_used, total_tokens, summary, tags)
@@ -96,7 +162,7 @@ export class SQLiteStorage {
     stmt.run(
       id,
       conversation.title,
-      now,
+      createdAt,
       now,
       conversation.model_used || null,
       conversation.total_tokens,
@@ -107,7 +173,7 @@ export class SQLiteStorage {
     return {
       ...conversation,
       id,
-      created_at: now,
+      created_at: createdAt,
       updated_at: now,
     };
   }
@@ -120,19 +186,8 @@ export class SQLiteStorage {
       SELECT * FROM conversations WHERE id = ?
     `);
 
-    const row = stmt.get(conversationId) as any;
-    if (!row) return null;
-
-    return {
-      id: row.id,
-      title: row.title,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      model_used: row.model_used,
-      total_tokens: row.total_tokens,
-      summary: row.summary,
-      tags: row.tags ? JSON.parse(row.tags) : [],
-    };
+    const row = stmt.get(conversationId) as ConversationRow | undefined;
+    return row ? this.toConversation(row) : null;
   }
 
   /**
@@ -145,30 +200,107 @@ export class SQLiteStorage {
       LIMIT ? OFFSET ?
     `);
 
-    const rows = stmt.all(limit, offset) as any[];
-    return rows.map(row => ({
+    const rows = stmt.all(limit, offset) as ConversationRow[];
+    return rows.map(row => this.toConversation(row));
+  }
+
+  /**
+   * READ: Search conversations by title, summary, tags or message content
+   * An optional tag narrows results to conversations carrying that exact tag.
+   */
+  searchConversations(
+    query: string,
+    options: { tag?: string; limit?: number; offset?: number } = {}
+  ): Conversation[] {
+    const { tag, limit = 50, offset = 0 } = options;
+    const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.trim()) {
+      const pattern = `%${escapeLike(query.trim())}%`;
+      clauses.push(`(
+        c.title LIKE ? ESCAPE '\\'
+        OR c.summary LIKE ? ESCAPE '\\'
+        OR c.tags LIKE ? ESCAPE '\\'
+        OR EXISTS (
+          SELECT 1 FROM messages m
+          WHERE m.conversation_id = c.id AND m.content LIKE ? ESCAPE '\\'
+        )
+      )`);
+      params.push(pattern, pattern, pattern, pattern);
+    }
+
+    if (tag) {
+      // Tags are stored as a JSON array, so match the quoted value
+      clauses.push(`c.tags LIKE ? ESCAPE '\\'`);
+      params.push(`%${escapeLike(JSON.stringify(tag))}%`);
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT c.* FROM conversations c
+      ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+      ORDER BY c.updated_at DESC
+      LIMIT ? OFFSET ?
+    `);
+
+    const rows = stmt.all(...params, limit, offset) as ConversationRow[];
+    return rows.map(row => this.toConversation(row));
+  }
+
+  /**
+   * Map a conversations row (tags stored as JSON text) to a Conversation
+   */
+  private toConversation(row: ConversationRow): Conversation {
+    return {
       id: row.id,
       title: row.title,
       created_at: row.created_at,
       updated_at: row.updated_at,
-      model_used: row.model_used,
+      model_used: row.model_used ?? undefined,
       total_tokens: row.total_tokens,
-      summary: row.summary,
+      summary: row.summary ?? undefined,
       tags: row.tags ? JSON.parse(row.tags) : [],
-    }));
+      active_leaf_id: row.active_leaf_id ?? undefined,
+    };
+  }
+
+  private toMessage(row: MessageRow): Message {
+    return {
+      id: row.id,
+      conversation_id: row.conversation_id,
+      role: row.role,
+      content: row.content,
+      created_at: row.created_at,
+      tokens_used: row.tokens_used ?? undefined,
+      prompt_tokens: row.prompt_tokens ?? undefined,
+      completion_tokens: row.completion_tokens ?? undefined,
+      tool_calls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
+      tool_results: row.tool_results ? JSON.parse(row.tool_results) : undefined,
+      model_used: row.model_used ?? undefined,
+      temperature: row.temperature ?? undefined,
+      parent_id: row.parent_id,
+    };
   }
 
   /**
    * CREATE: Save a message
+   * parent_id undefined appends to the active branch; an explicit parent (or null
+   * for a new root) forks. Either way the new message becomes the active leaf.
+   * tokens_used is added to the conversation's total_tokens.
    */
-  saveMessage(message: Omit<Message, 'created_at'>): Message {
+  saveMessage(message: Omit<Message, 'created_at'> & { created_at?: string }): Message {
     const id = message.id || this.generateId('msg');
-    const now = new Date().toISOString();
+    const now = message.created_at || new Date().toISOString(); // Imports keep message order
+    const parentId = message.parent_id === undefined
+      ? this.getActiveLeafId(message.conversation_id)
+      : message.parent_id;
 
     const stmt = this.db.prepare(`
       INSERT INTO messages 
-      (id, conversation_id, role, content, created_at, tokens_used, tool_calls, tool_results, model_used, temperature)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, conversation_id, role, content, created_at, tokens_used, prompt_tokens, completion_tokens,
+       tool_calls, tool_results, model_used, temperature, parent_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -178,15 +310,27 @@ export class SQLiteStorage {
       message.content,
       now,
       message.tokens_used || null,
+      message.prompt_tokens ?? null,
+      message.completion_tokens ?? null,
       message.tool_calls ? JSON.stringify(message.tool_calls) : null,
       message.tool_results ? JSON.stringify(message.tool_results) : null,
       message.model_used || null,
-      message.temperature || null
+      message.temperature || null,
+      parentId
     );
 
+    this.setActiveLeaf(message.conversation_id, id);
+
+    if (message.tokens_used) {
+      this.db.prepare(`
+        UPDATE conversations SET total_tokens = COALESCE(total_tokens, 0) + ? WHERE id = ?
+      `).run(message.tokens_used, message.conversation_id);
+    }
+
     return {
       ...message,
       id,
+      parent_id: parentId,
       created_at: now,
     };
   }
@@ -199,48 +343,87 @@ export class SQLiteStorage {
       SELECT * FROM messages WHERE id = ?
     `);
 
-    const row = stmt.get(messageId) as any;
-    if (!row) return null;
-
-    return {
-      id: row.id,
-      conversation_id: row.conversation_id,
-      role: row.role,
-      content: row.content,
-      created_at: row.created_at,
-      tokens_used: row.tokens_used,
-      tool_calls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
-      tool_results: row.tool_results ? JSON.parse(row.tool_results) : undefined,
-      model_used: row.model_used,
-      temperature: row.temperature,
-    };
+    const row = stmt.get(messageId) as MessageRow | undefined;
+    return row ? this.toMessage(row) : null;
   }
 
   /**
-   * READ: Get all messages in a conversation
+   * READ: Get the messages on a conversation's active branch, root first
    */
   getConversationMessages(conversationId: string): Message[] {
     const stmt = this.db.prepare(`
-      SELECT * FROM messages 
-      WHERE conversation_id = ? 
-      ORDER BY created_at ASC
+      WITH RECURSIVE branch(id, depth) AS (
+        SELECT active_leaf_id, 0 FROM conversations
+        WHERE id = ? AND active_leaf_id IS NOT NULL
+        UNION ALL
+        SELECT m.parent_id, b.depth + 1 FROM messages m
+        JOIN branch b ON m.id = b.id
+        WHERE m.parent_id IS NOT NULL
+      )
+      SELECT m.* FROM branch b
+      JOIN messages m ON m.id = b.id
+      ORDER BY b.depth DESC
     `);
 
-    const rows = stmt.all(conversationId) as any[];
-    return rows.map(row => ({
-      id: row.id,
-      conversation_id: row.conversation_id,
-      role: row.role,
-      content: row.content,
-      created_at: row.created_at,
-      tokens_used: row.tokens_used,
-      tool_calls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
-      tool_results: row.tool_results ? JSON.parse(row.tool_results) : undefined,
-      model_used: row.model_used,
-      temperature: row.temperature,
+    const rows = stmt.all(conversationId) as MessageRow[];
+    return rows.map(row => this.toMessage(row));
+  }
+
+  /**
+   * READ: Active branch with the sibling alternatives at each step
+   */
+  getBranchMessages(conversationId: string): BranchMessage[] {
+    const siblings = this.db.prepare(`
+      SELECT id FROM messages
+      WHERE conversation_id = ? AND parent_id IS ?
+      ORDER BY created_at ASC, rowid ASC
+    `);
+
+    return this.getConversationMessages(conversationId).map(message => ({
+      ...message,
+      sibling_ids: (siblings.all(conversationId, message.parent_id ?? null) as { id: string }[]).map(row => row.id),
     }));
   }
 
+  /**
+   * READ: Active leaf of a conversation (null if it has no messages yet)
+   */
+  getActiveLeafId(conversationId: string): string | null {
+    const stmt = this.db.prepare(`SELECT active_leaf_id FROM conversations WHERE id = ?`);
+    const row = stmt.get(conversationId) as { active_leaf_id: string | null } | undefined;
+    return row?.active_leaf_id ?? null;
+  }
+
+  /**
+   * READ: Most recent leaf under a message - where the user left off on that branch
+   */
+  getLatestLeafId(messageId: string): string {
+    const latestChild = this.db.prepare(`
+      SELECT id FROM messages
+      WHERE parent_id = ?
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT 1
+    `);
+
+    let leafId = messageId;
+    let child = latestChild.get(leafId) as { id: string } | undefined;
+    while (child) {
+      leafId = child.id;
+      child = latestChild.get(leafId) as { id: string } | undefined;
+    }
+    return leafId;
+  }
+
+  /**
+   * UPDATE: Make the branch ending at messageId the active one
+   */
+  setActiveLeaf(conversationId: string, messageId: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE conversations SET active_leaf_id = ?, updated_at = ? WHERE id = ?
+    `);
+    stmt.run(messageId, new Date().toISOString(), conversationId);
+  }
+
   /**
    * READ: Search messages by role and date range
    */
@@ -271,20 +454,8 @@ export class SQLiteStorage {
     query += ` ORDER BY created_at ASC`;
 
     const stmt = this.db.prepare(query);
-    const rows = stmt.all(...params) as any[];
-
-    return rows.map(row => ({
-      id: row.id,
-      conversation_id: row.conversation_id,
-      role: row.role,
-      content: row.content,
-      created_at: row.created_at,
-      tokens_used: row.tokens_used,
-      tool_calls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
-      tool_results: row.tool_results ? JSON.parse(row.tool_results) : undefined,
-      model_used: row.model_used,
-      temperature: row.temperature,
-    }));
+    const rows = stmt.all(...params) as MessageRow[];
+    return rows.map(row => this.toMessage(row));
   }
 
   /**
@@ -339,8 +510,13 @@ export class SQLiteStorage {
    * DELETE: Delete a conversation and all its messages
    */
   deleteConversation(conversationId: string): void {
-    const stmt = this.db.prepare(`DELETE FROM conversations WHERE id = ?`);
-    stmt.run(conversationId);
+    this.db.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM memory_items
+        WHERE item_id IN (SELECT id FROM messages WHERE conversation_id = ?) OR item_id = ?
+      `).run(conversationId, `summary_${conversationId}`);
+      this.db.prepare(`DELETE FROM conversations WHERE id = ?`).run(conversationId);
+    })();
   }
 
   /**
@@ -414,27 +590,49 @@ export class SQLiteStorage {
   }
 
   /**
-   * SUMMARY: Upsert conversation summary
+   * SUMMARY: Store a new summary version and make it the current one
    */
   saveConversationSummary(
     conversationId: string,
     summary: string,
-    contentHash?: string
+    contentHash?: string,
+    coverage?: SummaryCoverage
   ): ConversationSummary {
     const now = new Date().toISOString();
+    const coveredUntil = coverage?.covered_until ?? null;
+    const coveredMessages = coverage?.covered_messages ?? 0;
+
+    const save = this.db.transaction(() => {
+      const { next } = this.db.prepare(`
+        SELECT COALESCE(MAX(version), 0) + 1 AS next FROM conversation_summary_versions WHERE conversation_id = ?
+      `).get(conversationId) as { next: number };
+
+      this.db.prepare(`
+        INSERT INTO conversation_summary_versions (conversation_id, version, summary, covered_until, covered_messages, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(conversationId, next, summary, coveredUntil, coveredMessages, now);
+
+      // Embedding status is reset only when the text changed - a version that just
+      // extends coverage keeps the existing embedding
+      this.db.prepare(`
+        INSERT INTO conversation_summaries
+          (conversation_id, summary, updated_at, content_hash, embedding_status, error_message, version, covered_until, covered_messages)
+        VALUES (?, ?, ?, ?, 'pending', NULL, ?, ?, ?)
+        ON CONFLICT(conversation_id) DO UPDATE SET
+          summary = excluded.summary,
+          updated_at = excluded.updated_at,
+          embedding_status = CASE WHEN content_hash IS excluded.content_hash THEN embedding_status ELSE 'pending' END,
+          error_message = CASE WHEN content_hash IS excluded.content_hash THEN error_message ELSE NULL END,
+          content_hash = excluded.content_hash,
+          version = excluded.version,
+          covered_until = excluded.covered_until,
+          covered_messages = excluded.covered_messages
+      `).run(conversationId, summary, now, contentHash || null, next, coveredUntil, coveredMessages);
+
+      return next;
+    });
 
-    const stmt = this.db.prepare(`
-      INSERT INTO conversation_summaries (conversation_id, summary, updated_at, content_hash, embedding_status, error_message)
-      VALUES (?, ?, ?, ?, 'pending', NULL)
-      ON CONFLICT(conversation_id) DO UPDATE SET
-        summary = excluded.summary,
-        updated_at = excluded.updated_at,
-        content_hash = excluded.content_hash,
-        embedding_status = 'pending',
-        error_message = NULL
-    `);
-
-    stmt.run(conversationId, summary, now, contentHash || null);
+    const version = save();
 
     // Keep conversations.summary in sync
     const updateConversation = this.db.prepare(`
@@ -450,6 +648,9 @@ export class SQLiteStorage {
       updated_at: now,
       content_hash: contentHash,
       embedding_status: 'pending',
+      version,
+      covered_until: coverage?.covered_until,
+      covered_messages: coveredMessages,
     };
   }
 
@@ -470,9 +671,26 @@ export class SQLiteStorage {
       content_hash: row.content_hash,
       embedding_status: row.embedding_status,
       error_message: row.error_message || undefined,
+      version: row.version,
+      covered_until: row.covered_until || undefined,
+      covered_messages: row.covered_messages,
     };
   }
 
+  /**
+   * SUMMARY: All stored versions of a conversation's summary, newest first
+   */
+  getConversationSummaryVersions(conversationId: string): ConversationSummaryVersion[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM conversation_summary_versions
+      WHERE conversation_id = ?
+      ORDER BY version DESC
+    `);
+    const rows = stmt.all(conversationId) as (Omit<ConversationSummaryVersion, 'covered_until'> & { covered_until: string | null })[];
+
+    return rows.map(row => ({ ...row, covered_until: row.covered_until || undefined }));
+  }
+
   /**
    * SUMMARY: Update summary embedding status
    */
@@ -489,6 +707,19 @@ export class SQLiteStorage {
     stmt.run(status, errorMessage || null, conversationId);
   }
 
+  /**
+   * SUMMARY: Delete a conversation's summary and all its versions
+   * Auto-summarization starts over from the first message next time it runs
+   */
+  deleteConversationSummary(conversationId: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM conversation_summary_versions WHERE conversation_id = ?').run(conversationId);
+      this.db.prepare('DELETE FROM conversation_summaries WHERE conversation_id = ?').run(conversationId);
+      this.db.prepare('DELETE FROM memory_items WHERE item_id = ?').run(`summary_${conversationId}`);
+      this.db.prepare('UPDATE conversations SET summary = NULL WHERE id = ?').run(conversationId);
+    })();
+  }
+
   /**
    * PROFILE: Upsert single-user profile
    */
@@ -555,8 +786,8 @@ export class SQLiteStorage {
    * PROFILE: Delete single-user profile
    */
   deleteUserProfile(): void {
-    const stmt = this.db.prepare(`DELETE FROM user_profile WHERE id = 'default'`);
-    stmt.run();
+    this.db.prepare(`DELETE FROM user_profile WHERE id = 'default'`).run();
+    this.db.prepare(`DELETE FROM memory_items WHERE item_id = 'profile_default'`).run();
   }
 
   /**
@@ -599,16 +830,7 @@ export class SQLiteStorage {
       LIMIT ?
     `);
 
-    const rows = stmt.all(limit) as any[];
-    return rows.map(row => ({
-      id: row.id,
-      message_id: row.message_id,
-      conversation_id: row.conversation_id,
-      chroma_id: row.chroma_id,
-      created_at: row.created_at,
-      embedding_status: row.embedding_status,
-      error_message: row.error_message,
-    }));
+    return (stmt.all(limit) as EmbeddingMetadataRow[]).map(row => this.toEmbeddingMetadata(row));
   }
 
   /**
@@ -622,11 +844,350 @@ export class SQLiteStorage {
   ): void {
     const stmt = this.db.prepare(`
       UPDATE embedding_metadata 
-      SET embedding_status = ?, chroma_id = ?, error_message = ?
+      SET embedding_status = ?, chroma_id = ?, error_message = ?, next_attempt_at = NULL, updated_at = ?
+      WHERE id = ?
+    `);
+
+    stmt.run(status, chromaId || null, errorMessage || null, new Date().toISOString(), embeddingId);
+  }
+
+  /**
+   * EMBEDDING QUEUE: Queue messages for embedding
+   * A message queued before (embedded, failed or waiting) is reset to a fresh pending job.
+   * Forgotten messages are skipped
+   */
+  enqueueEmbeddings(messages: Array<Pick<Message, 'id' | 'conversation_id'>>): void {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO embedding_metadata
+      (id, message_id, conversation_id, created_at, embedding_status, attempts, next_attempt_at, updated_at)
+      SELECT ?, ?, ?, ?, 'pending', 0, ?, ?
+      WHERE NOT EXISTS (
+        SELECT 1 FROM memory_items WHERE item_id = ? AND forgotten_at IS NOT NULL
+      )
+      ON CONFLICT(id) DO UPDATE SET
+        embedding_status = 'pending',
+        attempts = 0,
+        error_message = NULL,
+        next_attempt_at = excluded.next_attempt_at,
+        updated_at = excluded.updated_at
+    `);
+
+    this.db.transaction(() => {
+      for (const message of messages) {
+        stmt.run(`emb_${message.id}`, message.id, message.conversation_id, now, now, now, message.id);
+      }
+    })();
+  }
+
+  /**
+   * EMBEDDING QUEUE: Pending jobs whose next attempt is due, oldest first
+   */
+  getDueEmbeddings(limit: number): EmbeddingMetadata[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM embedding_metadata
+      WHERE embedding_status = 'pending'
+        AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+      ORDER BY next_attempt_at, created_at
+      LIMIT ?
+    `);
+
+    return (stmt.all(new Date().toISOString(), limit) as EmbeddingMetadataRow[]).map(row => this.toEmbeddingMetadata(row));
+  }
+
+  /**
+   * EMBEDDING QUEUE: Record a failed attempt
+   * With nextAttemptAt the job waits for a retry, without it the job is given up (failed)
+   */
+  recordEmbeddingFailure(
+    embeddingId: string,
+    attempts: number,
+    errorMessage: string,
+    nextAttemptAt?: string
+  ): void {
+    const stmt = this.db.prepare(`
+      UPDATE embedding_metadata
+      SET embedding_status = ?, attempts = ?, error_message = ?, next_attempt_at = ?, updated_at = ?
       WHERE id = ?
     `);
 
-    stmt.run(status, chromaId || null, errorMessage || null, embeddingId);
+    stmt.run(
+      nextAttemptAt ? 'pending' : 'failed',
+      attempts,
+      errorMessage,
+      nextAttemptAt || null,
+      new Date().toISOString(),
+      embeddingId
+    );
+  }
+
+  /**
+   * EMBEDDING QUEUE: Put every failed job back in the queue
+   * Returns how many were re-queued
+   */
+  requeueFailedEmbeddings(): number {
+    const now = new Date().toISOString();
+    const result = this.db.prepare(`
+      UPDATE embedding_metadata
+      SET embedding_status = 'pending', attempts = 0, error_message = NULL, next_attempt_at = ?, updated_at = ?
+      WHERE embedding_status = 'failed'
+    `).run(now, now);
+
+    return result.changes;
+  }
+
+  /**
+   * EMBEDDING QUEUE: Drop a job (its message is gone or left the active branch)
+   */
+  deleteEmbeddingMetadata(embeddingId: string): void {
+    this.db.prepare('DELETE FROM embedding_metadata WHERE id = ?').run(embeddingId);
+  }
+
+  /**
+   * EMBEDDING QUEUE: Job counts by state
+   */
+  getEmbeddingQueueStats(): EmbeddingQueueStats {
+    const row = this.db.prepare(`
+      SELECT
+        SUM(CASE WHEN embedding_status = 'pending' THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN embedding_status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= ?) THEN 1 ELSE 0 END) as due,
+        SUM(CASE WHEN embedding_status = 'failed' THEN 1 ELSE 0 END) as failed,
+        SUM(CASE WHEN embedding_status = 'success' THEN 1 ELSE 0 END) as succeeded,
+        MIN(CASE WHEN embedding_status = 'pending' THEN created_at END) as oldest_pending_at
+      FROM embedding_metadata
+    `).get(new Date().toISOString()) as {
+      pending: number | null;
+      due: number | null;
+      failed: number | null;
+      succeeded: number | null;
+      oldest_pending_at: string | null;
+    };
+
+    return {
+      pending: row.pending || 0,
+      due: row.due || 0,
+      failed: row.failed || 0,
+      succeeded: row.succeeded || 0,
+      oldest_pending_at: row.oldest_pending_at,
+    };
+  }
+
+  /**
+   * EMBEDDING QUEUE: Most recently failed jobs (given up), newest first
+   */
+  getFailedEmbeddings(limit: number = 20): EmbeddingMetadata[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM embedding_metadata
+      WHERE embedding_status = 'failed'
+      ORDER BY updated_at DESC
+      LIMIT ?
+    `);
+
+    return (stmt.all(limit) as EmbeddingMetadataRow[]).map(row => this.toEmbeddingMetadata(row));
+  }
+
+  private toEmbeddingMetadata(row: EmbeddingMetadataRow): EmbeddingMetadata {
+    return {
+      id: row.id,
+      message_id: row.message_id,
+      conversation_id: row.conversation_id,
+      chroma_id: row.chroma_id ?? undefined,
+      created_at: row.created_at,
+      embedding_status: row.embedding_status,
+      error_message: row.error_message ?? undefined,
+      attempts: row.attempts,
+      next_attempt_at: row.next_attempt_at ?? undefined,
+      updated_at: row.updated_at ?? undefined,
+    };
+  }
+
+  /**
+   * MEMORY ITEMS: Embedded messages, summaries and the profile with their hit counts
+   * Pinned first, then most retrieved, then newest. total counts every match (for paging)
+   */
+  listMemoryItems(options: {
+    id?: string;
+    type?: MemoryItem['type'];
+    query?: string;
+    pinned?: boolean;
+    limit?: number;
+    offset?: number;
+  } = {}): { items: MemoryItem[]; total: number } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (options.id) {
+      conditions.push('items.id = ?');
+      params.push(options.id);
+    }
+    if (options.type) {
+      conditions.push('items.type = ?');
+      params.push(options.type);
+    }
+    if (options.query) {
+      conditions.push(`(items.content LIKE ? ESCAPE '\\' OR items.conversation_title LIKE ? ESCAPE '\\')`);
+      const pattern = `%${options.query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      params.push(pattern, pattern);
+    }
+    if (options.pinned !== undefined) {
+      conditions.push('COALESCE(state.pinned, 0) = ?');
+      params.push(options.pinned ? 1 : 0);
+    }
+
+    // Messages count once they were queued for embedding (older rows may have several
+    // embedding_metadata rows - the latest one holds the status)
+    const withItems = `
+      WITH items AS (
+        SELECT
+          m.id AS id, 'message' AS type, m.conversation_id, c.title AS conversation_title,
+          m.role, m.content, m.created_at,
+          (SELECT e.embedding_status FROM embedding_metadata e
+           WHERE e.message_id = m.id ORDER BY e.created_at DESC LIMIT 1) AS embedding_status
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversation_id
+        WHERE m.id IN (SELECT message_id FROM embedding_metadata)
+        UNION ALL
+        SELECT
+          'summary_' || s.conversation_id, 'conversation_summary', s.conversation_id, c.title,
+          'system', s.summary, s.updated_at, s.embedding_status
+        FROM conversation_summaries s
+        JOIN conversations c ON c.id = s.conversation_id
+        UNION ALL
+        SELECT
+          'profile_' || p.id, 'user_profile', NULL, NULL,
+          'system', p.profile, p.updated_at, p.embedding_status
+        FROM user_profile p
+      )
+    `;
+    const fromItems = `
+      FROM items
+      LEFT JOIN memory_items state ON state.item_id = items.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    `;
+
+    const { total } = this.db.prepare(`${withItems} SELECT COUNT(*) AS total ${fromItems}`)
+      .get(...params) as { total: number };
+
+    const rows = this.db.prepare(`
+      ${withItems}
+      SELECT
+        items.*,
+        COALESCE(state.hit_count, 0) AS hit_count,
+        state.last_hit_at,
+        COALESCE(state.pinned, 0) AS pinned
+      ${fromItems}
+      ORDER BY pinned DESC, hit_count DESC, items.created_at DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, options.limit ?? 50, options.offset ?? 0) as MemoryItemRow[];
+
+    return { items: rows.map(row => this.toMemoryItem(row)), total };
+  }
+
+  /**
+   * MEMORY ITEMS: Get one item by its id
+   */
+  getMemoryItem(itemId: string): MemoryItem | null {
+    return this.listMemoryItems({ id: itemId, limit: 1 }).items[0] ?? null;
+  }
+
+  /**
+   * MEMORY ITEMS: Count one retrieval hit for each item
+   */
+  recordMemoryHits(items: Array<{ id: string; type: MemoryItem['type'] }>): void {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO memory_items (item_id, item_type, hit_count, last_hit_at)
+      VALUES (?, ?, 1, ?)
+      ON CONFLICT(item_id) DO UPDATE SET
+        hit_count = hit_count + 1,
+        last_hit_at = excluded.last_hit_at
+    `);
+
+    this.db.transaction(() => {
+      for (const item of items) {
+        stmt.run(item.id, item.type, now);
+      }
+    })();
+  }
+
+  /**
+   * MEMORY ITEMS: Pin or unpin an item
+   */
+  setMemoryItemPinned(itemId: string, type: MemoryItem['type'], pinned: boolean): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO memory_items (item_id, item_type, pinned, pinned_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(item_id) DO UPDATE SET
+        pinned = excluded.pinned,
+        pinned_at = excluded.pinned_at
+    `);
+    stmt.run(itemId, type, pinned ? 1 : 0, pinned ? new Date().toISOString() : null);
+  }
+
+  /**
+   * MEMORY ITEMS: Forget messages - drop their embedding jobs and FTS entries and mark them,
+   * so they are never queued for embedding or found by keyword search again.
+   * The messages themselves stay in their conversations.
+   */
+  forgetMessages(messageIds: string[]): void {
+    const now = new Date().toISOString();
+    const deleteJobs = this.db.prepare('DELETE FROM embedding_metadata WHERE message_id = ?');
+    const deleteFts = this.db.prepare('DELETE FROM messages_fts WHERE message_id = ?');
+    const markForgotten = this.db.prepare(`
+      INSERT INTO memory_items (item_id, item_type, forgotten_at)
+      VALUES (?, 'message', ?)
+      ON CONFLICT(item_id) DO UPDATE SET
+        pinned = 0,
+        pinned_at = NULL,
+        forgotten_at = excluded.forgotten_at
+    `);
+
+    this.db.transaction(() => {
+      for (const messageId of messageIds) {
+        deleteJobs.run(messageId);
+        deleteFts.run(messageId);
+        markForgotten.run(messageId, now);
+      }
+    })();
+  }
+
+  /**
+   * MEMORY ITEMS: Ids of every message in a conversation (all branches)
+   */
+  getConversationMessageIds(conversationId: string): string[] {
+    const rows = this.db.prepare('SELECT id FROM messages WHERE conversation_id = ?')
+      .all(conversationId) as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * MEMORY ITEMS: Ids of forgotten messages among messageIds
+   */
+  getForgottenMessageIds(messageIds: string[]): Set<string> {
+    const forgotten = new Set<string>();
+    const stmt = this.db.prepare(`
+      SELECT item_id FROM memory_items WHERE item_id = ? AND forgotten_at IS NOT NULL
+    `);
+    for (const id of messageIds) {
+      if (stmt.get(id)) forgotten.add(id);
+    }
+    return forgotten;
+  }
+
+  private toMemoryItem(row: MemoryItemRow): MemoryItem {
+    return {
+      id: row.id,
+      type: row.type,
+      conversation_id: row.conversation_id ?? undefined,
+      conversation_title: row.conversation_title ?? undefined,
+      role: row.role,
+      content: row.content,
+      created_at: row.created_at,
+      embedding_status: row.embedding_status,
+      hit_count: row.hit_count,
+      last_hit_at: row.last_hit_at ?? undefined,
+      pinned: row.pinned === 1,
+    };
   }
 
   /**
@@ -0,0 +1,83 @@
+// app/lib/memory/summarizer.ts
+// Prompts and batching for rolling conversation summaries
+
+import { countTokens, truncateToTokens } from '../models/tokens';
+import type { Message } from './schemas';
+
+// New messages are folded in batches of about this size, so a long backlog
+// (first summary of an imported conversation) never overflows the summarizer
+export const FOLD_BATCH_TOKENS = 3000;
+// A single long message (pasted logs, big code replies) is cut to this in the fold input
+const MAX_MESSAGE_TOKENS = 1200;
+// Once the running summary grows past this it is condensed into a shorter one
+export const SUMMARY_MAX_TOKENS = 500;
+
+/**
+ * Split messages into consecutive batches of at most FOLD_BATCH_TOKENS
+ */
+export function batchMessagesForFold(messages: Message[]): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const message of messages) {
+    const line = `${message.role.toUpperCase()}: ${truncateToTokens(message.content, MAX_MESSAGE_TOKENS)}`;
+    const tokens = countTokens(line);
+    if (current.length > 0 && currentTokens + tokens > FOLD_BATCH_TOKENS) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(line);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
+
+/**
+ * Prompt that folds new messages into the summary so far
+ */
+export function buildFoldPrompt(previousSummary: string | null, lines: string[]): string {
+  const conversation = lines.join('\n\n');
+
+  if (!previousSummary) {
+    return `Please provide a concise summary of this conversation focusing on:
+1. Key topics discussed
+2. Main technical decisions or solutions (and what was ruled out)
+3. Important context for future reference (file names, versions, constraints)
+
+Conversation:
+${conversation}
+
+Summary (a short paragraph or a few bullet points):`;
+  }
+
+  return `Here is a summary of a conversation so far, followed by the messages that came after it.
+Update the summary so it covers the whole conversation. Keep every decision, fix and
+constraint from the existing summary unless the new messages overturn it, then add
+what is new.
+
+Summary so far:
+${previousSummary}
+
+New messages:
+${conversation}
+
+Updated summary (a short paragraph or a few bullet points):`;
+}
+
+/**
+ * Prompt that shortens a summary that has grown past SUMMARY_MAX_TOKENS
+ */
+export function buildCondensePrompt(summary: string): string {
+  return `This summary of a long conversation has grown too long. Rewrite it in about half the
+length. Keep decisions, fixes, constraints and names (files, functions, versions), and drop
+detail about how they were reached.
+
+Summary:
+${summary}
+
+Condensed summary:`;
+}
@@ -0,0 +1,308 @@
+// app/lib/memory/transfer.ts
+// Conversation export (Markdown, JSON, fine-tune JSONL) and JSON import parsing
+
+import { Conversation, Message, ToolCall, ToolResult } from './schemas';
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'jsonl';
+
+export const CONVERSATION_EXPORT_FORMATS: ConversationExportFormat[] = ['markdown', 'json', 'jsonl'];
+
+export const CONVERSATION_EXPORT_KIND = 'hackerreign.conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+/**
+ * Message as written to a JSON export - ids are dropped, since an import
+ * always creates a new conversation
+ */
+export interface ExportedMessage {
+  role: Message['role'];
+  content: string;
+  created_at: string;
+  tokens_used?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  model_used?: string;
+  temperature?: number;
+  tool_calls?: ToolCall[];
+  tool_results?: ToolResult[];
+}
+
+/**
+ * Full-fidelity JSON export of one conversation
+ */
+export interface ConversationExport {
+  kind: typeof CONVERSATION_EXPORT_KIND;
+  version: number;
+  exported_at: string;
+  conversation: {
+    title: string;
+    created_at: string;
+    updated_at: string;
+    model_used?: string;
+    total_tokens: number;
+    summary?: string;
+    tags: string[];
+  };
+  messages: ExportedMessage[];
+}
+
+/**
+ * Rendered export, ready to send as a download
+ */
+export interface RenderedExport {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+/**
+ * Thrown when an import payload is not a usable conversation export
+ */
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+  }
+}
+
+const MAX_IMPORT_MESSAGES = 5000;
+const ROLES: Message['role'][] = ['user', 'assistant', 'system'];
+
+/**
+ * Build the JSON export; summary falls back to the one stored on the conversation row
+ */
+export function buildConversationExport(
+  conversation: Conversation,
+  messages: Message[],
+  summary?: string
+): ConversationExport {
+  return {
+    kind: CONVERSATION_EXPORT_KIND,
+    version: CONVERSATION_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    conversation: {
+      title: conversation.title,
+      created_at: conversation.created_at,
+      updated_at: conversation.updated_at,
+      model_used: conversation.model_used,
+      total_tokens: conversation.total_tokens,
+      summary: summary ?? conversation.summary,
+      tags: conversation.tags || [],
+    },
+    messages: messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      created_at: message.created_at,
+      tokens_used: message.tokens_used ?? undefined,
+      prompt_tokens: message.prompt_tokens ?? undefined,
+      completion_tokens: message.completion_tokens ?? undefined,
+      model_used: message.model_used ?? undefined,
+      temperature: message.temperature ?? undefined,
+      tool_calls: message.tool_calls,
+      tool_results: message.tool_results,
+    })),
+  };
+}
+
+/**
+ * Render an export in the requested format
+ */
+export function renderConversationExport(
+  data: ConversationExport,
+  format: ConversationExportFormat
+): RenderedExport {
+  const base = filenameFor(data.conversation.title);
+
+  switch (format) {
+    case 'markdown':
+      return { content: toMarkdown(data), mimeType: 'text/markdown; charset=utf-8', filename: `${base}.md` };
+    case 'json':
+      return { content: JSON.stringify(data, null, 2), mimeType: 'application/json; charset=utf-8', filename: `${base}.json` };
+    case 'jsonl':
+      return { content: toFineTuneJSONL([data]), mimeType: 'application/jsonl; charset=utf-8', filename: `${base}.jsonl` };
+  }
+}
+
+/**
+ * OpenAI chat fine-tune format: one {"messages": [...]} example per conversation.
+ * Stored tool calls become an assistant tool_calls turn followed by tool turns.
+ */
+export function toFineTuneJSONL(exports: ConversationExport[]): string {
+  const lines = exports
+    .map(data => {
+      const messages: Record<string, unknown>[] = [];
+
+      for (const message of data.messages) {
+        if (message.role === 'assistant' && message.tool_calls?.length) {
+          messages.push({
+            role: 'assistant',
+            content: null,
+            tool_calls: message.tool_calls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.function_name, arguments: JSON.stringify(call.arguments ?? {}) },
+            })),
+          });
+          for (const result of message.tool_results || []) {
+            messages.push({
+              role: 'tool',
+              tool_call_id: result.tool_call_id,
+              content: result.error ? `Error: ${result.error}` : stringifyResult(result.result),
+            });
+          }
+        }
+
+        if (message.content.trim()) {
+          messages.push({ role: message.role, content: message.content });
+        }
+      }
+
+      return messages.length > 0 ? JSON.stringify({ messages }) : null;
+    })
+    .filter((line): line is string => line !== null);
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Validate an uploaded JSON export
+ * @throws ConversationImportError describing the first problem found
+ */
+export function parseConversationExport(input: unknown): ConversationExport {
+  if (!isRecord(input)) {
+    throw new ConversationImportError('Export must be a JSON object');
+  }
+  if (input.kind !== CONVERSATION_EXPORT_KIND) {
+    throw new ConversationImportError(`Not a conversation export (expected kind "${CONVERSATION_EXPORT_KIND}")`);
+  }
+  if (typeof input.version !== 'number' || input.version > CONVERSATION_EXPORT_VERSION) {
+    throw new ConversationImportError(`Unsupported export version: ${String(input.version)}`);
+  }
+
+  const conversation = input.conversation;
+  if (!isRecord(conversation) || typeof conversation.title !== 'string') {
+    throw new ConversationImportError('conversation.title is required');
+  }
+  if (!Array.isArray(input.messages)) {
+    throw new ConversationImportError('messages must be an array');
+  }
+  if (input.messages.length > MAX_IMPORT_MESSAGES) {
+    throw new ConversationImportError(`Too many messages (max ${MAX_IMPORT_MESSAGES})`);
+  }
+
+  const messages = input.messages.map((message, index): ExportedMessage => {
+    if (!isRecord(message)) {
+      throw new ConversationImportError(`messages[${index}] must be an object`);
+    }
+    if (!ROLES.includes(message.role as Message['role'])) {
+      throw new ConversationImportError(`messages[${index}].role must be one of ${ROLES.join(', ')}`);
+    }
+    if (typeof message.content !== 'string') {
+      throw new ConversationImportError(`messages[${index}].content must be a string`);
+    }
+
+    return {
+      role: message.role as Message['role'],
+      content: message.content,
+      created_at: validDate(message.created_at) ?? '',
+      tokens_used: optionalNumber(message.tokens_used),
+      prompt_tokens: optionalNumber(message.prompt_tokens),
+      completion_tokens: optionalNumber(message.completion_tokens),
+      model_used: optionalString(message.model_used),
+      temperature: optionalNumber(message.temperature),
+      tool_calls: Array.isArray(message.tool_calls) ? (message.tool_calls as ToolCall[]) : undefined,
+      tool_results: Array.isArray(message.tool_results) ? (message.tool_results as ToolResult[]) : undefined,
+    };
+  });
+
+  return {
+    kind: CONVERSATION_EXPORT_KIND,
+    version: input.version,
+    exported_at: validDate(input.exported_at) ?? new Date().toISOString(),
+    conversation: {
+      title: conversation.title.trim() || 'Imported chat',
+      created_at: validDate(conversation.created_at) ?? '',
+      updated_at: validDate(conversation.updated_at) ?? '',
+      model_used: optionalString(conversation.model_used),
+      total_tokens: optionalNumber(conversation.total_tokens) ?? 0,
+      summary: optionalString(conversation.summary),
+      tags: Array.isArray(conversation.tags)
+        ? conversation.tags.filter((tag): tag is string => typeof tag === 'string')
+        : [],
+    },
+    messages,
+  };
+}
+
+function toMarkdown(data: ConversationExport): string {
+  const { conversation } = data;
+  const lines: string[] = [`# ${conversation.title}`, ''];
+
+  lines.push(`- **Created:** ${conversation.created_at}`);
+  if (conversation.model_used) lines.push(`- **Model:** ${conversation.model_used}`);
+  if (conversation.tags.length > 0) lines.push(`- **Tags:** ${conversation.tags.join(', ')}`);
+  lines.push(`- **Exported:** ${data.exported_at}`, '');
+
+  if (conversation.summary) {
+    lines.push('## Summary', '', conversation.summary, '');
+  }
+
+  for (const message of data.messages) {
+    const details = [message.created_at, message.model_used].filter(Boolean).join(' · ');
+    lines.push('---', '', `### ${ROLE_LABELS[message.role]}${details ? ` — ${details}` : ''}`, '');
+
+    // Message content is already Markdown, so it goes in verbatim to keep code fences intact
+    lines.push(message.content.trimEnd(), '');
+
+    if (message.tool_calls?.length) {
+      lines.push('**Tool calls**', '', fenced(JSON.stringify(message.tool_calls, null, 2), 'json'), '');
+    }
+    if (message.tool_results?.length) {
+      lines.push('**Tool results**', '', fenced(JSON.stringify(message.tool_results, null, 2), 'json'), '');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: '👤 User',
+  assistant: '🤖 Assistant',
+  system: '⚙️ System',
+};
+
+// A fence longer than any backtick run inside the body, so nested fences can't close it
+function fenced(body: string, language: string): string {
+  const longestRun = Math.max(2, ...(body.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${body}\n${fence}`;
+}
+
+function filenameFor(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || 'conversation';
+}
+
+function stringifyResult(result: unknown): string {
+  return typeof result === 'string' ? result : JSON.stringify(result ?? null);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function validDate(value: unknown): string | undefined {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
@@ -0,0 +1,28 @@
+// app/lib/models/index.ts
+// Model registry - discovery, metadata and user annotations
+
+export { ModelRegistry, getModelRegistry, type RegistrySource } from './registry';
+export {
+  buildModelEntry,
+  classifyTier,
+  estimateRAM,
+  isEmbeddingModel,
+  parseParameterCount,
+  parseQuantization,
+  pickModelBySize,
+  type ModelAnnotation,
+  type ModelTier,
+  type RegisteredModel
+} from './metadata';
+export {
+  addUsage,
+  countMessageTokens,
+  countTokens,
+  messageTokens,
+  resolveUsage,
+  tokenizerFamilyFor,
+  truncateToTokens,
+  usageFromCompletion,
+  type TokenizerFamily,
+  type TokenUsage
+} from './tokens';
@@ -0,0 +1,201 @@
+// app/lib/models/metadata.ts
+// Derive model capabilities from names and provider metadata
+
+import type { ModelInfo } from '../strategy/types';
+import type { ProviderModel } from '../providers';
+
+export type ModelTier = ModelInfo['type'];
+
+/**
+ * Model entry as tracked by the registry
+ * Extends the strategy-facing ModelInfo with discovery metadata
+ */
+export interface RegisteredModel extends ModelInfo {
+  parameterCount: number;     // Billions of parameters (0 when unknown)
+  quantization?: string;      // e.g. "Q5_K_M"
+  family?: string;
+  sizeBytes?: number;
+  modifiedAt?: string;
+  installed: boolean;         // false for fallback entries when discovery fails
+  annotated: boolean;         // true when user annotations were applied
+}
+
+/**
+ * User-editable model annotations (persisted in user_preferences)
+ */
+export interface ModelAnnotation {
+  displayName?: string;
+  type?: ModelTier;
+  strengths?: string[];
+  weaknesses?: string[];
+}
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Approximate bits per weight for common GGUF quantizations
+const QUANT_BITS: Array<[RegExp, number]> = [
+  [/^(f|fp|bf)16$/i, 16],
+  [/^q8/i, 8.5],
+  [/^q6/i, 6.6],
+  [/^q5/i, 5.5],
+  [/^q4/i, 4.5],
+  [/^q3/i, 3.5],
+  [/^q2/i, 2.6]
+];
+
+/**
+ * Parse parameter count in billions
+ * Name tags ("7b", "16b", "1.5b") win over reported sizes ("7.6B") since they match what users pulled
+ */
+export function parseParameterCount(name: string, reported?: string): number {
+  const tag = name.split(':')[1] || name;
+  const fromName = tag.match(/(?:^|[-_])(\d+(?:\.\d+)?)b(?:$|[-_])/i);
+  if (fromName) return parseFloat(fromName[1]);
+
+  if (reported) {
+    const match = reported.match(/(\d+(?:\.\d+)?)\s*([BM])/i);
+    if (match) {
+      const value = parseFloat(match[1]);
+      return match[2].toUpperCase() === 'M' ? value / 1000 : value;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Parse quantization level from metadata or name tag (e.g. "q4_K_M", "q8_0", "fp16")
+ */
+export function parseQuantization(name: string, reported?: string): string | undefined {
+  if (reported) return reported.toUpperCase();
+  const match = name.match(/(?:^|[-_:])((?:q\d(?:_[0-9a-z]+)*)|fp16|f16|bf16)$/i);
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+/**
+ * Embedding-only models (nomic-embed-text, mxbai-embed, bge...) can't chat
+ */
+export function isEmbeddingModel(model: ProviderModel): boolean {
+  return /embed|bge-|minilm/i.test(model.id) || /bert/i.test(model.family || '');
+}
+
+/**
+ * Map parameter count to a strategy tier
+ */
+export function classifyTier(parameterCount: number): ModelTier {
+  if (parameterCount === 0) return 'balanced';
+  if (parameterCount <= 4) return 'fast';
+  if (parameterCount <= 9) return 'balanced';
+  if (parameterCount <= 14) return 'quality';
+  return 'expert';
+}
+
+/**
+ * Estimate RAM requirement in MB
+ * Uses on-disk size when known (weights + ~20% KV cache/runtime), else params × bits
+ */
+export function estimateRAM(parameterCount: number, quantization?: string, sizeBytes?: number): number {
+  if (sizeBytes && sizeBytes > 0) {
+    return Math.round((sizeBytes / 1e6) * 1.2);
+  }
+
+  const bits = QUANT_BITS.find(([pattern]) => quantization && pattern.test(quantization))?.[1] ?? 5;
+  const params = parameterCount || 7;
+  return Math.round(params * (bits / 8) * 1000 * 1.2);
+}
+
+function formatSize(parameterCount: number): string {
+  if (parameterCount === 0) return 'unknown';
+  return `${Number.isInteger(parameterCount) ? parameterCount : parameterCount.toFixed(1)}B`;
+}
+
+function defaultDisplayName(name: string, size: string): string {
+  const base = name.split(':')[0].split('/').pop() || name;
+  return size === 'unknown' ? base : `${base} (${size})`;
+}
+
+/**
+ * Heuristic strengths/weaknesses - users can override via annotations
+ */
+function defaultTraits(name: string, tier: ModelTier): { strengths: string[]; weaknesses: string[] } {
+  const strengths: string[] = [];
+  const weaknesses: string[] = [];
+  const isCoder = /coder|code|starcoder|codellama|devstral/i.test(name);
+
+  if (isCoder) strengths.push('code generation', 'code review');
+
+  switch (tier) {
+    case 'fast':
+      strengths.push('speed', 'simple tasks');
+      weaknesses.push('complex reasoning');
+      break;
+    case 'balanced':
+      strengths.push('explanations');
+      weaknesses.push('very complex architecture');
+      break;
+    case 'quality':
+      strengths.push('multi-step reasoning');
+      weaknesses.push('speed');
+      break;
+    case 'expert':
+      strengths.push('architecture', 'deep analysis');
+      weaknesses.push('speed');
+      break;
+  }
+
+  return { strengths, weaknesses };
+}
+
+/**
+ * Build a registry entry from provider metadata plus optional user annotation
+ */
+export function buildModelEntry(
+  model: ProviderModel,
+  annotation?: ModelAnnotation,
+  installed: boolean = true
+): RegisteredModel {
+  const parameterCount = parseParameterCount(model.id, model.parameterSize);
+  const quantization = parseQuantization(model.id, model.quantization);
+  const size = formatSize(parameterCount);
+  const tier = annotation?.type || classifyTier(parameterCount);
+  const traits = defaultTraits(model.id, tier);
+
+  return {
+    name: model.id,
+    displayName: annotation?.displayName || defaultDisplayName(model.id, size),
+    size,
+    type: tier,
+    strengths: annotation?.strengths || traits.strengths,
+    weaknesses: annotation?.weaknesses || traits.weaknesses,
+    ramRequired: estimateRAM(parameterCount, quantization, model.sizeBytes),
+    gpuRequired: parameterCount >= 7,
+    contextWindow: model.contextWindow || DEFAULT_CONTEXT_WINDOW,
+    parameterCount,
+    quantization,
+    family: model.family,
+    sizeBytes: model.sizeBytes,
+    modifiedAt: model.modifiedAt,
+    installed,
+    annotated: Boolean(annotation)
+  };
+}
+
+/**
+ * Pick the model closest to a target size (e.g. "7B")
+ * Ties prefer code-capable models since this is a coding assistant
+ */
+export function pickModelBySize<T extends ModelInfo>(models: T[], size: string): T | undefined {
+  const target = parseFloat(size);
+  if (models.length === 0 || isNaN(target)) return models[0];
+
+  const scored = models.map(model => {
+    const params = parseFloat(model.size);
+    // Log distance so 3B→7B and 7B→16B count as similar jumps
+    const distance = isNaN(params) ? Infinity : Math.abs(Math.log(params / target));
+    const codeBonus = model.strengths.some(s => s.includes('code')) ? 0 : 0.01;
+    return { model, score: distance + codeBonus };
+  });
+
+  scored.sort((a, b) => a.score - b.score);
+  return scored[0].model;
+}
@@ -0,0 +1,264 @@
+// app/lib/models/registry.ts
+/**
+ * Model Registry
+ * Single source of truth for which models exist and what they're good at.
+ * Syncs from the active LLM provider (Ollama /api/tags, /v1/models, ...),
+ * merges user annotations from user_preferences, and falls back to a
+ * static list only when the provider can't be reached.
+ */
+
+import { getLLMProvider, type ProviderModel } from '../providers';
+import { getStorage } from '../memory/storage';
+import {
+  buildModelEntry,
+  isEmbeddingModel,
+  pickModelBySize,
+  type ModelAnnotation,
+  type RegisteredModel
+} from './metadata';
+
+const ANNOTATIONS_KEY = 'model_annotations';
+const SYNC_TTL_MS = 60_000;
+
+// Used only when the provider is unreachable, so the app still has something to offer
+const FALLBACK_MODELS: ProviderModel[] = [
+  { id: 'llama3.2:3b-instruct-q5_K_M', contextWindow: 8192 },
+  { id: 'qwen2.5-coder:7b-instruct-q5_K_M', contextWindow: 16384 },
+  { id: 'deepseek-coder-v2:16b-instruct-q4_K_M', contextWindow: 32768 }
+];
+
+export type RegistrySource = 'provider' | 'fallback';
+
+export class ModelRegistry {
+  private models: RegisteredModel[] = [];
+  private source: RegistrySource = 'fallback';
+  private lastSync = 0;
+  private lastError: string | null = null;
+  private syncPromise: Promise<void> | null = null;
+  // Context window lookups are per-model calls; cache them across syncs
+  private contextWindows = new Map<string, number>();
+
+  /**
+   * Get all known models, syncing from the provider when stale
+   */
+  async getModels(forceRefresh: boolean = false): Promise<RegisteredModel[]> {
+    if (forceRefresh || Date.now() - this.lastSync > SYNC_TTL_MS) {
+      await this.sync();
+    }
+    return this.models;
+  }
+
+  /**
+   * Last synced snapshot (no network) - for synchronous callers like resource constraints
+   */
+  getCachedModels(): RegisteredModel[] {
+    if (this.models.length === 0) {
+      this.models = this.buildEntries(FALLBACK_MODELS, false);
+    }
+    return this.models;
+  }
+
+  getStatus(): { source: RegistrySource; lastSync: string | null; error: string | null; count: number } {
+    return {
+      source: this.source,
+      lastSync: this.lastSync ? new Date(this.lastSync).toISOString() : null,
+      error: this.lastError,
+      count: this.models.length
+    };
+  }
+
+  /**
+   * Sync installed models from the provider
+   * Concurrent callers share one in-flight sync
+   */
+  async sync(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.doSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async doSync(): Promise<void> {
+    const provider = getLLMProvider();
+
+    // Annotations live in user_preferences - discovery still works without them
+    await getStorage().initialize().catch(error => {
+      console.warn('[ModelRegistry] Storage unavailable, skipping annotations:', error);
+    });
+
+    try {
+      const discovered = (await provider.listModels()).filter(m => !isEmbeddingModel(m));
+
+      if (provider.describeModel) {
+        await Promise.all(
+          discovered
+            .filter(m => !m.contextWindow && !this.contextWindows.has(m.id))
+            .map(async m => {
+              try {
+                const details = await provider.describeModel!(m.id);
+                if (details.contextWindow) this.contextWindows.set(m.id, details.contextWindow);
+              } catch (error) {
+                console.warn(`[ModelRegistry] Could not describe ${m.id}:`, error);
+              }
+            })
+        );
+      }
+
+      const withContext = discovered.map(m => ({
+        ...m,
+        contextWindow: m.contextWindow || this.contextWindows.get(m.id)
+      }));
+
+      this.models = this.buildEntries(withContext, true);
+      this.source = 'provider';
+      this.lastError = null;
+      console.log(`[ModelRegistry] Synced ${this.models.length} models from ${provider.type}`);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.warn(`[ModelRegistry] Sync failed, using ${this.source === 'provider' ? 'last snapshot' : 'fallback list'}:`, this.lastError);
+
+      if (this.source !== 'provider') {
+        this.models = this.buildEntries(FALLBACK_MODELS, false);
+      }
+    }
+
+    this.lastSync = Date.now();
+  }
+
+  private buildEntries(models: ProviderModel[], installed: boolean): RegisteredModel[] {
+    const annotations = this.getAnnotations();
+    return models
+      .map(m => buildModelEntry(m, annotations[m.id], installed))
+      .sort((a, b) => a.parameterCount - b.parameterCount || a.name.localeCompare(b.name));
+  }
+
+  // ============================================================
+  // LOOKUPS
+  // ============================================================
+
+  /**
+   * Find a model by exact name, or by prefix ("deepseek-coder-v2:16b" matches
+   * "deepseek-coder-v2:16b-instruct-q4_K_M" and vice versa)
+   */
+  findModel(name: string): RegisteredModel | undefined {
+    const models = this.getCachedModels();
+    return models.find(m => m.name === name) ||
+           models.find(m => m.name.startsWith(name) || name.startsWith(m.name));
+  }
+
+  /**
+   * True if the model is installed, or if we can't tell (provider unreachable)
+   */
+  isAvailable(name: string): boolean {
+    if (this.source !== 'provider') return true;
+    return Boolean(this.findModel(name));
+  }
+
+  /**
+   * Map a requested model onto an installed one
+   * Keeps the request if it exists; otherwise picks the closest size
+   */
+  resolveModel(requested: string): string {
+    if (this.source !== 'provider') return requested;
+
+    const match = this.findModel(requested);
+    if (match) return match.name;
+
+    const models = this.getCachedModels();
+    const sizeMatch = requested.match(/(\d+(?:\.\d+)?)b/i);
+    const replacement = sizeMatch
+      ? pickModelBySize(models, `${sizeMatch[1]}B`)
+      : models.find(m => m.type === 'balanced') || models[0];
+
+    if (replacement) {
+      console.warn(`[ModelRegistry] ${requested} is not installed, using ${replacement.name}`);
+      return replacement.name;
+    }
+    return requested;
+  }
+
+  /**
+   * Largest model that fits in the given RAM budget (MB)
+   */
+  largestFitting(availableRAM: number): RegisteredModel | undefined {
+    const models = this.getCachedModels();
+    const fitting = models.filter(m => m.ramRequired <= availableRAM);
+    return fitting.length > 0 ? fitting[fitting.length - 1] : models[0];
+  }
+
+  smallest(): RegisteredModel | undefined {
+    return this.getCachedModels()[0];
+  }
+
+  // ============================================================
+  // ANNOTATIONS
+  // ============================================================
+
+  getAnnotations(): Record<string, ModelAnnotation> {
+    try {
+      const pref = getStorage().getPreference(ANNOTATIONS_KEY);
+      return pref?.data_type === 'json' ? JSON.parse(pref.value) : {};
+    } catch (error) {
+      // Storage may not be initialized yet (e.g. first request) - annotations are optional
+      console.warn('[ModelRegistry] Could not read annotations:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Save user annotation for a model and rebuild entries
+   */
+  async annotate(name: string, annotation: ModelAnnotation): Promise<RegisteredModel | undefined> {
+    const storage = getStorage();
+    await storage.initialize();
+
+    const annotations = this.getAnnotations();
+    annotations[name] = { ...annotations[name], ...annotation };
+    storage.setPreference(ANNOTATIONS_KEY, annotations);
+
+    this.applyAnnotations();
+    return this.findModel(name);
+  }
+
+  async clearAnnotation(name: string): Promise<void> {
+    const storage = getStorage();
+    await storage.initialize();
+
+    const annotations = this.getAnnotations();
+    delete annotations[name];
+    storage.setPreference(ANNOTATIONS_KEY, annotations);
+
+    this.applyAnnotations();
+  }
+
+  private applyAnnotations(): void {
+    const installed = this.source === 'provider';
+    this.models = this.buildEntries(
+      this.models.map(m => ({
+        id: m.name,
+        sizeBytes: m.sizeBytes,
+        modifiedAt: m.modifiedAt,
+        family: m.family,
+        parameterSize: m.parameterCount ? `${m.parameterCount}B` : undefined,
+        quantization: m.quantization,
+        contextWindow: m.contextWindow
+      })),
+      installed
+    );
+  }
+}
+
+// Singleton instance
+let registryInstance: ModelRegistry | null = null;
+
+/**
+ * Get the model registry (singleton)
+ */
+export function getModelRegistry(): ModelRegistry {
+  if (!registryInstance) {
+    registryInstance = new ModelRegistry();
+  }
+  return registryInstance;
+}
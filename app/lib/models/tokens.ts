@@ -0,0 +1,180 @@
+// app/lib/models/tokens.ts
+// Token accounting - provider-reported usage first, local per-family counting as the fallback
+
+import type { ChatCompletionMessageParam } from 'openai/resources/chat';
+import type { CompletionUsage } from 'openai/resources/completions';
+
+export type TokenizerFamily = 'llama3' | 'qwen' | 'deepseek' | 'sentencepiece' | 'generic';
+
+/**
+ * Token counts for one generation (summed across tool-loop turns)
+ * source is 'estimate' when any part came from local counting instead of the backend
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  source: 'provider' | 'estimate';
+}
+
+interface TokenizerProfile {
+  pattern: RegExp;    // Pre-tokenizer split - BPE merges never cross these boundaries
+  pieceChars: number; // Average characters per token inside one ASCII piece
+  cjkChars: number;   // Characters per token for non-ASCII letters
+}
+
+// GPT-4 style split used by the Llama 3, Qwen 2 and DeepSeek V2 byte-level BPE tokenizers
+// (Qwen and DeepSeek give every digit its own token, Llama 3 groups up to three)
+const BPE_SPLIT = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+const BPE_SPLIT_DIGITS = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+// SentencePiece models (Mistral, Llama 2, Gemma...) have small vocabularies and split digits
+const SENTENCEPIECE_SPLIT = / ?\p{L}+|\p{N}| ?[^\s\p{L}\p{N}]|\s+/gu;
+
+const PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  llama3: { pattern: BPE_SPLIT, pieceChars: 6, cjkChars: 1.5 },
+  qwen: { pattern: BPE_SPLIT_DIGITS, pieceChars: 6, cjkChars: 1.4 },
+  deepseek: { pattern: BPE_SPLIT_DIGITS, pieceChars: 5.5, cjkChars: 1.4 },
+  sentencepiece: { pattern: SENTENCEPIECE_SPLIT, pieceChars: 6, cjkChars: 1 },
+  generic: { pattern: BPE_SPLIT, pieceChars: 5, cjkChars: 1.2 },
+};
+
+// Chat template overhead: role markers around each message, plus the assistant priming
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Pick the tokenizer family from a model id (and the family the backend reports, if any)
+ */
+export function tokenizerFamilyFor(model: string, reportedFamily?: string): TokenizerFamily {
+  const name = `${model} ${reportedFamily || ''}`.toLowerCase();
+  if (/qwen/.test(name)) return 'qwen';
+  if (/deepseek/.test(name)) return 'deepseek';
+  if (/llama-?3/.test(name)) return 'llama3';
+  if (/mistral|mixtral|llama-?2|codellama|gemma|phi|tinyllama/.test(name)) return 'sentencepiece';
+  return 'generic';
+}
+
+/**
+ * Count tokens in a piece of text for the given model
+ * Local approximation of the family's tokenizer (no vocabulary files are shipped) -
+ * far closer than length/4 on code, where punctuation and digits dominate
+ */
+export function countTokens(text: string, model = ''): number {
+  if (!text) return 0;
+  const profile = PROFILES[tokenizerFamilyFor(model)];
+
+  let tokens = 0;
+  for (const [piece] of text.matchAll(profile.pattern)) {
+    tokens += pieceTokens(piece, profile);
+  }
+  return tokens;
+}
+
+/**
+ * Cut text to at most maxTokens, on a pre-tokenizer boundary, marking the cut with an ellipsis
+ */
+export function truncateToTokens(text: string, maxTokens: number, model = ''): string {
+  if (maxTokens <= 0) return '';
+  if (countTokens(text, model) <= maxTokens) return text;
+  const profile = PROFILES[tokenizerFamilyFor(model)];
+
+  // One token is kept back for the ellipsis
+  let tokens = 0;
+  for (const match of text.matchAll(profile.pattern)) {
+    tokens += pieceTokens(match[0], profile);
+    if (tokens > maxTokens - 1) {
+      return `${text.slice(0, match.index).trimEnd()}…`;
+    }
+  }
+  return text;
+}
+
+function pieceTokens(piece: string, profile: TokenizerProfile): number {
+  // Indentation runs merge into a handful of tokens
+  if (/^\s+$/.test(piece)) return Math.ceil(piece.length / 16);
+
+  const nonAscii = piece.replace(/[\x00-\x7f]/g, '').length;
+  const ascii = piece.length - nonAscii;
+  return Math.max(1, Math.ceil(ascii / profile.pieceChars) + Math.ceil(nonAscii / profile.cjkChars));
+}
+
+type CountableMessage = ChatCompletionMessageParam | { role: string; content: string };
+
+/**
+ * Count prompt tokens for a chat request, including template overhead and tool calls
+ */
+export function countMessageTokens(messages: CountableMessage[], model = ''): number {
+  return messages.reduce((sum, message) => sum + messageTokens(message, model), TOKENS_PER_REPLY);
+}
+
+/**
+ * Tokens one message adds to a prompt (content, tool calls and its role markers)
+ */
+export function messageTokens(message: CountableMessage, model = ''): number {
+  let tokens = TOKENS_PER_MESSAGE;
+
+  const { content } = message;
+  if (typeof content === 'string') {
+    tokens += countTokens(content, model);
+  } else if (Array.isArray(content)) {
+    for (const part of content) {
+      if ('text' in part && typeof part.text === 'string') tokens += countTokens(part.text, model);
+    }
+  }
+
+  if ('tool_calls' in message && message.tool_calls) {
+    for (const call of message.tool_calls) {
+      if (call.type === 'function') {
+        tokens += countTokens(call.function.name, model) + countTokens(call.function.arguments, model);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Usage as reported by the backend (the final usage chunk when streaming), or null when absent
+ */
+export function usageFromCompletion(usage: CompletionUsage | null | undefined): TokenUsage | null {
+  if (!usage || (usage.prompt_tokens === undefined && usage.completion_tokens === undefined)) return null;
+
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens || promptTokens + completionTokens,
+    source: 'provider',
+  };
+}
+
+/**
+ * Usage for one call: the backend's figures when it sent them, local counts otherwise
+ */
+export function resolveUsage(
+  reported: CompletionUsage | null | undefined,
+  prompt: CountableMessage[],
+  completion: string,
+  model: string
+): TokenUsage {
+  const usage = usageFromCompletion(reported);
+  if (usage) return usage;
+
+  const promptTokens = countMessageTokens(prompt, model);
+  const completionTokens = countTokens(completion, model);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, source: 'estimate' };
+}
+
+/**
+ * Sum usage across tool-loop turns
+ */
+export function addUsage(a: TokenUsage | null, b: TokenUsage): TokenUsage {
+  if (!a) return b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    source: a.source === 'provider' && b.source === 'provider' ? 'provider' : 'estimate',
+  };
+}
@@ -0,0 +1,52 @@
+// app/lib/providers/config.ts
+// LLM provider selection and connection settings
+
+import { ProviderConfig, ProviderType } from './types';
+
+const DEFAULT_HOSTS: Record<ProviderType, string> = {
+  ollama: 'http://localhost:11434',
+  llamacpp: 'http://localhost:8080',
+  openai: 'https://api.openai.com'
+};
+
+/**
+ * Strip a trailing /v1 so every provider can append its own paths
+ */
+function normalizeBaseURL(url: string): string {
+  return url.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * Load provider configuration from environment variables
+ *
+ * LLM_PROVIDER        ollama | llamacpp | openai (default: ollama)
+ * OLLAMA_HOST         Ollama server root (default: http://localhost:11434)
+ * LLAMACPP_HOST       llama-server root (default: http://localhost:8080)
+ * OPENAI_BASE_URL     Any OpenAI-compatible endpoint (with or without /v1)
+ * OPENAI_API_KEY      API key for the OpenAI-compatible endpoint
+ * LLM_DEFAULT_MODEL   Model used when a call site doesn't specify one
+ * LLM_TIMEOUT_MS      SDK client timeout (default: 1 hour)
+ */
+export function getProviderConfig(): ProviderConfig {
+  const requested = (process.env.LLM_PROVIDER || 'ollama').toLowerCase();
+  const type: ProviderType =
+    requested === 'llamacpp' || requested === 'openai' ? requested : 'ollama';
+
+  if (requested !== type) {
+    console.warn(`[Providers] Unknown LLM_PROVIDER "${requested}", falling back to ollama`);
+  }
+
+  const hostByType: Record<ProviderType, string | undefined> = {
+    ollama: process.env.OLLAMA_HOST,
+    llamacpp: process.env.LLAMACPP_HOST,
+    openai: process.env.OPENAI_BASE_URL
+  };
+
+  return {
+    type,
+    baseURL: normalizeBaseURL(hostByType[type] || DEFAULT_HOSTS[type]),
+    apiKey: type === 'openai' ? process.env.OPENAI_API_KEY || '' : type,
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '3600000', 10),
+    defaultModel: process.env.LLM_DEFAULT_MODEL || 'qwen2.5-coder:7b-instruct-q5_K_M'
+  };
+}
@@ -0,0 +1,57 @@
+// app/lib/providers/index.ts
+/**
+ * LLM Provider Layer
+ * Single entry point for every inference call (chat route, workflows, summaries).
+ * The active backend is chosen by LLM_PROVIDER - see ./config.ts.
+ */
+
+import { getProviderConfig } from './config';
+import { LlamaCppProvider } from './llamaCpp';
+import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { LLMProvider, ProviderConfig } from './types';
+
+/**
+ * Build a provider instance for the given config
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.type) {
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'llamacpp':
+      return new LlamaCppProvider(config);
+    case 'openai':
+    default:
+      return new OpenAICompatibleProvider(config);
+  }
+}
+
+// Singleton instance
+let providerInstance: LLMProvider | null = null;
+
+/**
+ * Get the configured LLM provider (singleton)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = createProvider(getProviderConfig());
+    console.log(
+      `[Providers] Using ${providerInstance.type} at ${providerInstance.config.baseURL}`
+    );
+  }
+  return providerInstance;
+}
+
+/**
+ * Reset the singleton (used after config changes)
+ */
+export function resetLLMProvider(): void {
+  providerInstance = null;
+}
+
+export { getProviderConfig } from './config';
+export { OllamaProvider } from './ollama';
+export { LlamaCppProvider } from './llamaCpp';
+export { OpenAICompatibleProvider } from './openaiCompatible';
+export { readChatStream } from './stream';
+export * from './types';
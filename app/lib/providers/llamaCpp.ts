@@ -0,0 +1,53 @@
+// app/lib/providers/llamaCpp.ts
+/**
+ * llama.cpp Server Provider
+ * llama-server exposes an OpenAI-compatible API; health lives at /health
+ * and the context size is reported per-model via /props.
+ */
+
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { ChatRequest, ProviderHealth, ProviderModel } from './types';
+
+export class LlamaCppProvider extends OpenAICompatibleProvider {
+  /**
+   * llama-server accepts repeat_penalty natively (num_ctx is fixed at server start)
+   */
+  protected buildChatBody(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    const body = super.buildChatBody(request, stream);
+    if (request.options?.repeatPenalty !== undefined) {
+      delete body.frequency_penalty;
+      body.repeat_penalty = request.options.repeatPenalty;
+    }
+    return body;
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    const models = await super.listModels();
+
+    // Context window is a server-wide setting; attach it when available
+    try {
+      const response = await fetch(`${this.config.baseURL}/props`);
+      if (response.ok) {
+        const props = await response.json();
+        const nCtx = props.default_generation_settings?.n_ctx;
+        if (typeof nCtx === 'number') {
+          return models.map(m => ({ ...m, contextWindow: nCtx }));
+        }
+      }
+    } catch {
+      // /props is optional - older servers don't expose it
+    }
+
+    return models;
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.timedHealthCheck(async () => {
+      const response = await fetch(`${this.config.baseURL}/health`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return undefined;
+    });
+  }
+}
@@ -0,0 +1,113 @@
+// app/lib/providers/ollama.ts
+/**
+ * Ollama Provider
+ * Uses Ollama's OpenAI-compatible endpoint for chat, plus native
+ * /api/tags and /api/version for model discovery and health.
+ */
+
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { ChatRequest, ProviderError, ProviderHealth, ProviderModel } from './types';
+
+interface OllamaTagModel {
+  name: string;
+  size?: number;
+  modified_at?: string;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+export class OllamaProvider extends OpenAICompatibleProvider {
+  /**
+   * Ollama accepts runtime options (num_ctx, num_gpu, ...) alongside the OpenAI fields
+   */
+  protected buildChatBody(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    const body = super.buildChatBody(request, stream);
+    delete body.frequency_penalty;
+
+    const opts = request.options;
+    if (opts) {
+      const options: Record<string, number> = {};
+      if (opts.numThread !== undefined) options.num_thread = opts.numThread;
+      if (opts.numGpu !== undefined) options.num_gpu = opts.numGpu;
+      if (opts.numCtx !== undefined) options.num_ctx = opts.numCtx;
+      if (opts.repeatPenalty !== undefined) options.repeat_penalty = opts.repeatPenalty;
+      if (opts.numBatch !== undefined) options.num_batch = opts.numBatch;
+      if (request.maxTokens !== undefined) options.num_predict = request.maxTokens;
+      body.options = options;
+    }
+
+    return body;
+  }
+
+  /**
+   * List installed models via /api/tags (richer than /v1/models)
+   */
+  async listModels(): Promise<ProviderModel[]> {
+    const response = await fetch(`${this.config.baseURL}/api/tags`);
+
+    if (!response.ok) {
+      throw new ProviderError(
+        `ollama error: ${response.status} - ${await response.text()}`,
+        this.type,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    return (data.models || []).map((m: OllamaTagModel) => ({
+      id: m.name,
+      sizeBytes: m.size,
+      modifiedAt: m.modified_at,
+      family: m.details?.family,
+      parameterSize: m.details?.parameter_size,
+      quantization: m.details?.quantization_level
+    }));
+  }
+
+  /**
+   * Read model metadata via /api/show
+   * Context length lives under an architecture-prefixed key, e.g. "qwen2.context_length"
+   */
+  async describeModel(id: string): Promise<Partial<ProviderModel>> {
+    const response = await fetch(`${this.config.baseURL}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: id })
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(
+        `ollama error: ${response.status} - ${await response.text()}`,
+        this.type,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    const modelInfo: Record<string, unknown> = data.model_info || {};
+    const contextKey = Object.keys(modelInfo).find(k => k.endsWith('.context_length'));
+    const contextWindow = contextKey ? Number(modelInfo[contextKey]) : undefined;
+
+    return {
+      id,
+      family: data.details?.family,
+      parameterSize: data.details?.parameter_size,
+      quantization: data.details?.quantization_level,
+      contextWindow: contextWindow && !isNaN(contextWindow) ? contextWindow : undefined
+    };
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.timedHealthCheck(async () => {
+      const response = await fetch(`${this.config.baseURL}/api/version`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      return data.version;
+    });
+  }
+}
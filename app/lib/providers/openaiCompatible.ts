@@ -0,0 +1,177 @@
+// app/lib/providers/openaiCompatible.ts
+/**
+ * OpenAI-Compatible Provider
+ * Speaks the /v1/chat/completions and /v1/models protocol.
+ * Works against vLLM, LM Studio, LocalAI, OpenRouter, OpenAI, etc.
+ * Ollama and llama.cpp providers extend this and override the backend-specific bits.
+ */
+
+import type { ChatCompletion } from 'openai/resources/chat';
+import {
+  ChatRequest,
+  LLMProvider,
+  ProviderConfig,
+  ProviderError,
+  ProviderHealth,
+  ProviderModel,
+  ProviderType
+} from './types';
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type: ProviderType;
+  readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = { ...config, baseURL: config.baseURL.replace(/\/+$/, '') };
+    this.type = config.type;
+  }
+
+  /**
+   * Base URL for the OpenAI-compatible API surface
+   */
+  get apiBaseURL(): string {
+    return `${this.config.baseURL}/v1`;
+  }
+
+  /**
+   * Non-streaming chat completion
+   */
+  async chat(request: ChatRequest): Promise<ChatCompletion> {
+    const response = await this.postChat(request, false);
+    return (await response.json()) as ChatCompletion;
+  }
+
+  /**
+   * Streaming chat completion
+   * Returns the raw response so callers can read SSE lines incrementally
+   */
+  async chatStream(request: ChatRequest): Promise<Response> {
+    const response = await this.postChat(request, true);
+
+    if (!response.body) {
+      throw new ProviderError(`${this.type} error: no response body`, this.type);
+    }
+
+    return response;
+  }
+
+  /**
+   * List models via /v1/models
+   */
+  async listModels(): Promise<ProviderModel[]> {
+    const response = await fetch(`${this.apiBaseURL}/models`, {
+      headers: this.buildHeaders()
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(
+        `${this.type} error: ${response.status} - ${await response.text()}`,
+        this.type,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((m: { id: string; created?: number }) => ({
+      id: m.id,
+      modifiedAt: m.created ? new Date(m.created * 1000).toISOString() : undefined
+    }));
+  }
+
+  /**
+   * Health check - a successful model listing means the server is reachable
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.timedHealthCheck(async () => {
+      await this.listModels();
+      return undefined;
+    });
+  }
+
+  // ============================================================
+  // INTERNALS
+  // ============================================================
+
+  /**
+   * Build the JSON body for /v1/chat/completions
+   * Subclasses extend this to add backend-specific fields
+   */
+  protected buildChatBody(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      stream
+    };
+
+    // Ask for a final usage chunk so streamed calls can report real token counts
+    if (stream) body.stream_options = { include_usage: true };
+
+    if (request.maxTokens !== undefined) body.max_tokens = request.maxTokens;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.topP !== undefined) body.top_p = request.topP;
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools;
+      body.tool_choice = request.toolChoice || 'auto';
+    }
+    if (request.options?.repeatPenalty !== undefined) {
+      body.frequency_penalty = request.options.repeatPenalty - 1;
+    }
+
+    return body;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Connection': 'keep-alive'
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  protected async timedHealthCheck(probe: () => Promise<string | undefined>): Promise<ProviderHealth> {
+    const start = Date.now();
+    try {
+      const version = await probe();
+      return {
+        provider: this.type,
+        baseURL: this.config.baseURL,
+        healthy: true,
+        latencyMs: Date.now() - start,
+        version,
+        checkedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      return {
+        provider: this.type,
+        baseURL: this.config.baseURL,
+        healthy: false,
+        latencyMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+        checkedAt: new Date().toISOString()
+      };
+    }
+  }
+
+  private async postChat(request: ChatRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.apiBaseURL}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildChatBody(request, stream))
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(
+        `${this.type} error: ${response.status} - ${errorText}`,
+        this.type,
+        response.status,
+        errorText
+      );
+    }
+
+    return response;
+  }
+}
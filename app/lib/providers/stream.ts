@@ -0,0 +1,43 @@
+// app/lib/providers/stream.ts
+// SSE parsing for OpenAI-compatible streaming responses
+
+import type { ChatCompletionChunk } from 'openai/resources/chat';
+
+/**
+ * Iterate parsed chunks from a streaming chat completion
+ * Buffers partial lines so JSON split across network reads isn't dropped
+ */
+export async function* readChatStream(response: Response): AsyncGenerator<ChatCompletionChunk> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('No response body');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data: ')) continue;
+
+        const data = trimmed.slice(6);
+        if (data === '[DONE]') return;
+
+        try {
+          yield JSON.parse(data) as ChatCompletionChunk;
+        } catch {
+          // Skip keep-alives and malformed lines
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
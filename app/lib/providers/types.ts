@@ -0,0 +1,116 @@
+// app/lib/providers/types.ts
+/**
+ * LLM Provider Types
+ * Shared interfaces for inference backends (Ollama, llama.cpp, OpenAI-compatible)
+ */
+
+import type {
+  ChatCompletion,
+  ChatCompletionMessageParam,
+  ChatCompletionTool
+} from 'openai/resources/chat';
+
+export type ProviderType = 'ollama' | 'llamacpp' | 'openai';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseURL: string;      // Server root, e.g. http://localhost:11434 (no /v1 suffix)
+  apiKey: string;       // Sent as Bearer token (Ollama and llama.cpp ignore it)
+  timeoutMs: number;    // Used by the OpenAI SDK client only (fetch calls rely on undici config)
+  defaultModel: string;
+}
+
+// ============================================================
+// REQUESTS
+// ============================================================
+
+/**
+ * Backend tuning knobs
+ * Each provider maps these onto its own request format (or drops them)
+ */
+export interface GenerationOptions {
+  numCtx?: number;
+  numThread?: number;
+  numGpu?: number;
+  numBatch?: number;
+  repeatPenalty?: number;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatCompletionMessageParam[];
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  tools?: ChatCompletionTool[];
+  toolChoice?: 'auto' | 'none';
+  options?: GenerationOptions;
+}
+
+// ============================================================
+// DISCOVERY & HEALTH
+// ============================================================
+
+export interface ProviderModel {
+  id: string;
+  sizeBytes?: number;
+  modifiedAt?: string;
+  family?: string;
+  parameterSize?: string;      // e.g. "7.6B"
+  quantization?: string;       // e.g. "Q5_K_M"
+  contextWindow?: number;      // tokens, when the backend reports it
+}
+
+export interface ProviderHealth {
+  provider: ProviderType;
+  baseURL: string;
+  healthy: boolean;
+  latencyMs: number;
+  version?: string;
+  error?: string;
+  checkedAt: string;
+}
+
+// ============================================================
+// PROVIDER CONTRACT
+// ============================================================
+
+export interface LLMProvider {
+  readonly type: ProviderType;
+  readonly config: ProviderConfig;
+
+  /** Non-streaming chat completion (OpenAI response shape) */
+  chat(request: ChatRequest): Promise<ChatCompletion>;
+
+  /** Streaming chat completion - returns the raw SSE response for the caller to read */
+  chatStream(request: ChatRequest): Promise<Response>;
+
+  /** Models currently available on the backend */
+  listModels(): Promise<ProviderModel[]>;
+
+  /** Detailed metadata for one model (context window etc.), when the backend exposes it */
+  describeModel?(id: string): Promise<Partial<ProviderModel>>;
+
+  /** Lightweight reachability check */
+  healthCheck(): Promise<ProviderHealth>;
+}
+
+// ============================================================
+// ERROR TYPES
+// ============================================================
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: ProviderType,
+    public status?: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
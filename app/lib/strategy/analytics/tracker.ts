@@ -1,5 +1,5 @@
 // app/lib/strategy/analytics/tracker.ts
-import { StrategyDecision, StrategyOutcome, PerformanceMetrics, ModelMetrics } from '../types';
+import { StrategyDecision, StrategyOutcome, PerformanceMetrics, ModelMetrics, ModelComparison } from '../types';
 import sqlite3 from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
@@ -53,6 +53,23 @@ export class StrategyAnalytics {
         created_at TEXT NOT NULL,
         FOREIGN KEY (decision_id) REFERENCES strategy_decisions(id)
       );
+
+      CREATE TABLE IF NOT EXISTS model_comparisons (
+        id TEXT PRIMARY KEY,
+        comparison_id TEXT NOT NULL,
+        winner_model TEXT NOT NULL,
+        loser_model TEXT NOT NULL,
+        theme TEXT,
+        complexity_score INTEGER,
+        winner_time_ms INTEGER,
+        loser_time_ms INTEGER,
+        winner_tokens INTEGER,
+        loser_tokens INTEGER,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_model_comparisons_winner ON model_comparisons(winner_model);
+      CREATE INDEX IF NOT EXISTS idx_model_comparisons_loser ON model_comparisons(loser_model);
     `);
   }
 
@@ -100,6 +117,30 @@ export class StrategyAnalytics {
     ]);
   }
 
+  // Pairwise preference: one row per (winner, loser) pair of a compare run
+  async logComparison(comparison: ModelComparison): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT INTO model_comparisons
+      (id, comparison_id, winner_model, loser_model, theme, complexity_score,
+       winner_time_ms, loser_time_ms, winner_tokens, loser_tokens, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run([
+      `cmp_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+      comparison.comparisonId,
+      comparison.winnerModel,
+      comparison.loserModel,
+      comparison.theme || null,
+      comparison.complexityScore ?? null,
+      comparison.winnerResponseTime ?? null,
+      comparison.loserResponseTime ?? null,
+      comparison.winnerTokens ?? null,
+      comparison.loserTokens ?? null,
+      new Date().toISOString()
+    ]);
+  }
+
   async getStrategyPerformance(strategyName: string): Promise<PerformanceMetrics> {
     const stmt = this.db.prepare(`
       SELECT
@@ -180,16 +221,48 @@ export class StrategyAnalytics {
   }
 
   async getModelPerformance(modelName: string): Promise<ModelMetrics> {
-    // Similar implementation...
+    // Pairwise comparisons are the only per-model signal so far; without them the baseline stands
+    const stmt = this.db.prepare(`
+      SELECT
+        SUM(CASE WHEN winner_model = ? THEN 1 ELSE 0 END) as wins,
+        COUNT(*) as games,
+        AVG(CASE WHEN winner_model = ? THEN winner_time_ms ELSE loser_time_ms END) as avg_time,
+        AVG(CASE WHEN winner_model = ? THEN winner_tokens ELSE loser_tokens END) as avg_tokens
+      FROM model_comparisons
+      WHERE winner_model = ? OR loser_model = ?
+    `);
+    const row = stmt.get(modelName, modelName, modelName, modelName, modelName) as {
+      wins: number | null;
+      games: number;
+      avg_time: number | null;
+      avg_tokens: number | null;
+    } | undefined;
+    const games = row?.games || 0;
+
+    // Win rate (Laplace-smoothed) nudges the 0.9 baseline up or down, more so as games accumulate
+    const winRate = ((row?.wins || 0) + 1) / (games + 2);
+    const weight = games / (games + 5);
+    const successRate = Math.min(1, Math.max(0, 0.9 + (winRate - 0.5) * 0.4 * weight));
+
+    const themes = this.db.prepare(`
+      SELECT theme,
+        SUM(CASE WHEN winner_model = ? THEN 1 ELSE 0 END) * 1.0 / COUNT(*) as win_rate
+      FROM model_comparisons
+      WHERE (winner_model = ? OR loser_model = ?) AND theme IS NOT NULL
+      GROUP BY theme
+      HAVING COUNT(*) >= 3
+      ORDER BY win_rate DESC
+    `).all(modelName, modelName, modelName) as { theme: string; win_rate: number }[];
+
     return {
       modelName,
-      totalUsage: 0,
-      successRate: 0.9,
-      averageResponseTime: 2500,
-      averageTokens: 1200,
-      averageQuality: 0.88,
-      bestUseCases: ['code-review'],
-      worstUseCases: [],
+      totalUsage: games,
+      successRate,
+      averageResponseTime: row?.avg_time || 2500,
+      averageTokens: row?.avg_tokens || 1200,
+      averageQuality: games > 0 ? winRate : 0.88,
+      bestUseCases: games > 0 ? themes.filter(t => t.win_rate > 0.5).map(t => t.theme) : ['code-review'],
+      worstUseCases: themes.filter(t => t.win_rate < 0.5).map(t => t.theme),
       lastUpdated: new Date()
     };
   }
@@ -198,5 +271,6 @@ export class StrategyAnalytics {
     const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
     this.db.exec(`DELETE FROM strategy_outcomes WHERE created_at < '${cutoff}'`);
     this.db.exec(`DELETE FROM strategy_decisions WHERE created_at < '${cutoff}'`);
+    this.db.exec(`DELETE FROM model_comparisons WHERE created_at < '${cutoff}'`);
   }
 }
\ No newline at end of file
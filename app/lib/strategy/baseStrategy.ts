@@ -1,5 +1,7 @@
 // app/lib/strategy/baseStrategy.ts
-import { StrategyDecision, StrategyContext, StrategyOutcome } from './types';
+import { StrategyDecision, StrategyContext, StrategyOutcome, ModelInfo } from './types';
+import { getModelRegistry, pickModelBySize } from '../models';
+import { getLLMProvider } from '../providers';
 
 /**
  * Base Strategy Class
@@ -48,17 +50,18 @@ export abstract class BaseStrategy {
            resources.onBattery;
   }
 
+  /**
+   * Pick the installed model closest to a size class
+   * Falls back to the registry snapshot if the context has no models
+   */
   protected selectModelBySize(
     size: '3B' | '7B' | '16B',
-    availableModels: string[]
+    availableModels: ModelInfo[]
   ): string {
-    const modelMap: Record<string, string> = {
-      '3B': 'llama3.2:3b-instruct-q5_K_M',
-      '7B': 'qwen2.5-coder:7b-instruct-q5_K_M',
-      '16B': 'deepseek-v2:16b-instruct-q4_K_M'
-    };
-    return availableModels.find(m => m.includes(size)) || 
-           availableModels[0] || 'qwen2.5-coder:7b-instruct-q5_K_M';
+    const models = availableModels.length > 0
+      ? availableModels
+      : getModelRegistry().getCachedModels();
+    return pickModelBySize(models, size)?.name || getLLMProvider().config.defaultModel;
   }
 
   protected generateId(): string {
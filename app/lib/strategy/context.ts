@@ -2,24 +2,13 @@
 import { StrategyContext, RecentDecision } from './types';
 import { ContextDetector } from '../domain/contextDetector';
 import { getSystemResources } from './resources/monitor';
+import { getModelRegistry } from '../models';
 
 /**
  * Strategy Context Builder
  * Bridges existing domain detection with strategy system
  */
 
-interface ModelInfo {
-  name: string;
-  displayName: string;
-  size: string;
-  type: 'fast' | 'balanced' | 'expert';
-  strengths: string[];
-  weaknesses: string[];
-  ramRequired: number;
-  gpuRequired: boolean;
-  contextWindow: number;
-}
-
 interface ConversationMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
@@ -37,42 +26,6 @@ interface ConversationMetadata {
 
 type DetectionMode = 'learning' | 'code-review' | 'expert' | null;
 
-const DEFAULT_MODELS: ModelInfo[] = [
-  {
-    name: 'llama3.2:3b-instruct-q5_K_M',
-    displayName: 'Llama 3.2 (3B)',
-    size: '3B',
-    type: 'fast',
-    strengths: ['speed', 'simple tasks'],
-    weaknesses: ['complex reasoning'],
-    ramRequired: 4000,
-    gpuRequired: false,
-    contextWindow: 8192
-  },
-  {
-    name: 'qwen2.5-coder:7b-instruct-q5_K_M',
-    displayName: 'Qwen 2.5 Coder (    // 7B)', 
-    size: '7B',
-    type: 'balanced',
-    strengths: ['code review', 'explanations'],
-    weaknesses: ['very complex architecture'],
-    ramRequired: 8000,
-    gpuRequired: true,
-    contextWindow: 16384
-  },
-  {
-    name: 'deepseek-v2:16b-instruct-q4_K_M',
-    displayName: 'DeepSeek V2 (16B)',
-    size: '16B',
-    type: 'expert',
-    strengths: ['architecture', 'deep analysis'],
-    weaknesses: ['speed'],
-    ramRequired: 16000,
-    gpuRequired: true,
-    contextWindow: 32768
-  }
-];
-
 export async function buildStrategyContext(params: {
   userMessage: string;
   conversationHistory: ConversationMessage[];
@@ -89,8 +42,11 @@ export async function buildStrategyContext(params: {
   // Enhanced complexity score (0-100 scale)
   const complexityScore = calculateComplexityScore(detection.complexity, params.userMessage);
 
-  // 2. System resources
-  const systemResources = await getSystemResources();
+  // 2. System resources + installed models
+  const [systemResources, availableModels] = await Promise.all([
+    getSystemResources(),
+    getModelRegistry().getModels()
+  ]);
 
   // 3. Conversation metadata
   const metadata = calculateConversationMetadata(params.conversationHistory);
@@ -107,7 +63,7 @@ export async function buildStrategyContext(params: {
     complexity: detection.complexity,
     complexityScore: complexityScore,
     confidence: detection.confidence,
-    availableModels: DEFAULT_MODELS,
+    availableModels,
     systemResources,
     conversationMetadata: metadata,
     manualModeOverride: params.manualModeOverride,
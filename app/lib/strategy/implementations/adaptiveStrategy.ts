@@ -33,11 +33,13 @@ export class AdaptiveStrategy extends BaseStrategy {
       const themeDetection = await patternRecognizer.detectTheme(context.userMessage);
       console.log(`[Adaptive] Theme detected: ${themeDetection.primaryTheme} (confidence: ${themeDetection.confidence.toFixed(2)})`);
 
-      // 2. Get historical performance data
+      // 2. Get historical performance data for the installed 7B/16B-class models
+      const balancedModel = this.selectModelBySize('7B', context.availableModels);
+      const expertModel = this.selectModelBySize('16B', context.availableModels);
       const [strategyPerf, modelPerf7B, modelPerf16B] = await Promise.all([
         this.analytics.getStrategyPerformance('balanced'),
-        this.analytics.getModelPerformance('qwen2.5-coder:7b-instruct-q5_K_M'),
-        this.analytics.getModelPerformance('deepseek-v2:16b-instruct-q4_K_M')
+        this.analytics.getModelPerformance(balancedModel),
+        this.analytics.getModelPerformance(expertModel)
       ]);
 
       // 3. Get learned parameter recommendations
@@ -52,8 +54,8 @@ export class AdaptiveStrategy extends BaseStrategy {
         complexity,
         mode,
         strategyPerf,
-        modelPerf7B,
-        modelPerf16B,
+        { name: balancedModel, metrics: modelPerf7B },
+        { name: expertModel, metrics: modelPerf16B },
         context.systemResources,
         themeDetection,
         parameterRec
@@ -102,8 +104,8 @@ export class AdaptiveStrategy extends BaseStrategy {
     complexity: number,
     mode: string,
     strategyPerf: PerformanceMetrics,
-    model7B: ModelMetrics,
-    model16B: ModelMetrics,
+    balanced: { name: string; metrics: ModelMetrics },
+    expert: { name: string; metrics: ModelMetrics },
     resources: SystemResourceInfo,
     themeDetection?: { primaryTheme: string; confidence: number; suggestedModel: string; suggestedTemperature: number },
     parameterRec?: { temperature: number; maxTokens: number; enableTools: boolean; confidence: number }
@@ -119,8 +121,8 @@ export class AdaptiveStrategy extends BaseStrategy {
     const isConstrained = resources.availableRAM < 10000 || resources.cpuUsage > 75;
 
     // Historical success rates (weighted by recency/complexity match)
-    let score7B = model7B.successRate * (1 - Math.min(complexity / 200, 0.3));
-    let score16B = model16B.successRate * (1 + Math.min(complexity / 300, 0.4));
+    let score7B = balanced.metrics.successRate * (1 - Math.min(complexity / 200, 0.3));
+    let score16B = expert.metrics.successRate * (1 + Math.min(complexity / 300, 0.4));
 
     // If we have high-confidence theme detection, boost the suggested model's score
     if (themeDetection && themeDetection.confidence > 0.7) {
@@ -136,14 +138,14 @@ export class AdaptiveStrategy extends BaseStrategy {
 
     if (isConstrained || score7B > score16B * 0.9) {
       // Prefer 7B for cost/speed or proven performance
-      model = 'qwen2.5-coder:7b-instruct-q5_K_M';
-      alternative = 'deepseek-v2:16b-instruct-q4_K_M';
+      model = balanced.name;
+      alternative = expert.name;
       confidence = score7B;
       reasoning = `7B proven (${score7B.toFixed(2)}) vs 16B (${score16B.toFixed(2)})`;
     } else {
       // Escalate to 16B for complex tasks
-      model = 'deepseek-v2:16b-instruct-q4_K_M';
-      alternative = 'qwen2.5-coder:7b-instruct-q5_K_M';
+      model = expert.name;
+      alternative = balanced.name;
       confidence = score16B;
       reasoning = `16B better for complexity ${complexity} (${score16B.toFixed(2)})`;
     }
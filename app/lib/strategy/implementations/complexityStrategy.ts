@@ -34,19 +34,19 @@ export class ComplexityStrategy extends BaseStrategy {
     // Decision logic with adaptive thresholds
     if (complexityScore < simpleThreshold && !isConstrained) {
       // SIMPLE: Fast model
-      selectedModel = this.selectModelBySize('3B', context.availableModels.map(m => m.name));
+      selectedModel = this.selectModelBySize('3B', context.availableModels);
       temperature = 0.3;
       maxTokens = 4000;
       reasoning = `Simple task (score: ${complexityScore}). Using fast model for speed.`;
     } else if (complexityScore < complexThreshold) {
       // MODERATE: Balanced model
-      selectedModel = this.selectModelBySize('7B', context.availableModels.map(m => m.name));
+      selectedModel = this.selectModelBySize('7B', context.availableModels);
       temperature = 0.4;
       maxTokens = 8000;
       reasoning = `Moderate complexity (score: ${complexityScore}). Using balanced coder model.`;
     } else {
       // COMPLEX: Expert model
-      selectedModel = this.selectModelBySize('16B', context.availableModels.map(m => m.name));
+      selectedModel = this.selectModelBySize('16B', context.availableModels);
       temperature = 0.5;
       maxTokens = 16000;
       reasoning = `High complexity (score: ${complexityScore}). Using expert model for deep analysis.`;
@@ -54,7 +54,7 @@ export class ComplexityStrategy extends BaseStrategy {
 
     // Resource adjustments
     if (isConstrained) {
-      selectedModel = this.selectModelBySize('3B', context.availableModels.map(m => m.name));
+      selectedModel = this.selectModelBySize('3B', context.availableModels);
       maxTokens = Math.min(maxTokens, 4000);
       reasoning += ' Resource constrained - downgraded to fast model.';
     }
@@ -22,19 +22,19 @@ export class CostStrategy extends BaseStrategy {
     const satisfactionBonus = perf.userSatisfaction < 0.65 && perf.totalDecisions > 5;
 
     if (complexity < 40) {
-      model = this.selectModelBySize('3B', context.availableModels.map(m => m.name));
+      model = this.selectModelBySize('3B', context.availableModels);
       maxTokens = satisfactionBonus ? 7000 : 6000;
     } else if (complexity < 80) {
-      model = this.selectModelBySize('7B', context.availableModels.map(m => m.name));
+      model = this.selectModelBySize('7B', context.availableModels);
       maxTokens = satisfactionBonus ? 8000 : 6000;
     } else {
       // For high complexity: if satisfaction is very low, allow 16B upgrade
       if (satisfactionBonus && perf.userSatisfaction < 0.5) {
-        model = this.selectModelBySize('16B', context.availableModels.map(m => m.name));
+        model = this.selectModelBySize('16B', context.availableModels);
         maxTokens = 10000;
       } else {
         // Stay with 7B for cost efficiency
-        model = this.selectModelBySize('7B', context.availableModels.map(m => m.name));
+        model = this.selectModelBySize('7B', context.availableModels);
         maxTokens = 7000;
       }
     }
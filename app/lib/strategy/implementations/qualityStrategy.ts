@@ -10,7 +10,7 @@ export class QualityStrategy extends BaseStrategy {
   private analytics = new StrategyAnalytics();
 
   async decide(context: StrategyContext): Promise<StrategyDecision> {
-    const expertModel = this.selectModelBySize('16B', context.availableModels.map(m => m.name));
+    const expertModel = this.selectModelBySize('16B', context.availableModels);
 
     // Learn from feedback - tune temperature for optimal quality
     const perf = await this.analytics.getStrategyPerformance('quality');
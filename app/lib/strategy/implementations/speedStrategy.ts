@@ -10,7 +10,7 @@ export class SpeedStrategy extends BaseStrategy {
   private analytics = new StrategyAnalytics();
 
   async decide(context: StrategyContext): Promise<StrategyDecision> {
-    const fastModel = this.selectModelBySize('3B', context.availableModels.map(m => m.name));
+    const fastModel = this.selectModelBySize('3B', context.availableModels);
 
     // Check if user feedback suggests speed isn't enough
     const perf = await this.analytics.getStrategyPerformance('speed');
@@ -18,7 +18,7 @@ export class SpeedStrategy extends BaseStrategy {
 
     // Adapt: if users consistently unhappy, bump to 7B for critical tasks
     const adaptiveModel = needsMorePower && context.complexityScore > 60
-      ? this.selectModelBySize('7B', context.availableModels.map(m => m.name))
+      ? this.selectModelBySize('7B', context.availableModels)
       : fastModel;
 
     const decision: StrategyDecision = {
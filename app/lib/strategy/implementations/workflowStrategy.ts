@@ -6,7 +6,8 @@ import { parameterTuner } from '@/app/lib/learning/parameterTuner';
 import {
   StrategyDecision,
   StrategyContext,
-  SystemResourceInfo
+  SystemResourceInfo,
+  ModelInfo
 } from '../types';
 
 /**
@@ -57,8 +58,8 @@ export class WorkflowStrategy extends BaseStrategy {
 
       // 4. Build workflow configuration based on type
       const decision = workflowType === 'chain'
-        ? this.buildChainWorkflow(complexity, themeDetection, parameterRec, context.systemResources)
-        : this.buildEnsembleWorkflow(complexity, themeDetection, parameterRec, context.systemResources);
+        ? this.buildChainWorkflow(complexity, themeDetection, parameterRec, context.systemResources, context.availableModels)
+        : this.buildEnsembleWorkflow(complexity, themeDetection, parameterRec, context.systemResources, context.availableModels);
 
       console.log(`[Workflow] Selected ${workflowType} workflow (conf: ${decision.confidence.toFixed(2)}) - ${decision.reasoning}`);
 
@@ -67,7 +68,7 @@ export class WorkflowStrategy extends BaseStrategy {
     } catch (error) {
       console.warn('[Workflow] ML lookup failed, falling back to chain workflow:', error);
       // Fallback to basic chain workflow
-      return this.buildChainWorkflow(complexity, null, null, context.systemResources);
+      return this.buildChainWorkflow(complexity, null, null, context.systemResources, context.availableModels);
     }
   }
 
@@ -128,7 +129,8 @@ export class WorkflowStrategy extends BaseStrategy {
     complexity: number,
     themeDetection: any,
     parameterRec: any,
-    resources: SystemResourceInfo
+    resources: SystemResourceInfo,
+    availableModels: ModelInfo[]
   ): StrategyDecision {
     // Only constrain if EXTREME resource shortage - push hardware limits
     const isConstrained = resources.availableRAM < 6000 || resources.cpuUsage > 90;
@@ -138,7 +140,7 @@ export class WorkflowStrategy extends BaseStrategy {
 
     // Step 1: Draft (always included)
     steps.push({
-      model: 'llama3.2:3b-instruct-q5_K_M',
+      model: this.selectModelBySize('3B', availableModels),
       role: 'draft' as const,
       maxTokens: 2000,
       temperature: 0.7,
@@ -148,7 +150,7 @@ export class WorkflowStrategy extends BaseStrategy {
     // Step 2: Refine (included for moderate+ complexity)
     if (complexity > 40 || !isConstrained) {
       steps.push({
-        model: 'qwen2.5-coder:7b-instruct-q5_K_M',
+        model: this.selectModelBySize('7B', availableModels),
         role: 'refine' as const,
         maxTokens: 4000,
         temperature: parameterRec?.temperature || 0.4,
@@ -159,7 +161,7 @@ export class WorkflowStrategy extends BaseStrategy {
     // Step 3: Review (included for high complexity and adequate resources)
     if (complexity > 70 && !isConstrained) {
       steps.push({
-        model: 'deepseek-coder-v2:16b-instruct-q4_K_M',
+        model: this.selectModelBySize('16B', availableModels),
         role: 'review' as const,
         maxTokens: 6000,
         temperature: 0.3,
@@ -178,7 +180,7 @@ export class WorkflowStrategy extends BaseStrategy {
       selectedModel: steps[0].model, // Initial model for compatibility
       temperature: parameterRec?.temperature || 0.4,
       maxTokens: 12000,
-      streaming: false, // Workflows don't support streaming
+      streaming: true, // Step/vote progress is streamed as workflow events
       enableTools: parameterRec?.enableTools || complexity > 50,
       maxToolLoops: 3,
 
@@ -210,23 +212,31 @@ export class WorkflowStrategy extends BaseStrategy {
     complexity: number,
     themeDetection: any,
     parameterRec: any,
-    resources: SystemResourceInfo
+    resources: SystemResourceInfo,
+    availableModels: ModelInfo[]
   ): StrategyDecision {
     // Select models based on available resources
-    const models = ['qwen2.5-coder:7b-instruct-q5_K_M'];
-    const weights: Record<string, number> = {
-      'qwen2.5-coder:7b': 0.5
-    };
+    const candidates: Array<{ model: string; weight: number }> = [
+      { model: this.selectModelBySize('7B', availableModels), weight: 0.5 }
+    ];
 
     // Add 16B model if we have enough RAM
     if (resources.availableRAM >= 16000) {
-      models.push('deepseek-coder-v2:16b-instruct-q4_K_M');
-      weights['deepseek-coder-v2:16b'] = 0.8; // Higher weight for larger model
+      candidates.push({ model: this.selectModelBySize('16B', availableModels), weight: 0.8 }); // Higher weight for larger model
     }
 
     // Add 3B model for speed and diversity
-    models.push('llama3.2:3b-instruct-q5_K_M');
-    weights['llama3.2:3b'] = 0.3; // Lower weight for smaller model
+    candidates.push({ model: this.selectModelBySize('3B', availableModels), weight: 0.3 }); // Lower weight for smaller model
+
+    // Few installed models can map several size classes onto one model - vote once each
+    const models: string[] = [];
+    const weights: Record<string, number> = {};
+    for (const { model, weight } of candidates) {
+      if (!models.includes(model)) {
+        models.push(model);
+        weights[model] = weight;
+      }
+    }
 
     // Determine voting strategy based on theme
     const criticalThemes = ['security', 'architecture', 'debugging'];
@@ -245,7 +255,7 @@ export class WorkflowStrategy extends BaseStrategy {
       selectedModel: models[0], // Primary model for compatibility
       temperature: parameterRec?.temperature || 0.4,
       maxTokens: 8000,
-      streaming: false, // Workflows don't support streaming
+      streaming: true, // Step/vote progress is streamed as workflow events
       enableTools: false, // Ensemble focuses on analysis/voting
       maxToolLoops: 0,
 
@@ -11,11 +11,14 @@ import {
   StrategyDecision,
   StrategyType,
   StrategyOutcome,
-  PerformanceMetrics
+  PerformanceMetrics,
+  ModelComparison
 } from './types';
 import { AdaptiveStrategy } from './implementations/adaptiveStrategy';
 import { WorkflowStrategy } from './implementations/workflowStrategy';
 import { withResourceConstraints } from './resources/constraints';
+import { getModelRegistry } from '../models';
+import { getLLMProvider } from '../providers';
 
 /**
  * Strategy Manager
@@ -62,7 +65,8 @@ export class StrategyManager {
 
       // Execute decision with resource constraints
       const rawDecision = await strategy.decide(context);
-      const decision = await withResourceConstraints(async () => rawDecision, context);
+      const constrained = await withResourceConstraints(async () => rawDecision, context);
+      const decision = this.resolveInstalledModels(constrained);
 
       // Post-process & log decision (outcome will be logged later via logOutcome)
       await strategy.postProcess(decision);
@@ -76,7 +80,7 @@ export class StrategyManager {
         id: 'fallback_' + Date.now(),
         strategyName: 'manual-fallback',
         timestamp: new Date(),
-        selectedModel: 'qwen2.5-coder:7b-instruct-q5_K_M',
+        selectedModel: getModelRegistry().resolveModel(getLLMProvider().config.defaultModel),
         temperature: 0.4,
         maxTokens: 8000,
         streaming: true,
@@ -89,10 +93,52 @@ export class StrategyManager {
     }
   }
 
+  /**
+   * Final guard: every model a decision references must actually be pulled
+   */
+  private resolveInstalledModels(decision: StrategyDecision): StrategyDecision {
+    const registry = getModelRegistry();
+    const resolved: StrategyDecision = {
+      ...decision,
+      selectedModel: registry.resolveModel(decision.selectedModel),
+      fallbackModels: decision.fallbackModels?.map(m => registry.resolveModel(m))
+    };
+
+    if (decision.modelChain) {
+      resolved.modelChain = {
+        ...decision.modelChain,
+        steps: decision.modelChain.steps.map(step => ({
+          ...step,
+          model: registry.resolveModel(step.model)
+        }))
+      };
+    }
+
+    if (decision.ensembleConfig) {
+      const weights: Record<string, number> = {};
+      const models = decision.ensembleConfig.models.map(m => {
+        const name = registry.resolveModel(m);
+        weights[name] = decision.ensembleConfig!.weights?.[m] ?? weights[name] ?? 1.0;
+        return name;
+      });
+      resolved.ensembleConfig = {
+        ...decision.ensembleConfig,
+        models: Array.from(new Set(models)),
+        weights
+      };
+    }
+
+    return resolved;
+  }
+
   async logOutcome(decisionId: string, outcome: StrategyOutcome): Promise<void> {
     await this.analytics.logOutcome(decisionId, outcome);
   }
 
+  async logModelComparison(comparison: ModelComparison): Promise<void> {
+    await this.analytics.logComparison(comparison);
+  }
+
   getAvailableStrategies(): StrategyType[] {
     return Array.from(this.strategies.keys());
   }
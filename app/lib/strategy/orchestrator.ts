@@ -3,17 +3,20 @@ import { StrategyDecision } from './types';
 import { ModelChainWorkflow } from './workflows/chain';
 import { EnsembleWorkflow } from './workflows/ensemble';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat';
+import type { WorkflowEventHandler } from './workflows/events';
 
 /**
  * Multi-Model Workflow Orchestrator
  * Coordinates chain/ensemble execution
+ * Pass onEvent to receive per-step / per-vote progress while the workflow runs
  */
 
 export class MultiModelOrchestrator {
   static async executeWorkflow(
     decision: StrategyDecision,
     messages: ChatCompletionMessageParam[],
-    userQuestion: string
+    userQuestion: string,
+    onEvent?: WorkflowEventHandler
   ): Promise<{
     response: string;
     workflowMetadata: any;
@@ -21,7 +24,7 @@ export class MultiModelOrchestrator {
   }> {
     if (decision.modelChain?.enabled) {
       const chainConfig = decision.modelChain;
-      const chainResult = await ModelChainWorkflow.executeChain(chainConfig, messages);
+      const chainResult = await ModelChainWorkflow.executeChain(chainConfig, messages, { onEvent });
       
       return {
         response: chainResult.finalResponse,
@@ -37,9 +40,10 @@ export class MultiModelOrchestrator {
     if (decision.ensembleConfig?.enabled) {
       const ensembleConfig = decision.ensembleConfig;
       const ensembleResult = await EnsembleWorkflow.executeEnsemble(
-        ensembleConfig, 
-        messages, 
-        userQuestion
+        ensembleConfig,
+        messages,
+        userQuestion,
+        { onEvent }
       );
 
       return {
@@ -1,5 +1,6 @@
 // app/lib/strategy/resources/constraints.ts
 import type { ResourceConfig, SystemResourceInfo, StrategyDecision, StrategyContext } from '../types';
+import { getModelRegistry } from '../../models';
 
 /**
  * Resource-Aware Decision Constraints
@@ -57,7 +58,7 @@ export class ResourceConstraints {
 
     // 5. BATTERY MODE
     if (config.batteryAware && resources.onBattery && resources.batteryLevel! < 20) {
-      constrainedDecision.selectedModel = 'llama3.2:3b-instruct-q5_K_M';
+      constrainedDecision.selectedModel = this.selectLowGPUModel();
       constrainedDecision.maxTokens = 2000;
       constrainedDecision.streaming = true;
       constrainedDecision.reasoning += ` Battery saver mode`;
@@ -77,15 +78,17 @@ export class ResourceConstraints {
 
   /**
    * Select model based on available RAM
+   * Largest installed model that fits, smallest installed otherwise
    */
   static downgradeForRAM(availableRAM: number): string {
-    if (availableRAM < 6000) return 'llama3.2:3b-instruct-q5_K_M';      // 3B only
-    if (availableRAM < 12000) return 'qwen2.5-coder:7b-instruct-q4_K_M'; // 7B Q4
-    return 'qwen2.5-coder:7b-instruct-q5_K_M';                           // 7B Q5
+    const registry = getModelRegistry();
+    return registry.largestFitting(availableRAM)?.name ||
+           registry.smallest()?.name ||
+           'llama3.2:3b-instruct-q5_K_M';
   }
 
   static selectLowGPUModel(): string {
-    return 'llama3.2:3b-instruct-q5_K_M'; // CPU-friendly
+    return getModelRegistry().smallest()?.name || 'llama3.2:3b-instruct-q5_K_M'; // CPU-friendly
   }
 
   /**
@@ -134,16 +137,7 @@ export class ResourceConstraints {
   }
 
   private static getModelRAMRequirement(model: string): number {
-    const requirements: Record<string, number> = {
-      'llama3.2:3b': 4000,
-      'qwen2.5-coder:7b': 8000,
-      'deepseek-v2:16b': 16000
-    };
-
-    for (const [key, ram] of Object.entries(requirements)) {
-      if (model.includes(key)) return ram;
-    }
-    return 8000; // Default
+    return getModelRegistry().findModel(model)?.ramRequired || 8000; // Default
   }
 
   /**
@@ -200,6 +200,22 @@ export interface StrategyOutcome {
   metadata?: Record<string, any>;
 }
 
+// ============================================================
+// MODEL COMPARISON (pairwise preference from the compare view)
+// ============================================================
+
+export interface ModelComparison {
+  comparisonId: string; // Shared by every pair recorded from one compare run
+  winnerModel: string;
+  loserModel: string;
+  theme?: string;
+  complexityScore?: number;
+  winnerResponseTime?: number; // ms
+  loserResponseTime?: number; // ms
+  winnerTokens?: number;
+  loserTokens?: number;
+}
+
 // ============================================================
 // ANALYTICS METRICS
 // ============================================================
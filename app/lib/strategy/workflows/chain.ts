@@ -1,11 +1,16 @@
 // app/lib/strategy/workflows/chain.ts
 import type { ChatCompletionMessageParam } from 'openai/resources/chat';
 import { ModelChainConfig, ModelChainStep } from '../types';
+import { getLLMProvider, readChatStream, type ChatRequest } from '@/app/lib/providers';
+import { resolveUsage } from '@/app/lib/models';
+import { assemblePrompt, splitPromptMessages } from '@/app/lib/domain/promptAssembler';
+import type { CompletionUsage } from 'openai/resources/completions';
+import type { WorkflowEventHandler } from './events';
 
 /**
  * Model Chaining Workflow - COMPLETE IMPLEMENTATION
  * Fast draft → Quality refine → Expert review pipeline
- * Uses fetch directly (like streaming endpoint) to avoid SDK timeout issues
+ * Calls go through the shared LLM provider (fetch-based, no SDK timeout issues)
  */
 
 export class ModelChainWorkflow {
@@ -19,6 +24,7 @@ export class ModelChainWorkflow {
       maxTotalTokens?: number;
       timeoutMs?: number;
       mergeStrategy?: 'last' | 'concat' | 'refined';
+      onEvent?: WorkflowEventHandler; // Per-step progress (enables token streaming)
     } = {}
   ): Promise<{
     finalResponse: string;
@@ -32,24 +38,43 @@ export class ModelChainWorkflow {
     let chainResults: ChainStepResult[] = [];
     let currentResponse = '';
 
+    const emit = options.onEvent;
+
     console.log(`[Chain] Starting ${config.steps.length}-step chain`);
+    emit?.({
+      type: 'workflow_start',
+      workflow: 'chain',
+      steps: config.steps.map(s => ({ model: s.model, role: s.role }))
+    });
 
     for (let i = 0; i < config.steps.length; i++) {
       const step = config.steps[i];
       const stepStart = Date.now();
+      emit?.({ type: 'step_start', index: i, model: step.model, role: step.role });
 
       try {
         const stepResult = await this.executeChainStep(
           step,
           messages,
           currentResponse,
-          i === config.steps.length - 1 // Last step?
+          i === config.steps.length - 1, // Last step?
+          emit ? (delta: string) => emit({ type: 'step_delta', index: i, delta }) : undefined
         );
 
         chainResults.push(stepResult);
         currentResponse = stepResult.output;
         totalTokens += stepResult.tokensUsed;
 
+        emit?.({
+          type: 'step_end',
+          index: i,
+          model: step.model,
+          role: step.role,
+          tokensUsed: stepResult.tokensUsed,
+          confidence: stepResult.confidence,
+          timeMs: stepResult.timeMs
+        });
+
         console.log(`[Chain:${step.role}] ${stepResult.tokensUsed}t | conf: ${stepResult.confidence?.toFixed(2)}`);
 
         // Early termination
@@ -77,12 +102,25 @@ export class ModelChainWorkflow {
           confidence: 0,
           timeMs: Date.now() - stepStart
         });
+
+        emit?.({
+          type: 'step_end',
+          index: i,
+          model: step.model,
+          role: step.role,
+          tokensUsed: 0,
+          confidence: 0,
+          timeMs: Date.now() - stepStart,
+          error: error.message || String(error)
+        });
       }
     }
 
     const finalResponse = this.mergeChainResults(chainResults, config.mergeStrategy || 'vote');
     const executionTime = Date.now() - startTime;
 
+    emit?.({ type: 'workflow_end', workflow: 'chain', tokensUsed: totalTokens, executionTime });
+
     return {
       finalResponse,
       chainResults,
@@ -95,7 +133,8 @@ export class ModelChainWorkflow {
     step: ModelChainStep,
     baseMessages: ChatCompletionMessageParam[],
     previousOutput: string,
-    isFinalStep: boolean
+    isFinalStep: boolean,
+    onDelta?: (delta: string) => void
   ): Promise<ChainStepResult> {
     const stepStart = Date.now();
 
@@ -108,57 +147,56 @@ export class ModelChainWorkflow {
       critique: `CRITIC MODE. Be brutally honest:\n\n"""${previousOutput}"""\n\nFind every flaw, code smell, anti-pattern. No sugarcoating.`
     };
 
-    const messages: ChatCompletionMessageParam[] = [
-      {
-        role: 'system',
-        content: `${rolePrompts[step.role]} ${isFinalStep ? 'This is FINAL OUTPUT - make it perfect.' : ''} 
-                 Respond ONLY with improved code or analysis. No chit-chat.`
-      },
-      ...baseMessages.slice(-8), // Context window
-      {
-        role: 'user',
-        content: previousOutput || 'Start from scratch.'
-      }
-    ];
+    // Fit the conversation to this step's model - step models' windows differ from the main one
+    const base = splitPromptMessages(baseMessages);
+    const assembled = assemblePrompt({
+      model: step.model,
+      systemPrompt: `${rolePrompts[step.role]} ${isFinalStep ? 'This is FINAL OUTPUT - make it perfect.' : ''} 
+                 Respond ONLY with improved code or analysis. No chit-chat.` + (base.systemPrompt ? `\n\n${base.systemPrompt}` : ''),
+      history: [...base.history, { role: 'user', content: previousOutput || 'Start from scratch.' }],
+      maxTokens: step.maxTokens || (isFinalStep ? 6000 : 3000)
+    });
+    const messages = assembled.messages;
 
-    // Use fetch directly like the streaming endpoint does - no timeout issues
-    const body = {
+    const request: ChatRequest = {
       model: step.model,
       messages,
-      max_tokens: step.maxTokens || (isFinalStep ? 6000 : 3000),
+      maxTokens: assembled.maxTokens,
       temperature: step.temperature || (isFinalStep ? 0.3 : 0.6),
-      top_p: 0.9,
-      stream: false,
+      topP: 0.9,
       options: {
-        num_thread: 12,
-        num_gpu: 99,
-        num_ctx: 8192,
-        repeat_penalty: 1.2,
-        num_batch: 512,
-        num_predict: step.maxTokens || (isFinalStep ? 6000 : 3000)
+        numThread: 12,
+        numGpu: 99,
+        numCtx: assembled.numCtx,
+        repeatPenalty: 1.2,
+        numBatch: 512
       }
     };
 
     // Undici is configured globally in instrumentation.ts with no timeouts
-    const response = await fetch('http://localhost:11434/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Connection': 'keep-alive'
-      },
-      body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Ollama error: ${response.status} - ${error}`);
+    let output = '';
+    let tokensUsed = 0;
+
+    if (onDelta) {
+      // Stream tokens so the UI shows progress while long steps run
+      const response = await getLLMProvider().chatStream(request);
+      let usage: CompletionUsage | undefined;
+      for await (const chunk of readChatStream(response)) {
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          output += delta;
+          onDelta(delta);
+        }
+        if (chunk.usage) usage = chunk.usage;
+      }
+      output = output.trim();
+      tokensUsed = resolveUsage(usage, messages, output, step.model).totalTokens;
+    } else {
+      const completion = await getLLMProvider().chat(request);
+      output = completion.choices[0].message.content?.trim() || '';
+      tokensUsed = resolveUsage(completion.usage, messages, output, step.model).totalTokens;
     }
 
-    const completion = await response.json();
-
-    const output = completion.choices[0].message.content?.trim() || '';
-    const tokensUsed = completion.usage?.total_tokens || output.length / 4;
-
     // Extract confidence if present
     const confMatch = output.match(/confidence[:\s]*([0-9.]+)/i);
     const confidence = confMatch ? parseFloat(confMatch[1]) : 0.7;
@@ -1,25 +1,68 @@
 // app/lib/strategy/workflows/ensemble.ts
+import type { ChatCompletionMessageParam } from 'openai/resources/chat';
 import { EnsembleConfig } from '../types';
+import { getLLMProvider } from '@/app/lib/providers';
+import { resolveUsage } from '@/app/lib/models';
+import { assemblePrompt, splitPromptMessages } from '@/app/lib/domain/promptAssembler';
+import type { WorkflowEventHandler } from './events';
 
 /**
  * Ensemble Voting Workflow - COMPLETE IMPLEMENTATION
  * Parallel models → Weighted consensus
- * Uses fetch directly (like streaming endpoint) to avoid SDK timeout issues
+ * Calls go through the shared LLM provider (fetch-based, no SDK timeout issues)
  */
 
 export class EnsembleWorkflow {
   static async executeEnsemble(
     config: EnsembleConfig,
-    messages: any[],
+    messages: ChatCompletionMessageParam[],
     question: string,
     options: {
       timeoutMs?: number;
       requireConsensus?: boolean;
+      onEvent?: WorkflowEventHandler; // Per-model vote progress
     } = {}
   ): Promise<EnsembleResult> {
     const startTime = Date.now();
+    const emit = options.onEvent;
+
+    emit?.({
+      type: 'workflow_start',
+      workflow: 'ensemble',
+      steps: config.models.map(model => ({ model, role: 'vote' }))
+    });
+
     const results = await Promise.allSettled(
-      config.models.map(model => this.runModelVote(model, messages, question))
+      config.models.map(async (model, index) => {
+        const voteStart = Date.now();
+        emit?.({ type: 'step_start', index, model, role: 'vote' });
+
+        try {
+          const vote = await this.runModelVote(model, messages, question);
+          emit?.({
+            type: 'vote',
+            index,
+            model,
+            verdict: vote.verdict,
+            confidence: vote.confidence,
+            reasoning: vote.reasoning,
+            risk_level: vote.risk_level,
+            tokensUsed: vote.tokensUsed,
+            timeMs: Date.now() - voteStart
+          });
+          return vote;
+        } catch (error) {
+          emit?.({
+            type: 'vote',
+            index,
+            model,
+            tokensUsed: 0,
+            timeMs: Date.now() - voteStart,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          throw error;
+        }
+      })
     );
 
     const successfulResults = results
@@ -33,6 +76,13 @@ export class EnsembleWorkflow {
     const votingResult = this.calculateWeightedVote(successfulResults, config);
     const executionTime = Date.now() - startTime;
 
+    emit?.({
+      type: 'workflow_end',
+      workflow: 'ensemble',
+      tokensUsed: successfulResults.reduce((sum, v) => sum + v.tokensUsed, 0),
+      executionTime
+    });
+
     const consensusThreshold = config.minConsensusThreshold || 0.7;
     const finalVerdict = votingResult.confidence < consensusThreshold
       ? "NO CONSENSUS - needs human review"
@@ -50,55 +100,40 @@ export class EnsembleWorkflow {
 
   private static async runModelVote(
     model: string,
-    messages: any[],
+    messages: ChatCompletionMessageParam[],
     question: string
   ): Promise<ModelVote> {
-    // Use fetch directly like the streaming endpoint does - no timeout issues
-    const body = {
+    // Each voter gets the conversation fitted to its own context window
+    const base = splitPromptMessages(messages);
+    const assembled = assemblePrompt({
       model,
-      messages: [
-        {
-          role: 'system',
-          content: `EXPERT VOTE MODE. Answer "${question}" with structured JSON:
+      systemPrompt: `EXPERT VOTE MODE. Answer "${question}" with structured JSON:
 {
   "verdict": "YES" | "NO" | "MAYBE",
   "confidence": 0.1-1.0,
   "reasoning": "brief explanation",
   "risk_level": "LOW" | "MEDIUM" | "HIGH"
-}`
-        },
-        ...messages
-      ],
-      max_tokens: 300,
+}` + (base.systemPrompt ? `\n\n${base.systemPrompt}` : ''),
+      history: base.history,
+      maxTokens: 300
+    });
+    const voteMessages = assembled.messages;
+
+    // Undici is configured globally in instrumentation.ts with no timeouts
+    const response = await getLLMProvider().chat({
+      model,
+      messages: voteMessages,
+      maxTokens: assembled.maxTokens,
       temperature: 0.1,  // High consistency
-      stream: false,
       options: {
-        num_thread: 12,
-        num_gpu: 99,
-        num_ctx: 8192,
-        repeat_penalty: 1.2,
-        num_batch: 512,
-        num_predict: 300
+        numThread: 12,
+        numGpu: 99,
+        numCtx: assembled.numCtx,
+        repeatPenalty: 1.2,
+        numBatch: 512
       }
-    };
-
-    // Undici is configured globally in instrumentation.ts with no timeouts
-    const fetchResponse = await fetch('http://localhost:11434/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Connection': 'keep-alive'
-      },
-      body: JSON.stringify(body)
     });
 
-    if (!fetchResponse.ok) {
-      const error = await fetchResponse.text();
-      throw new Error(`Ollama error: ${fetchResponse.status} - ${error}`);
-    }
-
-    const response = await fetchResponse.json();
-
     let verdictData: VerdictData;
     try {
       const content = response.choices[0].message.content || '{}';
@@ -116,7 +151,7 @@ export class EnsembleWorkflow {
 
     return {
       model,
-      tokensUsed: response.usage?.total_tokens || 0,
+      tokensUsed: resolveUsage(response.usage, voteMessages, response.choices[0].message.content || '', model).totalTokens,
       ...verdictData
     };
   }
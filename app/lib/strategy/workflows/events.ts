@@ -0,0 +1,54 @@
+// app/lib/strategy/workflows/events.ts
+/**
+ * Workflow Progress Events
+ * Emitted by chain/ensemble workflows while they run so /api/llm can
+ * forward them over SSE instead of going silent until the final answer.
+ */
+
+export type WorkflowEvent =
+  | {
+      type: 'workflow_start';
+      workflow: 'chain' | 'ensemble';
+      steps: Array<{ model: string; role: string }>;
+    }
+  | {
+      type: 'step_start';
+      index: number;
+      model: string;
+      role: string;
+    }
+  | {
+      type: 'step_delta';
+      index: number;
+      delta: string;
+    }
+  | {
+      type: 'step_end';
+      index: number;
+      model: string;
+      role: string;
+      tokensUsed: number;
+      confidence?: number;
+      timeMs: number;
+      error?: string;
+    }
+  | {
+      type: 'vote';
+      index: number;
+      model: string;
+      verdict?: 'YES' | 'NO' | 'MAYBE';
+      confidence?: number;
+      reasoning?: string;
+      risk_level?: 'LOW' | 'MEDIUM' | 'HIGH';
+      tokensUsed: number;
+      timeMs: number;
+      error?: string;
+    }
+  | {
+      type: 'workflow_end';
+      workflow: 'chain' | 'ensemble';
+      tokensUsed: number;
+      executionTime: number;
+    };
+
+export type WorkflowEventHandler = (event: WorkflowEvent) => void;
@@ -0,0 +1,152 @@
+// app/lib/tools/approvals.ts
+/**
+ * Tool Approvals
+ * Pending user confirmations for needs-confirmation tools. The /api/llm stream
+ * waits on a pending approval; /api/tools/approvals resolves it. Per-conversation
+ * "always allow" choices are kept in user_preferences.
+ */
+
+import { getStorage } from '../memory/storage';
+import type { ToolCall } from './types';
+
+const ALWAYS_ALLOW_KEY = 'tool_always_allow';
+
+// Unanswered approvals are denied so a closed tab can't hang the stream forever
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ApprovalDecision {
+  approved: boolean;
+  alwaysAllow: boolean;
+  reason?: 'user' | 'timeout' | 'cancelled';
+}
+
+interface PendingApproval {
+  id: string;
+  conversationId: string;
+  toolCall: ToolCall;
+  createdAt: number;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Kept on globalThis so the chat route and the approvals route see the same map
+// even when Next.js bundles them separately (and across dev hot reloads)
+const globalForApprovals = globalThis as typeof globalThis & {
+  __toolApprovals?: Map<string, PendingApproval>;
+};
+const pending = (globalForApprovals.__toolApprovals ??= new Map<string, PendingApproval>());
+
+/**
+ * Register a pending approval and return a promise for the user's decision
+ */
+export function createApproval(
+  conversationId: string,
+  toolCall: ToolCall
+): { approvalId: string; decision: Promise<ApprovalDecision> } {
+  const approvalId = `approval_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  const decision = new Promise<ApprovalDecision>(resolve => {
+    const timer = setTimeout(() => {
+      pending.delete(approvalId);
+      console.warn(`[Tool Approvals] ${approvalId} (${toolCall.function.name}) timed out`);
+      resolve({ approved: false, alwaysAllow: false, reason: 'timeout' });
+    }, APPROVAL_TIMEOUT_MS);
+
+    pending.set(approvalId, {
+      id: approvalId,
+      conversationId,
+      toolCall,
+      createdAt: Date.now(),
+      resolve,
+      timer
+    });
+  });
+
+  return { approvalId, decision };
+}
+
+/**
+ * Resolve a pending approval with the user's decision
+ * Returns the approval, or undefined if it is unknown or already settled.
+ */
+export async function resolveApproval(
+  approvalId: string,
+  approved: boolean,
+  alwaysAllow = false
+): Promise<{ conversationId: string; toolName: string } | undefined> {
+  const approval = pending.get(approvalId);
+  if (!approval) return undefined;
+
+  pending.delete(approvalId);
+  clearTimeout(approval.timer);
+
+  const toolName = approval.toolCall.function.name;
+  if (approved && alwaysAllow) {
+    await setToolAlwaysAllowed(approval.conversationId, toolName, true);
+  }
+
+  approval.resolve({ approved, alwaysAllow: approved && alwaysAllow, reason: 'user' });
+  console.log(`[Tool Approvals] ${toolName} ${approved ? 'approved' : 'denied'}${approved && alwaysAllow ? ' (always allow)' : ''}`);
+
+  return { conversationId: approval.conversationId, toolName };
+}
+
+/**
+ * Deny every pending approval for a conversation (e.g. the client disconnected)
+ */
+export function cancelApprovals(conversationId: string): void {
+  for (const approval of pending.values()) {
+    if (approval.conversationId !== conversationId) continue;
+    pending.delete(approval.id);
+    clearTimeout(approval.timer);
+    approval.resolve({ approved: false, alwaysAllow: false, reason: 'cancelled' });
+  }
+}
+
+// ============================================================
+// ALWAYS ALLOW (per conversation)
+// ============================================================
+
+function readAlwaysAllow(): Record<string, string[]> {
+  const pref = getStorage().getPreference(ALWAYS_ALLOW_KEY);
+  return pref?.data_type === 'json' ? JSON.parse(pref.value) : {};
+}
+
+export async function getAlwaysAllowedTools(conversationId: string): Promise<string[]> {
+  try {
+    await getStorage().initialize();
+    return readAlwaysAllow()[conversationId] || [];
+  } catch (error) {
+    // Without storage every call just asks again
+    console.warn('[Tool Approvals] Could not read always-allow list:', error);
+    return [];
+  }
+}
+
+export async function isToolAlwaysAllowed(conversationId: string, toolName: string): Promise<boolean> {
+  return (await getAlwaysAllowedTools(conversationId)).includes(toolName);
+}
+
+export async function setToolAlwaysAllowed(
+  conversationId: string,
+  toolName: string,
+  allowed: boolean
+): Promise<void> {
+  const storage = getStorage();
+  await storage.initialize();
+
+  const allowList = readAlwaysAllow();
+  const tools = new Set(allowList[conversationId] || []);
+  if (allowed) {
+    tools.add(toolName);
+  } else {
+    tools.delete(toolName);
+  }
+
+  if (tools.size > 0) {
+    allowList[conversationId] = Array.from(tools);
+  } else {
+    delete allowList[conversationId];
+  }
+  storage.setPreference(ALWAYS_ALLOW_KEY, allowList);
+}
@@ -1,62 +1,171 @@
-// lib/tools/definitions.ts - JSON Schemas
-import type { ChatCompletionTool } from 'openai/resources';
-
-export const weatherTool: ChatCompletionTool[] = [{
-  type: 'function',
-  function: {
-    name: 'get_weather',
-    description: 'Get current weather for a city',
-    parameters: {
-      type: 'object',
-      properties: {
-        city: {
-          type: 'string',
-          description: 'City name (e.g., "New York")'
-        }
-      },
-      required: ['city']
-    }
-  }
-}];
-
-export const calcTool: ChatCompletionTool[] = [{
-  type: 'function',
-  function: {
-    name: 'calculator',
-    description: 'Perform mathematical calculations including basic arithmetic, advanced functions (sqrt, sin, cos, log), and unit conversions',
-    parameters: {
-      type: 'object',
-      properties: {
-        expression: {
-          type: 'string',
-          description: 'Math expression to evaluate (e.g., "15 * 7 + 3", "sqrt(16)", "sin(pi/2)", "5 cm to inch")'
-        }
-      },
-      required: ['expression']
-    }
-  }
-}];
-
-export const codeExecTool: ChatCompletionTool[] = [{
-  type: 'function',
-  function: {
-    name: 'code_exec',
-    description: 'Execute safe Python or JavaScript code snippets in an isolated sandbox environment',
-    parameters: {
-      type: 'object',
-      properties: {
-        code: {
-          type: 'string',
-          description: 'Code to execute'
-        },
-        language: {
-          type: 'string',
-          enum: ['python', 'py', 'javascript', 'js'],
-          description: 'Programming language to use (default: python)',
-          default: 'python'
-        }
-      },
-      required: ['code']
-    }
-  }
-}];
\ No newline at end of file
+// app/lib/tools/definitions.ts
+/**
+ * Built-in Tool Definitions
+ * Schema, handler, timeout and permission for each tool the model can call.
+ * Handlers are imported lazily so heavy runtimes (Pyodide) only load on first use.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_SANDBOX_LIMITS } from './sandbox/types';
+import type { ToolDefinition } from './types';
+
+/**
+ * Identity helper so each handler's args are typed from its schema
+ */
+export function defineTool<TSchema extends z.ZodType>(
+  definition: ToolDefinition<TSchema>
+): ToolDefinition<TSchema> {
+  return definition;
+}
+
+export const weatherTool = defineTool({
+  name: 'get_weather',
+  description: 'Get current weather for a city',
+  schema: z.object({
+    city: z.string().min(1).describe('City name (e.g., "New York")')
+  }),
+  handler: async args => (await import('./handlers/weather')).default(args),
+  timeoutMs: 10_000,
+  permission: 'safe'
+});
+
+export const calcTool = defineTool({
+  name: 'calculator',
+  description: 'Perform mathematical calculations including basic arithmetic, advanced functions (sqrt, sin, cos, log), and unit conversions',
+  schema: z.object({
+    expression: z
+      .string()
+      .min(1)
+      .describe('Math expression to evaluate (e.g., "15 * 7 + 3", "sqrt(16)", "sin(pi/2)", "5 cm to inch")')
+  }),
+  handler: async args => (await import('./handlers/calc')).default(args),
+  timeoutMs: 5_000,
+  permission: 'safe'
+});
+
+export const codeExecTool = defineTool({
+  name: 'code_exec',
+  description:
+    'Execute Python, JavaScript or TypeScript in an isolated sandbox with no network access. ' +
+    'Pass a single code snippet, or a set of files (modules can import each other) plus an entrypoint. ' +
+    'Set test to run a test file against the other files and get per-test results. ' +
+    'Returns stdout, stderr, the value of the last expression and any matplotlib figures.',
+  schema: z.object({
+    code: z.string().min(1).max(10_000).optional().describe('Code to execute; with files, this is the entrypoint'),
+    files: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe('Virtual files as relative path -> contents, e.g. {"calc.py": "...", "test_calc.py": "..."}'),
+    entrypoint: z
+      .string()
+      .optional()
+      .describe('File to run (default: the only file, main.py/index.ts/index.js, or the test file when test is set)'),
+    language: z
+      .enum(['python', 'py', 'javascript', 'js', 'typescript', 'ts'])
+      .optional()
+      .describe('Programming language (default: from the entrypoint extension, else python)'),
+    stdin: z.string().max(100_000).optional().describe('Text available on standard input'),
+    argv: z.array(z.string()).max(50).optional().describe('Command-line arguments after the script name'),
+    test: z
+      .boolean()
+      .default(false)
+      .describe('Run the entrypoint as tests: unittest/test_* functions in Python, test()/it()/describe() with assert in JS/TS')
+  }),
+  handler: async args => (await import('./handlers/code-exec')).default(args),
+  // The sandbox enforces its own limit; this leaves room for Pyodide's cold start
+  timeoutMs: DEFAULT_SANDBOX_LIMITS.timeoutMs + 60_000,
+  permission: 'needs-confirmation',
+  // Too slow for the speed/cost strategies, which favour quick single-model replies
+  strategies: ['balanced', 'quality', 'adaptive', 'workflow']
+});
+
+// ============================================================
+// WORKSPACE (read-only, scoped to WORKSPACE_ROOT)
+// ============================================================
+
+const workspacePath = (description: string) =>
+  z.string().default('.').describe(`${description}, relative to the workspace root`);
+
+export const readFileTool = defineTool({
+  name: 'read_file',
+  description: 'Read a text file from the workspace. Use startLine/endLine to read part of a large file.',
+  schema: z.object({
+    path: z.string().min(1).describe('File path, relative to the workspace root'),
+    startLine: z.number().int().min(1).optional().describe('First line to return (1-based)'),
+    endLine: z.number().int().min(1).optional().describe('Last line to return (inclusive)')
+  }),
+  handler: async (args, context) => (await import('./handlers/read-file')).default(args, context),
+  timeoutMs: 5_000,
+  permission: 'safe'
+});
+
+export const listDirTool = defineTool({
+  name: 'list_dir',
+  description: 'List files and directories in the workspace (respects .gitignore)',
+  schema: z.object({
+    path: workspacePath('Directory to list'),
+    recursive: z.boolean().default(false).describe('Include subdirectories'),
+    maxDepth: z.number().int().min(1).max(10).default(3).describe('Depth limit when recursive')
+  }),
+  handler: async args => (await import('./handlers/list-dir')).default(args),
+  timeoutMs: 10_000,
+  permission: 'safe'
+});
+
+export const grepTool = defineTool({
+  name: 'grep',
+  description: 'Search workspace files for lines matching a regular expression (respects .gitignore)',
+  schema: z.object({
+    pattern: z.string().min(1).max(500).describe('JavaScript regular expression to search for'),
+    path: workspacePath('Directory or file to search'),
+    glob: z.string().optional().describe('Only search files matching this glob (e.g. "*.ts", "app/**/*.tsx")'),
+    caseSensitive: z.boolean().default(false),
+    maxResults: z.number().int().min(1).max(200).default(50)
+  }),
+  handler: async (args, context) => (await import('./handlers/grep')).default(args, context),
+  timeoutMs: 15_000,
+  permission: 'safe'
+});
+
+export const globTool = defineTool({
+  name: 'glob',
+  description: 'Find workspace files whose path matches a glob pattern such as "**/*.py" (respects .gitignore)',
+  schema: z.object({
+    pattern: z.string().min(1).describe('Glob pattern, relative to the search directory'),
+    path: workspacePath('Directory to search')
+  }),
+  handler: async args => (await import('./handlers/glob')).default(args),
+  timeoutMs: 15_000,
+  permission: 'safe'
+});
+
+// ============================================================
+// PATCHES (reviewed in the UI, written only when the user accepts)
+// ============================================================
+
+export const proposePatchTool = defineTool({
+  name: 'propose_patch',
+  description:
+    'Propose code changes as a unified diff against workspace files (---/+++ headers, @@ hunks with 3 lines of context). ' +
+    'The diff is checked against the current files and shown to the user, who accepts or rejects each hunk.',
+  schema: z.object({
+    summary: z.string().optional().describe('One-line description of the change'),
+    diff: z.string().min(1).describe('Unified diff; use /dev/null as the old path to create a file')
+  }),
+  handler: async args => (await import('./handlers/propose-patch')).default(args),
+  timeoutMs: 10_000,
+  permission: 'safe',
+  // Review mode is where changes get proposed; other modes explain instead
+  modes: ['code-review']
+});
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  weatherTool,
+  calcTool,
+  codeExecTool,
+  readFileTool,
+  listDirTool,
+  grepTool,
+  globTool,
+  proposePatchTool
+];
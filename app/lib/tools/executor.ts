@@ -1,27 +1,145 @@
-// lib/tools/executor.ts - Fixed role type issue
+// lib/tools/executor.ts - Registry-backed tool execution
 import type { ChatCompletionMessageParam, ChatCompletionToolMessageParam } from 'openai/resources/chat';
+import { getToolRegistry } from './registry';
+import {
+  ExecuteToolsOptions,
+  ToolAttachment,
+  ToolCall,
+  ToolCallOutcome,
+  ToolContext,
+  ToolDefinition,
+  ToolErrorResult,
+  ToolExecutionError
+} from './types';
 
-type ChatCompletionMessageToolCall = {
-  id: string;
-  type: 'function';
-  function: {
-    name: string;
-    arguments: string;
+/**
+ * Run a handler, failing with a timeout error if it takes longer than the tool allows
+ * The handler's signal is aborted at the same time, so it can stop work it started.
+ */
+async function runWithTimeout(tool: ToolDefinition, args: unknown, context: ToolContext): Promise<unknown> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const controller = new AbortController();
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ToolExecutionError(`${tool.name} timed out after ${tool.timeoutMs}ms`, 'timeout'));
+    }, tool.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([tool.handler(args, { ...context, signal: controller.signal }), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Look up, validate and run a single tool call
+ * Throws ToolExecutionError for anything the model should be told about.
+ */
+async function runToolCall(toolCall: ToolCall, options: ExecuteToolsOptions): Promise<unknown> {
+  const registry = getToolRegistry();
+  const toolName = toolCall.function.name;
+  const tool = registry.get(toolName);
+
+  if (!tool) {
+    throw new ToolExecutionError(`Unknown tool: ${toolName}`, 'unknown_tool');
+  }
+  if (registry.getPermission(toolName) === 'disabled') {
+    throw new ToolExecutionError(`Tool ${toolName} is disabled`, 'tool_disabled');
+  }
+  // Only what was offered may run, whatever name the model comes up with
+  if (options.allowedTools && !options.allowedTools.includes(toolName)) {
+    throw new ToolExecutionError(`Tool ${toolName} is not available in this conversation`, 'tool_unavailable');
+  }
+
+  let rawArgs: unknown;
+  try {
+    rawArgs = JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    throw new ToolExecutionError(`Invalid tool arguments JSON: ${toolCall.function.arguments}`, 'invalid_json');
+  }
+
+  const parsed = tool.schema.safeParse(rawArgs);
+  if (!parsed.success) {
+    throw new ToolExecutionError(
+      `Invalid arguments for ${toolName}`,
+      'invalid_arguments',
+      parsed.error.issues.map(issue => ({
+        path: issue.path.map(String).join('.') || '(root)',
+        message: issue.message
+      }))
+    );
+  }
+
+  if (registry.getPermission(toolName) === 'needs-confirmation') {
+    if (!options.confirm) {
+      throw new ToolExecutionError(`Tool ${toolName} requires user approval`, 'approval_required');
+    }
+    if (!(await options.confirm(toolCall, parsed.data))) {
+      throw new ToolExecutionError(`User denied ${toolName}`, 'approval_denied');
+    }
+  }
+
+  console.log(`[Tool Executor] Executing ${toolName}...`, parsed.data);
+  return runWithTimeout(tool, parsed.data, { conversationId: options.conversationId });
+}
+
+/**
+ * Split binary attachments out of a handler result
+ * The model gets name/type/size only - base64 images would just burn context.
+ */
+function toOutcome(result: unknown): ToolCallOutcome {
+  if (typeof result === 'string') return { content: result };
+
+  const attachments = (result as { attachments?: ToolAttachment[] } | null)?.attachments;
+  if (!Array.isArray(attachments) || attachments.length === 0) {
+    return { content: JSON.stringify(result) };
+  }
+
+  const summary = attachments.map(({ name, mimeType, size }) => ({ name, mimeType, size }));
+  return {
+    content: JSON.stringify({ ...(result as object), attachments: summary }),
+    attachments
   };
-};
+}
 
-type FunctionArguments = Record<string, any>;
+/**
+ * Execute a single tool call and return the tool message content plus any attachments
+ * Failures come back as a structured ToolErrorResult so the model can correct itself.
+ */
+export async function executeToolCall(
+  toolCall: ToolCall,
+  options: ExecuteToolsOptions = {}
+): Promise<ToolCallOutcome> {
+  const toolName = toolCall.function.name;
 
-// Map tool names to handler file names
-const toolHandlerMap: Record<string, string> = {
-  'get_weather': 'weather',
-  'calculator': 'calc',
-  'code_exec': 'code-exec'
-};
+  try {
+    const outcome = toOutcome(await runToolCall(toolCall, options));
+    console.log(`[Tool Executor] ${toolName} result:`, outcome.content);
+    return outcome;
+  } catch (error) {
+    console.error(`[Tool Executor] Tool ${toolName} failed:`, error);
+
+    const errorResult: ToolErrorResult = {
+      tool: toolName,
+      error:
+        error instanceof ToolExecutionError
+          ? { code: error.code, message: error.message, issues: error.issues }
+          : {
+              code: 'execution_failed',
+              message: error instanceof Error ? error.message : 'Execution failed'
+            }
+    };
+    return { content: JSON.stringify(errorResult) };
+  }
+}
 
 export async function executeTools(
-  toolCalls: ChatCompletionMessageToolCall[],
-  messages: ChatCompletionMessageParam[]
+  toolCalls: ToolCall[],
+  messages: ChatCompletionMessageParam[],
+  options: ExecuteToolsOptions = {}
 ): Promise<ChatCompletionMessageParam[]> {
 
   for (const toolCall of toolCalls) {
@@ -30,61 +148,16 @@ export async function executeTools(
       continue;
     }
 
-    const toolFn = toolCall.function;
-    const toolName = toolFn.name;
-
-    try {
-      // Map tool name to handler file name
-      const handlerFileName = toolHandlerMap[toolName];
-      if (!handlerFileName) {
-        throw new Error(`Unknown tool: ${toolName}`);
-      }
-
-      console.log(`[Tool Executor] Loading handler for ${toolName} from ./handlers/${handlerFileName}`);
-
-      const module = await import(`./handlers/${handlerFileName}`);
-      const handler = module.default as (args: FunctionArguments) => Promise<any>;
-
-      if (!handler) {
-        throw new Error(`No default handler in ${handlerFileName}`);
-      }
-      
-      let args: FunctionArguments;
-      try {
-        args = JSON.parse(toolFn.arguments ?? '{}');
-        console.log(`[Tool Executor] Parsed arguments for ${toolName}:`, args);
-      } catch (parseError) {
-        throw new Error(`Invalid tool arguments JSON: ${toolFn.arguments}`);
-      }
-
-      console.log(`[Tool Executor] Executing ${toolName}...`);
-      const result = await handler(args);
-      console.log(`[Tool Executor] ${toolName} result:`, result);
-
-      // Use type assertion - SDK allows 'tool' role for tool responses
-      const toolMessage: ChatCompletionToolMessageParam = {
-        role: 'tool',
-        tool_call_id: toolCall.id,
-        content: typeof result === 'string' ? result : JSON.stringify(result)
-      };
-      messages.push(toolMessage);
-
-    } catch (error) {
-      console.error(`[Tool Executor] Tool ${toolName} failed:`, error);
-      console.error(`[Tool Executor] Stack trace:`, error instanceof Error ? error.stack : 'No stack trace');
-
-      const errorMessage: ChatCompletionToolMessageParam = {
-        role: 'tool',
-        tool_call_id: toolCall.id,
-        content: JSON.stringify({
-          error: error instanceof Error ? error.message : 'Execution failed',
-          tool: toolName
-        })
-      };
-      messages.push(errorMessage);
-    }
+    const outcome = await executeToolCall(toolCall, options);
+    const toolMessage: ChatCompletionToolMessageParam = {
+      role: 'tool',
+      tool_call_id: toolCall.id,
+      content: outcome.content
+    };
+    messages.push(toolMessage);
+    options.onResult?.(toolCall, outcome);
   }
 
   console.log(`[Tool Executor] Completed ${toolCalls.length} tool call(s)`);
   return messages;
-}
\ No newline at end of file
+}
@@ -1,147 +1,147 @@
-// lib/tools/handlers/code-exec.ts - Secure Python/JavaScript Executor
-// Uses Pyodide (WebAssembly) for Python and isolated-vm for JavaScript
-type FunctionArguments = Record<string, any>;
-
-// Lazy-loaded Pyodide instance for Python execution
-let pyodideInstance: any = null;
-
-async function loadPyodide() {
-  if (pyodideInstance) return pyodideInstance;
-
-  try {
-    // Dynamic import to avoid bundling issues
-    const { loadPyodide: load } = await import('pyodide');
-    pyodideInstance = await load({
-      indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.24.1/full/',
-    });
-    console.log('[CodeExec] Pyodide loaded successfully');
-    return pyodideInstance;
-  } catch (error) {
-    console.error('[CodeExec] Failed to load Pyodide:', error);
-    throw new Error('Python runtime not available');
-  }
+// lib/tools/handlers/code-exec.ts - Sandboxed Python/JavaScript/TypeScript Executor
+// JavaScript/TypeScript run in a locked-down Node child process, Python in a locked-down Pyodide process
+import { ToolExecutionError } from '../types';
+import {
+  runJavaScript,
+  runPython,
+  runTypeScript,
+  type SandboxLanguage,
+  type SandboxProgram
+} from '../sandbox';
+
+type LanguageArg = 'python' | 'py' | 'javascript' | 'js' | 'typescript' | 'ts';
+
+interface CodeExecArgs {
+  code?: string;
+  files?: Record<string, string>;
+  entrypoint?: string;
+  language?: LanguageArg;
+  stdin?: string;
+  argv?: string[];
+  test: boolean;
 }
 
-async function executePython(code: string): Promise<{ output: string; error: string | null }> {
-  try {
-    const pyodide = await loadPyodide();
-
-    // Capture stdout
-    await pyodide.runPythonAsync(`
-import sys
-from io import StringIO
-sys.stdout = StringIO()
-sys.stderr = StringIO()
-    `);
-
-    // Execute user code
-    let result;
-    try {
-      result = await pyodide.runPythonAsync(code);
-    } catch (execError) {
-      const stderr = await pyodide.runPythonAsync('sys.stderr.getvalue()');
-      return {
-        output: '',
-        error: stderr || (execError instanceof Error ? execError.message : String(execError)),
-      };
-    }
-
-    // Get captured output
-    const stdout = await pyodide.runPythonAsync('sys.stdout.getvalue()');
-
-    return {
-      output: stdout || (result !== undefined ? String(result) : 'Executed successfully'),
-      error: null,
-    };
-  } catch (error) {
-    return {
-      output: '',
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
+const LANGUAGE_ALIASES: Record<LanguageArg, SandboxLanguage> = {
+  python: 'python',
+  py: 'python',
+  javascript: 'javascript',
+  js: 'javascript',
+  typescript: 'typescript',
+  ts: 'typescript'
+};
+
+const EXTENSIONS: Record<SandboxLanguage, string> = {
+  python: '.py',
+  javascript: '.js',
+  typescript: '.ts'
+};
+
+const PROGRAM_LIMITS = {
+  maxFiles: 50,
+  maxTotalChars: 200_000
+};
+
+// Tried in order when files are given without an entrypoint
+const DEFAULT_ENTRYPOINTS = ['main.py', '__main__.py', 'index.ts', 'main.ts', 'index.js', 'main.js'];
+const TEST_FILE = /(^|\/)(test_[^/]*\.py|[^/]*_test\.py|[^/]*\.(test|spec)\.[cm]?[jt]sx?)$/;
+
+function languageOf(file: string): SandboxLanguage | undefined {
+  if (file.endsWith('.py')) return 'python';
+  if (/\.[cm]?tsx?$/.test(file)) return 'typescript';
+  if (/\.[cm]?jsx?$/.test(file)) return 'javascript';
+  return undefined;
 }
 
-async function executeJavaScript(code: string): Promise<{ output: string; error: string | null }> {
-  try {
-    // Use Node.js built-in vm module with strict timeout
-    const vm = await import('vm');
-    const util = await import('util');
-
-    // Create isolated context with limited globals
-    const sandbox = {
-      console: {
-        log: (...args: any[]) => capturedOutput.push(util.inspect(args, { depth: 2 })),
-      },
-      setTimeout: undefined,
-      setInterval: undefined,
-      setImmediate: undefined,
-      process: undefined,
-      require: undefined,
-      global: undefined,
-    };
-
-    const capturedOutput: string[] = [];
-
-    const context = vm.createContext(sandbox);
-
-    // Execute with 5-second timeout
-    const result = vm.runInContext(code, context, {
-      timeout: 5000,
-      displayErrors: true,
-    });
-
-    const output =
-      capturedOutput.length > 0
-        ? capturedOutput.join('\n')
-        : result !== undefined
-        ? String(result)
-        : 'Executed successfully';
-
-    return { output, error: null };
-  } catch (error) {
-    return {
-      output: '',
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
+/**
+ * Relative '/'-separated path, or null if it tries to leave the virtual project
+ */
+function normalizePath(file: string): string | null {
+  const normalized = file.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  if (!normalized || normalized.startsWith('/')) return null;
+  if (normalized.split('/').some(segment => segment === '' || segment === '.' || segment === '..')) return null;
+  return normalized;
 }
 
-export default async function code_exec(args: FunctionArguments) {
-  const { code, language = 'python' } = args as { code: string; language?: string };
+function pickEntrypoint(files: Record<string, string>, test: boolean): string | undefined {
+  const paths = Object.keys(files);
+  if (test) return paths.find(file => TEST_FILE.test(file));
+  if (paths.length === 1) return paths[0];
+  return DEFAULT_ENTRYPOINTS.find(file => file in files);
+}
 
-  // Validate code length (prevent abuse)
-  if (code.length > 10000) {
-    return {
-      code,
-      output: null,
-      error: 'Code too long (max 10,000 characters)',
-    };
+/**
+ * Turn the tool arguments into a sandbox program, collecting every problem at once
+ */
+function buildProgram(args: CodeExecArgs): { program: SandboxProgram; language: SandboxLanguage } {
+  const issues: { path: string; message: string }[] = [];
+  const files: Record<string, string> = {};
+
+  for (const [file, content] of Object.entries(args.files || {})) {
+    const normalized = normalizePath(file);
+    if (normalized) {
+      files[normalized] = content;
+    } else {
+      issues.push({ path: `files.${file}`, message: 'File paths must be relative and must not contain ".."' });
+    }
   }
 
-  try {
-    let result: { output: string; error: string | null };
+  const explicitLanguage = args.language && LANGUAGE_ALIASES[args.language];
+  let entrypoint = args.entrypoint !== undefined ? normalizePath(args.entrypoint) : undefined;
+  if (entrypoint === null) {
+    issues.push({ path: 'entrypoint', message: 'entrypoint must be a relative path' });
+  }
 
-    if (language === 'javascript' || language === 'js') {
-      result = await executeJavaScript(code);
-    } else if (language === 'python' || language === 'py') {
-      result = await executePython(code);
-    } else {
-      // Default to Python
-      result = await executePython(code);
+  if (args.code !== undefined) {
+    // Inline code is the entrypoint; files are the modules it can import
+    entrypoint ??= `main${EXTENSIONS[explicitLanguage || 'python']}`;
+    if (entrypoint && entrypoint in files) {
+      issues.push({ path: 'code', message: `Both code and files["${entrypoint}"] were given - pass one` });
+    } else if (entrypoint) {
+      files[entrypoint] = args.code;
+    }
+  } else if (!args.files || Object.keys(args.files).length === 0) {
+    issues.push({ path: 'code', message: 'Pass code, or files with an entrypoint' });
+  } else if (entrypoint === undefined) {
+    entrypoint = pickEntrypoint(files, args.test);
+    if (!entrypoint && Object.keys(files).length > 0) {
+      issues.push({
+        path: 'entrypoint',
+        message: args.test
+          ? 'No test file found (test_*.py, *_test.py, *.test.ts, *.spec.js, ...) - set entrypoint'
+          : 'Several files and no main.py/index.js/index.ts - set entrypoint'
+      });
     }
+  } else if (entrypoint && !(entrypoint in files)) {
+    issues.push({ path: 'entrypoint', message: `${entrypoint} is not one of the files` });
+  }
 
-    return {
-      code,
-      language,
-      output: result.output,
-      error: result.error,
-    };
-  } catch (error) {
-    return {
-      code,
-      language,
-      output: null,
-      error: error instanceof Error ? error.message : String(error),
-    };
+  const totalChars = Object.values(files).reduce((sum, content) => sum + content.length, 0);
+  if (Object.keys(files).length > PROGRAM_LIMITS.maxFiles) {
+    issues.push({ path: 'files', message: `Too many files (max ${PROGRAM_LIMITS.maxFiles})` });
+  }
+  if (totalChars > PROGRAM_LIMITS.maxTotalChars) {
+    issues.push({ path: 'files', message: `Program too large (${totalChars} chars, max ${PROGRAM_LIMITS.maxTotalChars})` });
   }
-}
\ No newline at end of file
+
+  if (issues.length > 0 || !entrypoint) {
+    throw new ToolExecutionError('Invalid arguments for code_exec', 'invalid_arguments', issues);
+  }
+
+  return {
+    program: { files, entrypoint, stdin: args.stdin, argv: args.argv, test: args.test },
+    language: explicitLanguage || languageOf(entrypoint) || 'python'
+  };
+}
+
+export default async function code_exec(args: CodeExecArgs) {
+  const { program, language } = buildProgram(args);
+
+  const result = language === 'python'
+    ? await runPython(program)
+    : language === 'typescript'
+      ? await runTypeScript(program)
+      : await runJavaScript(program);
+
+  console.log(`[CodeExec] ${language} ${program.entrypoint} finished in ${result.durationMs}ms${result.error ? ' with error' : ''}`);
+  return { entrypoint: program.entrypoint, files: Object.keys(program.files), ...result };
+}
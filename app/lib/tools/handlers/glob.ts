@@ -0,0 +1,30 @@
+// lib/tools/handlers/glob.ts - Find workspace files by glob pattern
+import { WORKSPACE_LIMITS, globToRegExp, resolveWorkspacePath, walkWorkspace } from '../workspace';
+
+interface GlobArgs {
+  pattern: string;
+  path: string;
+}
+
+export default async function glob(args: GlobArgs) {
+  const target = await resolveWorkspacePath(args.path);
+  const matcher = globToRegExp(args.pattern);
+  // Patterns are relative to the search directory, results relative to the workspace root
+  const prefix = target.relative === '.' ? '' : `${target.relative}/`;
+
+  const files: string[] = [];
+  let truncated = false;
+
+  for await (const entry of walkWorkspace(target)) {
+    if (entry.type !== 'file') continue;
+    if (!matcher.test(entry.relative.slice(prefix.length))) continue;
+
+    if (files.length >= WORKSPACE_LIMITS.maxGlobResults) {
+      truncated = true;
+      break;
+    }
+    files.push(entry.relative);
+  }
+
+  return { pattern: args.pattern, files, truncated };
+}
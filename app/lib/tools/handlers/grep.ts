@@ -0,0 +1,132 @@
+// lib/tools/handlers/grep.ts - Regex search across workspace files
+// The model's pattern runs in a worker thread: a catastrophically backtracking regex
+// can't be interrupted on the server thread, but the worker is terminated on timeout.
+import { promises as fs } from 'fs';
+import { Worker } from 'worker_threads';
+import { ToolContext, ToolExecutionError } from '../types';
+import {
+  WORKSPACE_LIMITS,
+  globToRegExp,
+  isBinary,
+  resolveWorkspacePath,
+  walkWorkspace
+} from '../workspace';
+
+interface GrepArgs {
+  pattern: string;
+  path: string;
+  glob?: string;
+  caseSensitive: boolean;
+  maxResults: number;
+}
+
+// Gets one file's text per message, answers with the indexes of up to `limit` matching lines
+const MATCHER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const regex = new RegExp(workerData.pattern, workerData.flags);
+parentPort.on('message', ({ text, limit }) => {
+  const lines = text.split('\\n');
+  const found = [];
+  for (let i = 0; i < lines.length && found.length < limit; i++) {
+    if (regex.test(lines[i].slice(0, workerData.maxLineChars))) found.push(i);
+  }
+  parentPort.postMessage(found);
+});
+`;
+
+/**
+ * Line matcher in a worker thread; stop() (or an aborted signal) terminates it mid-match
+ */
+function startMatcher(pattern: string, flags: string, signal?: AbortSignal) {
+  const worker = new Worker(MATCHER_SOURCE, {
+    eval: true,
+    workerData: { pattern, flags, maxLineChars: WORKSPACE_LIMITS.maxGrepLineChars },
+    resourceLimits: { maxOldGenerationSizeMb: 128 }
+  });
+
+  let failure: Error | null = null;
+  let rejectPending: ((error: Error) => void) | null = null;
+  const fail = (error: Error) => {
+    failure = failure || error;
+    rejectPending?.(failure);
+    worker.terminate();
+  };
+
+  const onAbort = () => fail(new ToolExecutionError('grep timed out - the pattern is too slow to match', 'timeout'));
+  signal?.addEventListener('abort', onAbort);
+  worker.on('error', fail);
+
+  return {
+    match(text: string, limit: number): Promise<number[]> {
+      if (failure) return Promise.reject(failure);
+      return new Promise<number[]>((resolve, reject) => {
+        rejectPending = reject;
+        worker.once('message', found => {
+          rejectPending = null;
+          resolve(found);
+        });
+        worker.postMessage({ text, limit });
+      });
+    },
+    stop() {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    }
+  };
+}
+
+export default async function grep(args: GrepArgs, context: ToolContext = {}) {
+  const flags = args.caseSensitive ? '' : 'i';
+  try {
+    new RegExp(args.pattern, flags);
+  } catch (error) {
+    throw new ToolExecutionError(
+      error instanceof Error ? error.message : `Invalid regular expression: ${args.pattern}`,
+      'invalid_arguments'
+    );
+  }
+
+  const target = await resolveWorkspacePath(args.path);
+  const fileFilter = args.glob ? globToRegExp(args.glob) : null;
+  const maxResults = Math.min(args.maxResults, WORKSPACE_LIMITS.maxGrepMatches);
+
+  const matches: Array<{ path: string; line: number; text: string }> = [];
+  let filesSearched = 0;
+  let truncated = false;
+
+  const matcher = startMatcher(args.pattern, flags, context.signal);
+  try {
+    for await (const entry of walkWorkspace(target)) {
+      if (entry.type !== 'file') continue;
+      if ((entry.size ?? 0) > WORKSPACE_LIMITS.maxFileBytes) continue;
+      if (fileFilter && !fileFilter.test(entry.relative)) continue;
+
+      const buffer = await fs.readFile(entry.absolute);
+      if (isBinary(buffer)) continue;
+      filesSearched++;
+
+      // One more than fits, to tell whether the results were cut off
+      const text = buffer.toString('utf-8');
+      const found = await matcher.match(text, maxResults - matches.length + 1);
+      const lines = text.split('\n');
+
+      for (const index of found) {
+        if (matches.length >= maxResults) {
+          truncated = true;
+          break;
+        }
+        matches.push({
+          path: entry.relative,
+          line: index + 1,
+          text: lines[index].slice(0, WORKSPACE_LIMITS.maxLineLength)
+        });
+      }
+
+      if (truncated) break;
+    }
+  } finally {
+    matcher.stop();
+  }
+
+  return { pattern: args.pattern, matches, filesSearched, truncated };
+}
@@ -0,0 +1,31 @@
+// lib/tools/handlers/list-dir.ts - List a workspace directory
+import { promises as fs } from 'fs';
+import { ToolExecutionError } from '../types';
+import { WORKSPACE_LIMITS, resolveWorkspacePath, walkWorkspace } from '../workspace';
+
+interface ListDirArgs {
+  path: string;
+  recursive: boolean;
+  maxDepth: number;
+}
+
+export default async function list_dir(args: ListDirArgs) {
+  const target = await resolveWorkspacePath(args.path);
+
+  if (!(await fs.stat(target.absolute)).isDirectory()) {
+    throw new ToolExecutionError(`${target.relative} is not a directory - use read_file`, 'invalid_arguments');
+  }
+
+  const entries: Array<{ path: string; type: 'file' | 'dir'; size?: number }> = [];
+  let truncated = false;
+
+  for await (const entry of walkWorkspace(target, { maxDepth: args.recursive ? args.maxDepth : 1 })) {
+    if (entries.length >= WORKSPACE_LIMITS.maxListEntries) {
+      truncated = true;
+      break;
+    }
+    entries.push({ path: entry.relative, type: entry.type, size: entry.size });
+  }
+
+  return { path: target.relative, entries, truncated };
+}
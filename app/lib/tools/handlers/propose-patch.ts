@@ -0,0 +1,43 @@
+// lib/tools/handlers/propose-patch.ts - Validate a unified diff for user review
+import { ToolExecutionError } from '../types';
+import { parseUnifiedDiff, storeProposal, validatePatches } from '../patches';
+
+interface ProposePatchArgs {
+  summary?: string;
+  diff: string;
+}
+
+export default async function propose_patch(args: ProposePatchArgs) {
+  const files = parseUnifiedDiff(args.diff);
+
+  if (files.length === 0) {
+    throw new ToolExecutionError(
+      'No file changes found - expected ---/+++ headers followed by @@ hunks',
+      'invalid_arguments'
+    );
+  }
+
+  const issues = await validatePatches(files);
+  if (issues.length > 0) {
+    throw new ToolExecutionError(
+      'Patch does not apply cleanly to the workspace - re-read the file and regenerate the diff',
+      'invalid_arguments',
+      issues.map(issue => ({ path: issue.path, message: issue.message }))
+    );
+  }
+
+  // Nothing is written here - the user accepts or rejects each hunk in the UI, and
+  // only hunks of this stored proposal can be written
+  return {
+    status: 'proposed',
+    proposal_id: storeProposal(files),
+    message: 'Patch applies cleanly and has been shown to the user for review. Nothing was written yet.',
+    summary: args.summary,
+    files: files.map(file => ({
+      path: file.path,
+      kind: file.kind,
+      diff: file.diff,
+      hunks: file.hunks
+    }))
+  };
+}
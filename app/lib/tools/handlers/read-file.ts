@@ -0,0 +1,60 @@
+// lib/tools/handlers/read-file.ts - Read a text file inside the workspace
+import { promises as fs } from 'fs';
+import { ToolExecutionError, type ToolContext } from '../types';
+import {
+  WORKSPACE_LIMITS,
+  isBinary,
+  isIgnoredPath,
+  recordFileRead,
+  resolveWorkspacePath
+} from '../workspace';
+
+interface ReadFileArgs {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export default async function read_file(args: ReadFileArgs, context: ToolContext) {
+  const target = await resolveWorkspacePath(args.path);
+  const stat = await fs.stat(target.absolute);
+
+  if (stat.isDirectory()) {
+    throw new ToolExecutionError(`${target.relative} is a directory - use list_dir`, 'invalid_arguments');
+  }
+  if (await isIgnoredPath(target, false)) {
+    throw new ToolExecutionError(`${target.relative} is excluded by .gitignore`, 'access_denied');
+  }
+  if (stat.size > WORKSPACE_LIMITS.maxFileBytes) {
+    throw new ToolExecutionError(
+      `${target.relative} is too large (${stat.size} bytes, max ${WORKSPACE_LIMITS.maxFileBytes})`,
+      'access_denied'
+    );
+  }
+
+  const buffer = await fs.readFile(target.absolute);
+  if (isBinary(buffer)) {
+    throw new ToolExecutionError(`${target.relative} looks like a binary file`, 'invalid_arguments');
+  }
+
+  const lines = buffer.toString('utf-8').split('\n');
+  const startLine = Math.max(1, args.startLine ?? 1);
+  const endLine = Math.min(lines.length, args.endLine ?? lines.length);
+
+  let content = lines.slice(startLine - 1, endLine).join('\n');
+  const truncated = content.length > WORKSPACE_LIMITS.maxReadBytes;
+  if (truncated) {
+    content = content.slice(0, WORKSPACE_LIMITS.maxReadBytes);
+  }
+
+  recordFileRead(context.conversationId, target.relative);
+
+  return {
+    path: target.relative,
+    startLine,
+    endLine,
+    totalLines: lines.length,
+    truncated,
+    content
+  };
+}
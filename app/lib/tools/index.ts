@@ -1,11 +1,36 @@
-// lib/tools/index.ts - Fixed: Remove unused import, use correct path
+// lib/tools/index.ts - Tool registry entry point
 import type { ChatCompletionTool } from 'openai/resources';
+import { getToolRegistry } from './registry';
+import type { ToolFilter } from './types';
 
-export const getTools = (): ChatCompletionTool[] => [
-  ...(require('./definitions').weatherTool as ChatCompletionTool[]),
-  ...(require('./definitions').calcTool as ChatCompletionTool[]),
-  ...(require('./definitions').codeExecTool as ChatCompletionTool[]),
-];
+/**
+ * Tool definitions to offer the model, filtered by the active mode and strategy
+ */
+export const getTools = (filter: ToolFilter = {}): ChatCompletionTool[] =>
+  getToolRegistry().toChatTools(filter);
 
-export type ToolName = 'get_weather' | 'calculator' | 'code_exec';
-export { executeTools } from './executor';
\ No newline at end of file
+export type ToolName =
+  | 'get_weather'
+  | 'calculator'
+  | 'code_exec'
+  | 'read_file'
+  | 'list_dir'
+  | 'grep'
+  | 'glob'
+  | 'propose_patch';
+export { executeTools, executeToolCall } from './executor';
+export { getToolRegistry, ToolRegistry } from './registry';
+export { defineTool } from './definitions';
+export {
+  createApproval,
+  resolveApproval,
+  cancelApprovals,
+  getAlwaysAllowedTools,
+  isToolAlwaysAllowed,
+  setToolAlwaysAllowed
+} from './approvals';
+export type { ApprovalDecision } from './approvals';
+export { getLastReadFile, getWorkspaceRoot } from './workspace';
+export { getProposedPatch, parseUnifiedDiff, storeProposal, validatePatches, writePatch } from './patches';
+export type { DiffHunk, DiffLine, FilePatch, PatchIssue } from './patches';
+export * from './types';
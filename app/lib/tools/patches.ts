@@ -0,0 +1,332 @@
+// app/lib/tools/patches.ts
+/**
+ * Unified Diff Patches
+ * Parses model-written unified diffs, checks that every hunk applies to the
+ * current workspace file, and writes accepted hunks to disk.
+ * Used by the propose_patch tool (validation only) and /api/tools/patches (writes).
+ * Validated patches are kept server-side under a proposal id, and only hunks of a
+ * stored proposal can be written - the client never supplies the diff itself.
+ *
+ * Hunk line counts written by models are often wrong, so hunks are read until the
+ * next header and located by their context/removed lines rather than trusting @@ numbers.
+ */
+
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { ToolExecutionError } from './types';
+import { isBinary, resolveWritablePath } from './workspace';
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FilePatch {
+  path: string;
+  kind: 'modify' | 'create' | 'delete';
+  hunks: DiffHunk[];
+  diff: string; // This file's section of the diff
+}
+
+export interface PatchIssue {
+  path: string;
+  hunk?: number;
+  message: string;
+}
+
+interface StoredProposal {
+  files: FilePatch[];
+  createdAt: number;
+}
+
+// Proposals the user hasn't acted on by then can no longer be applied
+const PROPOSAL_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_PROPOSALS = 200;
+
+// Kept on globalThis so the chat route and the patches route see the same map
+// even when Next.js bundles them separately (and across dev hot reloads)
+const globalForProposals = globalThis as typeof globalThis & {
+  __patchProposals?: Map<string, StoredProposal>;
+};
+const proposals = (globalForProposals.__patchProposals ??= new Map<string, StoredProposal>());
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function stripPathPrefix(raw: string): string | null {
+  const cleaned = raw.split('\t')[0].trim();
+  if (cleaned === '/dev/null') return null;
+  return cleaned.replace(/^[ab]\//, '');
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Parse a (possibly multi-file) unified diff
+ */
+export function parseUnifiedDiff(diffText: string): FilePatch[] {
+  const lines = diffText.replace(/\r\n/g, '\n').split('\n');
+  const files: Array<{ patch: FilePatch; start: number }> = [];
+  let hunk: DiffHunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // File header: "--- old" immediately followed by "+++ new"
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = stripPathPrefix(line.slice(4));
+      const newPath = stripPathPrefix(lines[i + 1].slice(4));
+      const filePath = newPath ?? oldPath;
+      if (!filePath) {
+        throw new ToolExecutionError('Diff has a file with no path on either side', 'invalid_arguments');
+      }
+
+      files.push({
+        patch: {
+          path: filePath,
+          kind: oldPath === null ? 'create' : newPath === null ? 'delete' : 'modify',
+          hunks: [],
+          diff: ''
+        },
+        start: i
+      });
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      const current = files[files.length - 1];
+      if (!current) {
+        throw new ToolExecutionError('Hunk found before a ---/+++ file header', 'invalid_arguments');
+      }
+      hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: 0,
+        newStart: Number(header[3]),
+        newLines: 0,
+        lines: []
+      };
+      current.patch.hunks.push(hunk);
+      continue;
+    }
+
+    // Skip git metadata and "\ No newline at end of file" markers
+    if (!hunk || line.startsWith('diff --git ') || line.startsWith('index ') || line.startsWith('\\')) {
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', text: line.slice(1) });
+      hunk.newLines++;
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'remove', text: line.slice(1) });
+      hunk.oldLines++;
+    } else if (line.startsWith(' ') || line === '') {
+      // Models often drop the leading space on blank context lines
+      hunk.lines.push({ type: 'context', text: line.slice(1) });
+      hunk.oldLines++;
+      hunk.newLines++;
+    }
+  }
+
+  return files
+    .map(({ patch, start }, index) => {
+      const end = files[index + 1]?.start ?? lines.length;
+      patch.diff = lines.slice(start, end).join('\n').trimEnd() + '\n';
+
+      // Trailing blank lines are an artefact of the final newline, not context
+      for (const h of patch.hunks) {
+        let last = h.lines[h.lines.length - 1];
+        while (last && last.type === 'context' && last.text === '') {
+          h.lines.pop();
+          h.oldLines--;
+          h.newLines--;
+          last = h.lines[h.lines.length - 1];
+        }
+      }
+      return patch;
+    })
+    .filter(patch => patch.hunks.length > 0);
+}
+
+// ============================================================
+// PROPOSALS
+// ============================================================
+
+/**
+ * Keep validated patches for review and return their proposal id
+ */
+export function storeProposal(files: FilePatch[]): string {
+  const now = Date.now();
+  for (const [id, proposal] of proposals) {
+    if (now - proposal.createdAt > PROPOSAL_TTL_MS || proposals.size >= MAX_PROPOSALS) {
+      proposals.delete(id); // Map iterates oldest first
+    }
+  }
+
+  const proposalId = `proposal_${now}_${randomBytes(8).toString('hex')}`;
+  proposals.set(proposalId, { files, createdAt: now });
+  return proposalId;
+}
+
+/**
+ * One file's patch from a stored proposal, or undefined if the proposal is unknown or expired
+ */
+export function getProposedPatch(proposalId: string, filePath: string): FilePatch | undefined {
+  const proposal = proposals.get(proposalId);
+  if (!proposal) return undefined;
+
+  if (Date.now() - proposal.createdAt > PROPOSAL_TTL_MS) {
+    proposals.delete(proposalId);
+    return undefined;
+  }
+  return proposal.files.find(file => file.path === filePath);
+}
+
+// ============================================================
+// APPLYING
+// ============================================================
+
+function blockMatches(fileLines: string[], at: number, block: string[], loose: boolean): boolean {
+  if (at < 0 || at + block.length > fileLines.length) return false;
+  return block.every((text, i) =>
+    loose ? fileLines[at + i].trimEnd() === text.trimEnd() : fileLines[at + i] === text
+  );
+}
+
+/**
+ * Find where a hunk's old lines sit, searching outward from the expected line
+ */
+function locateHunk(fileLines: string[], block: string[], expected: number, minIndex: number): number {
+  if (block.length === 0) return Math.max(minIndex, Math.min(expected, fileLines.length));
+
+  for (const loose of [false, true]) {
+    for (let distance = 0; distance <= fileLines.length; distance++) {
+      for (const at of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+        if (at >= minIndex && blockMatches(fileLines, at, block, loose)) return at;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Apply selected hunks to file content
+ * Throws a ToolExecutionError listing every hunk that doesn't match.
+ */
+export function applyHunks(content: string, patch: FilePatch, hunkIndexes?: number[]): string {
+  const hadTrailingNewline = content.endsWith('\n');
+  const fileLines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const selected = hunkIndexes ?? patch.hunks.map((_, i) => i);
+  const issues: PatchIssue[] = [];
+
+  let offset = 0; // Net lines added by hunks applied so far
+  let minIndex = 0;
+
+  patch.hunks.forEach((hunk, index) => {
+    if (!selected.includes(index)) return;
+
+    const oldBlock = hunk.lines.filter(l => l.type !== 'add').map(l => l.text);
+    const newBlock = hunk.lines.filter(l => l.type !== 'remove').map(l => l.text);
+    const expected = Math.max(0, hunk.oldStart - 1 + offset);
+    const at = locateHunk(fileLines, oldBlock, expected, minIndex);
+
+    if (at === -1) {
+      issues.push({ path: patch.path, hunk: index, message: `Hunk ${index + 1} (${hunk.header}) does not match the file` });
+      return;
+    }
+
+    fileLines.splice(at, oldBlock.length, ...newBlock);
+    offset += newBlock.length - oldBlock.length;
+    minIndex = at + newBlock.length;
+  });
+
+  if (issues.length > 0) {
+    throw new ToolExecutionError(
+      `Patch for ${patch.path} does not apply cleanly`,
+      'invalid_arguments',
+      issues.map(issue => ({ path: `${issue.path}#${(issue.hunk ?? 0) + 1}`, message: issue.message }))
+    );
+  }
+
+  if (fileLines.length === 0) return '';
+  return fileLines.join('\n') + (hadTrailingNewline || patch.kind === 'create' ? '\n' : '');
+}
+
+async function readCurrent(patch: FilePatch): Promise<{ absolute: string; content: string }> {
+  const target = await resolveWritablePath(patch.path);
+
+  if (patch.kind === 'create') {
+    if (target.exists) {
+      throw new ToolExecutionError(`${patch.path} already exists`, 'invalid_arguments');
+    }
+    return { absolute: target.absolute, content: '' };
+  }
+
+  if (!target.exists) {
+    throw new ToolExecutionError(`No such file: ${patch.path}`, 'not_found');
+  }
+
+  const buffer = await fs.readFile(target.absolute);
+  if (isBinary(buffer)) {
+    throw new ToolExecutionError(`${patch.path} looks like a binary file`, 'invalid_arguments');
+  }
+  return { absolute: target.absolute, content: buffer.toString('utf-8') };
+}
+
+/**
+ * Check every file in the diff against the workspace without writing anything
+ */
+export async function validatePatches(patches: FilePatch[]): Promise<PatchIssue[]> {
+  const issues: PatchIssue[] = [];
+
+  for (const patch of patches) {
+    try {
+      const { content } = await readCurrent(patch);
+      applyHunks(content, patch);
+    } catch (error) {
+      if (error instanceof ToolExecutionError && error.issues) {
+        issues.push(...error.issues.map(issue => ({ path: patch.path, message: issue.message })));
+      } else {
+        issues.push({ path: patch.path, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Apply accepted hunks of one file to disk
+ * A delete patch removes the file once every line is gone.
+ */
+export async function writePatch(patch: FilePatch, hunkIndexes?: number[]): Promise<{ path: string; deleted: boolean }> {
+  const { absolute, content } = await readCurrent(patch);
+  const updated = applyHunks(content, patch, hunkIndexes);
+
+  if (patch.kind === 'delete' && updated === '') {
+    await fs.unlink(absolute);
+    console.log(`[Patches] Deleted ${patch.path}`);
+    return { path: patch.path, deleted: true };
+  }
+
+  await fs.mkdir(path.dirname(absolute), { recursive: true });
+  await fs.writeFile(absolute, updated, 'utf-8');
+  console.log(`[Patches] Wrote ${patch.path} (${hunkIndexes ? hunkIndexes.length : patch.hunks.length} hunk(s))`);
+  return { path: patch.path, deleted: false };
+}
@@ -0,0 +1,118 @@
+// app/lib/tools/registry.ts
+/**
+ * Tool Registry
+ * Holds every tool definition and decides which ones the model is offered
+ * for the active mode/strategy. Permissions can be overridden per deployment with
+ * TOOL_PERMISSIONS, e.g. "code_exec=disabled,get_weather=needs-confirmation".
+ */
+
+import { z } from 'zod';
+import type { ChatCompletionTool } from 'openai/resources';
+import { BUILTIN_TOOLS } from './definitions';
+import { ToolDefinition, ToolFilter, ToolPermission } from './types';
+
+const PERMISSIONS: ToolPermission[] = ['safe', 'needs-confirmation', 'disabled'];
+
+/**
+ * Parse TOOL_PERMISSIONS into a name -> permission map
+ */
+function parsePermissionOverrides(raw: string | undefined): Record<string, ToolPermission> {
+  const overrides: Record<string, ToolPermission> = {};
+  if (!raw) return overrides;
+
+  for (const entry of raw.split(',')) {
+    const [name, permission] = entry.split('=').map(part => part.trim());
+    if (!name || !permission) continue;
+
+    if (PERMISSIONS.includes(permission as ToolPermission)) {
+      overrides[name] = permission as ToolPermission;
+    } else {
+      console.warn(`[Tool Registry] Ignoring invalid permission "${permission}" for ${name}`);
+    }
+  }
+
+  return overrides;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private permissionOverrides: Record<string, ToolPermission>;
+
+  constructor(permissionOverrides: Record<string, ToolPermission> = {}) {
+    this.permissionOverrides = permissionOverrides;
+  }
+
+  register(definition: ToolDefinition): void {
+    if (this.tools.has(definition.name)) {
+      console.warn(`[Tool Registry] Replacing existing tool: ${definition.name}`);
+    }
+    this.tools.set(definition.name, definition);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Effective permission (deployment override wins over the tool's default)
+   */
+  getPermission(name: string): ToolPermission {
+    return this.permissionOverrides[name] ?? this.tools.get(name)?.permission ?? 'disabled';
+  }
+
+  /**
+   * Tools available for the given mode/strategy
+   */
+  getAvailable(filter: ToolFilter = {}): ToolDefinition[] {
+    return this.list().filter(tool => {
+      if (!filter.includeDisabled && this.getPermission(tool.name) === 'disabled') return false;
+      if (filter.mode && tool.modes && !tool.modes.includes(filter.mode)) return false;
+      if (filter.strategy && tool.strategies && !tool.strategies.includes(filter.strategy)) return false;
+      return true;
+    });
+  }
+
+  /**
+   * OpenAI-format tool definitions for the chat request
+   */
+  toChatTools(filter: ToolFilter = {}): ChatCompletionTool[] {
+    return this.getAvailable(filter).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters ?? toParameters(tool.schema)
+      }
+    }));
+  }
+}
+
+/**
+ * Derive the JSON schema the model sees from the zod schema
+ * Uses the input shape so defaulted fields stay optional for the model.
+ */
+function toParameters(schema: z.ZodType): Record<string, unknown> {
+  const parameters: Record<string, unknown> = { ...z.toJSONSchema(schema, { io: 'input' }) };
+  delete parameters.$schema;
+  return parameters;
+}
+
+// Singleton instance
+let registryInstance: ToolRegistry | null = null;
+
+/**
+ * Get the tool registry with the built-in tools registered (singleton)
+ */
+export function getToolRegistry(): ToolRegistry {
+  if (!registryInstance) {
+    registryInstance = new ToolRegistry(parsePermissionOverrides(process.env.TOOL_PERMISSIONS));
+    for (const tool of BUILTIN_TOOLS) {
+      registryInstance.register(tool);
+    }
+  }
+  return registryInstance;
+}
@@ -0,0 +1,9 @@
+// app/lib/tools/sandbox/index.ts
+/**
+ * Code Execution Sandboxes
+ * JavaScript and Python (Pyodide) each run in a locked-down child process.
+ */
+
+export { runJavaScript, runTypeScript } from './javascript';
+export { runPython } from './python';
+export * from './types';
@@ -0,0 +1,105 @@
+// app/lib/tools/sandbox/isolation.ts
+/**
+ * Sandbox Process Isolation
+ * Shared by the JavaScript and Python runners, which both execute user code in a
+ * spawned Node process:
+ * - Node's permission model blocks fs writes, child processes, workers and addons
+ * - Code generation from strings is disabled in the runner's own realm, so a host
+ *   function that leaks to user code can't compile its way back to the runner's globals
+ * - On Linux the process gets its own network namespace (unshare) with no interfaces up;
+ *   where unshare isn't available, socket connect/listen are disabled in-process as a
+ *   best effort. Run the app in a container without network access to be sure.
+ */
+
+import { spawnSync } from 'child_process';
+
+// Node 20 names it --experimental-permission, newer releases --permission
+export const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission')
+  ? '--permission'
+  : '--experimental-permission';
+
+const UNSHARE_ARGS = ['--net', '--map-root-user'];
+
+let networkNamespaceAvailable: boolean | undefined;
+
+/**
+ * Whether child processes can be started in their own network namespace
+ * Unprivileged user namespaces are disabled on some hosts, so this is probed once.
+ */
+function hasNetworkNamespace(): boolean {
+  if (networkNamespaceAvailable === undefined) {
+    networkNamespaceAvailable = false;
+    if (process.platform === 'linux') {
+      const probe = spawnSync('unshare', [...UNSHARE_ARGS, process.execPath, '-e', ''], {
+        stdio: 'ignore',
+        timeout: 5000
+      });
+      networkNamespaceAvailable = probe.status === 0;
+    }
+    if (!networkNamespaceAvailable) {
+      console.warn('[CodeExec] unshare is unavailable - sandboxed code is only kept off the network in-process');
+    }
+  }
+  return networkNamespaceAvailable;
+}
+
+/**
+ * Command line for a sandboxed Node process running `source` with `node -e`
+ */
+export function sandboxCommand(
+  source: string,
+  options: { memoryMb: number; allowFsRead?: string[] }
+): { command: string; args: string[] } {
+  const nodeArgs = [
+    PERMISSION_FLAG,
+    ...(options.allowFsRead || []).map(dir => `--allow-fs-read=${dir}`),
+    '--disallow-code-generation-from-strings',
+    `--max-old-space-size=${options.memoryMb}`,
+    '--no-warnings',
+    '-e',
+    source
+  ];
+
+  // unshare execs node in place, so killing the child still kills the runner
+  return hasNetworkNamespace()
+    ? { command: 'unshare', args: [...UNSHARE_ARGS, process.execPath, ...nodeArgs] }
+    : { command: process.execPath, args: nodeArgs };
+}
+
+/**
+ * Runner prelude that locks the process down once the runner has required what it needs
+ * Expects `require` in scope (as under `node -e`); afterwards only allowedModules load.
+ */
+export function lockdownSource(allowedModules: string[]): string {
+  return String.raw`
+{
+  const Module = require('module');
+  const net = require('net');
+  const allowedModules = new Set(${JSON.stringify(allowedModules)});
+  const unavailable = what => function () { throw new Error(what + ' is not available in the sandbox'); };
+
+  // Allowlist, so internals like _http_client or _tls_wrap can't be loaded through a Module instance
+  const originalLoad = Module._load;
+  Module._load = function (request, ...rest) {
+    const name = String(request).replace(/^node:/, '');
+    if (!allowedModules.has(name)) throw new Error('Module "' + name + '" is not available in the sandbox');
+    return originalLoad.call(this, request, ...rest);
+  };
+
+  // The stdio pipes are net.Sockets, so their class is reachable - it must not dial out or listen
+  Object.defineProperty(net.Socket.prototype, 'connect', { value: unavailable('Networking'), writable: false, configurable: false });
+  Object.defineProperty(net.Server.prototype, 'listen', { value: unavailable('Networking'), writable: false, configurable: false });
+
+  process.binding = unavailable('process.binding');
+  process._linkedBinding = unavailable('process._linkedBinding');
+  process.dlopen = unavailable('process.dlopen');
+  if (process.getBuiltinModule) process.getBuiltinModule = unavailable('process.getBuiltinModule');
+
+  // node -e exposes require, module and every builtin (fs, http, net, ...) as globals
+  const builtinGlobals = Module.builtinModules.filter(name => name !== 'process' && name !== 'console');
+  for (const key of [...builtinGlobals, 'require', 'module', 'exports', '__filename', '__dirname', 'fetch', 'WebSocket', 'EventSource', 'XMLHttpRequest']) {
+    try { delete globalThis[key]; } catch {}
+  }
+}
+`;
+}
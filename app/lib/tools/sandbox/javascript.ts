@@ -0,0 +1,445 @@
+// app/lib/tools/sandbox/javascript.ts
+/**
+ * JavaScript Sandbox
+ * Runs each snippet in a fresh Node child process (see isolation.ts for the process
+ * restrictions: permission model, no code generation in the runner, network namespace):
+ * - Heap is capped with --max-old-space-size; the parent SIGKILLs on wall-clock timeout
+ * - User code runs inside a vm context whose console, process, stdin, timers and require()
+ *   are created inside the context, so they don't hand the runner's own objects to user code
+ * - require() is limited to the virtual files plus an allowlist of safe builtins; those
+ *   builtins (and Buffer, URL, TextEncoder/TextDecoder) are the only host objects user code sees
+ * This is process-level isolation, not a container - don't expose it to untrusted users.
+ */
+
+import { spawn } from 'child_process';
+import os from 'os';
+import { lockdownSource, sandboxCommand } from './isolation';
+import { transpileProgram } from './transpile';
+import { DEFAULT_SANDBOX_LIMITS, ExecutionResult, SandboxLanguage, SandboxLimits, SandboxProgram } from './types';
+
+// Builtins user code may require; everything else (fs, net, ...) stays out of reach
+const ALLOWED_BUILTINS = ['assert', 'assert/strict', 'util', 'events', 'path', 'url', 'buffer', 'string_decoder', 'querystring', 'stream', 'readline', 'crypto'];
+
+// Runs inside the user's context: builds its globals from primitives-only host callbacks
+// (strict mode, so user code can't walk the call stack back to them)
+const CONTEXT_BOOTSTRAP = String.raw`
+(function (host, entrypoint, argv, test) {
+  'use strict';
+  const global = globalThis;
+
+  class ExitSignal {
+    constructor(code) { this.code = code; }
+  }
+
+  const format = args => args.map(a => typeof a === 'string' ? a : host.inspect(a)).join(' ') + '\n';
+  global.console = {
+    log: (...a) => host.write('stdout', format(a)),
+    info: (...a) => host.write('stdout', format(a)),
+    debug: (...a) => host.write('stdout', format(a)),
+    warn: (...a) => host.write('stderr', format(a)),
+    error: (...a) => host.write('stderr', format(a))
+  };
+
+  // Timer handles are plain objects; the host keeps the real timers by id
+  const timer = id => ({ id, ref() { return this; }, unref() { return this; }, hasRef: () => true, [Symbol.toPrimitive]: () => id });
+  const clear = handle => { if (handle != null) host.clearTimer(Number(typeof handle === 'object' ? handle.id : handle)); };
+  global.setTimeout = (fn, ms, ...args) => timer(host.setTimer('timeout', () => fn(...args), Number(ms) || 0));
+  global.setInterval = (fn, ms, ...args) => timer(host.setTimer('interval', () => fn(...args), Number(ms) || 0));
+  global.setImmediate = (fn, ...args) => timer(host.setTimer('immediate', () => fn(...args), 0));
+  global.clearTimeout = global.clearInterval = global.clearImmediate = clear;
+  global.queueMicrotask = fn => { Promise.resolve().then(fn); };
+
+  // Just enough of a readable stream for data/end listeners, read(), readline and for await
+  const input = host.stdin();
+  let pending = input ? [input] : [];
+  let flowing = false;
+  let ended = false;
+  let scheduled = false;
+  const listeners = new Map();
+  const emit = (event, ...args) => (listeners.get(event) || []).slice().forEach(fn => fn(...args));
+  const pump = () => {
+    if (scheduled || ended) return;
+    scheduled = true;
+    host.nextTick(() => {
+      scheduled = false;
+      if (!flowing && pending.length > 0 && listeners.has('readable')) emit('readable');
+      if (flowing) while (pending.length > 0) emit('data', pending.shift());
+      if (pending.length === 0 && !ended) {
+        ended = true;
+        emit('end');
+        emit('close');
+      }
+    });
+  };
+  const stdin = {
+    isTTY: false,
+    readable: true,
+    setEncoding: () => stdin,
+    on(event, fn) {
+      if (!listeners.has(event)) listeners.set(event, []);
+      listeners.get(event).push(fn);
+      if (event === 'data') flowing = true;
+      if (event === 'data' || event === 'readable') pump();
+      return stdin;
+    },
+    once(event, fn) {
+      const wrapped = (...args) => { stdin.off(event, wrapped); fn(...args); };
+      return stdin.on(event, wrapped);
+    },
+    off(event, fn) {
+      const list = listeners.get(event) || [];
+      if (list.includes(fn)) list.splice(list.indexOf(fn), 1);
+      return stdin;
+    },
+    removeAllListeners(event) {
+      if (event === undefined) listeners.clear(); else listeners.delete(event);
+      return stdin;
+    },
+    read() {
+      const chunk = pending.length > 0 ? pending.join('') : null;
+      pending = [];
+      pump();
+      return chunk;
+    },
+    resume() { flowing = true; pump(); return stdin; },
+    pause() { flowing = false; return stdin; },
+    async *[Symbol.asyncIterator]() {
+      const chunk = stdin.read();
+      if (chunk !== null) yield chunk;
+    }
+  };
+  stdin.addListener = stdin.on;
+  stdin.removeListener = stdin.off;
+
+  // Just enough of process for CLI-style scripts: argv, stdin, stdout/stderr and exit
+  global.process = {
+    argv: ['node', '/' + entrypoint, ...argv],
+    env: {},
+    platform: host.platform,
+    version: host.version,
+    stdin,
+    stdout: { write: text => { host.write('stdout', String(text)); return true; } },
+    stderr: { write: text => { host.write('stderr', String(text)); return true; } },
+    nextTick: (fn, ...args) => host.nextTick(() => fn(...args)),
+    exit: code => { throw new ExitSignal(Number(code) || 0); }
+  };
+
+  // CommonJS over the virtual file set
+  const cache = new Map();
+  const makeRequire = from => spec => {
+    spec = String(spec);
+    if (!spec.startsWith('.') && !spec.startsWith('/')) {
+      const builtin = host.builtin(spec);
+      if (builtin === undefined) throw new Error('Module "' + spec.replace(/^node:/, '') + '" is not available in the sandbox');
+      return builtin;
+    }
+    const file = host.resolve(from, spec);
+    if (file === null) throw new Error('Cannot find module \'' + spec + '\' from \'' + from + '\'');
+    if (cache.has(file)) return cache.get(file).exports;
+
+    const module = { exports: {} };
+    cache.set(file, module);
+    if (file.endsWith('.json')) {
+      module.exports = JSON.parse(host.source(file));
+      return module.exports;
+    }
+    host.compile(file).call(module.exports, module.exports, makeRequire(file), module, '/' + file, '/' + host.dirname(file));
+    return module.exports;
+  };
+
+  // The entrypoint runs as a script so its last expression becomes the return value
+  const entryModule = { exports: {} };
+  cache.set(entrypoint, entryModule);
+  global.require = makeRequire(entrypoint);
+  global.module = entryModule;
+  global.exports = entryModule.exports;
+  global.__filename = '/' + entrypoint;
+  global.__dirname = '/' + host.dirname(entrypoint);
+
+  const tests = [];
+  const prefix = [];
+  if (test) {
+    global.describe = (name, fn) => { prefix.push(name); try { fn(); } finally { prefix.pop(); } };
+    global.test = global.it = (name, fn) => { tests.push({ name: [...prefix, name].join(' > '), fn }); };
+  }
+
+  return {
+    exitCode: error => error instanceof ExitSignal ? error.code : undefined,
+    runTests: async () => {
+      const results = [];
+      for (const { name, fn } of tests) {
+        try {
+          await fn();
+          results.push({ name, passed: true });
+        } catch (error) {
+          if (error instanceof ExitSignal) throw error;
+          results.push({ name, passed: false, error });
+        }
+      }
+      return results;
+    }
+  };
+})
+`;
+
+// Executed with `node -e`; reads the program and limits from stdin, writes one JSON line
+const RUNNER_SOURCE = String.raw`
+'use strict';
+const vm = require('vm');
+const util = require('util');
+const path = require('path');
+const hostRequire = require;
+${lockdownSource(ALLOWED_BUILTINS)}
+const ALLOWED_BUILTINS = new Set(${JSON.stringify(ALLOWED_BUILTINS)});
+const RESOLVE_SUFFIXES = ['', '.js', '.ts', '.tsx', '.cjs', '.mjs', '.json', '/index.js', '/index.ts'];
+const CONTEXT_BOOTSTRAP = ${JSON.stringify(CONTEXT_BOOTSTRAP)};
+
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', async () => {
+  const { files, entrypoint, stdin, argv, test, timeoutMs, maxOutputChars } = JSON.parse(input);
+  const out = { stdout: '', stderr: '', truncated: false };
+  const result = { returnValue: undefined, error: null, exitCode: undefined, tests: undefined };
+  let finished = false;
+  let sandbox;
+
+  // Message plus the user's own frames - the runner's [eval] and node: internals are noise.
+  // The error is a user object, so reading it may run user code
+  const formatError = error => {
+    try {
+      if (!error || !error.stack) return String(error);
+      const frames = String(error.stack).split('\n')
+        .filter(line => /^\s+at /.test(line) && !/\[eval\]|node:|sandbox:bootstrap/.test(line))
+        .slice(0, 5);
+      return [String(error.name || 'Error') + ': ' + String(error.message), ...frames].join('\n');
+    } catch {
+      return 'Error';
+    }
+  };
+
+  const append = (stream, text) => {
+    const room = maxOutputChars - out[stream].length;
+    if (room <= 0) { out.truncated = true; return; }
+    if (text.length > room) out.truncated = true;
+    out[stream] += text.slice(0, room);
+  };
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    process.stdout.write(JSON.stringify({ ...out, ...result }) + '\n', () => process.exit(0));
+  };
+
+  const fail = error => {
+    const code = sandbox ? sandbox.exitCode(error) : undefined;
+    if (typeof code === 'number') {
+      result.exitCode = code;
+      return finish();
+    }
+    if (!result.error) result.error = formatError(error);
+  };
+  process.on('uncaughtException', fail);
+  process.on('unhandledRejection', fail);
+
+  const timers = new Map();
+  let nextTimer = 0;
+  const resolveFile = (from, spec) => {
+    const base = path.posix.normalize(path.posix.join(path.posix.dirname(from), spec)).replace(/^\/+/, '');
+    for (const suffix of RESOLVE_SUFFIXES) {
+      if (Object.prototype.hasOwnProperty.call(files, base + suffix)) return base + suffix;
+    }
+    return null;
+  };
+
+  // Everything the bootstrap can call: takes and returns primitives (or user functions)
+  const host = {
+    platform: process.platform,
+    version: process.version,
+    write: (stream, text) => append(stream === 'stderr' ? 'stderr' : 'stdout', String(text)),
+    inspect: value => util.inspect(value, { depth: 3 }),
+    stdin: () => String(stdin || ''),
+    nextTick: fn => process.nextTick(fn),
+    setTimer: (kind, fn, ms) => {
+      const id = ++nextTimer;
+      const once = () => { timers.delete(id); fn(); };
+      const handle = kind === 'interval' ? setInterval(fn, ms) : kind === 'immediate' ? setImmediate(once) : setTimeout(once, ms);
+      timers.set(id, { kind, handle });
+      return id;
+    },
+    clearTimer: id => {
+      const entry = timers.get(id);
+      if (!entry) return;
+      timers.delete(id);
+      if (entry.kind === 'interval') clearInterval(entry.handle);
+      else if (entry.kind === 'immediate') clearImmediate(entry.handle);
+      else clearTimeout(entry.handle);
+    },
+    builtin: spec => {
+      const name = String(spec).replace(/^node:/, '');
+      return ALLOWED_BUILTINS.has(name) ? hostRequire(name) : undefined;
+    },
+    resolve: (from, spec) => resolveFile(String(from), String(spec)),
+    source: file => files[file],
+    dirname: file => path.posix.dirname(String(file)),
+    compile: file => vm.runInContext('(function (exports, require, module, __filename, __dirname) {' + files[file] + '\n})', context, { filename: file })
+  };
+
+  // User code may still eval/new Function inside its own context
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: true, wasm: true } });
+  for (const [name, value] of Object.entries({ Buffer, URL, URLSearchParams, TextEncoder, TextDecoder })) {
+    context[name] = value;
+  }
+
+  try {
+    sandbox = vm.runInContext(CONTEXT_BOOTSTRAP, context, { filename: 'sandbox:bootstrap' })(host, entrypoint, argv || [], Boolean(test));
+
+    let value = vm.runInContext(files[entrypoint], context, { timeout: timeoutMs, displayErrors: true, filename: entrypoint });
+    if (value && typeof value.then === 'function') value = await value;
+    if (value !== undefined) result.returnValue = util.inspect(value, { depth: 3 });
+
+    if (test) {
+      const results = (await sandbox.runTests()).map(r => r.passed
+        ? { name: String(r.name), passed: true }
+        : { name: String(r.name), passed: false, error: formatError(r.error) });
+      const failed = results.filter(r => !r.passed).length;
+      result.tests = { passed: results.length - failed, failed, results };
+    }
+  } catch (error) {
+    fail(error);
+  }
+
+  // Let pending timers and stdin readers finish; the parent's kill timer bounds this
+  process.once('beforeExit', finish);
+});
+`;
+
+/**
+ * Run a JavaScript program in an isolated child process
+ */
+export function runJavaScript(
+  program: SandboxProgram,
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): Promise<ExecutionResult> {
+  return transpileAndRun(program, limits, 'javascript');
+}
+
+/**
+ * Run a TypeScript program - transpiled to JavaScript, types are not checked
+ */
+export function runTypeScript(
+  program: SandboxProgram,
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): Promise<ExecutionResult> {
+  return transpileAndRun(program, limits, 'typescript');
+}
+
+async function transpileAndRun(
+  program: SandboxProgram,
+  limits: SandboxLimits,
+  language: Extract<SandboxLanguage, 'javascript' | 'typescript'>
+): Promise<ExecutionResult> {
+  let compiled: SandboxProgram;
+  try {
+    compiled = await transpileProgram(program);
+  } catch (error) {
+    return {
+      language,
+      stdout: '',
+      stderr: '',
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: 0,
+      timedOut: false,
+      truncated: false,
+      attachments: []
+    };
+  }
+
+  return { ...(await spawnRunner(compiled, limits)), language };
+}
+
+/**
+ * Spawn the runner process for an already-CommonJS program
+ */
+function spawnRunner(program: SandboxProgram, limits: SandboxLimits): Promise<ExecutionResult> {
+  const start = Date.now();
+
+  return new Promise(resolve => {
+    const { command, args } = sandboxCommand(RUNNER_SOURCE, { memoryMb: limits.memoryMb });
+    const child = spawn(command, args, {
+      cwd: os.tmpdir(),
+      env: { NODE_ENV: 'production' }, // No secrets from the server environment
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    // Parent-side kill covers async loops and anything vm's timeout can't interrupt
+    const killTimer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, limits.timeoutMs + 1000);
+
+    child.stdout.on('data', chunk => {
+      if (stdout.length < limits.maxOutputChars * 4) stdout += chunk;
+    });
+    child.stderr.on('data', chunk => {
+      if (stderr.length < limits.maxOutputChars) stderr += chunk;
+    });
+
+    child.on('close', exitCode => {
+      clearTimeout(killTimer);
+      const durationMs = Date.now() - start;
+      const base: ExecutionResult = {
+        language: 'javascript',
+        stdout: '',
+        stderr: '',
+        error: null,
+        durationMs,
+        timedOut,
+        truncated: false,
+        attachments: []
+      };
+
+      try {
+        const parsed = JSON.parse(stdout.trim().split('\n').pop() || '');
+        const vmTimedOut = typeof parsed.error === 'string' && parsed.error.includes('Script execution timed out');
+        resolve({
+          ...base,
+          stdout: parsed.stdout,
+          stderr: parsed.stderr,
+          returnValue: parsed.returnValue,
+          error: vmTimedOut ? `Execution timed out after ${limits.timeoutMs}ms` : parsed.error,
+          exitCode: parsed.exitCode,
+          tests: parsed.tests,
+          truncated: parsed.truncated,
+          timedOut: timedOut || vmTimedOut
+        });
+      } catch {
+        // No result line - the process was killed or crashed
+        let error = `Process exited with code ${exitCode}`;
+        if (timedOut) error = `Execution timed out after ${limits.timeoutMs}ms`;
+        else if (/heap out of memory|Allocation failed/i.test(stderr)) error = `Memory limit exceeded (${limits.memoryMb}MB)`;
+        resolve({ ...base, stderr: stderr.slice(0, limits.maxOutputChars), error });
+      }
+    });
+
+    child.on('error', error => {
+      clearTimeout(killTimer);
+      resolve({
+        language: 'javascript',
+        stdout: '',
+        stderr: '',
+        error: `Failed to start sandbox: ${error.message}`,
+        durationMs: Date.now() - start,
+        timedOut: false,
+        truncated: false,
+        attachments: []
+      });
+    });
+
+    child.stdin.end(JSON.stringify({ ...program, timeoutMs: limits.timeoutMs, maxOutputChars: limits.maxOutputChars }));
+  });
+}
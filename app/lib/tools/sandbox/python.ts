@@ -0,0 +1,463 @@
+// app/lib/tools/sandbox/python.ts
+/**
+ * Python Sandbox
+ * Pyodide (CPython on WebAssembly) loaded from the local `pyodide` package - no CDN,
+ * so it works offline. Runs in a child Node process with the same restrictions as the
+ * JavaScript runner (see isolation.ts); it may only read the Pyodide distribution.
+ * Every run gets a fresh interpreter: the process is retired after the run (or killed on
+ * timeout) and the next one warms up in the background, so no state carries over between
+ * runs or conversations.
+ *
+ * The run's files are written to Pyodide's in-memory filesystem, so modules can import
+ * each other. Before any user code runs, host filesystem mounts (NODEFS and friends) are
+ * removed, and the `js` / `pyodide_js` modules are unregistered and their import hook
+ * taken off sys.meta_path, so Python can't import its way back to the runner's JS.
+ *
+ * Extra packages (numpy, matplotlib, ...) load from PYODIDE_INDEX_URL when it points
+ * at a full local Pyodide distribution; the npm package only ships the core runtime.
+ * Matplotlib figures left open after a run come back as PNG attachments.
+ */
+
+import path from 'path';
+import os from 'os';
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { lockdownSource, sandboxCommand } from './isolation';
+import { DEFAULT_SANDBOX_LIMITS, ExecutionResult, SandboxLimits, SandboxProgram, TestReport } from './types';
+
+const STARTUP_TIMEOUT_MS = 60_000;
+const MAX_STDERR_CHARS = 10_000;
+
+// What Pyodide itself loads at startup or for package installs; nothing else can be required
+const PYODIDE_MODULES = ['fs', 'fs/promises', 'path', 'url', 'vm', 'crypto', 'os', 'tty'];
+
+// Run in their own namespace inside Pyodide so user globals can't shadow them
+const PYTHON_HELPERS = `
+import sys, io, os, base64, json, traceback, unittest
+
+def enter(root, argv, stdin):
+    os.chdir(root)
+    sys.path.insert(0, root)
+    sys.argv = list(argv)
+    sys.stdin = io.StringIO(stdin)
+
+def capture_figures():
+    figures = []
+    if 'matplotlib.pyplot' in sys.modules:
+        plt = sys.modules['matplotlib.pyplot']
+        for num in plt.get_fignums():
+            buf = io.BytesIO()
+            plt.figure(num).savefig(buf, format='png', bbox_inches='tight')
+            figures.append(base64.b64encode(buf.getvalue()).decode('ascii'))
+        plt.close('all')
+    return figures
+
+def run_tests(namespace):
+    # unittest.TestCase classes plus pytest-style test_* functions using plain assert
+    loader = unittest.TestLoader()
+    suite = unittest.TestSuite()
+    for name, value in list(namespace.items()):
+        if isinstance(value, type) and issubclass(value, unittest.TestCase):
+            suite.addTests(loader.loadTestsFromTestCase(value))
+        elif name.startswith('test') and callable(value) and not isinstance(value, type):
+            suite.addTest(unittest.FunctionTestCase(value, description=name))
+
+    results = []
+    def name_of(test):
+        return test.shortDescription() or test.id().replace('__sandbox_test__.', '')
+
+    class Collector(unittest.TestResult):
+        def addSuccess(self, test):
+            results.append({'name': name_of(test), 'passed': True})
+        def addFailure(self, test, err):
+            error = ''.join(traceback.format_exception_only(err[0], err[1])).strip()
+            results.append({'name': name_of(test), 'passed': False, 'error': error})
+        addError = addFailure
+
+    suite.run(Collector())
+    failed = sum(1 for r in results if not r['passed'])
+    return json.dumps({'passed': len(results) - failed, 'failed': failed, 'results': results})
+`;
+
+// Cut Python off from JavaScript: the finder that serves registered JS modules and every
+// pyodide_js module already imported (Pyodide's own imports keep working)
+const JS_BRIDGE_LOCKDOWN = `
+import sys
+sys.meta_path[:] = [finder for finder in sys.meta_path if type(finder).__name__ != 'JsFinder']
+for name in [name for name in sys.modules if name == 'js' or name.split('.')[0] == 'pyodide_js']:
+    del sys.modules[name]
+`;
+
+/**
+ * Runner for `node -e`: loads Pyodide, then takes one JSON run request per stdin line and
+ * answers with JSON lines (output as it's produced, then the result)
+ */
+function runnerSource(indexURL: string): string {
+  return String.raw`
+'use strict';
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const indexURL = ${JSON.stringify(indexURL)};
+const helpersSource = ${JSON.stringify(PYTHON_HELPERS)};
+const jsBridgeLockdown = ${JSON.stringify(JS_BRIDGE_LOCKDOWN)};
+
+// Emscripten's NODEFS reads fs constants through process.binding, which the permission model denies
+process.binding = name => {
+  if (name === 'constants') return { fs: fs.constants, os: os.constants };
+  throw new Error('process.binding is not available in the sandbox');
+};
+const { loadPyodide } = require(path.join(indexURL, 'pyodide.js'));
+
+let pyodide;
+let helpers;
+
+const send = message => process.stdout.write(JSON.stringify(message) + '\n');
+
+// A rejected run also rejects Pyodide's internal event-loop future; that
+// rejection is already reported through runPythonAsync, so don't let it kill the process
+process.on('unhandledRejection', () => {});
+
+function formatError(message, root) {
+  // Drop Pyodide's own frames so the traceback starts at the user's code, with project-relative paths
+  const userFrames = message.indexOf('File "' + root + '/');
+  const trimmed = userFrames >= 0 ? 'Traceback (most recent call last):\n  ' + message.slice(userFrames).trim() : message.trim();
+  return trimmed.split(root + '/').join('');
+}
+
+async function run({ id, files, entrypoint, stdin, argv, test, maxOutputChars }) {
+  const out = { stdout: 0, stderr: 0, truncated: false };
+  // Output goes to the parent as it's produced, so a killed run still reports what it printed
+  const write = stream => text => {
+    const room = maxOutputChars - out[stream];
+    if (room <= 0) { out.truncated = true; return; }
+    if (text.length + 1 > room) out.truncated = true;
+    const chunk = (text + '\n').slice(0, room);
+    out[stream] += chunk.length;
+    send({ type: 'output', id, stream, text: chunk });
+  };
+  pyodide.setStdout({ batched: write('stdout') });
+  pyodide.setStderr({ batched: write('stderr') });
+
+  const root = '/sandbox/run-' + id;
+  for (const [file, content] of Object.entries(files)) {
+    const target = root + '/' + file;
+    pyodide.FS.mkdirTree(target.slice(0, target.lastIndexOf('/')));
+    pyodide.FS.writeFile(target, content);
+  }
+
+  const entryPath = root + '/' + entrypoint;
+  // In test mode a trailing "if __name__ == '__main__': unittest.main()" must not fire
+  const globals = pyodide.toPy({ __name__: test ? '__sandbox_test__' : '__main__', __file__: entryPath });
+  const result = { returnValue: undefined, error: null, exitCode: undefined, tests: undefined, figures: [] };
+  try {
+    try {
+      const sources = Object.keys(files).filter(file => file.endsWith('.py')).map(file => files[file]);
+      await pyodide.loadPackagesFromImports(sources.join('\n'), {
+        messageCallback: () => {},
+        errorCallback: message => write('stderr')(message)
+      });
+    } catch (error) {
+      write('stderr')('Package load failed: ' + (error && error.message ? error.message : error));
+    }
+
+    const pyArgv = pyodide.toPy(['/' + entrypoint, ...(argv || [])]);
+    helpers.get('enter')(root, pyArgv, stdin || '');
+    pyArgv.destroy();
+
+    const value = await pyodide.runPythonAsync(files[entrypoint], { globals, filename: entryPath });
+    if (value !== undefined && value !== null) {
+      result.returnValue = typeof value.toString === 'function' ? String(value) : JSON.stringify(value);
+      if (value && typeof value.destroy === 'function') value.destroy();
+    }
+    if (test) result.tests = JSON.parse(helpers.get('run_tests')(globals));
+  } catch (error) {
+    const message = error && error.message ? String(error.message) : String(error);
+    const exit = message.match(/SystemExit(?:: (.*))?\s*$/);
+    if (exit) {
+      // sys.exit(): None/0 is success, an int is the exit code, anything else is printed like CPython does
+      const code = exit[1] === undefined || exit[1] === 'None' ? 0 : Number(exit[1]);
+      if (Number.isInteger(code)) {
+        result.exitCode = code;
+      } else {
+        write('stderr')(exit[1]);
+        result.exitCode = 1;
+      }
+    } else {
+      result.error = formatError(message, root);
+    }
+  } finally {
+    try {
+      const figures = helpers.get('capture_figures')();
+      result.figures = figures.toJs();
+      figures.destroy();
+    } catch {}
+    globals.destroy();
+  }
+
+  return { ...result, truncated: out.truncated };
+}
+
+(async () => {
+  pyodide = await loadPyodide({ indexURL: indexURL + path.sep });
+  // Headless plotting
+  pyodide.runPython("import os; os.environ['MPLBACKEND'] = 'AGG'");
+  helpers = pyodide.globals.get('dict')();
+  pyodide.runPython(helpersSource, { globals: helpers });
+
+  // In-memory filesystem only: NODEFS would mount host directories
+  const unavailable = what => () => { throw new Error(what + ' is not available in the sandbox'); };
+  for (const name of Object.keys(pyodide.FS.filesystems)) {
+    if (name !== 'MEMFS') delete pyodide.FS.filesystems[name];
+  }
+  pyodide.mountNodeFS = unavailable('mountNodeFS');
+  pyodide.mountNativeFS = unavailable('mountNativeFS');
+  // js is the JS global scope and pyodide_js the Pyodide API (including FS) - user code gets neither
+  pyodide.unregisterJsModule('js');
+  pyodide.unregisterJsModule('pyodide_js');
+  pyodide.runPython(jsBridgeLockdown);
+  ${lockdownSource(PYODIDE_MODULES)}
+  send({ type: 'ready' });
+
+  let buffered = '';
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', async chunk => {
+    buffered += chunk;
+    let newline;
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const message = JSON.parse(buffered.slice(0, newline));
+      buffered = buffered.slice(newline + 1);
+      try {
+        send({ type: 'result', id: message.id, result: await run(message) });
+      } catch (error) {
+        send({ type: 'result', id: message.id, result: { truncated: false, error: String(error), figures: [] } });
+      }
+    }
+  });
+})().catch(error => {
+  send({ type: 'startup_error', error: error && error.message ? error.message : String(error) });
+});
+`;
+}
+
+interface RunResult {
+  truncated: boolean;
+  returnValue?: string;
+  error: string | null;
+  exitCode?: number;
+  tests?: TestReport;
+  figures: string[];
+}
+
+type RunnerMessage =
+  | { type: 'ready' }
+  | { type: 'startup_error'; error: string }
+  | { type: 'output'; id: number; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'result'; id: number; result: RunResult };
+
+/**
+ * Owns the Pyodide process; runs are queued so only one script executes at a time
+ * A process serves a single run, while the next one loads in the background.
+ */
+class PythonSandbox {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private ready: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextId = 0;
+  private memoryMb = DEFAULT_SANDBOX_LIMITS.memoryMb;
+  private stderr = '';
+  private loaded = false;
+  private listeners = new Set<(message: RunnerMessage) => void>();
+
+  private get indexURL(): string {
+    return process.env.PYODIDE_INDEX_URL || path.join(process.cwd(), 'node_modules', 'pyodide');
+  }
+
+  private start(memoryMb: number): Promise<void> {
+    if (this.ready && this.memoryMb === memoryMb) return this.ready;
+    this.stop();
+    this.memoryMb = memoryMb;
+    this.stderr = '';
+    this.listeners = new Set();
+
+    const indexURL = path.resolve(this.indexURL);
+    const { command, args } = sandboxCommand(runnerSource(indexURL), { memoryMb, allowFsRead: [indexURL] });
+    const child = spawn(command, args, {
+      cwd: os.tmpdir(),
+      env: { NODE_ENV: 'production' }, // No secrets from the server environment
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.child = child;
+
+    child.stdout.setEncoding('utf8');
+    let buffered = '';
+    child.stdout.on('data', (chunk: string) => {
+      buffered += chunk;
+      let newline;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, newline);
+        buffered = buffered.slice(newline + 1);
+        try {
+          const message = JSON.parse(line) as RunnerMessage;
+          if (this.child === child) this.listeners.forEach(listener => listener(message));
+        } catch {
+          // Pyodide's own console output, not a protocol line
+        }
+      }
+    });
+    child.stderr.on('data', chunk => {
+      if (this.stderr.length < MAX_STDERR_CHARS) this.stderr += chunk;
+    });
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Python runtime took too long to start')), STARTUP_TIMEOUT_MS);
+
+      this.listeners.add(message => {
+        if (message.type === 'ready') {
+          clearTimeout(timer);
+          if (!this.loaded) console.log('[CodeExec] Pyodide loaded from', indexURL);
+          this.loaded = true;
+          resolve();
+        } else if (message.type === 'startup_error') {
+          clearTimeout(timer);
+          reject(new Error(`Python runtime not available: ${message.error}`));
+        }
+      });
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('exit', code => {
+        clearTimeout(timer);
+        reject(new Error(`Python runtime exited during startup (code ${code})`));
+      });
+    });
+
+    child.on('exit', () => {
+      if (this.child === child) {
+        this.child = null;
+        this.ready = null;
+      }
+    });
+
+    // A failed start shouldn't poison later attempts (nor take down a newer process)
+    const ready = this.ready;
+    ready.catch(() => {
+      if (this.child === child) this.stop();
+    });
+    return ready;
+  }
+
+  private stop(): void {
+    const child = this.child;
+    this.child = null;
+    this.ready = null;
+    if (child) child.kill('SIGKILL');
+  }
+
+  run(program: SandboxProgram, limits: SandboxLimits): Promise<ExecutionResult> {
+    const task = this.queue.then(() => this.execute(program, limits));
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async execute(program: SandboxProgram, limits: SandboxLimits): Promise<ExecutionResult> {
+    const base: ExecutionResult = {
+      language: 'python',
+      stdout: '',
+      stderr: '',
+      error: null,
+      durationMs: 0,
+      timedOut: false,
+      truncated: false,
+      attachments: []
+    };
+
+    try {
+      await this.start(limits.memoryMb);
+    } catch (error) {
+      return { ...base, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const child = this.child!;
+    const id = ++this.nextId;
+    const start = Date.now();
+    const output = { stdout: '', stderr: '' };
+
+    const outcome = await new Promise<{ result?: RunResult; timedOut: boolean; crashed?: string }>(resolve => {
+      let timedOut = false;
+
+      const finish = (value: { result?: RunResult; timedOut: boolean; crashed?: string }) => {
+        clearTimeout(killTimer);
+        this.listeners.delete(onMessage);
+        child.off('exit', onExit);
+        resolve(value);
+      };
+
+      const onMessage = (message: RunnerMessage) => {
+        if (message.type === 'output' && message.id === id) output[message.stream] += message.text;
+        if (message.type === 'result' && message.id === id) finish({ result: message.result, timedOut });
+      };
+      const onExit = (exitCode: number | null) => {
+        const outOfMemory = /heap out of memory|Allocation failed|Out of memory/i.test(this.stderr);
+        finish({
+          timedOut,
+          crashed: outOfMemory ? `Memory limit exceeded (${limits.memoryMb}MB)` : `Python process exited (code ${exitCode})`
+        });
+      };
+
+      // Python can't be interrupted from outside the process, so a runaway script takes it down
+      const killTimer = setTimeout(() => {
+        timedOut = true;
+        this.stop();
+      }, limits.timeoutMs);
+
+      this.listeners.add(onMessage);
+      child.on('exit', onExit);
+      child.stdin.write(JSON.stringify({ id, ...program, maxOutputChars: limits.maxOutputChars }) + '\n');
+    });
+
+    const durationMs = Date.now() - start;
+
+    // The interpreter now holds this run's state - replace it before the next run
+    if (this.child === child) this.stop();
+    this.start(limits.memoryMb).catch(() => undefined);
+
+    if (!outcome.result) {
+      const error = outcome.timedOut
+        ? `Execution timed out after ${limits.timeoutMs}ms`
+        : outcome.crashed || 'Python process stopped unexpectedly';
+      return { ...base, ...output, durationMs, timedOut: outcome.timedOut, error };
+    }
+
+    const { figures, ...result } = outcome.result;
+    return {
+      ...base,
+      ...result,
+      ...output,
+      durationMs,
+      timedOut: outcome.timedOut,
+      attachments: figures.map((data, index) => ({
+        name: `figure-${index + 1}.png`,
+        mimeType: 'image/png',
+        data,
+        size: Math.floor((data.length * 3) / 4)
+      }))
+    };
+  }
+}
+
+// Singleton instance
+let sandboxInstance: PythonSandbox | null = null;
+
+/**
+ * Run a Python program in a fresh Pyodide interpreter
+ */
+export function runPython(
+  program: SandboxProgram,
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): Promise<ExecutionResult> {
+  if (!sandboxInstance) {
+    sandboxInstance = new PythonSandbox();
+  }
+  return sandboxInstance.run(program, limits);
+}
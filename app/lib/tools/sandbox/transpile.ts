@@ -0,0 +1,59 @@
+// app/lib/tools/sandbox/transpile.ts
+/**
+ * TypeScript / ESM -> CommonJS
+ * The JS sandbox's module loader only understands CommonJS, so TypeScript files and
+ * JavaScript files using import/export are transpiled in the server process first.
+ * This is transpile-only (like ts-node --transpile-only): type errors don't block a run.
+ */
+
+import type { SandboxProgram } from './types';
+
+const TS_FILE = /\.(ts|tsx|mts|cts)$/;
+const JS_FILE = /\.(js|jsx|mjs|cjs)$/;
+const ESM_SYNTAX = /^\s*(import|export)\s/m;
+
+/**
+ * Transpile the files that need it; everything else passes through untouched
+ * Throws with file:line:column messages on syntax errors.
+ */
+export async function transpileProgram(program: SandboxProgram): Promise<SandboxProgram> {
+  const needsTranspile = (file: string, source: string) =>
+    TS_FILE.test(file) || (JS_FILE.test(file) && ESM_SYNTAX.test(source));
+
+  const pending = Object.entries(program.files).filter(([file, source]) => needsTranspile(file, source));
+  if (pending.length === 0) return program;
+
+  // Loaded lazily - the compiler is large and most runs are plain JS or Python
+  const { default: ts } = await import('typescript');
+  const files = { ...program.files };
+  const errors: string[] = [];
+
+  for (const [file, source] of pending) {
+    const output = ts.transpileModule(source, {
+      fileName: file,
+      reportDiagnostics: true,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2022,
+        jsx: ts.JsxEmit.React,
+        esModuleInterop: true,
+        sourceMap: false
+      }
+    });
+
+    for (const diagnostic of output.diagnostics || []) {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      const position = diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : undefined;
+      errors.push(position ? `${file}:${position.line + 1}:${position.character + 1} - ${message}` : `${file} - ${message}`);
+    }
+    files[file] = output.outputText;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Syntax errors:\n${errors.join('\n')}`);
+  }
+
+  return { ...program, files };
+}
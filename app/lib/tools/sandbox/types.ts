@@ -0,0 +1,57 @@
+// app/lib/tools/sandbox/types.ts
+/**
+ * Code Execution Sandbox Types
+ */
+
+import type { ToolAttachment } from '../types';
+
+export type SandboxLanguage = 'javascript' | 'typescript' | 'python';
+
+/**
+ * A virtual file set to run - nothing touches the real filesystem
+ */
+export interface SandboxProgram {
+  files: Record<string, string>; // Relative '/'-separated path -> contents
+  entrypoint: string; // Key in files; runs as the main script
+  stdin?: string;
+  argv?: string[]; // Arguments after the script name
+  test?: boolean; // Run the entrypoint as a test file and report per-test results
+}
+
+export interface SandboxLimits {
+  timeoutMs: number; // Wall clock for the user code (runtime startup not included)
+  memoryMb: number;
+  maxOutputChars: number; // Per stream (stdout / stderr)
+}
+
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface TestReport {
+  passed: number;
+  failed: number;
+  results: TestCaseResult[];
+}
+
+export interface ExecutionResult {
+  language: SandboxLanguage;
+  stdout: string;
+  stderr: string;
+  returnValue?: string;
+  error: string | null;
+  exitCode?: number; // Set when the program called exit()/sys.exit()
+  tests?: TestReport;
+  durationMs: number;
+  timedOut: boolean;
+  truncated: boolean;
+  attachments: ToolAttachment[];
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: Number(process.env.CODE_EXEC_TIMEOUT_MS) || 10_000,
+  memoryMb: Number(process.env.CODE_EXEC_MEMORY_MB) || 256,
+  maxOutputChars: 20_000
+};
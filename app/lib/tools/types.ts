@@ -0,0 +1,124 @@
+// app/lib/tools/types.ts
+/**
+ * Tool Registry Types
+ * Every tool declares its schema, handler, timeout and permission in one place
+ * so the executor can validate and gate calls without tool-specific code.
+ */
+
+import type { z } from 'zod';
+import type { InteractionMode } from '../domain/modeDefinitions';
+import type { StrategyType } from '../strategy/types';
+
+/**
+ * How a tool may be invoked
+ * - safe: runs as soon as the model asks for it
+ * - needs-confirmation: the user has to approve each call
+ * - disabled: never offered to the model and refused by the executor
+ */
+export type ToolPermission = 'safe' | 'needs-confirmation' | 'disabled';
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * Per-call context handed to handlers alongside the validated args
+ */
+export interface ToolContext {
+  conversationId?: string;
+  signal?: AbortSignal; // Aborted when the call times out - stop whatever is still running
+}
+
+export interface ToolDefinition<TSchema extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  schema: TSchema;
+  // JSON schema sent to the model; derived from `schema` when omitted
+  parameters?: Record<string, unknown>;
+  handler(args: z.output<TSchema>, context: ToolContext): Promise<unknown>;
+  timeoutMs: number;
+  permission: ToolPermission;
+  // Restrict the tool to certain modes/strategies (omit = available everywhere)
+  modes?: InteractionMode[];
+  strategies?: StrategyType[];
+}
+
+export interface ToolFilter {
+  mode?: InteractionMode;
+  strategy?: StrategyType;
+  includeDisabled?: boolean;
+}
+
+/**
+ * Asks the user whether a needs-confirmation call may run (args already validated)
+ */
+export type ToolConfirmHandler = (toolCall: ToolCall, args: unknown) => Promise<boolean>;
+
+export interface ExecuteToolsOptions {
+  conversationId?: string;
+  // Names of the tools offered with the request; calls to any other tool are refused
+  allowedTools?: string[];
+  // Without a confirm handler, needs-confirmation tools are refused
+  confirm?: ToolConfirmHandler;
+  // Called after each tool call, e.g. to stream the result and attachments to the UI
+  onResult?: (toolCall: ToolCall, outcome: ToolCallOutcome) => void;
+}
+
+/**
+ * Binary output from a tool (e.g. a plot). Sent to the UI; the model only sees name/type/size.
+ */
+export interface ToolAttachment {
+  name: string;
+  mimeType: string;
+  data: string; // base64
+  size: number;
+}
+
+/**
+ * What a single tool call produced: the tool message content plus any attachments
+ */
+export interface ToolCallOutcome {
+  content: string;
+  attachments?: ToolAttachment[];
+}
+
+export type ToolErrorCode =
+  | 'unknown_tool'
+  | 'tool_disabled'
+  | 'tool_unavailable'
+  | 'invalid_json'
+  | 'invalid_arguments'
+  | 'approval_required'
+  | 'approval_denied'
+  | 'access_denied'
+  | 'not_found'
+  | 'timeout'
+  | 'execution_failed';
+
+/**
+ * Structured error returned to the model as the tool message content
+ */
+export interface ToolErrorResult {
+  tool: string;
+  error: {
+    code: ToolErrorCode;
+    message: string;
+    issues?: Array<{ path: string; message: string }>;
+  };
+}
+
+export class ToolExecutionError extends Error {
+  constructor(
+    message: string,
+    public code: ToolErrorCode,
+    public issues?: Array<{ path: string; message: string }>
+  ) {
+    super(message);
+    this.name = 'ToolExecutionError';
+  }
+}
@@ -0,0 +1,323 @@
+// app/lib/tools/workspace.ts
+/**
+ * Workspace Sandbox
+ * Shared path handling for the filesystem tools (read_file, list_dir, grep, glob).
+ * Every path is resolved against WORKSPACE_ROOT (default: the server's cwd) and
+ * rejected if it - or the symlink it points through - lands outside that root.
+ * Walks honour .gitignore files and never descend into .git or node_modules.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import ignore, { type Ignore } from 'ignore';
+import { ToolExecutionError } from './types';
+
+// Output caps so one tool call can't flood the model's context
+export const WORKSPACE_LIMITS = {
+  maxReadBytes: 100_000,
+  maxFileBytes: 2_000_000, // Larger files are skipped by grep and refused by read_file
+  maxListEntries: 500,
+  maxGrepMatches: 200,
+  maxGlobResults: 500,
+  maxWalkFiles: 20_000,
+  maxLineLength: 300,
+  maxGrepLineChars: 10_000 // Only this much of each line is matched
+};
+
+const ALWAYS_IGNORED = new Set(['.git', 'node_modules']);
+
+export interface WorkspacePath {
+  absolute: string;
+  relative: string; // POSIX-style, relative to the workspace root ('.' for the root)
+}
+
+export interface WorkspaceEntry extends WorkspacePath {
+  type: 'file' | 'dir';
+  size?: number;
+}
+
+let rootCache: { configured: string; real: string } | null = null;
+
+/**
+ * Real path of the workspace root
+ */
+export async function getWorkspaceRoot(): Promise<string> {
+  const configured = path.resolve(process.env.WORKSPACE_ROOT || process.cwd());
+  if (rootCache?.configured !== configured) {
+    rootCache = { configured, real: await fs.realpath(configured) };
+  }
+  return rootCache.real;
+}
+
+function toRelative(root: string, absolute: string): string {
+  const relative = path.relative(root, absolute);
+  return relative ? relative.split(path.sep).join('/') : '.';
+}
+
+function isInside(root: string, absolute: string): boolean {
+  const relative = path.relative(root, absolute);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve a user/model supplied path inside the workspace
+ * Follows symlinks and re-checks the real target so links can't escape the root.
+ */
+export async function resolveWorkspacePath(requested: string): Promise<WorkspacePath> {
+  const root = await getWorkspaceRoot();
+  const candidate = path.resolve(root, requested || '.');
+
+  if (!isInside(root, candidate)) {
+    throw new ToolExecutionError(`Path is outside the workspace: ${requested}`, 'access_denied');
+  }
+
+  let real: string;
+  try {
+    real = await fs.realpath(candidate);
+  } catch {
+    throw new ToolExecutionError(`No such file or directory: ${requested}`, 'not_found');
+  }
+
+  if (!isInside(root, real)) {
+    throw new ToolExecutionError(`Path resolves outside the workspace: ${requested}`, 'access_denied');
+  }
+
+  return { absolute: real, relative: toRelative(root, real) };
+}
+
+/**
+ * Resolve a path that may not exist yet (for writes)
+ * The nearest existing ancestor must be inside the workspace, and ignored paths
+ * (.gitignore, .git, node_modules) are never writable.
+ */
+export async function resolveWritablePath(requested: string): Promise<WorkspacePath & { exists: boolean }> {
+  const root = await getWorkspaceRoot();
+  const candidate = path.resolve(root, requested);
+
+  if (!isInside(root, candidate) || candidate === root) {
+    throw new ToolExecutionError(`Path is outside the workspace: ${requested}`, 'access_denied');
+  }
+
+  // Walk up to the first ancestor that exists and check where it really points
+  let existing = candidate;
+  let missing: string[] = [];
+  while (true) {
+    try {
+      existing = await fs.realpath(existing);
+      break;
+    } catch {
+      missing = [path.basename(existing), ...missing];
+      existing = path.dirname(existing);
+    }
+  }
+
+  const absolute = path.join(existing, ...missing);
+  if (!isInside(root, absolute)) {
+    throw new ToolExecutionError(`Path resolves outside the workspace: ${requested}`, 'access_denied');
+  }
+
+  const target = { absolute, relative: toRelative(root, absolute), exists: missing.length === 0 };
+  if (await isIgnoredPath(target, false)) {
+    throw new ToolExecutionError(`${target.relative} is excluded by .gitignore`, 'access_denied');
+  }
+
+  return target;
+}
+
+/**
+ * Cheap binary sniff - a NUL byte in the first 8KB
+ */
+export function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8192).includes(0);
+}
+
+// ============================================================
+// GITIGNORE
+// ============================================================
+
+/**
+ * Matches paths against the .gitignore files between the root and the path
+ * Each directory's rules are loaded once and applied relative to that directory.
+ */
+class GitignoreMatcher {
+  private rules = new Map<string, Ignore | null>();
+
+  constructor(private root: string) {}
+
+  private async rulesFor(dir: string): Promise<Ignore | null> {
+    if (!this.rules.has(dir)) {
+      try {
+        const content = await fs.readFile(path.join(this.root, dir, '.gitignore'), 'utf-8');
+        this.rules.set(dir, ignore().add(content));
+      } catch {
+        this.rules.set(dir, null);
+      }
+    }
+    return this.rules.get(dir) ?? null;
+  }
+
+  async isIgnored(relative: string, isDir: boolean): Promise<boolean> {
+    const parts = relative.split('/');
+    if (parts.some(part => ALWAYS_IGNORED.has(part))) return true;
+
+    // Check rules from every ancestor directory, root first
+    for (let depth = 0; depth < parts.length; depth++) {
+      const dir = parts.slice(0, depth).join('/');
+      const rules = await this.rulesFor(dir);
+      if (!rules) continue;
+
+      const subPath = parts.slice(depth).join('/') + (isDir ? '/' : '');
+      if (rules.ignores(subPath)) return true;
+    }
+
+    return false;
+  }
+}
+
+/**
+ * Whether a single workspace path is excluded by .gitignore (or is under .git/node_modules)
+ */
+export async function isIgnoredPath(target: WorkspacePath, isDir: boolean): Promise<boolean> {
+  if (target.relative === '.') return false;
+  return new GitignoreMatcher(await getWorkspaceRoot()).isIgnored(target.relative, isDir);
+}
+
+// ============================================================
+// WALKING
+// ============================================================
+
+/**
+ * Walk a workspace directory depth-first, skipping ignored paths
+ * Symlinks are only yielded when their target stays inside the root and are never descended into.
+ */
+export async function* walkWorkspace(
+  start: WorkspacePath,
+  options: { maxDepth?: number } = {}
+): AsyncGenerator<WorkspaceEntry> {
+  const root = await getWorkspaceRoot();
+  const matcher = new GitignoreMatcher(root);
+  const maxDepth = options.maxDepth ?? Infinity;
+  let visitedFiles = 0;
+
+  async function* walk(dir: string, depth: number): AsyncGenerator<WorkspaceEntry> {
+    let dirents;
+    try {
+      dirents = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable directory - skip rather than fail the whole walk
+    }
+
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const dirent of dirents) {
+      if (visitedFiles >= WORKSPACE_LIMITS.maxWalkFiles) return;
+
+      const absolute = path.join(dir, dirent.name);
+      const relative = toRelative(root, absolute);
+      let isDir = dirent.isDirectory();
+      let isLink = false;
+
+      if (dirent.isSymbolicLink()) {
+        isLink = true;
+        try {
+          const target = await fs.realpath(absolute);
+          if (!isInside(root, target)) continue;
+          isDir = (await fs.stat(target)).isDirectory();
+        } catch {
+          continue; // Dangling link
+        }
+      } else if (!isDir && !dirent.isFile()) {
+        continue; // Sockets, devices, FIFOs
+      }
+
+      if (await matcher.isIgnored(relative, isDir)) continue;
+
+      if (isDir) {
+        yield { absolute, relative, type: 'dir' };
+        if (!isLink && depth + 1 < maxDepth) {
+          yield* walk(absolute, depth + 1);
+        }
+      } else {
+        visitedFiles++;
+        const { size } = await fs.stat(absolute);
+        yield { absolute, relative, type: 'file', size };
+      }
+    }
+  }
+
+  yield* walk(start.absolute, 0);
+}
+
+// ============================================================
+// GLOB MATCHING
+// ============================================================
+
+/**
+ * Convert a glob (*, **, ?, [abc], {a,b}) to an anchored RegExp
+ * Patterns without a slash match the basename anywhere, like .gitignore.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = globSource(pattern);
+  return new RegExp(pattern.includes('/') ? `^${source}$` : `^(?:.*/)?${source}$`);
+}
+
+function globSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += '[' + pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const options = pattern.slice(i + 1, end).split(',').map(globSource);
+        source += `(?:${options.join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+// ============================================================
+// FILE ACCESS TRACKING
+// ============================================================
+
+// Most recent file read per conversation - fed into domain detection on the next turn
+const lastReadFiles = new Map<string, string>();
+
+export function recordFileRead(conversationId: string | undefined, relativePath: string): void {
+  if (conversationId) lastReadFiles.set(conversationId, relativePath);
+}
+
+export function getLastReadFile(conversationId: string | undefined): string | undefined {
+  return conversationId ? lastReadFiles.get(conversationId) : undefined;
+}
@@ -0,0 +1,35 @@
+import MemoryBrowser from '@/components/MemoryBrowser';
+import Link from 'next/link';
+
+export default function MemoryPage() {
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-cyan-50/30 to-slate-50">
+      {/* Header with Back to Chat */}
+      <div className="sticky top-0 z-50 bg-white/80 backdrop-blur-lg border-b border-slate-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-8 py-4 flex items-center justify-between">
+          <Link
+            href="/"
+            className="flex items-center gap-2 text-slate-600 hover:text-teal transition-colors group"
+          >
+            <svg className="w-5 h-5 group-hover:-translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            <span className="font-medium">Back to Chat</span>
+          </Link>
+
+          <Link
+            href="/analytics"
+            className="text-xs text-slate-500 font-medium hover:text-teal transition-colors"
+          >
+            📊 Analytics
+          </Link>
+        </div>
+      </div>
+
+      {/* Memory Browser */}
+      <div className="max-w-7xl mx-auto px-8 py-8">
+        <MemoryBrowser />
+      </div>
+    </div>
+  );
+}
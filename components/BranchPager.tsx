@@ -0,0 +1,42 @@
+// components/BranchPager.tsx
+'use client';
+
+interface BranchPagerProps {
+  siblingIds: string[];
+  currentId: string;
+  disabled?: boolean;
+  onSelect: (messageId: string) => void;
+}
+
+/**
+ * "‹ 2/3 ›" control for paging between edited prompts or regenerated replies
+ */
+export default function BranchPager({ siblingIds, currentId, disabled, onSelect }: BranchPagerProps) {
+  const index = siblingIds.indexOf(currentId);
+  if (siblingIds.length < 2 || index === -1) return null;
+
+  const buttonStyle =
+    'px-1.5 rounded text-slate-500 hover:text-slate-900 hover:bg-slate-200 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="inline-flex items-center gap-1 text-[11px] font-bold text-slate-500 select-none">
+      <button
+        onClick={() => onSelect(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className={buttonStyle}
+        title="Previous version"
+      >
+        ‹
+      </button>
+      <span>{index + 1}/{siblingIds.length}</span>
+      <button
+        onClick={() => onSelect(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        className={buttonStyle}
+        title="Next version"
+      >
+        ›
+      </button>
+    </div>
+  );
+}
@@ -5,6 +5,11 @@ import ReactMarkdown from 'react-markdown';
 import ParticleOrb from './ParticleOrb';
 import TopNav from './TopNav';
 import LeftToolbar, { ToolbarSettings } from './LeftToolbar';
+import WorkflowSteps, { WorkflowProgress, applyWorkflowEvent } from './WorkflowSteps';
+import ToolCalls, { ToolApprovalDecision, ToolRun, applyToolEvent } from './ToolCalls';
+import BranchPager from './BranchPager';
+import CompareView from './CompareView';
+import RetrievalTrace, { RetrievalTraceData } from './RetrievalTrace';
 import { useVoiceFlow } from '@/app/lib/voice/useVoiceFlow';
 
 interface Message {
@@ -13,6 +18,11 @@ interface Message {
   content: string;
   feedback?: 'positive' | 'negative' | null;
   decisionId?: string; // For tracking strategy decisions and manual mode feedback
+  workflow?: WorkflowProgress; // Chain/ensemble step progress (workflow strategy)
+  toolRuns?: ToolRun[]; // Tools executed while streaming this response
+  serverId?: string; // Stored message id, once the server has saved it
+  siblingIds?: string[]; // Stored alternatives (edits/regenerations) sharing this message's parent
+  retrievalTrace?: RetrievalTraceData; // Memories retrieved for this reply, with their scores
   learningContext?: {
     theme?: string;
     complexity?: number;
@@ -26,9 +36,39 @@ interface Message {
   };
 }
 
+// Message on a conversation's active branch, as returned by /api/conversations
+interface StoredBranchMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sibling_ids: string[];
+}
+
+// How a turn attaches to the message tree when it doesn't simply append
+interface BranchRequest {
+  history: Message[]; // Messages kept before the new turn
+  parentMessageId: string | null; // Stored message the turn hangs off (null = new root)
+  siblingIds: string[]; // Alternatives the new message joins
+  regenerate?: boolean; // Re-answer the last user message in history instead of sending new text
+  model?: string; // Answer with this model, bypassing the toolbar pick and strategy
+}
+
+const fromStored = ({ id, role, content, sibling_ids }: StoredBranchMessage): Message => ({
+  id,
+  role,
+  content,
+  serverId: id,
+  siblingIds: sibling_ids,
+});
+
 export default function Chat() {
   // State Management - Chat owns conversation state
   const [messages, setMessages] = useState<Message[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationsVersion, setConversationsVersion] = useState(0); // Bumped after each turn so the sidebar re-sorts
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [comparingMessageId, setComparingMessageId] = useState<string | null>(null); // Assistant message whose prompt is open in the compare view
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [autoSelectedModel, setAutoSelectedModel] = useState<string>('');
@@ -51,14 +91,35 @@ export default function Chat() {
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const userHasScrolledUp = useRef(false);
 
-  // Models Configuration
-  const models = [
-    { id: 'llama3.2:3b-instruct-q5_K_M', name: 'Llama 3.2', speed: '🚀' },
-    { id: 'qwen2.5:7b-instruct-q5_K_M', name: 'Qwen 2.5', speed: '🎯🔨' },
-    { id: 'qwen2.5-coder:7b-instruct-q5_K_M', name: 'Vibe Coder', speed: '⚡' },
-    { id: 'yi-coder:9b', name: 'Yi 9B', speed: '🧠' },
-    { id: 'deepseek-coder-v2:16b', name: 'DS V2 16B', speed: '🔥' }
-  ];
+  // Models Configuration - synced from the model registry (installed models only)
+  const [models, setModels] = useState<{ id: string; name: string; speed: string }[]>([]);
+
+  useEffect(() => {
+    const tierIcons: Record<string, string> = {
+      fast: '🚀',
+      balanced: '⚡',
+      quality: '🧠',
+      expert: '🔥'
+    };
+
+    const loadModels = async () => {
+      try {
+        const response = await fetch('/api/models');
+        if (!response.ok) return;
+        const data = await response.json();
+        setModels(
+          (data.models || []).map((m: { name: string; displayName: string; type: string }) => ({
+            id: m.name,
+            name: m.displayName,
+            speed: tierIcons[m.type] || ''
+          }))
+        );
+      } catch (error) {
+        console.warn('[Chat] Failed to load models:', error);
+      }
+    };
+    loadModels();
+  }, []);
 
   // Voice flow hook - handles STT, TTS, and seamless conversation loop
   const voice = useVoiceFlow({
@@ -154,17 +215,35 @@ export default function Chat() {
 
   /**
    * Send message to LLM (called by text input or voice transcript)
+   * With a branch request the turn forks instead of appending (edit / regenerate).
    */
-  const handleSendMessage = async (textToSend?: string) => {
-    const messageText = textToSend || input;
-    if (!messageText.trim() || isLoading) return;
+  const handleSendMessage = async (textToSend?: string, branch?: BranchRequest) => {
+    const messageText = branch?.regenerate ? '' : textToSend || input;
+    if (isLoading || (!branch?.regenerate && !messageText.trim())) return;
 
+    const history = branch ? branch.history : messages;
+    const requestModel = branch?.model || currentSettings.model;
+    const useStrategy = currentSettings.strategyEnabled && !branch?.model;
     const userId = Date.now().toString();
-    const userMsg: Message = { id: userId, role: 'user', content: messageText };
+    const userMsg: Message | null = branch?.regenerate ? null : { id: userId, role: 'user', content: messageText };
+    const outgoing = userMsg ? [...history, userMsg] : history;
+
+    // Without a branch request the turn follows the last stored message
+    const parentMessageId = branch ? branch.parentMessageId : history[history.length - 1]?.serverId;
+
+    // Once the server reports stored ids, record them - an alternative also joins its siblings for paging
+    const markSaved = (localId: string, serverId: string | undefined, isAlternative: boolean) => {
+      if (!serverId) return;
+      setMessages(prev => prev.map(msg =>
+        msg.id === localId
+          ? { ...msg, serverId, siblingIds: isAlternative && branch ? [...branch.siblingIds, serverId] : undefined }
+          : msg
+      ));
+    };
 
     // Update messages and clear input
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+    setMessages(outgoing);
+    if (!branch) setInput('');
     setIsLoading(true);
 
     // Reset scroll flag so auto-scroll resumes for new messages
@@ -177,22 +256,22 @@ export default function Chat() {
       }
 
       // Send to LLM API
-      // Workflow doesn't support streaming, so force stream: false when workflow is selected
-      const isWorkflow = currentSettings.strategyEnabled && currentSettings.selectedStrategy === 'workflow';
-      const shouldStream = !currentSettings.enableTools && !isWorkflow;
-
       const response = await fetch('/api/llm', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          model: currentSettings.model,
-          messages: [...messages, userMsg],
-          stream: shouldStream,
+          model: requestModel,
+          conversationId: conversationId || undefined,
+          // Only role/content go to the model - UI state (tool runs, workflow steps) stays local
+          messages: outgoing.map(({ role, content }) => ({ role, content })),
+          parentMessageId,
+          regenerate: branch?.regenerate || undefined,
+          stream: true, // Tool calls and workflow steps arrive as SSE events
           enableTools: currentSettings.enableTools,
           manualModeOverride: currentSettings.manualMode || undefined,
-          strategyEnabled: currentSettings.strategyEnabled,
-          selectedStrategy: currentSettings.strategyEnabled ? currentSettings.selectedStrategy : undefined,
-          workflowMode: currentSettings.selectedStrategy === 'workflow' ? currentSettings.workflowMode : undefined
+          strategyEnabled: useStrategy,
+          selectedStrategy: useStrategy ? currentSettings.selectedStrategy : undefined,
+          workflowMode: useStrategy && currentSettings.selectedStrategy === 'workflow' ? currentSettings.workflowMode : undefined
         })
       });
 
@@ -201,34 +280,40 @@ export default function Chat() {
       const aiId = (Date.now() + 1).toString();
       const requestStartTime = Date.now();
 
-      if (!shouldStream) {
-        // Non-streaming response (tools enabled)
+      const isEventStream = response.headers.get('content-type')?.includes('text/event-stream');
+
+      if (!isEventStream) {
+        // Non-streaming JSON response
         const data = await response.json();
         const content = data.content || '';
         const responseTime = Date.now() - requestStartTime;
+        if (data.conversationId) setConversationId(data.conversationId);
 
         const aiMsg: Message = {
           id: aiId,
           role: 'assistant',
           content,
           decisionId: data.decisionId || aiId, // Use decisionId or fallback to message ID
+          retrievalTrace: data.retrievalTrace,
           learningContext: {
             theme: data.metadata?.detectedTheme,
             complexity: data.metadata?.complexityScore,
             temperature: data.metadata?.temperature,
             maxTokens: data.metadata?.maxTokens,
             toolsEnabled: currentSettings.enableTools,
-            modelUsed: data.autoSelectedModel || currentSettings.model,
+            modelUsed: data.autoSelectedModel || requestModel,
             responseTime,
-            tokensUsed: Math.floor(content.length / 4), // Rough estimate
+            tokensUsed: data.usage?.totalTokens,
             mode: currentSettings.manualMode || 'auto' // Track which mode was used
           }
         };
 
         setMessages(prev => [...prev, aiMsg]);
+        if (userMsg) markSaved(userId, data.userMessageId, Boolean(branch));
+        markSaved(aiId, data.messageId, Boolean(branch?.regenerate));
 
         // Update auto-selected model if strategy is enabled
-        if (currentSettings.strategyEnabled && data.autoSelectedModel) {
+        if (useStrategy && data.autoSelectedModel) {
           setAutoSelectedModel(data.autoSelectedModel);
         }
 
@@ -238,9 +323,10 @@ export default function Chat() {
           await voice.speakResponse(cleanedContent, true); // true = auto-resume after speaking
         }
       } else {
-        // Streaming response (tools disabled)
+        // Streaming response (content, tool and workflow events)
         let streamDecisionId: string | undefined = undefined;
         let streamLearningContext: any = undefined;
+        let streamTokens: number | undefined = undefined; // From the server's usage event
 
         const aiMsg: Message = { id: aiId, role: 'assistant', content: '' };
         setMessages(prev => [...prev, aiMsg]);
@@ -249,14 +335,17 @@ export default function Chat() {
           const reader = response.body.getReader();
           const decoder = new TextDecoder();
           let fullContent = '';
+          let lineBuffer = '';
 
           try {
             while (true) {
               const { done, value} = await reader.read();
               if (done) break;
 
-              const chunk = decoder.decode(value, { stream: true });
-              const lines = chunk.split('\n');
+              // Buffer partial lines - large events can span multiple reads
+              lineBuffer += decoder.decode(value, { stream: true });
+              const lines = lineBuffer.split('\n');
+              lineBuffer = lines.pop() || '';
 
               for (const line of lines) {
                 if (line.startsWith('data: ')) {
@@ -266,8 +355,17 @@ export default function Chat() {
                   try {
                     const parsed = JSON.parse(data);
 
-                    // Check for metadata message with decision ID
-                    if (parsed.type === 'metadata' && parsed.decisionId) {
+                    // Metadata: conversation to continue + decision ID for feedback
+                    if (parsed.type === 'metadata') {
+                      if (parsed.conversationId) setConversationId(parsed.conversationId);
+                      if (userMsg) markSaved(userId, parsed.userMessageId, Boolean(branch));
+                      if (parsed.retrievalTrace) {
+                        setMessages(prev => prev.map(msg =>
+                          msg.id === aiId ? { ...msg, retrievalTrace: parsed.retrievalTrace } : msg
+                        ));
+                      }
+                      if (!parsed.decisionId) continue;
+
                       streamDecisionId = parsed.decisionId;
                       streamLearningContext = {
                         theme: parsed.theme,
@@ -275,7 +373,7 @@ export default function Chat() {
                         temperature: parsed.temperature,
                         maxTokens: parsed.maxTokens,
                         toolsEnabled: currentSettings.enableTools,
-                        modelUsed: parsed.modelUsed || currentSettings.model,
+                        modelUsed: parsed.modelUsed || requestModel,
                         responseTime: 0,
                         tokensUsed: 0,
                         mode: currentSettings.manualMode || 'auto'
@@ -283,6 +381,51 @@ export default function Chat() {
                       continue; // Skip rendering this metadata chunk
                     }
 
+                    // Prompt + completion tokens, as reported by the model backend
+                    if (parsed.type === 'usage') {
+                      streamTokens = parsed.usage?.totalTokens;
+                      continue;
+                    }
+
+                    // Stored id of this reply (enables regenerate / branch paging)
+                    if (parsed.type === 'saved') {
+                      markSaved(aiId, parsed.messageId, Boolean(branch?.regenerate));
+                      continue;
+                    }
+
+                    // Workflow step/vote progress
+                    if (parsed.type === 'workflow' && parsed.event) {
+                      setMessages(prev => prev.map(msg =>
+                        msg.id === aiId
+                          ? { ...msg, workflow: applyWorkflowEvent(msg.workflow, parsed.event) }
+                          : msg
+                      ));
+                      continue;
+                    }
+
+                    // Tool execution progress and approval requests
+                    if (
+                      parsed.type === 'tool_call' ||
+                      parsed.type === 'tool_result' ||
+                      parsed.type === 'tool_approval_required' ||
+                      parsed.type === 'tool_approval_resolved'
+                    ) {
+                      setMessages(prev => prev.map(msg =>
+                        msg.id === aiId
+                          ? { ...msg, toolRuns: applyToolEvent(msg.toolRuns, parsed) }
+                          : msg
+                      ));
+                      continue;
+                    }
+
+                    if (parsed.type === 'error') {
+                      fullContent += `\n\nError: ${parsed.error}`;
+                      setMessages(prev => prev.map(msg =>
+                        msg.id === aiId ? { ...msg, content: fullContent } : msg
+                      ));
+                      continue;
+                    }
+
                     const content = parsed.choices?.[0]?.delta?.content || '';
                     if (content) {
                       fullContent += content;
@@ -308,12 +451,14 @@ export default function Chat() {
                 ? {
                     ...msg,
                     decisionId: finalDecisionId,
-                    learningContext: streamLearningContext || {
-                      modelUsed: currentSettings.model,
-                      responseTime,
-                      tokensUsed: Math.floor(fullContent.length / 4),
-                      mode: currentSettings.manualMode || 'auto'
-                    }
+                    learningContext: streamLearningContext
+                      ? { ...streamLearningContext, tokensUsed: streamTokens }
+                      : {
+                          modelUsed: requestModel,
+                          responseTime,
+                          tokensUsed: streamTokens,
+                          mode: currentSettings.manualMode || 'auto'
+                        }
                   }
                 : msg
             ));
@@ -339,6 +484,116 @@ export default function Chat() {
       setMessages(prev => [...prev, errorMsg]);
     } finally {
       setIsLoading(false);
+      setConversationsVersion(v => v + 1);
+    }
+  };
+
+  /**
+   * Resume a saved conversation from the sidebar
+   */
+  const handleSelectConversation = async (id: string) => {
+    if (isLoading || id === conversationId) return;
+
+    try {
+      const res = await fetch(`/api/conversations/${encodeURIComponent(id)}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: { messages: StoredBranchMessage[] } = await res.json();
+
+      setMessages(data.messages.map(fromStored));
+      setEditingMessageId(null);
+      setComparingMessageId(null);
+      setConversationId(id);
+      setInput('');
+      userHasScrolledUp.current = false;
+    } catch (error) {
+      console.error('[Chat] Failed to load conversation:', error);
+    }
+  };
+
+  /**
+   * Edit a past prompt: the new text becomes a sibling of the original and the
+   * conversation continues from it. The original branch stays reachable via the pager.
+   */
+  const handleEditSubmit = (index: number) => {
+    const original = messages[index];
+    const parent = index > 0 ? messages[index - 1] : null;
+    if (!original?.serverId || (parent && !parent.serverId) || !editDraft.trim()) return;
+
+    setEditingMessageId(null);
+    handleSendMessage(editDraft, {
+      history: messages.slice(0, index),
+      parentMessageId: parent?.serverId ?? null,
+      siblingIds: original.siblingIds ?? [original.serverId],
+    });
+  };
+
+  // Answer the same prompt again as a sibling of this reply, optionally with another model
+  const handleRegenerate = (index: number, model?: string) => {
+    const reply = messages[index];
+    const prompt = messages[index - 1];
+    if (prompt?.role !== 'user' || !prompt.serverId) return;
+
+    handleSendMessage(undefined, {
+      history: messages.slice(0, index),
+      parentMessageId: prompt.serverId,
+      siblingIds: reply.siblingIds ?? (reply.serverId ? [reply.serverId] : []),
+      regenerate: true,
+      model,
+    });
+  };
+
+  // Page to another alternative - the server picks up where that branch left off
+  const handleSwitchBranch = async (messageId: string) => {
+    if (isLoading || !conversationId) return;
+
+    try {
+      const res = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: { messages: StoredBranchMessage[] } = await res.json();
+
+      setMessages(data.messages.map(fromStored));
+      setEditingMessageId(null);
+      setComparingMessageId(null);
+    } catch (error) {
+      console.error('[Chat] Failed to switch branch:', error);
+    }
+  };
+
+  // The next message creates a fresh conversation server-side
+  const handleNewConversation = () => {
+    if (isLoading) return;
+    setEditingMessageId(null);
+    setComparingMessageId(null);
+    setMessages([]);
+    setConversationId(null);
+    setInput('');
+  };
+
+  // Answer a pending tool approval - the stream resumes once the server receives it
+  const handleToolApproval = async (run: ToolRun, decision: ToolApprovalDecision) => {
+    if (!run.approvalId) return;
+
+    try {
+      const res = await fetch('/api/tools/approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          approvalId: run.approvalId,
+          decision: decision === 'deny' ? 'deny' : 'approve',
+          alwaysAllow: decision === 'always'
+        })
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP ${res.status}`);
+      }
+    } catch (error) {
+      console.error('[Chat] Tool approval error:', error);
     }
   };
 
@@ -400,6 +655,10 @@ export default function Chat() {
               models={models}
               autoSelectedModel={autoSelectedModel}
               onSettingsChange={setCurrentSettings}
+              activeConversationId={conversationId}
+              conversationsVersion={conversationsVersion}
+              onSelectConversation={handleSelectConversation}
+              onNewConversation={handleNewConversation}
             />
             <div className="flex-1 flex flex-col gap-6 min-h-0">
 
@@ -424,7 +683,7 @@ export default function Chat() {
                   ) : (
                     <>
                       {/* Message List */}
-                      {messages.map((msg: Message) => (
+                      {messages.map((msg: Message, index: number) => (
                         <div
                           key={msg.id}
                           className={`flex ${
@@ -433,23 +692,89 @@ export default function Chat() {
                         >
                           {msg.role === 'user' ? (
                             // User Message - Right aligned with teal/cyan gradient
-                            <div className="max-w-2xl p-6 rounded-2xl shadow-lg border-2 border-teal/50 bg-linear-to-br from-teal/90 to-cyan-light/80 text-white hover:shadow-xl hover:shadow-teal/40 transition-all duration-200 hover:border-teal/70">
-                              <div className="prose prose-sm prose-invert max-w-none">
-                                <ReactMarkdown
-                                  components={{
-                                    p: ({children}) => <p className="whitespace-pre-wrap leading-relaxed font-medium text-white text-sm mb-2 last:mb-0">{children}</p>,
-                                    code: ({children}) => <code className="text-cyan-light bg-white/20 px-1.5 py-0.5 rounded text-xs">{children}</code>,
-                                    pre: ({children}) => <pre className="bg-slate-900/50 text-cyan-light p-3 rounded-lg overflow-x-auto text-xs my-2">{children}</pre>
-                                  }}
-                                >
-                                  {msg.content}
-                                </ReactMarkdown>
-                              </div>
+                            <div className="max-w-2xl flex flex-col items-end">
+                              {editingMessageId === msg.id ? (
+                                // Editing forks the conversation from this prompt
+                                <div className="w-full min-w-md p-4 rounded-2xl shadow-lg border-2 border-teal/70 bg-white">
+                                  <textarea
+                                    value={editDraft}
+                                    onChange={(e) => setEditDraft(e.target.value)}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter' && !e.shiftKey) {
+                                        e.preventDefault();
+                                        handleEditSubmit(index);
+                                      }
+                                      if (e.key === 'Escape') setEditingMessageId(null);
+                                    }}
+                                    rows={3}
+                                    autoFocus
+                                    className="w-full p-2 rounded-lg text-sm text-slate-900 border border-slate-300 focus:outline-none focus:ring-2 focus:ring-teal/60 resize-y"
+                                  />
+                                  <div className="flex justify-end gap-2 mt-2">
+                                    <button
+                                      onClick={() => setEditingMessageId(null)}
+                                      className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-200 text-slate-600 hover:bg-slate-300"
+                                    >
+                                      Cancel
+                                    </button>
+                                    <button
+                                      onClick={() => handleEditSubmit(index)}
+                                      disabled={!editDraft.trim()}
+                                      className="px-3 py-1.5 rounded-lg text-xs font-bold bg-teal text-white hover:opacity-90 disabled:opacity-40"
+                                    >
+                                      Send as new branch
+                                    </button>
+                                  </div>
+                                </div>
+                              ) : (
+                                <div className="p-6 rounded-2xl shadow-lg border-2 border-teal/50 bg-linear-to-br from-teal/90 to-cyan-light/80 text-white hover:shadow-xl hover:shadow-teal/40 transition-all duration-200 hover:border-teal/70">
+                                  <div className="prose prose-sm prose-invert max-w-none">
+                                    <ReactMarkdown
+                                      components={{
+                                        p: ({children}) => <p className="whitespace-pre-wrap leading-relaxed font-medium text-white text-sm mb-2 last:mb-0">{children}</p>,
+                                        code: ({children}) => <code className="text-cyan-light bg-white/20 px-1.5 py-0.5 rounded text-xs">{children}</code>,
+                                        pre: ({children}) => <pre className="bg-slate-900/50 text-cyan-light p-3 rounded-lg overflow-x-auto text-xs my-2">{children}</pre>
+                                      }}
+                                    >
+                                      {msg.content}
+                                    </ReactMarkdown>
+                                  </div>
+                                </div>
+                              )}
+
+                              {/* Branch controls - only for stored prompts whose parent is stored too */}
+                              {msg.serverId && editingMessageId !== msg.id && (
+                                <div className="flex items-center gap-2 mt-1 mr-2">
+                                  <BranchPager
+                                    siblingIds={msg.siblingIds || []}
+                                    currentId={msg.serverId}
+                                    disabled={isLoading}
+                                    onSelect={handleSwitchBranch}
+                                  />
+                                  {(index === 0 || messages[index - 1].serverId) && (
+                                    <button
+                                      onClick={() => {
+                                        setEditingMessageId(msg.id);
+                                        setEditDraft(msg.content);
+                                      }}
+                                      disabled={isLoading}
+                                      className="px-2 py-0.5 rounded text-[11px] font-medium text-slate-500 hover:text-slate-900 hover:bg-slate-200 disabled:opacity-40"
+                                      title="Edit this prompt and continue on a new branch"
+                                    >
+                                      ✏️ Edit
+                                    </button>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           ) : (
                             // Assistant Message - Left aligned with slate background
                             <div className="max-w-2xl">
                               <div className="p-6 rounded-2xl shadow-md border-2 border-slate-200 bg-slate-100/80 text-slate-900 hover:shadow-lg hover:shadow-teal/20 transition-all duration-200 hover:bg-slate-100 hover:border-slate-300">
+                                {msg.workflow && <WorkflowSteps progress={msg.workflow} />}
+                                {msg.toolRuns && msg.toolRuns.length > 0 && (
+                                  <ToolCalls runs={msg.toolRuns} onApprovalDecision={handleToolApproval} />
+                                )}
                                 <div className="prose prose-sm prose-slate max-w-none">
                                   <ReactMarkdown
                                     components={{
@@ -472,6 +797,70 @@ export default function Chat() {
                                 </div>
                               </div>
 
+                              {/* Retrieval inspector - which memories went into the prompt and why */}
+                              {msg.retrievalTrace && msg.retrievalTrace.entries.length > 0 && (
+                                <div className="mt-1 ml-2">
+                                  <RetrievalTrace trace={msg.retrievalTrace} />
+                                </div>
+                              )}
+
+                              {/* Branch controls - regenerate needs the stored prompt to hang the new reply off */}
+                              {messages[index - 1]?.serverId && (
+                                <div className="flex items-center gap-2 mt-1 ml-2">
+                                  {msg.serverId && (
+                                    <BranchPager
+                                      siblingIds={msg.siblingIds || []}
+                                      currentId={msg.serverId}
+                                      disabled={isLoading}
+                                      onSelect={handleSwitchBranch}
+                                    />
+                                  )}
+                                  <button
+                                    onClick={() => handleRegenerate(index)}
+                                    disabled={isLoading}
+                                    className="px-2 py-0.5 rounded text-[11px] font-medium text-slate-500 hover:text-slate-900 hover:bg-slate-200 disabled:opacity-40"
+                                    title="Generate another answer to this prompt"
+                                  >
+                                    🔄 Regenerate
+                                  </button>
+                                  <select
+                                    value=""
+                                    onChange={(e) => e.target.value && handleRegenerate(index, e.target.value)}
+                                    disabled={isLoading || models.length === 0}
+                                    className="px-1 py-0.5 rounded text-[11px] font-medium text-slate-500 bg-transparent hover:text-slate-900 hover:bg-slate-200 disabled:opacity-40 focus:outline-none"
+                                    title="Answer this prompt again with a specific model"
+                                  >
+                                    <option value="">Regenerate with…</option>
+                                    {models.map(model => (
+                                      <option key={model.id} value={model.id}>
+                                        {model.speed} {model.name}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    onClick={() => setComparingMessageId(comparingMessageId === msg.id ? null : msg.id)}
+                                    disabled={isLoading}
+                                    className="px-2 py-0.5 rounded text-[11px] font-medium text-slate-500 hover:text-slate-900 hover:bg-slate-200 disabled:opacity-40"
+                                    title="Run this prompt against several models side by side"
+                                  >
+                                    ⚖️ Compare
+                                  </button>
+                                </div>
+                              )}
+
+                              {comparingMessageId === msg.id && (
+                                <CompareView
+                                  history={messages.slice(0, index).map(({ role, content }) => ({ role, content }))}
+                                  models={models}
+                                  initialModels={Array.from(new Set(
+                                    [msg.learningContext?.modelUsed, currentSettings.model].filter((id): id is string => Boolean(id))
+                                  ))}
+                                  conversationId={conversationId}
+                                  manualModeOverride={currentSettings.manualMode || undefined}
+                                  onClose={() => setComparingMessageId(null)}
+                                />
+                              )}
+
                               {/* Feedback Buttons - Continuous Learning UI - Now available for ALL modes! */}
                               {msg.decisionId && (
                                 <div className="flex gap-2 mt-2 ml-2">
@@ -0,0 +1,223 @@
+// components/CompareView.tsx
+'use client';
+import { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+
+interface CompareModel {
+  id: string;
+  name: string;
+  speed: string;
+}
+
+interface CompareResult {
+  model: string;
+  content?: string;
+  error?: string;
+  latencyMs: number;
+  tokens?: { prompt: number; completion: number; total: number; estimated: boolean };
+}
+
+interface Comparison {
+  comparisonId: string;
+  theme?: string;
+  complexity?: number;
+  temperature?: number;
+  maxTokens?: number;
+  results: CompareResult[];
+}
+
+interface CompareViewProps {
+  history: { role: 'user' | 'assistant'; content: string }[]; // Conversation up to and including the prompt
+  models: CompareModel[];
+  initialModels: string[]; // Pre-selected, e.g. the model that answered
+  conversationId: string | null;
+  manualModeOverride?: string;
+  onClose: () => void;
+}
+
+const MAX_COMPARE_MODELS = 4;
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Side-by-side answers to one prompt from 2-4 models, with latency, token
+ * counts and a "prefer" vote that feeds model selection
+ */
+export default function CompareView({
+  history,
+  models,
+  initialModels,
+  conversationId,
+  manualModeOverride,
+  onClose,
+}: CompareViewProps) {
+  const [selected, setSelected] = useState<string[]>(
+    initialModels.filter(id => models.some(m => m.id === id)).slice(0, MAX_COMPARE_MODELS)
+  );
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preferred, setPreferred] = useState<string | null>(null);
+
+  const toggleModel = (id: string) => {
+    setSelected(prev =>
+      prev.includes(id)
+        ? prev.filter(m => m !== id)
+        : prev.length < MAX_COMPARE_MODELS ? [...prev, id] : prev
+    );
+  };
+
+  const runComparison = async () => {
+    setRunning(true);
+    setError(null);
+    setComparison(null);
+    setPreferred(null);
+
+    try {
+      const response = await fetch('/api/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messages: history,
+          models: selected,
+          conversationId: conversationId || undefined,
+          manualModeOverride: manualModeOverride || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+
+      setComparison(data);
+    } catch (err) {
+      setError(`Comparison failed: ${(err as Error).message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handlePrefer = async (winner: string) => {
+    if (!comparison || preferred) return;
+    setPreferred(winner);
+
+    try {
+      const response = await fetch('/api/compare/preference', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          comparisonId: comparison.comparisonId,
+          winner,
+          // Failed answers aren't part of the vote
+          results: comparison.results
+            .filter(result => !result.error)
+            .map(({ model, latencyMs, tokens }) => ({ model, latencyMs, tokens })),
+          theme: comparison.theme,
+          complexity: comparison.complexity,
+          temperature: comparison.temperature,
+          maxTokens: comparison.maxTokens,
+        }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (err) {
+      console.error('[CompareView] Failed to record preference:', err);
+      setPreferred(null);
+    }
+  };
+
+  const modelName = (id: string) => models.find(m => m.id === id)?.name || id;
+  const answered = comparison?.results.filter(result => !result.error).length ?? 0;
+
+  return (
+    <div className="mt-3 p-4 rounded-2xl border-2 border-teal/50 bg-white/90 shadow-md space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-bold text-slate-900 tracking-wide">⚖️ Compare models</div>
+        <button
+          onClick={onClose}
+          className="px-2 py-0.5 rounded text-[11px] font-medium text-slate-500 hover:text-slate-900 hover:bg-slate-200"
+          title="Close comparison"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {models.map(model => (
+          <button
+            key={model.id}
+            onClick={() => toggleModel(model.id)}
+            disabled={running}
+            className={`px-2 py-1 rounded-lg text-[11px] font-bold border transition-all ${
+              selected.includes(model.id)
+                ? 'bg-teal text-white border-teal'
+                : 'bg-white text-slate-700 border-slate-900/30 hover:bg-slate-50'
+            } disabled:opacity-50`}
+          >
+            {model.speed} {model.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={runComparison}
+          disabled={running || selected.length < 2}
+          className="px-3 py-1.5 rounded-lg text-xs font-bold bg-linear-to-r from-cyan-light/80 to-teal/80 text-slate-900 border border-slate-900/50 hover:from-cyan-light hover:to-teal transition-all shadow-sm disabled:opacity-40"
+        >
+          {running ? 'Running...' : comparison ? 'Run again' : 'Compare'}
+        </button>
+        <span className="text-[11px] text-slate-500">
+          {selected.length < 2 ? `Pick 2-${MAX_COMPARE_MODELS} models` : `${selected.length} models, same prompt and context`}
+        </span>
+      </div>
+
+      {error && <div className="text-[11px] text-red-600">{error}</div>}
+
+      {comparison && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {comparison.results.map(result => (
+            <div
+              key={result.model}
+              className={`flex flex-col p-3 rounded-xl border-2 ${
+                preferred === result.model ? 'border-green-500 bg-green-50' : 'border-slate-200 bg-slate-50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="truncate text-xs font-bold text-slate-900" title={result.model}>
+                  {modelName(result.model)}
+                </span>
+                <span className="shrink-0 text-[10px] font-medium text-slate-500">
+                  {formatLatency(result.latencyMs)}
+                  {result.tokens && ` • ${result.tokens.estimated ? '~' : ''}${result.tokens.completion} tok (${result.tokens.total} total)`}
+                </span>
+              </div>
+
+              {result.error ? (
+                <div className="text-[11px] text-red-600">Error: {result.error}</div>
+              ) : (
+                <div className="prose prose-sm prose-slate max-w-none flex-1 max-h-96 overflow-y-auto text-sm">
+                  <ReactMarkdown>{result.content || ''}</ReactMarkdown>
+                </div>
+              )}
+
+              {!result.error && answered > 1 && (
+                <button
+                  onClick={() => handlePrefer(result.model)}
+                  disabled={preferred !== null}
+                  className={`mt-2 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                    preferred === result.model
+                      ? 'bg-green-500 text-white shadow-md'
+                      : 'bg-slate-200 text-slate-600 hover:bg-green-100 hover:text-green-700 disabled:opacity-40'
+                  }`}
+                  title="This answer is better - helps model selection learn"
+                >
+                  {preferred === result.model ? '✓ Preferred' : '👍 Prefer this'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+// components/ConversationList.tsx
+'use client';
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface ConversationSummaryItem {
+  id: string;
+  title: string;
+  updated_at: string;
+  tags?: string[];
+}
+
+interface ConversationListProps {
+  activeConversationId: string | null;
+  refreshKey: number; // Bumped by Chat when a reply is saved, so ordering and titles stay fresh
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const EXPORT_FORMATS = [
+  { format: 'markdown', label: 'MD', title: 'Markdown, for sharing' },
+  { format: 'json', label: 'JSON', title: 'Full JSON, can be re-imported' },
+  { format: 'jsonl', label: 'JSONL', title: 'Fine-tune JSONL (OpenAI chat format)' },
+];
+
+function formatUpdated(timestamp: string): string {
+  const date = new Date(timestamp);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+function parseTags(text: string): string[] {
+  return text.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Saved conversations: search, tag filter, rename, retag, resume, export, import and delete
+ */
+export default function ConversationList({
+  activeConversationId,
+  refreshKey,
+  onSelect,
+  onNew,
+}: ConversationListProps) {
+  const [conversations, setConversations] = useState<ConversationSummaryItem[]>([]);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftTags, setDraftTags] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadConversations = useCallback(async (query: string, tag: string | null) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (query) params.set('search', query);
+      if (tag) params.set('tag', tag);
+
+      const response = await fetch(`/api/conversations?${params}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setConversations(data.conversations || []);
+    } catch (error) {
+      console.warn('[ConversationList] Failed to load conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Debounce typing; reload immediately when the active chat or refreshKey changes
+  useEffect(() => {
+    const timer = setTimeout(() => loadConversations(search.trim(), tagFilter), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, tagFilter, activeConversationId, refreshKey, loadConversations]);
+
+  const startEditing = (conversation: ConversationSummaryItem) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+    setDraftTags((conversation.tags || []).join(', '));
+  };
+
+  const saveEdit = async (conversationId: string) => {
+    const title = draftTitle.trim();
+    if (!title) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, tags: parseTags(draftTags) }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const { conversation } = await response.json();
+      setConversations(prev => prev.map(c => (c.id === conversationId ? conversation : c)));
+      setEditingId(null);
+    } catch (error) {
+      console.error('[ConversationList] Failed to update conversation:', error);
+    }
+  };
+
+  const handleDelete = async (conversation: ConversationSummaryItem) => {
+    if (!confirm(`Delete "${conversation.title}"? Its messages and memories will be removed.`)) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok && response.status !== 404) throw new Error(`HTTP ${response.status}`);
+
+      setConversations(prev => prev.filter(c => c.id !== conversation.id));
+      if (conversation.id === activeConversationId) onNew();
+    } catch (error) {
+      console.error('[ConversationList] Failed to delete conversation:', error);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const response = await fetch('/api/conversations/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+
+      onSelect(data.conversation.id);
+    } catch (error) {
+      setImportError(`Import failed: ${(error as Error).message}`);
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          placeholder="Search chats..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="min-w-0 flex-1 px-2 py-1.5 rounded-lg text-xs border-2 border-slate-900/40 bg-white text-slate-900 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-teal/60 focus:border-teal/60"
+        />
+        <button
+          onClick={onNew}
+          className="px-2 py-1.5 rounded-lg text-xs font-bold bg-linear-to-r from-cyan-light/80 to-teal/80 text-slate-900 border border-slate-900/50 hover:from-cyan-light hover:to-teal transition-all shadow-sm hover:shadow-md"
+          title="Start a new chat"
+        >
+          ➕
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-2 py-1.5 rounded-lg text-xs font-bold bg-white/70 text-slate-900 border border-slate-900/50 hover:bg-white transition-all shadow-sm hover:shadow-md"
+          title="Import a JSON export"
+        >
+          📥
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      {importError && (
+        <div className="text-[11px] text-red-600">{importError}</div>
+      )}
+
+      {tagFilter && (
+        <button
+          onClick={() => setTagFilter(null)}
+          className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-slate-900 text-white"
+          title="Clear tag filter"
+        >
+          #{tagFilter} ✕
+        </button>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+        {conversations.length === 0 && (
+          <div className="text-[11px] text-slate-500 text-center py-2">
+            {loading ? 'Loading...' : search || tagFilter ? 'No matching chats' : 'No saved chats yet'}
+          </div>
+        )}
+
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+
+          if (editingId === conversation.id) {
+            return (
+              <div key={conversation.id} className="rounded-lg border-2 border-teal/60 bg-white p-2 space-y-1.5">
+                <input
+                  type="text"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveEdit(conversation.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  autoFocus
+                  className="w-full px-2 py-1 rounded text-xs border border-slate-900/40 text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal/60"
+                />
+                <input
+                  type="text"
+                  placeholder="tags, comma separated"
+                  value={draftTags}
+                  onChange={(e) => setDraftTags(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveEdit(conversation.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 rounded text-[11px] border border-slate-900/40 text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-teal/60"
+                />
+                <div className="flex gap-1.5">
+                  <button
+                    onClick={() => saveEdit(conversation.id)}
+                    className="flex-1 px-2 py-1 rounded text-[11px] font-bold bg-teal text-white hover:opacity-90"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-2 py-1 rounded text-[11px] font-bold border border-slate-900/40 text-slate-700 hover:bg-slate-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg border px-2 py-1.5 transition-all ${
+                isActive
+                  ? 'border-teal/70 bg-teal/10'
+                  : 'border-transparent hover:border-slate-900/30 hover:bg-white/70'
+              }`}
+            >
+              <div className="flex items-start gap-1">
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  className="min-w-0 flex-1 text-left"
+                  title={conversation.title}
+                >
+                  <div className="truncate text-xs font-bold text-slate-900">{conversation.title}</div>
+                  <div className="text-[10px] text-slate-500">{formatUpdated(conversation.updated_at)}</div>
+                </button>
+                <div className="flex shrink-0 gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => setExportingId(exportingId === conversation.id ? null : conversation.id)}
+                    className="px-1 text-[11px] text-slate-600 hover:text-slate-900"
+                    title="Export"
+                  >
+                    ⬇️
+                  </button>
+                  <button
+                    onClick={() => startEditing(conversation)}
+                    className="px-1 text-[11px] text-slate-600 hover:text-slate-900"
+                    title="Rename or tag"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    onClick={() => handleDelete(conversation)}
+                    className="px-1 text-[11px] text-red-600 hover:text-red-700"
+                    title="Delete chat"
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </div>
+              {exportingId === conversation.id && (
+                <div className="mt-1 flex gap-1">
+                  {EXPORT_FORMATS.map(({ format, label, title }) => (
+                    <a
+                      key={format}
+                      href={`/api/conversations/${encodeURIComponent(conversation.id)}/export?format=${format}`}
+                      download
+                      onClick={() => setExportingId(null)}
+                      className="px-1.5 py-0.5 rounded text-[10px] font-bold border border-slate-900/40 text-slate-700 hover:bg-white"
+                      title={title}
+                    >
+                      {label}
+                    </a>
+                  ))}
+                </div>
+              )}
+              {conversation.tags && conversation.tags.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {conversation.tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setTagFilter(tag)}
+                      className="px-1.5 py-0.5 rounded-full text-[10px] font-bold bg-slate-200 text-slate-700 hover:bg-slate-300"
+                      title={`Show chats tagged ${tag}`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 'use client';
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import ConversationList from './ConversationList';
 
 type StrategyType = 'balanced' | 'speed' | 'quality' | 'cost' | 'adaptive' | 'workflow';
 type WorkflowMode = 'auto' | 'chain' | 'ensemble';
@@ -35,12 +36,20 @@ interface LeftToolbarProps {
   models: ModelOption[];
   autoSelectedModel: string;
   onSettingsChange: (settings: ToolbarSettings) => void;
+  activeConversationId: string | null;
+  conversationsVersion: number;
+  onSelectConversation: (conversationId: string) => void;
+  onNewConversation: () => void;
 }
 
 export default function LeftToolbar({
   models,
   autoSelectedModel,
   onSettingsChange,
+  activeConversationId,
+  conversationsVersion,
+  onSelectConversation,
+  onNewConversation,
 }: LeftToolbarProps) {
   // LeftToolbar owns all settings state
   const [settings, setSettings] = useState<ToolbarSettings>({
@@ -54,6 +63,8 @@ export default function LeftToolbar({
     memoryConsent: false,
   });
 
+  const [chatsExpanded, setChatsExpanded] = useState(true);
+
   // Profile state
   const [profileExpanded, setProfileExpanded] = useState(false);
   const [profile, setProfile] = useState<UserProfile>({});
@@ -99,6 +110,14 @@ export default function LeftToolbar({
     loadProfile();
   }, [profileExpanded, settings.memoryConsent]);
 
+  // Keep the selected model valid once the installed list arrives
+  useEffect(() => {
+    if (models.length === 0) return;
+    setSettings(prev =>
+      models.some(m => m.id === prev.model) ? prev : { ...prev, model: models[0].id }
+    );
+  }, [models]);
+
   // Notify Chat whenever settings change
   useEffect(() => {
     onSettingsChange(settings);
@@ -263,6 +282,14 @@ export default function LeftToolbar({
               📊 Analytics
             </Link>
 
+            <Link
+              href="/memory"
+              className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold border-2 border-slate-900/50 bg-white/70 text-slate-900 hover:bg-white hover:border-slate-900/80 transition-all shadow-sm hover:shadow-md"
+              title="Browse, pin and forget memories"
+            >
+              🧠 Memory
+            </Link>
+
             <button
               onClick={() => updateSetting('strategyEnabled', !settings.strategyEnabled)}
               className={`${toggleStyle} ${
@@ -360,6 +387,29 @@ export default function LeftToolbar({
               🎙️ Voice {settings.voiceEnabled ? 'ON' : 'OFF'}
             </button>
 
+            {/* Saved Chats - Expandable */}
+            <div className="mt-3 rounded-2xl border-2 border-slate-900/30 bg-white/60 overflow-hidden">
+              <button
+                onClick={() => setChatsExpanded(!chatsExpanded)}
+                className="w-full flex items-center justify-between px-3 py-2 text-xs font-bold text-slate-900 hover:bg-white/70 cursor-pointer transition-all"
+                title="Saved conversations"
+              >
+                <span>💬 Chats</span>
+                <span className="text-lg">{chatsExpanded ? '▼' : '▶'}</span>
+              </button>
+
+              {chatsExpanded && (
+                <div className="px-3 pb-3 border-t border-slate-900/20 pt-2">
+                  <ConversationList
+                    activeConversationId={activeConversationId}
+                    refreshKey={conversationsVersion}
+                    onSelect={onSelectConversation}
+                    onNew={onNewConversation}
+                  />
+                </div>
+              )}
+            </div>
+
             {/* Profile Section - Expandable */}
             <div className="mt-3 rounded-2xl border-2 border-slate-900/30 bg-white/60 overflow-hidden">
               <button
@@ -477,6 +527,12 @@ export default function LeftToolbar({
         >
           📊 Analytics
         </Link>
+        <Link
+          href="/memory"
+          className="px-3 py-2 rounded-xl text-xs font-bold border-2 border-slate-900/50 bg-white/70 text-slate-900 shadow-sm"
+        >
+          🧠 Memory
+        </Link>
         <button
           onClick={() => updateSetting('strategyEnabled', !settings.strategyEnabled)}
           className={`${toggleStyle} ${
@@ -0,0 +1,386 @@
+'use client';
+import { useState, useEffect, useCallback } from 'react';
+
+interface MemoryItem {
+  id: string;
+  type: 'message' | 'conversation_summary' | 'user_profile';
+  conversation_id?: string;
+  conversation_title?: string;
+  role?: string;
+  content: string;
+  created_at: string;
+  embedding_status: 'pending' | 'success' | 'failed';
+  hit_count: number;
+  last_hit_at?: string;
+  pinned: boolean;
+}
+
+type Tab = 'all' | 'message' | 'conversation_summary' | 'user_profile' | 'pinned';
+
+const PAGE_SIZE = 50;
+const PREVIEW_LENGTH = 300;
+
+const TYPE_LABELS: Record<MemoryItem['type'], string> = {
+  message: 'Message',
+  conversation_summary: 'Summary',
+  user_profile: 'Profile',
+};
+
+const STATUS_STYLES: Record<MemoryItem['embedding_status'], string> = {
+  success: 'bg-green-100 text-green-700',
+  pending: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function MemoryBrowser() {
+  const [items, setItems] = useState<MemoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<Tab>('all');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async (offset: number) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+    if (activeTab === 'pinned') params.set('pinned', 'true');
+    else if (activeTab !== 'all') params.set('type', activeTab);
+    if (query) params.set('search', query);
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/memory/items?${params}`);
+      const result = await response.json();
+
+      if (response.ok) {
+        setItems(previous => (offset === 0 ? result.items : [...previous, ...result.items]));
+        setTotal(result.total);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load memories');
+      }
+    } catch (err) {
+      setError('Error fetching memories');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeTab, query]);
+
+  useEffect(() => {
+    fetchItems(0);
+  }, [fetchItems]);
+
+  const updateItem = async (item: MemoryItem, body: { pinned?: boolean; summary?: string }) => {
+    try {
+      setBusyId(item.id);
+      const response = await fetch(`/api/memory/items/${encodeURIComponent(item.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to update memory');
+        return false;
+      }
+      setItems(previous => previous.map(existing => (existing.id === item.id ? result.item : existing)));
+      return true;
+    } catch (err) {
+      setError('Error updating memory');
+      console.error(err);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const forgetItem = async (item: MemoryItem) => {
+    const what = item.type === 'message'
+      ? 'This message will no longer be retrieved as a memory (it stays in its conversation).'
+      : `The ${TYPE_LABELS[item.type].toLowerCase()} will be deleted.`;
+    if (!window.confirm(`Forget this memory? ${what}`)) return;
+
+    try {
+      setBusyId(item.id);
+      const response = await fetch(`/api/memory/items/${encodeURIComponent(item.id)}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || 'Failed to forget memory');
+        return;
+      }
+      setItems(previous => previous.filter(existing => existing.id !== item.id));
+      setTotal(previous => previous - 1);
+    } catch (err) {
+      setError('Error forgetting memory');
+      console.error(err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const forgetConversation = async (item: MemoryItem) => {
+    if (!item.conversation_id) return;
+    const title = item.conversation_title ? `"${item.conversation_title}"` : 'this conversation';
+    if (!window.confirm(`Forget every memory from ${title}? The conversation itself is kept.`)) return;
+
+    try {
+      setBusyId(item.id);
+      const response = await fetch(
+        `/api/memory/items?conversation_id=${encodeURIComponent(item.conversation_id)}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || 'Failed to forget conversation memories');
+        return;
+      }
+      await fetchItems(0);
+    } catch (err) {
+      setError('Error forgetting conversation memories');
+      console.error(err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveSummary = async (item: MemoryItem) => {
+    if (!draft.trim()) return;
+    if (await updateItem(item, { summary: draft })) {
+      setEditingId(null);
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border-2 border-slate-200 overflow-hidden">
+      {/* Header */}
+      <div className="bg-linear-to-r from-teal to-cyan-light p-6">
+        <h2 className="text-2xl font-bold text-white">Memory Browser</h2>
+        <p className="text-cyan-50 text-sm mt-1">
+          What the assistant remembers - pin what should always be included, edit summaries, forget the rest
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex border-b border-slate-200 bg-slate-50">
+        {[
+          { id: 'all', label: 'All' },
+          { id: 'message', label: 'Messages' },
+          { id: 'conversation_summary', label: 'Summaries' },
+          { id: 'user_profile', label: 'Profile' },
+          { id: 'pinned', label: 'Pinned' }
+        ].map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id as Tab)}
+            className={`flex-1 px-6 py-4 text-sm font-medium transition-all ${
+              activeTab === tab.id
+                ? 'text-teal border-b-2 border-teal bg-white'
+                : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'
+            }`}
+          >
+            {tab.label}
+            {activeTab === tab.id && (
+              <span className="ml-2 px-2 py-0.5 rounded-full bg-slate-200 text-xs">
+                {total}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Content */}
+      <div className="p-6 space-y-4">
+        <form
+          onSubmit={event => {
+            event.preventDefault();
+            setQuery(search.trim());
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={search}
+            onChange={event => setSearch(event.target.value)}
+            placeholder="Search memories or conversation titles..."
+            className="flex-1 px-4 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-teal"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-teal rounded-lg hover:opacity-90 transition-opacity"
+          >
+            Search
+          </button>
+        </form>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg">{error}</div>
+        )}
+
+        {items.length > 0 ? (
+          <div className="grid gap-3">
+            {items.map(item => {
+              const isExpanded = expanded.has(item.id);
+              const isLong = item.content.length > PREVIEW_LENGTH;
+              const isBusy = busyId === item.id;
+
+              return (
+                <div
+                  key={item.id}
+                  className={`p-4 rounded-lg border ${
+                    item.pinned ? 'bg-cyan-50/50 border-teal' : 'bg-slate-50 border-slate-200'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-4 mb-2">
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <span className="px-2 py-0.5 rounded-full bg-slate-200 font-semibold text-slate-700">
+                        {TYPE_LABELS[item.type]}
+                      </span>
+                      {item.pinned && (
+                        <span className="px-2 py-0.5 rounded-full bg-teal text-white font-semibold">📌 Pinned</span>
+                      )}
+                      <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[item.embedding_status]}`}>
+                        {item.embedding_status}
+                      </span>
+                      {item.conversation_title && (
+                        <span className="font-medium text-slate-700">{item.conversation_title}</span>
+                      )}
+                      {item.type === 'message' && item.role && (
+                        <span className="text-slate-500 uppercase">{item.role}</span>
+                      )}
+                      <span className="text-slate-400">{new Date(item.created_at).toLocaleString()}</span>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className="text-2xl font-bold text-teal">{item.hit_count}</div>
+                      <div className="text-xs text-slate-500">Retrievals</div>
+                    </div>
+                  </div>
+
+                  {editingId === item.id ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={draft}
+                        onChange={event => setDraft(event.target.value)}
+                        rows={8}
+                        className="w-full p-3 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-teal"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => saveSummary(item)}
+                          disabled={isBusy || !draft.trim()}
+                          className="px-3 py-1.5 text-xs font-medium text-white bg-teal rounded-lg hover:opacity-90 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-200 rounded-lg hover:bg-slate-300"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-slate-800 whitespace-pre-wrap wrap-break-word">
+                      {isLong && !isExpanded ? `${item.content.slice(0, PREVIEW_LENGTH)}…` : item.content}
+                      {isLong && (
+                        <button
+                          onClick={() => toggleExpanded(item.id)}
+                          className="ml-2 text-xs font-medium text-teal hover:underline"
+                        >
+                          {isExpanded ? 'Show less' : 'Show more'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                    <button
+                      onClick={() => updateItem(item, { pinned: !item.pinned })}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 font-medium text-teal border border-teal rounded-lg hover:bg-cyan-50 disabled:opacity-50"
+                    >
+                      {item.pinned ? 'Unpin' : 'Pin'}
+                    </button>
+                    {item.type === 'conversation_summary' && editingId !== item.id && (
+                      <button
+                        onClick={() => {
+                          setEditingId(item.id);
+                          setDraft(item.content);
+                        }}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 font-medium text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-100 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    <button
+                      onClick={() => forgetItem(item)}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Forget
+                    </button>
+                    {item.conversation_id && (
+                      <button
+                        onClick={() => forgetConversation(item)}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 font-medium text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        Forget whole conversation
+                      </button>
+                    )}
+                    {item.last_hit_at && (
+                      <span className="ml-auto text-slate-400">
+                        Last retrieved {new Date(item.last_hit_at).toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          !loading && (
+            <div className="text-center text-slate-400 py-8">
+              No memories yet. Messages show up here once they have been embedded.
+            </div>
+          )
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center p-6">
+            <div className="text-slate-500 text-sm">Loading memories...</div>
+          </div>
+        )}
+
+        {!loading && items.length < total && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => fetchItems(items.length)}
+              className="px-4 py-2 text-sm font-medium text-teal border border-teal rounded-lg hover:bg-cyan-50"
+            >
+              Load more ({total - items.length} remaining)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
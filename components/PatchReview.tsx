@@ -0,0 +1,198 @@
+// components/PatchReview.tsx
+'use client';
+import { useState } from 'react';
+import type { DiffHunk, FilePatch } from '@/app/lib/tools/patches';
+
+export interface PatchProposal {
+  proposal_id: string;
+  summary?: string;
+  files: FilePatch[];
+}
+
+type HunkStatus = 'pending' | 'applying' | 'accepted' | 'rejected' | 'error';
+
+interface DiffRow {
+  left?: { number: number; text: string; changed: boolean };
+  right?: { number: number; text: string; changed: boolean };
+}
+
+/**
+ * Parse a propose_patch tool result, or undefined if it isn't one
+ */
+export function parsePatchProposal(result: string | undefined): PatchProposal | undefined {
+  if (!result) return undefined;
+  try {
+    const parsed = JSON.parse(result);
+    return parsed?.status === 'proposed' && typeof parsed.proposal_id === 'string' && Array.isArray(parsed.files)
+      ? parsed
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pair removed/added runs so a hunk reads as old | new columns
+ */
+function toSideBySide(hunk: DiffHunk): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let oldNumber = hunk.oldStart;
+  let newNumber = hunk.newStart;
+  let removed: DiffRow['left'][] = [];
+  let added: DiffRow['right'][] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === 'remove') {
+      removed.push({ number: oldNumber++, text: line.text, changed: true });
+    } else if (line.type === 'add') {
+      added.push({ number: newNumber++, text: line.text, changed: true });
+    } else {
+      flush();
+      rows.push({
+        left: { number: oldNumber++, text: line.text, changed: false },
+        right: { number: newNumber++, text: line.text, changed: false }
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+function DiffCell({ cell, side }: { cell?: DiffRow['left']; side: 'left' | 'right' }) {
+  const changedClass = side === 'left' ? 'bg-red-100 text-red-900' : 'bg-green-100 text-green-900';
+  return (
+    <>
+      <td className="w-10 select-none pr-2 text-right align-top text-slate-400">{cell?.number ?? ''}</td>
+      <td className={`whitespace-pre-wrap break-all align-top pr-2 ${cell?.changed ? changedClass : ''} ${cell ? '' : 'bg-slate-100'}`}>
+        {cell ? (cell.changed ? (side === 'left' ? '- ' : '+ ') : '  ') + cell.text : ''}
+      </td>
+    </>
+  );
+}
+
+const STATUS_LABELS: Record<HunkStatus, string> = {
+  pending: '',
+  applying: 'Applying…',
+  accepted: '✅ Written to disk',
+  rejected: '✖ Rejected',
+  error: '❌ Failed'
+};
+
+interface PatchReviewProps {
+  proposal: PatchProposal;
+}
+
+/**
+ * Side-by-side review of a proposed patch
+ * Each hunk is written to disk only when accepted
+ */
+export default function PatchReview({ proposal }: PatchReviewProps) {
+  const [statuses, setStatuses] = useState<Record<string, { status: HunkStatus; error?: string }>>({});
+
+  const keyFor = (fileIndex: number, hunkIndex: number) => `${fileIndex}:${hunkIndex}`;
+
+  const setStatus = (key: string, status: HunkStatus, error?: string) => {
+    setStatuses(prev => ({ ...prev, [key]: { status, error } }));
+  };
+
+  const acceptHunk = async (file: FilePatch, fileIndex: number, hunkIndex: number) => {
+    const key = keyFor(fileIndex, hunkIndex);
+    setStatus(key, 'applying');
+
+    try {
+      const res = await fetch('/api/tools/patches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ proposalId: proposal.proposal_id, path: file.path, hunks: [hunkIndex] })
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        const detail = data.issues?.map((issue: { message: string }) => issue.message).join('; ');
+        throw new Error(detail || data.error || `HTTP ${res.status}`);
+      }
+      setStatus(key, 'accepted');
+    } catch (error) {
+      console.error('[PatchReview] Apply error:', error);
+      setStatus(key, 'error', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-3">
+      {proposal.summary && (
+        <p className="text-xs font-medium text-slate-700">{proposal.summary}</p>
+      )}
+
+      {proposal.files.map((file, fileIndex) => (
+        <div key={file.path} className="rounded-lg border-2 border-slate-200 bg-white overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 border-b border-slate-200 text-xs font-bold text-slate-800">
+            <span className="font-mono truncate">{file.path}</span>
+            {file.kind !== 'modify' && (
+              <span className="px-1.5 py-0.5 rounded bg-slate-800 text-white text-[10px] uppercase">{file.kind}</span>
+            )}
+          </div>
+
+          {file.hunks.map((hunk, hunkIndex) => {
+            const key = keyFor(fileIndex, hunkIndex);
+            const { status, error } = statuses[key] || { status: 'pending' as HunkStatus };
+
+            return (
+              <div key={key} className="border-b border-slate-200 last:border-b-0">
+                <div className="flex items-center gap-2 px-3 py-1 bg-slate-100 text-[11px] text-slate-500 font-mono">
+                  <span className="truncate">{hunk.header}</span>
+                  <span className="ml-auto flex items-center gap-2 font-sans font-bold whitespace-nowrap">
+                    {status === 'pending' || status === 'error' ? (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => acceptHunk(file, fileIndex, hunkIndex)}
+                          className="px-2 py-0.5 rounded bg-teal text-white hover:opacity-90 transition-opacity"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setStatus(key, 'rejected')}
+                          className="px-2 py-0.5 rounded border border-red-300 text-red-600 hover:bg-red-50 transition-colors"
+                        >
+                          Reject
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-slate-600">{STATUS_LABELS[status]}</span>
+                    )}
+                  </span>
+                </div>
+
+                {error && <p className="px-3 py-1 text-xs text-red-600 font-medium">{error}</p>}
+
+                <div className={`overflow-x-auto ${status === 'rejected' ? 'opacity-40' : ''}`}>
+                  <table className="w-full table-fixed border-collapse font-mono text-[11px] leading-snug">
+                    <tbody>
+                      {toSideBySide(hunk).map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                          <DiffCell cell={row.left} side="left" />
+                          <DiffCell cell={row.right} side="right" />
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+// components/RetrievalTrace.tsx
+'use client';
+import { useState } from 'react';
+
+// Mirrors RetrievalTrace in app/lib/memory/schemas.ts (sent in the reply's metadata)
+export interface RetrievalTraceEntry {
+  id: string;
+  source: 'message' | 'conversation_summary' | 'user_profile';
+  role: string;
+  conversation_id?: string;
+  conversation_title?: string;
+  preview: string;
+  matched_by: Array<'dense' | 'fts' | 'pinned'>;
+  dense_similarity?: number;
+  fts_score?: number;
+  code_match?: boolean;
+  rank_score?: number;
+  chunk?: { index: number; count: number };
+  injected: 'full' | 'snippet' | 'dropped';
+}
+
+export interface RetrievalTraceData {
+  query: string;
+  hybrid: boolean;
+  token_budget: number;
+  tokens_used: number;
+  entries: RetrievalTraceEntry[];
+}
+
+const SOURCE_LABELS: Record<RetrievalTraceEntry['source'], string> = {
+  message: 'Message',
+  conversation_summary: 'Summary',
+  user_profile: 'Profile',
+};
+
+const INJECTED_STYLES: Record<RetrievalTraceEntry['injected'], string> = {
+  full: 'bg-green-100 text-green-700',
+  snippet: 'bg-amber-100 text-amber-700',
+  dropped: 'bg-slate-200 text-slate-500',
+};
+
+const INJECTED_LABELS: Record<RetrievalTraceEntry['injected'], string> = {
+  full: 'Injected',
+  snippet: 'Injected (snippet)',
+  dropped: 'Dropped (no room)',
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+/**
+ * "🧠 3 memories" button with a popover showing why each memory was injected:
+ * which search found it, its dense similarity, BM25 score, code identifier match
+ * and final reranked score
+ */
+export default function RetrievalTrace({ trace }: { trace: RetrievalTraceData }) {
+  const [open, setOpen] = useState(false);
+  const injected = trace.entries.filter(entry => entry.injected !== 'dropped').length;
+
+  return (
+    <div className="relative inline-block">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-2 py-0.5 rounded text-[11px] font-medium text-slate-500 hover:text-slate-900 hover:bg-slate-200"
+        title="Why these memories were added to the prompt"
+      >
+        🧠 {injected}/{trace.entries.length} memories
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-1 z-40 w-md max-w-[90vw] max-h-112 overflow-y-auto bg-white rounded-xl shadow-xl border-2 border-slate-200 text-xs">
+          <div className="sticky top-0 flex items-start justify-between gap-2 p-3 bg-slate-50 border-b border-slate-200">
+            <div>
+              <div className="font-bold text-slate-900">Retrieval trace</div>
+              <div className="text-slate-500 mt-0.5">
+                {trace.hybrid ? 'Hybrid (dense + FTS, reranked)' : 'Dense only'} •{' '}
+                {trace.tokens_used}/{trace.token_budget} tokens
+              </div>
+            </div>
+            <button
+              onClick={() => setOpen(false)}
+              className="px-1.5 rounded text-slate-400 hover:text-slate-900 hover:bg-slate-200"
+              title="Close"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="divide-y divide-slate-100">
+            {trace.entries.map(entry => (
+              <div key={entry.id} className="p-3 space-y-1.5">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="px-1.5 py-0.5 rounded bg-slate-200 font-semibold text-slate-700">
+                    {SOURCE_LABELS[entry.source]}
+                  </span>
+                  <span className={`px-1.5 py-0.5 rounded ${INJECTED_STYLES[entry.injected]}`}>
+                    {INJECTED_LABELS[entry.injected]}
+                  </span>
+                  {entry.matched_by.map(match => (
+                    <span key={match} className="px-1.5 py-0.5 rounded border border-slate-200 text-slate-500">
+                      {match === 'fts' ? 'FTS' : match === 'dense' ? 'Dense' : '📌 Pinned'}
+                    </span>
+                  ))}
+                  {entry.chunk && (
+                    <span className="text-slate-400">chunk {entry.chunk.index + 1}/{entry.chunk.count}</span>
+                  )}
+                </div>
+
+                {entry.conversation_title && (
+                  <div className="font-medium text-slate-700 truncate">{entry.conversation_title}</div>
+                )}
+
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  <div>
+                    <div className="text-slate-400">Dense</div>
+                    <div className="font-bold text-teal">
+                      {entry.dense_similarity !== undefined ? percent(entry.dense_similarity) : '–'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-400">BM25</div>
+                    <div className="font-bold text-teal">
+                      {entry.fts_score !== undefined ? entry.fts_score.toFixed(2) : '–'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-400">Code</div>
+                    <div className="font-bold text-teal">
+                      {entry.code_match === undefined ? '–' : entry.code_match ? '✓' : '✗'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-400">Rank</div>
+                    <div className="font-bold text-teal">
+                      {entry.rank_score !== undefined ? entry.rank_score.toFixed(3) : '–'}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="text-slate-600 whitespace-pre-wrap wrap-break-word">
+                  <span className="font-semibold uppercase text-slate-400">{entry.role}: </span>
+                  {entry.preview}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
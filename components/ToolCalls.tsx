@@ -0,0 +1,226 @@
+// components/ToolCalls.tsx
+'use client';
+import { useState } from 'react';
+import type { ToolAttachment } from '@/app/lib/tools/types';
+import PatchReview, { parsePatchProposal } from './PatchReview';
+
+export interface ToolRun {
+  id: string;
+  name: string;
+  arguments: string;
+  status: 'awaiting_approval' | 'running' | 'done' | 'denied';
+  result?: string;
+  attachments?: ToolAttachment[];
+  approvalId?: string;
+}
+
+export type ToolEvent =
+  | { type: 'tool_call'; id: string; name?: string; arguments?: string }
+  | { type: 'tool_result'; id: string; name?: string; content?: string; attachments?: ToolAttachment[] }
+  | { type: 'tool_approval_required'; id: string; approvalId: string; name?: string; arguments?: unknown }
+  | { type: 'tool_approval_resolved'; id: string; approvalId: string; approved: boolean };
+
+export type ToolApprovalDecision = 'approve' | 'deny' | 'always';
+
+/**
+ * Fold a streamed tool event into the message's tool runs
+ */
+export function applyToolEvent(runs: ToolRun[] | undefined, event: ToolEvent): ToolRun[] {
+  const current = runs || [];
+
+  switch (event.type) {
+    case 'tool_call':
+      return [
+        ...current,
+        { id: event.id, name: event.name || 'tool', arguments: event.arguments || '{}', status: 'running' }
+      ];
+    case 'tool_approval_required':
+      return current.map(run =>
+        run.id === event.id
+          ? {
+              ...run,
+              status: 'awaiting_approval',
+              approvalId: event.approvalId,
+              // Show the validated arguments (defaults applied) the user is approving
+              arguments: event.arguments !== undefined ? JSON.stringify(event.arguments) : run.arguments
+            }
+          : run
+      );
+    case 'tool_approval_resolved':
+      return current.map(run =>
+        run.id === event.id ? { ...run, status: event.approved ? 'running' : 'denied' } : run
+      );
+    case 'tool_result':
+      return current.map(run =>
+        run.id === event.id
+          ? {
+              ...run,
+              status: run.status === 'denied' ? 'denied' : 'done',
+              result: event.content,
+              attachments: event.attachments
+            }
+          : run
+      );
+    default:
+      return current;
+  }
+}
+
+const STATUS_LABELS: Record<ToolRun['status'], string> = {
+  awaiting_approval: 'needs approval',
+  running: 'running…',
+  done: 'done',
+  denied: 'denied'
+};
+
+const STATUS_ICONS: Record<ToolRun['status'], string> = {
+  awaiting_approval: '✋',
+  running: '⚙️',
+  done: '🛠️',
+  denied: '🚫'
+};
+
+function formatJSON(value: string | undefined): string {
+  if (!value) return '';
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Diff review for a successful propose_patch result (shown without expanding the run)
+ */
+function ProposedPatch({ result }: { result?: string }) {
+  const proposal = parsePatchProposal(result);
+  if (!proposal) return null;
+
+  return (
+    <div className="px-3 pb-3">
+      <PatchReview proposal={proposal} />
+    </div>
+  );
+}
+
+/**
+ * Images (e.g. matplotlib figures) inline, anything else as a download link
+ */
+function Attachments({ attachments }: { attachments?: ToolAttachment[] }) {
+  if (!attachments?.length) return null;
+
+  return (
+    <div className="px-3 pb-3 space-y-2">
+      {attachments.map(attachment => {
+        const src = `data:${attachment.mimeType};base64,${attachment.data}`;
+        return attachment.mimeType.startsWith('image/') ? (
+          // eslint-disable-next-line @next/next/no-img-element -- data URL, nothing for next/image to optimise
+          <img
+            key={attachment.name}
+            src={src}
+            alt={attachment.name}
+            className="max-w-full rounded-lg border border-slate-200 bg-white"
+          />
+        ) : (
+          <a
+            key={attachment.name}
+            href={src}
+            download={attachment.name}
+            className="block text-xs font-bold text-teal underline"
+          >
+            {attachment.name} ({attachment.size} bytes)
+          </a>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ToolCallsProps {
+  runs: ToolRun[];
+  onApprovalDecision?: (run: ToolRun, decision: ToolApprovalDecision) => void;
+}
+
+/**
+ * Collapsible list of tools the model ran while answering
+ * Runs waiting for approval stay expanded with approve/deny controls
+ */
+export default function ToolCalls({ runs, onApprovalDecision }: ToolCallsProps) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const isExpanded = (run: ToolRun) => expanded[run.id] ?? run.status === 'awaiting_approval';
+
+  return (
+    <div className="mb-3 space-y-2">
+      {runs.map(run => (
+        <div
+          key={run.id}
+          className={`rounded-xl border-2 bg-white/70 ${
+            run.status === 'awaiting_approval' ? 'border-amber-400' : 'border-slate-200'
+          }`}
+        >
+          <button
+            type="button"
+            onClick={() => setExpanded(prev => ({ ...prev, [run.id]: !isExpanded(run) }))}
+            className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs font-bold text-slate-800 hover:bg-slate-50 rounded-xl transition-colors"
+          >
+            <span className={run.status === 'running' ? 'animate-spin' : ''}>
+              {STATUS_ICONS[run.status]}
+            </span>
+            <span className="font-mono">{run.name}</span>
+            <span className="ml-auto font-medium text-slate-500">
+              {STATUS_LABELS[run.status]} {isExpanded(run) ? '▾' : '▸'}
+            </span>
+          </button>
+
+          {run.name === 'propose_patch' && <ProposedPatch result={run.result} />}
+          <Attachments attachments={run.attachments} />
+
+          {isExpanded(run) && (
+            <div className="px-3 pb-3 space-y-2">
+              <div>
+                <div className="text-[10px] font-bold uppercase tracking-wide text-slate-500 mb-1">Arguments</div>
+                <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap text-xs text-slate-700 font-mono bg-slate-50 p-2 rounded-lg border border-slate-200">
+                  {formatJSON(run.arguments)}
+                </pre>
+              </div>
+              {run.status === 'awaiting_approval' && onApprovalDecision && (
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onApprovalDecision(run, 'approve')}
+                    className="px-3 py-1.5 rounded-lg bg-teal text-white text-xs font-bold hover:opacity-90 transition-opacity"
+                  >
+                    Run once
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onApprovalDecision(run, 'always')}
+                    className="px-3 py-1.5 rounded-lg border-2 border-teal text-teal text-xs font-bold hover:bg-teal/10 transition-colors"
+                  >
+                    Always allow in this chat
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onApprovalDecision(run, 'deny')}
+                    className="px-3 py-1.5 rounded-lg border-2 border-red-300 text-red-600 text-xs font-bold hover:bg-red-50 transition-colors"
+                  >
+                    Deny
+                  </button>
+                </div>
+              )}
+              {run.result !== undefined && (
+                <div>
+                  <div className="text-[10px] font-bold uppercase tracking-wide text-slate-500 mb-1">Result</div>
+                  <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap text-xs text-slate-700 font-mono bg-slate-50 p-2 rounded-lg border border-slate-200">
+                    {formatJSON(run.result)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+// components/WorkflowSteps.tsx
+'use client';
+import { useState } from 'react';
+import type { WorkflowEvent } from '@/app/lib/strategy/workflows/events';
+
+export interface WorkflowStep {
+  index: number;
+  model: string;
+  role: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  output: string;
+  tokensUsed?: number;
+  confidence?: number;
+  timeMs?: number;
+  error?: string;
+  vote?: {
+    verdict?: string;
+    reasoning?: string;
+    risk_level?: string;
+  };
+}
+
+export interface WorkflowProgress {
+  workflow: 'chain' | 'ensemble';
+  steps: WorkflowStep[];
+  done: boolean;
+  tokensUsed?: number;
+  executionTime?: number;
+}
+
+/**
+ * Fold a streamed workflow event into the message's progress state
+ */
+export function applyWorkflowEvent(
+  progress: WorkflowProgress | undefined,
+  event: WorkflowEvent
+): WorkflowProgress | undefined {
+  if (event.type === 'workflow_start') {
+    return {
+      workflow: event.workflow,
+      done: false,
+      steps: event.steps.map((s, index) => ({
+        index,
+        model: s.model,
+        role: s.role,
+        status: 'pending',
+        output: ''
+      }))
+    };
+  }
+
+  if (!progress) return progress;
+
+  if (event.type === 'workflow_end') {
+    return {
+      ...progress,
+      done: true,
+      tokensUsed: event.tokensUsed,
+      executionTime: event.executionTime
+    };
+  }
+
+  const updateStep = (index: number, update: (step: WorkflowStep) => WorkflowStep) => ({
+    ...progress,
+    steps: progress.steps.map(step => (step.index === index ? update(step) : step))
+  });
+
+  switch (event.type) {
+    case 'step_start':
+      return updateStep(event.index, step => ({ ...step, status: 'running' }));
+    case 'step_delta':
+      return updateStep(event.index, step => ({ ...step, output: step.output + event.delta }));
+    case 'step_end':
+      return updateStep(event.index, step => ({
+        ...step,
+        status: event.error ? 'error' : 'done',
+        tokensUsed: event.tokensUsed,
+        confidence: event.confidence,
+        timeMs: event.timeMs,
+        error: event.error
+      }));
+    case 'vote':
+      return updateStep(event.index, step => ({
+        ...step,
+        status: event.error ? 'error' : 'done',
+        output: event.reasoning || step.output,
+        tokensUsed: event.tokensUsed,
+        confidence: event.confidence,
+        timeMs: event.timeMs,
+        error: event.error,
+        vote: {
+          verdict: event.verdict,
+          reasoning: event.reasoning,
+          risk_level: event.risk_level
+        }
+      }));
+    default:
+      return progress;
+  }
+}
+
+const STATUS_ICONS: Record<WorkflowStep['status'], string> = {
+  pending: '⏳',
+  running: '⚙️',
+  done: '✅',
+  error: '❌'
+};
+
+interface WorkflowStepsProps {
+  progress: WorkflowProgress;
+}
+
+/**
+ * Collapsible per-step panels for chain/ensemble workflows
+ * Running steps stay expanded so streamed tokens are visible; finished steps collapse
+ */
+export default function WorkflowSteps({ progress }: WorkflowStepsProps) {
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+
+  const isExpanded = (step: WorkflowStep) =>
+    overrides[step.index] ?? step.status === 'running';
+
+  const toggle = (step: WorkflowStep) => {
+    setOverrides(prev => ({ ...prev, [step.index]: !isExpanded(step) }));
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex items-center justify-between text-[11px] font-bold uppercase tracking-wide text-slate-500">
+        <span>
+          {progress.workflow === 'chain' ? '🔗 Chain workflow' : '🗳️ Ensemble vote'}
+        </span>
+        {progress.done && (
+          <span className="normal-case font-medium">
+            {Math.round(progress.tokensUsed || 0)} tokens · {((progress.executionTime || 0) / 1000).toFixed(1)}s
+          </span>
+        )}
+      </div>
+
+      {progress.steps.map(step => (
+        <div
+          key={step.index}
+          className={`rounded-xl border-2 bg-white/70 ${
+            step.status === 'error' ? 'border-red-300' : 'border-slate-200'
+          }`}
+        >
+          <button
+            type="button"
+            onClick={() => toggle(step)}
+            className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs font-bold text-slate-800 hover:bg-slate-50 rounded-xl transition-colors"
+          >
+            <span className={step.status === 'running' ? 'animate-spin' : ''}>
+              {STATUS_ICONS[step.status]}
+            </span>
+            <span className="capitalize">{step.role}</span>
+            <span className="font-mono font-normal text-slate-500 truncate">{step.model}</span>
+            {step.vote?.verdict && (
+              <span className="px-1.5 py-0.5 rounded bg-slate-800 text-white text-[10px]">
+                {step.vote.verdict}
+                {step.vote.risk_level ? ` · ${step.vote.risk_level}` : ''}
+              </span>
+            )}
+            <span className="ml-auto flex gap-2 font-medium text-slate-500 whitespace-nowrap">
+              {step.tokensUsed !== undefined && <span>{Math.round(step.tokensUsed)}t</span>}
+              {step.confidence !== undefined && <span>conf {step.confidence.toFixed(2)}</span>}
+              {step.timeMs !== undefined && <span>{(step.timeMs / 1000).toFixed(1)}s</span>}
+              <span>{isExpanded(step) ? '▾' : '▸'}</span>
+            </span>
+          </button>
+
+          {isExpanded(step) && (
+            <div className="px-3 pb-3">
+              {step.error ? (
+                <p className="text-xs text-red-600 font-medium">{step.error}</p>
+              ) : (
+                <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap text-xs text-slate-700 font-mono bg-slate-50 p-2 rounded-lg border border-slate-200">
+                  {step.output || (step.status === 'pending' ? 'Waiting…' : '…')}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
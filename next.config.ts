@@ -31,6 +31,9 @@ const nextConfig: NextConfig = {
     ];
   },
 
+  // code_exec transpiles TypeScript at runtime; load the compiler from node_modules instead of bundling it
+  serverExternalPackages: ['typescript'],
+
   transpilePackages: ['ai', 'openai']
 };
 
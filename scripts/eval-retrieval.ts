@@ -0,0 +1,148 @@
+#!/usr/bin/env tsx
+// scripts/eval-retrieval.ts
+// Score dense-only, FTS-only and hybrid retrieval against a labeled query set
+// Usage: tsx scripts/eval-retrieval.ts --queries eval/queries.jsonl [--k 5] [--grid]
+// Each line of the query set: {"query": "...", "relevant_ids": ["<message id>"], "conversation_id": "..."}
+
+import { readFileSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { initializeStorage, getStorage } from '../app/lib/memory';
+import { getMemoryConfig } from '../app/lib/memory/config';
+import { getSharedEmbeddings } from '../app/lib/memory/rag/embeddings';
+import { createVectorStore } from '../app/lib/memory/rag';
+import { RerankWeights } from '../app/lib/memory/rag/rerank';
+import { logRetrievalEvalResults } from '../app/lib/memory/metrics';
+import {
+  EvalResult,
+  collectCandidates,
+  compareEvalResults,
+  evaluateMode,
+  parseEvalQueries,
+  rerankWeightGrid,
+} from '../app/lib/memory/rag/evaluation';
+
+const GRID_TOP = 10;
+
+function flagValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function numberFlag(flag: string, fallback: number, isValid: (value: number) => boolean): number {
+  const raw = flagValue(flag);
+  if (raw === undefined) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || !isValid(value)) {
+    throw new Error(`${flag} got an invalid value '${raw}'`);
+  }
+  return value;
+}
+
+function formatWeights(weights?: RerankWeights): string {
+  return weights
+    ? `α=${weights.alpha.toFixed(2)} β=${weights.beta.toFixed(2)} γ=${weights.gamma.toFixed(2)}`
+    : '';
+}
+
+function printTable(k: number, results: EvalResult[]) {
+  console.log(`   ${'mode'.padEnd(8)}${'rerank'.padEnd(26)}${`recall@${k}`.padStart(10)}${'MRR'.padStart(8)}${`nDCG@${k}`.padStart(10)}`);
+  for (const result of results) {
+    console.log(
+      `   ${result.mode.padEnd(8)}${formatWeights(result.weights).padEnd(26)}` +
+      `${result.recall.toFixed(3).padStart(10)}${result.mrr.toFixed(3).padStart(8)}${result.ndcg.toFixed(3).padStart(10)}`
+    );
+  }
+}
+
+async function evalRetrieval() {
+  const queriesPath = flagValue('--queries');
+  if (!queriesPath) {
+    throw new Error('--queries <path to JSONL query set> is required');
+  }
+
+  const config = getMemoryConfig();
+  const k = numberFlag('--k', 5, value => Number.isInteger(value) && value > 0);
+  const candidatesPerSearch = numberFlag('--candidates', Math.max(20, k * 4), value => Number.isInteger(value) && value >= k);
+  const weights: RerankWeights = {
+    alpha: numberFlag('--alpha', config.ragRerankAlpha, value => value >= 0 && value <= 1),
+    beta: numberFlag('--beta', config.ragRerankBeta, value => value >= 0 && value <= 1),
+    gamma: numberFlag('--gamma', config.ragRerankGamma, value => value >= 0 && value <= 1),
+  };
+  if (Math.abs(weights.alpha + weights.beta + weights.gamma - 1) > 0.01) {
+    throw new Error('--alpha, --beta and --gamma must sum to 1');
+  }
+  const grid = process.argv.includes('--grid');
+  const step = numberFlag('--step', 0.1, value => value > 0 && value <= 0.5);
+  const save = !process.argv.includes('--no-save');
+
+  const queries = parseEvalQueries(readFileSync(queriesPath, 'utf-8'));
+  if (queries.length === 0) {
+    throw new Error(`${queriesPath} has no queries`);
+  }
+
+  console.log(`🔎 Evaluating retrieval on ${queries.length} queries from ${queriesPath} (k=${k})...\n`);
+
+  await initializeStorage();
+  const embeddings = getSharedEmbeddings();
+  const store = createVectorStore(embeddings);
+  // Read-only: an index built with another embedding model is an error, never cleared
+  await store.initialize({ keepExisting: true });
+
+  // Labels pointing at messages that were deleted or never stored can't be found
+  const storage = getStorage();
+  const missing = new Set(
+    queries.flatMap(query => query.relevant_ids).filter(id => !storage.getMessage(id))
+  );
+  if (missing.size > 0) {
+    console.warn(`⚠️  ${missing.size} relevant id(s) not in the database: ${Array.from(missing).slice(0, 5).join(', ')}${missing.size > 5 ? ', ...' : ''}\n`);
+  }
+
+  const candidates = await collectCandidates(store, queries, candidatesPerSearch);
+
+  const results: EvalResult[] = [
+    evaluateMode(candidates, 'dense', k),
+    evaluateMode(candidates, 'fts', k),
+    evaluateMode(candidates, 'hybrid', k, weights),
+  ];
+  printTable(k, results);
+
+  if (grid) {
+    const gridResults = rerankWeightGrid(step)
+      .map(gridWeights => evaluateMode(candidates, 'hybrid', k, gridWeights))
+      .sort(compareEvalResults);
+
+    console.log(`\n📊 Rerank grid (step ${step}, ${gridResults.length} combinations), best ${Math.min(GRID_TOP, gridResults.length)}:`);
+    printTable(k, gridResults.slice(0, GRID_TOP));
+    results.push(...gridResults);
+  }
+
+  if (save) {
+    const runId = `eval-${randomUUID().slice(0, 8)}`;
+    const saved = await logRetrievalEvalResults(
+      {
+        runId,
+        querySet: queriesPath,
+        queryCount: queries.length,
+        k,
+        vectorStore: config.vectorStore,
+        embeddingModel: (await embeddings.getProviderInfo()).model,
+      },
+      results.map(result => ({
+        mode: result.mode,
+        rerank: result.weights,
+        recall: result.recall,
+        mrr: result.mrr,
+        ndcg: result.ndcg,
+      }))
+    );
+    console.log(`\n✅ Saved ${saved} results to retrieval_eval_results (run ${runId})\n`);
+  } else {
+    console.log('');
+  }
+}
+
+evalRetrieval().catch(error => {
+  console.error('❌ Retrieval evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+// scripts/migrate-vectors.ts
+// Copy stored embeddings between vector store backends without re-embedding
+// Usage: tsx scripts/migrate-vectors.ts --from chroma --to sqlite
+// Then set VECTOR_STORE to the target backend and restart the app.
+// Run it with the embedding provider and model the source was built with; it refuses otherwise.
+
+import { initializeStorage } from '../app/lib/memory';
+import { getSharedEmbeddings } from '../app/lib/memory/rag/embeddings';
+import { createVectorStore } from '../app/lib/memory/rag';
+import { describeVectorStoreMeta, vectorStoreMetaMismatch } from '../app/lib/memory/rag/vectorStore';
+import { MemoryConfig } from '../app/lib/memory/config';
+
+type Backend = MemoryConfig['vectorStore'];
+
+const BACKENDS: Backend[] = ['chroma', 'sqlite'];
+const PAGE_SIZE = 500;
+
+function parseBackend(flag: string): Backend {
+  const index = process.argv.indexOf(flag);
+  const value = index === -1 ? undefined : process.argv[index + 1];
+  if (!value || !BACKENDS.includes(value as Backend)) {
+    throw new Error(`${flag} must be one of: ${BACKENDS.join(', ')}`);
+  }
+  return value as Backend;
+}
+
+async function migrateVectors() {
+  const from = parseBackend('--from');
+  const to = parseBackend('--to');
+  if (from === to) {
+    throw new Error('--from and --to must be different backends');
+  }
+
+  console.log(`🔄 Copying vectors from ${from} to ${to}...\n`);
+
+  await initializeStorage();
+  const embeddings = getSharedEmbeddings();
+  const source = createVectorStore(embeddings, undefined, undefined, undefined, from);
+  const target = createVectorStore(embeddings, undefined, undefined, undefined, to);
+
+  // The target is stamped with the current provider, so the source's vectors must come from it too
+  const { count: total } = await source.getStats();
+  const sourceMeta = source.getStoredMeta();
+  const provider = await embeddings.getProviderInfo();
+  const currentMeta = {
+    collection_name: sourceMeta?.collection_name ?? '',
+    embedding_provider: provider.provider,
+    embedding_model: provider.model,
+    embedding_dimension: provider.dimension,
+  };
+  if (total > 0 && vectorStoreMetaMismatch(sourceMeta, currentMeta)) {
+    throw new Error(
+      `${from} holds vectors from ${describeVectorStoreMeta(sourceMeta)}, but the current embedding ` +
+      `provider is ${describeVectorStoreMeta(currentMeta)} - set EMBEDDING_PROVIDER / OLLAMA_EMBED_MODEL to match`
+    );
+  }
+
+  // Only the target is initialized: it records the embedding model the copied vectors
+  // belong to. Vectors it already holds from another model are an error, never cleared.
+  await target.initialize({ keepExisting: true });
+
+  let copied = 0;
+  while (copied < total) {
+    const page = await source.listVectors(copied, PAGE_SIZE);
+    if (page.length === 0) break;
+
+    await target.putVectors(page);
+    copied += page.length;
+    console.log(`   ${copied}/${total} vectors copied`);
+  }
+
+  const { count: targetCount } = await target.getStats();
+  console.log(`\n✅ Copied ${copied} vectors (${to} now holds ${targetCount})`);
+  console.log(`\nSet VECTOR_STORE=${to} and restart the app to use it.\n`);
+}
+
+migrateVectors().catch(error => {
+  console.error('❌ Vector migration failed:', error);
+  process.exit(1);
+});
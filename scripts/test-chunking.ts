@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+// scripts/test-chunking.ts
+// Phase 4: Message chunking checks (no database or embedding model needed)
+// Tests chunk sizes, overlap, code fence balancing and chunk-hit expansion
+
+import {
+  CHUNK_OVERLAP_TOKENS,
+  CHUNK_TARGET_TOKENS,
+  chunkEmbeddingId,
+  chunkMessage,
+  expandChunkResults,
+} from '../app/lib/memory/rag/chunking';
+import { countTokens } from '../app/lib/models/tokens';
+import { RetrievalResult } from '../app/lib/memory/schemas';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, ok: boolean, detail?: unknown) {
+  if (ok) {
+    console.log(`   ✓ ${name}`);
+    passed++;
+  } else {
+    console.log(`   ✗ ${name}${detail === undefined ? '' : ` → ${JSON.stringify(detail)}`}`);
+    failed++;
+  }
+}
+
+const fenceCount = (text: string) => (text.match(/^\s*(```|~~~)/gm) || []).length;
+
+const paragraph = (i: number) =>
+  `Paragraph ${i} explains the retry policy in detail. It covers backoff, jitter and limits. ` +
+  `The final sentence of paragraph ${i} is here.`;
+
+const codeBlock = '```ts\n' + Array.from({ length: 60 }, (_, i) =>
+  `function helper${i}(value: number) {\n  return value * ${i} + computeOffset(value, ${i});\n}\n`
+).join('\n') + '```';
+
+function hit(messageId: string, content: string, similarity: number, chunk?: RetrievalResult['chunk']): RetrievalResult {
+  return {
+    message: { id: messageId, conversation_id: 'c1', role: 'assistant', content, created_at: '2025-01-01T00:00:00Z' },
+    similarity_score: similarity,
+    content_type: 'message',
+    chunk,
+  };
+}
+
+function main() {
+  console.log('='.repeat(80));
+  console.log('Phase 4: Chunking Test');
+  console.log('='.repeat(80));
+  console.log();
+
+  // 1. Short messages are embedded whole
+  console.log('1. Short messages...');
+  const short = 'How do I retry a failed fetch?';
+  const shortChunks = chunkMessage(short);
+  check('one chunk holding the whole message', shortChunks.length === 1 && shortChunks[0].content === short, shortChunks);
+  check('chunk ids are <message id>#<index>', chunkEmbeddingId('msg_1', 2) === 'msg_1#2');
+  console.log();
+
+  // 2. Long prose: packed to the target, each chunk led in by the end of the previous one
+  console.log('2. Long prose...');
+  const prose = Array.from({ length: 30 }, (_, i) => paragraph(i)).join('\n\n');
+  const proseChunks = chunkMessage(prose);
+  const proseSizes = proseChunks.map(chunk => countTokens(chunk.content));
+  check('split into several chunks', proseChunks.length > 1, proseSizes);
+  check('indexes run 0..n-1', proseChunks.every((chunk, i) => chunk.index === i));
+  check(
+    `no chunk over target + overlap (${CHUNK_TARGET_TOKENS + CHUNK_OVERLAP_TOKENS} tokens)`,
+    proseSizes.every(size => size <= CHUNK_TARGET_TOKENS + CHUNK_OVERLAP_TOKENS),
+    proseSizes
+  );
+  const overlapsPrevious = proseChunks.slice(1).every((chunk, i) => {
+    const lead = chunk.content.split('\n\n')[0];
+    return lead.startsWith('…') && proseChunks[i].content.endsWith(lead.slice(1));
+  });
+  check('later chunks start with "…" and the tail of the previous chunk', overlapsPrevious);
+  const paragraphsKept = Array.from({ length: 30 }, (_, i) => paragraph(i))
+    .every(text => proseChunks.some(chunk => chunk.content.includes(text)));
+  check('every paragraph ends up in a chunk', paragraphsKept);
+  console.log();
+
+  // 3. A long code block is split between functions and re-fenced
+  console.log('3. Long code block...');
+  const codeChunks = chunkMessage(`Here is the module:\n\n${codeBlock}`);
+  check('split into several chunks', codeChunks.length > 2, codeChunks.length);
+  check(
+    'code fences balanced in every chunk',
+    codeChunks.every(chunk => fenceCount(chunk.content) % 2 === 0),
+    codeChunks.map(chunk => fenceCount(chunk.content))
+  );
+  check(
+    'split pieces re-open with the original fence (```ts)',
+    codeChunks.slice(1).every(chunk => chunk.content.includes('```ts\n'))
+  );
+  check(
+    'no function cut in half',
+    Array.from({ length: 60 }, (_, i) => `function helper${i}(value: number) {\n  return value * ${i} + computeOffset(value, ${i});\n}`)
+      .every(fn => codeChunks.some(chunk => chunk.content.includes(fn)))
+  );
+  console.log();
+
+  // 4. Headings start a new chunk, without overlap in front of them
+  console.log('4. Headings...');
+  const sections = [1, 2, 3].map(n =>
+    `## Section ${n}\n\n` + Array.from({ length: 5 }, (_, i) => paragraph(n * 10 + i)).join('\n\n')
+  ).join('\n\n');
+  const sectionChunks = chunkMessage(sections);
+  check(
+    'chunks for sections 2 and 3 begin with their heading',
+    ['## Section 2', '## Section 3'].every(heading => sectionChunks.some(chunk => chunk.content.startsWith(heading))),
+    sectionChunks.map(chunk => chunk.content.slice(0, 20))
+  );
+  console.log();
+
+  // 5. Chunk hits collapse onto their message
+  console.log('5. Expanding chunk hits...');
+  const longContent = Array.from({ length: 40 }, (_, i) => paragraph(i)).join('\n\n');
+  const twoHits = expandChunkResults([
+    hit('m1', longContent, 0.6, { index: 0, count: 4, content: 'first' }),
+    hit('m1', longContent, 0.8, { index: 2, count: 4, content: 'third' }),
+  ]);
+  check(
+    'two chunks of one message → one result, whole message, best score',
+    twoHits.length === 1 && twoHits[0].chunk === undefined && twoHits[0].similarity_score === 0.8,
+    twoHits.map(result => ({ score: result.similarity_score, chunk: result.chunk }))
+  );
+  const oneHit = expandChunkResults([hit('m2', longContent, 0.7, { index: 1, count: 4, content: 'second' })]);
+  check('one chunk of a long message → the chunk is kept', oneHit[0].chunk?.content === 'second');
+  const smallHit = expandChunkResults([hit('m3', paragraph(1), 0.7, { index: 0, count: 2, content: 'part' })]);
+  check('one chunk of a small message → expanded to the whole message', smallHit[0].chunk === undefined);
+  console.log();
+
+  console.log('='.repeat(80));
+  console.log(`${passed}/${passed + failed} checks passed`);
+  console.log('='.repeat(80));
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,123 @@
+#!/usr/bin/env tsx
+// scripts/test-context-block.ts
+// Memory context block checks (no database or embedding model needed)
+// Tests snippets around the match and packing into RAG_TOKEN_BUDGET
+
+import { packMemoryContext, snippetAround } from '../app/lib/memory/rag/contextBlock';
+import { countTokens } from '../app/lib/models/tokens';
+import { RetrievalResult } from '../app/lib/memory/schemas';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, ok: boolean, detail?: unknown) {
+  if (ok) {
+    console.log(`   ✓ ${name}`);
+    passed++;
+  } else {
+    console.log(`   ✗ ${name}${detail === undefined ? '' : ` → ${JSON.stringify(detail)}`}`);
+    failed++;
+  }
+}
+
+// Snippets may start with "…" right before a re-opened fence
+const fenceCount = (text: string) => (text.replace(/^…/, '').match(/^\s*(```|~~~)/gm) || []).length;
+
+const codeBlock = '```ts\n' + Array.from({ length: 60 }, (_, i) =>
+  `function helper${i}(value: number) {\n  return value * ${i} + computeOffset(value, ${i});\n}\n`
+).join('\n') + '```';
+
+const prose = Array.from({ length: 30 }, (_, i) =>
+  `Note ${i}: the deploy script tags release_${i} and uploads the bundle to the CDN.`
+).join('\n');
+
+function memory(
+  id: string,
+  content: string,
+  similarity: number,
+  extra: Partial<RetrievalResult> = {}
+): RetrievalResult {
+  return {
+    message: { id, conversation_id: 'c1', role: 'assistant', content, created_at: '2025-01-01T00:00:00Z' },
+    similarity_score: similarity,
+    content_type: 'message',
+    ...extra,
+  };
+}
+
+function main() {
+  console.log('='.repeat(80));
+  console.log('Memory Context Block Test');
+  console.log('='.repeat(80));
+  console.log();
+
+  // 1. Snippets from inside a code block
+  console.log('1. Snippet inside a code block...');
+  const content = `Intro line\n${codeBlock}\nOutro`;
+  const snippet = snippetAround(content, 'helper40', 60);
+  check('centred on the matching line', snippet.includes('function helper40(value: number) {'), snippet);
+  check('starts with "…" and the re-opened fence', snippet.startsWith('…```ts\n'), snippet.slice(0, 20));
+  check('ends with a closing fence and "…"', snippet.endsWith('\n```\n…'), snippet.slice(-20));
+  check('fences balanced', fenceCount(snippet) % 2 === 0, fenceCount(snippet));
+  check('within the token budget', countTokens(snippet) <= 60, countTokens(snippet));
+  console.log();
+
+  // 2. Content that already fits, no match, a match in the middle of prose
+  console.log('2. Other snippets...');
+  const small = 'Use this:\n```py\nprint(retry_count)\n```\nDone.';
+  check('content that fits is returned as is', snippetAround(small, 'retry_count', 100) === small);
+  const noMatch = snippetAround(prose, 'kubernetes', 30);
+  check('no match → the start of the content', noMatch.startsWith('Note 0: the deploy script'), noMatch.slice(0, 30));
+  check('no match → still within the budget', countTokens(noMatch) <= 30, countTokens(noMatch));
+  const deep = snippetAround(prose, 'release_25', 40);
+  check('match in the middle → "…" on both ends', deep.startsWith('…') && deep.endsWith('\n…'), deep);
+  check('match in the middle → no fence added to prose', fenceCount(deep) === 0);
+  console.log();
+
+  // 3. Packing
+  console.log('3. Packing...');
+  const describe = () => ({ title: 'Deploys', date: '2025-01-01' });
+  const none = packMemoryContext([], 'deploy', 500, describe);
+  check('no memories → empty block', none.block === '' && none.packed === 0);
+
+  const results = [
+    memory('low', 'The CDN cache is purged after each deploy.', 0.4),
+    memory('high', 'Deploys run from the release branch only.', 0.9),
+    memory('pinned', 'Always tag releases with the date.', 0, { pinned: true }),
+  ];
+  const packed = packMemoryContext(results, 'deploy', 500, describe);
+  const order = ['pinned', 'high', 'low'].map(id => packed.block.indexOf(results.find(r => r.message.id === id)!.message.content));
+  check('pinned first, then by score', order.every((position, i) => position >= 0 && (i === 0 || position > order[i - 1])), order);
+  check('memories numbered in packing order', packed.block.includes('[Memory 1] "Deploys" · 2025-01-01 (Pinned)'));
+  check('all three fit', packed.packed === 3 && packed.dropped === 0, packed);
+  check('tokensUsed is the block size', packed.tokensUsed === countTokens(packed.block));
+
+  const long = memory('long', `${prose}\n${prose}`, 0.8);
+  const roomy = packMemoryContext([long, ...results], 'release_12', 300, describe);
+  check('within a 300-token budget', roomy.tokensUsed <= 300, roomy.tokensUsed);
+  check('a long memory goes in as a snippet of the match', roomy.included.get('long') === 'snippet' &&
+    roomy.block.includes('release_12'), Array.from(roomy.included));
+  check('snippets are counted', roomy.snippeted === 1, roomy.snippeted);
+
+  const tight = packMemoryContext([long, ...results], 'release_12', 150, describe);
+  check('within a 150-token budget', tight.tokensUsed <= 150, tight.tokensUsed);
+  check('a memory without room is skipped, smaller ones still go in', !tight.included.has('long') &&
+    tight.included.has('high'), Array.from(tight.included));
+  check('what does not fit is counted as dropped', tight.dropped === 4 - tight.packed && tight.dropped > 0, tight.dropped);
+
+  const summary = packMemoryContext(
+    [memory('summary_c1', 'We discussed deploys.', 0.7, { content_type: 'conversation_summary' })],
+    'deploy',
+    500,
+    describe
+  );
+  check('summaries are labelled as such', summary.block.includes('[Conversation Summary]'));
+  console.log();
+
+  console.log('='.repeat(80));
+  console.log(`${passed}/${passed + failed} checks passed`);
+  console.log('='.repeat(80));
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -112,7 +112,7 @@ async function testPhase1() {
 
   // 8. Cleanup
   console.log('9. Cleaning up test data...');
-  memory.deleteConversation(conversation.id);
+  await memory.deleteConversation(conversation.id);
   console.log('✓ Test conversation deleted\n');
 
   console.log('======================================');
@@ -161,7 +161,7 @@ notes: Prefer hooks over classes, async/await over promises`;
 
   // Cleanup
   console.log('9. Cleaning up test data...');
-  memory.deleteConversation(conversation.id);
+  await memory.deleteConversation(conversation.id);
   await memory.clearUserProfile();
   console.log('   ✓ Test data cleaned up\n');
 
@@ -0,0 +1,115 @@
+#!/usr/bin/env tsx
+// scripts/test-retrieval-eval.ts
+// Retrieval evaluation checks (no database or embedding model needed)
+// Tests the recall/MRR/nDCG scoring, the rerank grid and query set parsing
+
+import {
+  compareEvalResults,
+  parseEvalQueries,
+  rerankWeightGrid,
+  scoreRanking,
+} from '../app/lib/memory/rag/evaluation';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, ok: boolean, detail?: unknown) {
+  if (ok) {
+    console.log(`   ✓ ${name}`);
+    passed++;
+  } else {
+    console.log(`   ✗ ${name}${detail === undefined ? '' : ` → ${JSON.stringify(detail)}`}`);
+    failed++;
+  }
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+function throwsWith(fn: () => unknown, message: string): boolean {
+  try {
+    fn();
+    return false;
+  } catch (error) {
+    return error instanceof Error && error.message === message;
+  }
+}
+
+function main() {
+  console.log('='.repeat(80));
+  console.log('Retrieval Evaluation Test');
+  console.log('='.repeat(80));
+  console.log();
+
+  // 1. Scoring one ranking
+  console.log('1. Scoring...');
+  const perfect = scoreRanking(['a', 'b', 'x'], ['a', 'b'], 3);
+  check('both relevant at the top → 1 / 1 / 1', close(perfect.recall, 1) && close(perfect.mrr, 1) && close(perfect.ndcg, 1), perfect);
+
+  // DCG = 1 + 1/log2(4), ideal DCG = 1 + 1/log2(3)
+  const gap = scoreRanking(['a', 'x', 'b'], ['a', 'b'], 3);
+  check('relevant at ranks 1 and 3 → nDCG 0.9197', close(gap.ndcg, (1 + 1 / 2) / (1 + 1 / Math.log2(3))), gap);
+
+  const late = scoreRanking(['x', 'y', 'a'], ['a'], 3);
+  check('first hit at rank 3 → MRR 1/3', close(late.mrr, 1 / 3) && close(late.recall, 1), late);
+
+  // Ideal DCG only counts the k positions there are, not every relevant id
+  const manyRelevant = scoreRanking(['a', 'b'], ['a', 'b', 'c', 'd'], 2);
+  check('more relevant ids than k → nDCG 1 when the top k are all relevant', close(manyRelevant.ndcg, 1), manyRelevant);
+  check('...while recall is 2/4', close(manyRelevant.recall, 0.5), manyRelevant);
+
+  const beyondK = scoreRanking(['x', 'y', 'a'], ['a'], 2);
+  check('hit below k → all zero', beyondK.recall === 0 && beyondK.mrr === 0 && beyondK.ndcg === 0, beyondK);
+
+  const duplicates = scoreRanking(['a', 'a', 'b'], ['a', 'b'], 2);
+  check('a repeated id takes one rank', close(duplicates.recall, 1) && close(duplicates.ndcg, 1), duplicates);
+
+  const noLabels = scoreRanking(['a'], [], 5);
+  check('no relevant ids → zeros, not NaN', noLabels.recall === 0 && noLabels.ndcg === 0, noLabels);
+  console.log();
+
+  // 2. Rerank grid
+  console.log('2. Rerank grid...');
+  const grid = rerankWeightGrid(0.1);
+  check('step 0.1 → 66 combinations', grid.length === 66, grid.length);
+  check('every combination sums to exactly 1', grid.every(w => w.alpha + w.beta + w.gamma === 1),
+    grid.filter(w => w.alpha + w.beta + w.gamma !== 1).slice(0, 3));
+  check('no negative weights', grid.every(w => w.alpha >= 0 && w.beta >= 0 && w.gamma >= 0));
+  check('corners included', [[1, 0, 0], [0, 1, 0], [0, 0, 1]].every(([alpha, beta, gamma]) =>
+    grid.some(w => w.alpha === alpha && w.beta === beta && w.gamma === gamma)));
+  check('no duplicates', new Set(grid.map(w => `${w.alpha},${w.beta},${w.gamma}`)).size === grid.length);
+  check('step 0.5 → 6 combinations', rerankWeightGrid(0.5).length === 6);
+  console.log();
+
+  // 3. Ordering results
+  console.log('3. Ordering...');
+  const ordered = [
+    { mode: 'dense' as const, recall: 0.9, mrr: 0.5, ndcg: 0.6 },
+    { mode: 'fts' as const, recall: 0.5, mrr: 0.9, ndcg: 0.7 },
+    { mode: 'hybrid' as const, recall: 0.8, mrr: 0.8, ndcg: 0.7 },
+  ].sort(compareEvalResults).map(result => result.mode);
+  check('highest nDCG first, ties broken by MRR', ordered.join(',') === 'fts,hybrid,dense', ordered);
+  console.log();
+
+  // 4. Query set parsing
+  console.log('4. Query sets...');
+  const queries = parseEvalQueries([
+    '// labeled by hand',
+    '{"query": "retry policy", "relevant_ids": ["m1", "m2"], "conversation_id": "c1"}',
+    '',
+    '{"query": "deploy", "relevant_ids": ["m3"]}',
+  ].join('\n'));
+  check('comments and blank lines skipped', queries.length === 2, queries.length);
+  check('conversation_id kept when given', queries[0].conversation_id === 'c1' && queries[1].conversation_id === undefined);
+  check('bad JSON names its line', throwsWith(() => parseEvalQueries('{"query": "a", "relevant_ids": ["m1"]}\n{oops'),
+    'Line 2: not valid JSON'));
+  check('empty relevant_ids rejected', throwsWith(() => parseEvalQueries('{"query": "a", "relevant_ids": []}'),
+    'Line 1: "relevant_ids" must be a non-empty array of message ids'));
+  console.log();
+
+  console.log('='.repeat(80));
+  console.log(`${passed}/${passed + failed} checks passed`);
+  console.log('='.repeat(80));
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,88 @@
+#!/usr/bin/env tsx
+// scripts/test-sandbox-isolation.ts
+// Sandbox isolation checks: Python can't reach the runner's JavaScript, and no state
+// carries over from one run to the next
+// Usage: tsx scripts/test-sandbox-isolation.ts (from the repo root, so Pyodide resolves)
+
+import { runPython } from '../app/lib/tools/sandbox';
+
+interface IsolationCase {
+  name: string;
+  source: string;
+  expectStdout?: string;
+  expectError?: RegExp;
+}
+
+const CASES: IsolationCase[] = [
+  {
+    name: 'import js fails',
+    source: 'import js',
+    expectError: /ModuleNotFoundError/,
+  },
+  {
+    name: "import js fails after del sys.modules['js']",
+    source: "import sys\nsys.modules.pop('js', None)\nimport js\nprint(js.process.version)",
+    expectError: /ModuleNotFoundError/,
+  },
+  {
+    name: 'import pyodide_js fails',
+    source: "import sys\nsys.modules.pop('pyodide_js', None)\nimport pyodide_js",
+    expectError: /ModuleNotFoundError/,
+  },
+  {
+    name: 'no pyodide_js modules left loaded',
+    source: "import sys\nprint(sorted(name for name in sys.modules if name == 'js' or name.startswith('pyodide_js')))",
+    expectStdout: '[]',
+  },
+  {
+    name: 'JS import hook removed from sys.meta_path',
+    source: "import sys\nprint([type(finder).__name__ for finder in sys.meta_path if type(finder).__name__ == 'JsFinder'])",
+    expectStdout: '[]',
+  },
+  {
+    name: 'run 1 sets a builtins attribute',
+    source: "import builtins\nbuiltins.leaked = 'run 1'\nprint(builtins.leaked)",
+    expectStdout: 'run 1',
+  },
+  {
+    name: 'run 2 does not see it',
+    source: "import builtins\nprint(getattr(builtins, 'leaked', 'clean'))",
+    expectStdout: 'clean',
+  },
+];
+
+async function main() {
+  console.log('='.repeat(80));
+  console.log('Sandbox Isolation Test');
+  console.log('='.repeat(80));
+  console.log();
+
+  let passed = 0;
+  for (const testCase of CASES) {
+    const result = await runPython({ files: { 'main.py': testCase.source }, entrypoint: 'main.py' });
+    const stdout = result.stdout.trim();
+
+    const ok = testCase.expectError
+      ? testCase.expectError.test(result.error || '')
+      : result.error === null && stdout === testCase.expectStdout;
+
+    if (ok) {
+      console.log(`   ✓ ${testCase.name}`);
+      passed++;
+    } else {
+      console.log(`   ✗ ${testCase.name} → stdout ${JSON.stringify(stdout)}, error ${JSON.stringify(result.error)}`);
+    }
+  }
+
+  console.log(`\n   ${passed}/${CASES.length} tests passed\n`);
+  if (passed !== CASES.length) {
+    throw new Error(`${CASES.length - passed} isolation check(s) failed`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  });